@@ -7,12 +7,36 @@ import { ProtectedRoute } from "./components/ProtectedRoute";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import Products from "./pages/Products";
+import ProductDetail from "./pages/ProductDetail";
 import Categories from "./pages/Categories";
 import Suppliers from "./pages/Suppliers";
+import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
+import Units from "./pages/Units";
+import Locations from "./pages/Locations";
 import StockMovements from "./pages/StockMovements";
+import StockTakes from "./pages/StockTakes";
+import StockTakeDetail from "./pages/StockTakeDetail";
 import Requirements from "./pages/Requirements";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import GoodsReceipts from "./pages/GoodsReceipts";
+import SalesInvoices from "./pages/SalesInvoices";
+import SalesInvoicePrint from "./pages/SalesInvoicePrint";
+import Quotations from "./pages/Quotations";
+import QuotationPrint from "./pages/QuotationPrint";
+import Projects from "./pages/Projects";
+import ProjectDetail from "./pages/ProjectDetail";
+import Boqs from "./pages/Boqs";
+import BoqPrint from "./pages/BoqPrint";
+import JobCards from "./pages/JobCards";
+import JobCardDetail from "./pages/JobCardDetail";
+import JobCardPrint from "./pages/JobCardPrint";
 import Reports from "./pages/Reports";
 import AutoImport from "./pages/AutoImport";
+import Reconciliation from "./pages/Reconciliation";
+import Users from "./pages/Users";
+import AuditLog from "./pages/AuditLog";
+import Roles from "./pages/Roles";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -27,12 +51,36 @@ const App = () => (
           <Route path="/" element={<Auth />} />
           <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
           <Route path="/products" element={<ProtectedRoute><Products /></ProtectedRoute>} />
+          <Route path="/products/:id" element={<ProtectedRoute><ProductDetail /></ProtectedRoute>} />
           <Route path="/categories" element={<ProtectedRoute><Categories /></ProtectedRoute>} />
           <Route path="/suppliers" element={<ProtectedRoute><Suppliers /></ProtectedRoute>} />
+          <Route path="/customers" element={<ProtectedRoute><Customers /></ProtectedRoute>} />
+          <Route path="/customers/:id" element={<ProtectedRoute><CustomerDetail /></ProtectedRoute>} />
+          <Route path="/units" element={<ProtectedRoute><Units /></ProtectedRoute>} />
+          <Route path="/locations" element={<ProtectedRoute><Locations /></ProtectedRoute>} />
           <Route path="/stock-movements" element={<ProtectedRoute><StockMovements /></ProtectedRoute>} />
+          <Route path="/stock-takes" element={<ProtectedRoute><StockTakes /></ProtectedRoute>} />
+          <Route path="/stock-takes/:id" element={<ProtectedRoute><StockTakeDetail /></ProtectedRoute>} />
           <Route path="/requirements" element={<ProtectedRoute><Requirements /></ProtectedRoute>} />
+          <Route path="/purchase-orders" element={<ProtectedRoute><PurchaseOrders /></ProtectedRoute>} />
+          <Route path="/goods-receipts" element={<ProtectedRoute><GoodsReceipts /></ProtectedRoute>} />
+          <Route path="/sales-invoices" element={<ProtectedRoute><SalesInvoices /></ProtectedRoute>} />
+          <Route path="/sales-invoices/:id/print" element={<ProtectedRoute><SalesInvoicePrint /></ProtectedRoute>} />
+          <Route path="/quotations" element={<ProtectedRoute><Quotations /></ProtectedRoute>} />
+          <Route path="/quotations/:id/print" element={<ProtectedRoute><QuotationPrint /></ProtectedRoute>} />
+          <Route path="/projects" element={<ProtectedRoute><Projects /></ProtectedRoute>} />
+          <Route path="/projects/:id" element={<ProtectedRoute><ProjectDetail /></ProtectedRoute>} />
+          <Route path="/boqs" element={<ProtectedRoute><Boqs /></ProtectedRoute>} />
+          <Route path="/boqs/:id/print" element={<ProtectedRoute><BoqPrint /></ProtectedRoute>} />
+          <Route path="/job-cards" element={<ProtectedRoute><JobCards /></ProtectedRoute>} />
+          <Route path="/job-cards/:id" element={<ProtectedRoute><JobCardDetail /></ProtectedRoute>} />
+          <Route path="/job-cards/:id/print" element={<ProtectedRoute><JobCardPrint /></ProtectedRoute>} />
           <Route path="/reports" element={<ProtectedRoute><Reports /></ProtectedRoute>} />
           <Route path="/auto-import" element={<ProtectedRoute><AutoImport /></ProtectedRoute>} />
+          <Route path="/reconciliation" element={<ProtectedRoute><Reconciliation /></ProtectedRoute>} />
+          <Route path="/users" element={<ProtectedRoute><Users /></ProtectedRoute>} />
+          <Route path="/roles" element={<ProtectedRoute><Roles /></ProtectedRoute>} />
+          <Route path="/audit-log" element={<ProtectedRoute><AuditLog /></ProtectedRoute>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,86 @@
+import { format } from "date-fns";
+import { DocumentLetterhead } from "@/components/DocumentLetterhead";
+import { BUSINESS_DETAILS } from "@/lib/business";
+import { boqAmounts, type Boq } from "@/lib/boq";
+import { formatQuantity } from "@/lib/quantity";
+
+const money = (value: number) => `₹${value.toFixed(2)}`;
+
+// Priced bill of quantities as submitted with a tender. Cost and margin stay internal and
+// are not printed.
+export function BoqDocument({ boq }: { boq: Boq }) {
+  const { lines, totals } = boqAmounts(boq);
+  const rows = [
+    { label: "Taxable Value", value: totals.taxable },
+    { label: "CGST", value: totals.cgst, hidden: boq.inter_state },
+    { label: "SGST", value: totals.sgst, hidden: boq.inter_state },
+    { label: "IGST", value: totals.igst, hidden: !boq.inter_state },
+    { label: "Round Off", value: totals.roundOff, hidden: totals.roundOff === 0 },
+  ].filter(row => !row.hidden);
+
+  return (
+    <div className="bg-white text-black mx-auto w-full max-w-[190mm] text-sm">
+      <DocumentLetterhead title="BILL OF QUANTITIES">
+        <p>{boq.boq_number}</p>
+        <p>Date: {format(new Date(boq.boq_date), "dd/MM/yyyy")}</p>
+        {boq.tender_ref && <p>Tender: {boq.tender_ref}</p>}
+      </DocumentLetterhead>
+
+      <div className="mb-2">
+        <p className="font-semibold">{boq.title}</p>
+        {boq.department && <p>Department: {boq.department}</p>}
+      </div>
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-y border-black">
+            <th className="text-left p-1">S.No.</th>
+            <th className="text-left p-1">Item</th>
+            <th className="text-left p-1">HSN</th>
+            <th className="text-right p-1">Qty</th>
+            <th className="text-right p-1">Rate</th>
+            <th className="text-right p-1">Amount</th>
+            <th className="text-right p-1">GST %</th>
+            <th className="text-right p-1">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {boq.boq_lines.map((line, index) => (
+            <tr key={line.id} className="border-b border-gray-300">
+              <td className="p-1">{line.line_no}</td>
+              <td className="p-1">{line.description}</td>
+              <td className="p-1">{line.hsn_code || "-"}</td>
+              <td className="p-1 text-right">{formatQuantity(line.quantity)} {line.unit}</td>
+              <td className="p-1 text-right">{line.unit_price.toFixed(2)}</td>
+              <td className="p-1 text-right">{lines[index].taxable.toFixed(2)}</td>
+              <td className="p-1 text-right">{line.gst_rate}</td>
+              <td className="p-1 text-right">{lines[index].total.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-2 ml-auto w-64">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span>{row.label}</span>
+            <span>{money(row.value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-bold border-t border-black mt-1 pt-1">
+          <span>Grand Total</span>
+          <span>{money(totals.grandTotal)}</span>
+        </div>
+      </div>
+
+      {boq.notes && <p className="mt-4 whitespace-pre-line">{boq.notes}</p>}
+
+      <div className="mt-10 flex justify-end">
+        <div className="text-center">
+          <div className="h-10" />
+          <p className="border-t border-black pt-1">For {BUSINESS_DETAILS.name}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { Building2, Mail, MapPin, Phone } from "lucide-react";
 import idealLogo from "@/assets/ideal-logo-new.png";
+import { BUSINESS_DETAILS } from "@/lib/business";
 
 export const BusinessHeader = () => {
   return (
@@ -7,12 +8,12 @@ export const BusinessHeader = () => {
       <div className="flex items-center gap-4 mb-4">
         <img 
           src={idealLogo} 
-          alt="IDEAL ELECTRICALS Logo" 
+          alt={`${BUSINESS_DETAILS.name} Logo`} 
           className="w-16 h-16 rounded-lg bg-white/10 p-1"
         />
         <div>
-          <h1 className="text-3xl font-bold">IDEAL ELECTRICALS</h1>
-          <p className="text-sm opacity-90">Govt. Regd. Contractor</p>
+          <h1 className="text-3xl font-bold">{BUSINESS_DETAILS.name}</h1>
+          <p className="text-sm opacity-90">{BUSINESS_DETAILS.tagline}</p>
         </div>
       </div>
       
@@ -21,7 +22,7 @@ export const BusinessHeader = () => {
           <Building2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">M.C. No.</p>
-            <p className="opacity-90">3203100145090122024</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.mcNo}</p>
           </div>
         </div>
         
@@ -29,7 +30,7 @@ export const BusinessHeader = () => {
           <Building2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">Vendor No.</p>
-            <p className="opacity-90">100037533</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.vendorNo}</p>
           </div>
         </div>
         
@@ -37,7 +38,7 @@ export const BusinessHeader = () => {
           <Building2 className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">GST No.</p>
-            <p className="opacity-90">27DGQPM5400R1ZN</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.gstin}</p>
           </div>
         </div>
         
@@ -45,7 +46,7 @@ export const BusinessHeader = () => {
           <Phone className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">Mobile</p>
-            <p className="opacity-90">+91 9028165082</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.mobile}</p>
           </div>
         </div>
         
@@ -53,7 +54,7 @@ export const BusinessHeader = () => {
           <Mail className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">Email</p>
-            <p className="opacity-90">iqbaljamsheed143@gmail.com</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.email}</p>
           </div>
         </div>
         
@@ -61,7 +62,7 @@ export const BusinessHeader = () => {
           <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
           <div>
             <p className="font-semibold">Location</p>
-            <p className="opacity-90">Tarasingh Market, Vazirabad, Nanded – 431601</p>
+            <p className="opacity-90">{BUSINESS_DETAILS.address}</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,26 @@
+import { Button } from "@/components/ui/button";
+import { MessageSquare, Phone } from "lucide-react";
+
+interface ContactActionsProps {
+  phone: string;
+}
+
+// Call and WhatsApp buttons for a supplier or customer phone number
+export function ContactActions({ phone }: ContactActionsProps) {
+  return (
+    <div className="flex gap-2 mt-4">
+      <Button size="sm" variant="secondary" asChild className="flex-1">
+        <a href={`tel:${phone}`}>
+          <Phone className="w-4 h-4 mr-1" />
+          Call
+        </a>
+      </Button>
+      <Button size="sm" variant="secondary" asChild className="flex-1">
+        <a href={`https://wa.me/${phone.replace(/[^0-9]/g, '')}`} target="_blank" rel="noopener noreferrer">
+          <MessageSquare className="w-4 h-4 mr-1" />
+          WhatsApp
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -4,28 +4,34 @@ import Papa from "papaparse";
 import { toast } from "sonner";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
-interface CsvExportProps {
-  data: any[];
+interface CsvExportProps<T extends Record<string, unknown>> {
+  // Rows to export, or a loader for tables that only hold one page; count is then the
+  // number of rows the loader will return
+  data: T[] | (() => Promise<T[]>);
+  count?: number;
   filename: string;
   disabled?: boolean;
 }
 
-export function CsvExport({ data, filename, disabled }: CsvExportProps) {
-  const sanitizeForCSV = (value: any) => {
+export function CsvExport<T extends Record<string, unknown>>({ data, count, filename, disabled }: CsvExportProps<T>) {
+  const total = Array.isArray(data) ? data.length : count ?? 0;
+
+  const sanitizeForCSV = (value: unknown) => {
     if (typeof value === 'string' && (value.startsWith('=') || value.startsWith('+') || value.startsWith('-') || value.startsWith('@'))) {
       return "'" + value;
     }
     return value;
   };
 
-  const handleExport = () => {
+  const handleExport = async () => {
     try {
-      if (data.length === 0) {
+      const rows = Array.isArray(data) ? data : await data();
+      if (rows.length === 0) {
         toast.error("No data to export");
         return;
       }
 
-      const sanitizedData = data.map(row => 
+      const sanitizedData = rows.map(row => 
         Object.fromEntries(
           Object.entries(row).map(([key, value]) => [key, sanitizeForCSV(value)])
         )
@@ -67,7 +73,7 @@ export function CsvExport({ data, filename, disabled }: CsvExportProps) {
           </Button>
         </TooltipTrigger>
         <TooltipContent>
-          <p>{data.length === 0 ? "No records to export" : `Export ${data.length} record${data.length === 1 ? '' : 's'}`}</p>
+          <p>{total === 0 ? "No records to export" : `Export ${total} record${total === 1 ? '' : 's'}`}</p>
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
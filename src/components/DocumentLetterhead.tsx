@@ -0,0 +1,33 @@
+import { ReactNode } from "react";
+import idealLogo from "@/assets/ideal-logo-new.png";
+import { BUSINESS_DETAILS } from "@/lib/business";
+
+interface DocumentLetterheadProps {
+  title: string;
+  children?: ReactNode;
+}
+
+// Full business letterhead for A4 documents such as quotations and BOQs; the right-hand
+// block carries the document title and whatever numbers and dates the caller passes in.
+export function DocumentLetterhead({ title, children }: DocumentLetterheadProps) {
+  return (
+    <div className="flex justify-between gap-4 border-b border-black pb-2 mb-2">
+      <div className="flex gap-3">
+        <img src={idealLogo} alt={`${BUSINESS_DETAILS.name} Logo`} className="w-16 h-16 object-contain" />
+        <div>
+          <h1 className="text-2xl font-bold">{BUSINESS_DETAILS.name}</h1>
+          <p className="italic">{BUSINESS_DETAILS.tagline}</p>
+          <p>{BUSINESS_DETAILS.address}</p>
+          <p>Mobile: {BUSINESS_DETAILS.mobile} · Email: {BUSINESS_DETAILS.email}</p>
+          <p>
+            GSTIN: {BUSINESS_DETAILS.gstin} · M.C. No.: {BUSINESS_DETAILS.mcNo} · Vendor No.: {BUSINESS_DETAILS.vendorNo}
+          </p>
+        </div>
+      </div>
+      <div className="text-right">
+        <p className="font-bold">{title}</p>
+        {children}
+      </div>
+    </div>
+  );
+}
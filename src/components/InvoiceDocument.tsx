@@ -0,0 +1,184 @@
+import { format } from "date-fns";
+import { BUSINESS_DETAILS } from "@/lib/business";
+import { formatQuantity } from "@/lib/quantity";
+import { cn } from "@/lib/utils";
+
+export interface SalesInvoiceLine {
+  id: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  discount_percent: number;
+  gst_rate: number;
+  taxable_value: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  line_total: number;
+}
+
+export interface SalesInvoice {
+  id: string;
+  invoice_number: string;
+  invoice_date: string;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_gstin: string | null;
+  customer_address: string | null;
+  inter_state: boolean;
+  payment_type: string;
+  subtotal: number;
+  discount_total: number;
+  taxable_total: number;
+  cgst_total: number;
+  sgst_total: number;
+  igst_total: number;
+  round_off: number;
+  grand_total: number;
+  notes: string | null;
+  sales_invoice_lines: SalesInvoiceLine[];
+}
+
+export type InvoicePaperSize = "a4" | "thermal";
+
+interface InvoiceDocumentProps {
+  invoice: SalesInvoice;
+  paper: InvoicePaperSize;
+}
+
+const money = (value: number) => `₹${value.toFixed(2)}`;
+
+// Printable tax invoice. A4 carries the full GST breakup per line; thermal (80 mm) keeps
+// one line per item and the tax summary at the bottom.
+export function InvoiceDocument({ invoice, paper }: InvoiceDocumentProps) {
+  const thermal = paper === "thermal";
+  const totals = [
+    { label: "Subtotal", value: invoice.subtotal },
+    { label: "Discount", value: -invoice.discount_total, hidden: invoice.discount_total === 0 },
+    { label: "Taxable Value", value: invoice.taxable_total },
+    { label: "CGST", value: invoice.cgst_total, hidden: invoice.inter_state },
+    { label: "SGST", value: invoice.sgst_total, hidden: invoice.inter_state },
+    { label: "IGST", value: invoice.igst_total, hidden: !invoice.inter_state },
+    { label: "Round Off", value: invoice.round_off, hidden: invoice.round_off === 0 },
+  ].filter(row => !row.hidden);
+
+  return (
+    <div className={cn("bg-white text-black mx-auto", thermal ? "w-[72mm] text-[11px]" : "w-full max-w-[190mm] text-sm")}>
+      <div className={cn("border-b border-black pb-2 mb-2", thermal ? "text-center" : "flex justify-between gap-4")}>
+        <div>
+          <h1 className={cn("font-bold", thermal ? "text-base" : "text-2xl")}>{BUSINESS_DETAILS.name}</h1>
+          <p>{BUSINESS_DETAILS.address}</p>
+          <p>Mobile: {BUSINESS_DETAILS.mobile}</p>
+          {!thermal && <p>Email: {BUSINESS_DETAILS.email}</p>}
+          <p>GSTIN: {BUSINESS_DETAILS.gstin}</p>
+        </div>
+        <div className={thermal ? "mt-1" : "text-right"}>
+          <p className="font-bold">TAX INVOICE</p>
+          <p>{invoice.invoice_number}</p>
+          <p>{format(new Date(invoice.invoice_date), "dd/MM/yyyy")}</p>
+        </div>
+      </div>
+
+      <div className="mb-2">
+        <p className="font-semibold">Bill to: {invoice.customer_name}</p>
+        {invoice.customer_address && <p>{invoice.customer_address}</p>}
+        {invoice.customer_phone && <p>Phone: {invoice.customer_phone}</p>}
+        {invoice.customer_gstin && <p>GSTIN: {invoice.customer_gstin}</p>}
+        <p>Place of supply: {invoice.inter_state ? "Inter-state" : "Within state"}</p>
+        {invoice.payment_type === "Credit" && <p className="font-semibold">Credit sale</p>}
+      </div>
+
+      {thermal ? (
+        <div className="border-y border-dashed border-black py-1">
+          {invoice.sales_invoice_lines.map((line) => (
+            <div key={line.id} className="py-0.5">
+              <p>{line.description}</p>
+              <div className="flex justify-between">
+                <span>
+                  {formatQuantity(line.quantity)} {line.unit} × {money(line.unit_price)}
+                  {line.discount_percent > 0 && ` -${line.discount_percent}%`}
+                  {` @${line.gst_rate}%`}
+                </span>
+                <span>{money(line.line_total)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <table className="w-full border-collapse">
+          <thead>
+            <tr className="border-y border-black">
+              <th className="text-left p-1">#</th>
+              <th className="text-left p-1">Item</th>
+              <th className="text-left p-1">HSN</th>
+              <th className="text-right p-1">Qty</th>
+              <th className="text-right p-1">Rate</th>
+              <th className="text-right p-1">Disc %</th>
+              <th className="text-right p-1">Taxable</th>
+              <th className="text-right p-1">GST %</th>
+              {invoice.inter_state ? (
+                <th className="text-right p-1">IGST</th>
+              ) : (
+                <>
+                  <th className="text-right p-1">CGST</th>
+                  <th className="text-right p-1">SGST</th>
+                </>
+              )}
+              <th className="text-right p-1">Amount</th>
+            </tr>
+          </thead>
+          <tbody>
+            {invoice.sales_invoice_lines.map((line, index) => (
+              <tr key={line.id} className="border-b border-gray-300">
+                <td className="p-1">{index + 1}</td>
+                <td className="p-1">{line.description}</td>
+                <td className="p-1">{line.hsn_code || "-"}</td>
+                <td className="p-1 text-right">{formatQuantity(line.quantity)} {line.unit}</td>
+                <td className="p-1 text-right">{line.unit_price.toFixed(2)}</td>
+                <td className="p-1 text-right">{line.discount_percent > 0 ? line.discount_percent : "-"}</td>
+                <td className="p-1 text-right">{line.taxable_value.toFixed(2)}</td>
+                <td className="p-1 text-right">{line.gst_rate}</td>
+                {invoice.inter_state ? (
+                  <td className="p-1 text-right">{line.igst.toFixed(2)}</td>
+                ) : (
+                  <>
+                    <td className="p-1 text-right">{line.cgst.toFixed(2)}</td>
+                    <td className="p-1 text-right">{line.sgst.toFixed(2)}</td>
+                  </>
+                )}
+                <td className="p-1 text-right">{line.line_total.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className={cn("mt-2", !thermal && "ml-auto w-64")}>
+        {totals.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span>{row.label}</span>
+            <span>{money(row.value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-bold border-t border-black mt-1 pt-1">
+          <span>Grand Total</span>
+          <span>{money(invoice.grand_total)}</span>
+        </div>
+      </div>
+
+      {invoice.notes && <p className="mt-2">{invoice.notes}</p>}
+
+      <div className={cn("mt-6", thermal ? "text-center" : "flex justify-between items-end")}>
+        <p>Thank you for your business</p>
+        {!thermal && (
+          <div className="text-center">
+            <div className="h-10" />
+            <p className="border-t border-black pt-1">For {BUSINESS_DETAILS.name}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { format } from "date-fns";
+import { DocumentLetterhead } from "@/components/DocumentLetterhead";
+import { BUSINESS_DETAILS } from "@/lib/business";
+import { jobCardBill, type JobCard } from "@/lib/jobCards";
+import { formatQuantity } from "@/lib/quantity";
+
+const money = (value: number) => `₹${value.toFixed(2)}`;
+
+// Handed to the customer when the appliance is booked in; once the job is ready the same
+// slip carries the bill for parts and labour.
+export function JobCardReceipt({ job }: { job: JobCard }) {
+  const billed = job.status === "Ready" || job.status === "Delivered";
+  const { parts, labour, totals, balanceDue } = jobCardBill(job);
+  const rows = [
+    { label: "Taxable Value", value: totals.taxable },
+    { label: "CGST", value: totals.cgst },
+    { label: "SGST", value: totals.sgst },
+    { label: "Round Off", value: totals.roundOff, hidden: totals.roundOff === 0 },
+  ].filter(row => !row.hidden);
+
+  return (
+    <div className="bg-white text-black mx-auto w-full max-w-[190mm] text-sm">
+      <DocumentLetterhead title={billed ? "REPAIR BILL" : "JOB RECEIPT"}>
+        <p>{job.job_number}</p>
+        <p>Received: {format(new Date(job.received_date), "dd/MM/yyyy")}</p>
+        {job.delivered_at && <p>Delivered: {format(new Date(job.delivered_at), "dd/MM/yyyy")}</p>}
+      </DocumentLetterhead>
+
+      <div className="grid grid-cols-2 gap-4 mb-2">
+        <div>
+          <p className="font-semibold">Customer: {job.customer_name}</p>
+          {job.customer_phone && <p>Phone: {job.customer_phone}</p>}
+        </div>
+        <div>
+          <p className="font-semibold">
+            {job.appliance_type}{job.appliance_details ? ` — ${job.appliance_details}` : ""}
+          </p>
+          {job.serial_no && <p>Serial No.: {job.serial_no}</p>}
+          <p>Fault reported: {job.fault}</p>
+          {billed && job.diagnosis && <p>Work done: {job.diagnosis}</p>}
+        </div>
+      </div>
+
+      {billed ? (
+        <>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-y border-black">
+                <th className="text-left p-1">#</th>
+                <th className="text-left p-1">Item</th>
+                <th className="text-left p-1">HSN</th>
+                <th className="text-right p-1">Qty</th>
+                <th className="text-right p-1">Rate</th>
+                <th className="text-right p-1">Taxable</th>
+                <th className="text-right p-1">GST %</th>
+                <th className="text-right p-1">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.job_card_parts.map((part, index) => (
+                <tr key={part.id} className="border-b border-gray-300">
+                  <td className="p-1">{index + 1}</td>
+                  <td className="p-1">{part.description}</td>
+                  <td className="p-1">{part.hsn_code || "-"}</td>
+                  <td className="p-1 text-right">{formatQuantity(part.quantity)} {part.unit}</td>
+                  <td className="p-1 text-right">{part.unit_price.toFixed(2)}</td>
+                  <td className="p-1 text-right">{parts[index].taxable.toFixed(2)}</td>
+                  <td className="p-1 text-right">{part.gst_rate}</td>
+                  <td className="p-1 text-right">{parts[index].total.toFixed(2)}</td>
+                </tr>
+              ))}
+              {job.labour_charge > 0 && (
+                <tr className="border-b border-gray-300">
+                  <td className="p-1">{job.job_card_parts.length + 1}</td>
+                  <td className="p-1">Labour charge</td>
+                  <td className="p-1">-</td>
+                  <td className="p-1 text-right">-</td>
+                  <td className="p-1 text-right">-</td>
+                  <td className="p-1 text-right">{labour.taxable.toFixed(2)}</td>
+                  <td className="p-1 text-right">{job.labour_gst_rate}</td>
+                  <td className="p-1 text-right">{labour.total.toFixed(2)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          <div className="mt-2 ml-auto w-64">
+            {rows.map((row) => (
+              <div key={row.label} className="flex justify-between">
+                <span>{row.label}</span>
+                <span>{money(row.value)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold border-t border-black mt-1 pt-1">
+              <span>Total</span>
+              <span>{money(totals.grandTotal)}</span>
+            </div>
+            {job.advance_paid > 0 && (
+              <>
+                <div className="flex justify-between">
+                  <span>Advance paid</span>
+                  <span>{money(-job.advance_paid)}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>{balanceDue < 0 ? "Refund due" : "Balance due"}</span>
+                  <span>{money(Math.abs(balanceDue))}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="border-y border-black py-2 space-y-1">
+          {job.promised_date && <p>Expected ready by: {format(new Date(job.promised_date), "dd/MM/yyyy")}</p>}
+          {job.estimate !== null && <p>Estimated charge: {money(job.estimate)} (final bill may vary with parts required)</p>}
+          {job.advance_paid > 0 && <p>Advance received: {money(job.advance_paid)}</p>}
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-between items-end gap-4">
+        <div className="text-xs">
+          <p>Please bring this slip when collecting the appliance.</p>
+          <p>We are not responsible for items left uncollected beyond 60 days of the ready date.</p>
+        </div>
+        <div className="text-center">
+          <div className="h-10" />
+          <p className="border-t border-black pt-1">For {BUSINESS_DETAILS.name}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,13 +7,29 @@ import {
   Package,
   FolderOpen,
   Users,
+  Contact,
+  Ruler,
+  Warehouse,
   ArrowUpDown,
+  ClipboardCheck,
   ClipboardList,
+  ShoppingCart,
+  PackageCheck,
+  ReceiptText,
+  ScrollText,
+  HardHat,
+  ListChecks,
+  Wrench,
   FileText,
   Sparkles,
+  Scale,
+  UserCog,
+  History,
+  KeyRound,
   LogOut,
   Menu,
-  X
+  X,
+  type LucideIcon,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { supabase } from "@/integrations/supabase/client";
@@ -21,20 +37,46 @@ import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
+import { useUserRole } from "@/hooks/useUserRole";
+import type { Permission } from "@/lib/permissions";
 
 interface LayoutProps {
   children: ReactNode;
 }
 
-const navItems = [
+interface NavItem {
+  href: string;
+  icon: LucideIcon;
+  label: string;
+  adminOnly?: boolean;
+  writeOnly?: boolean;
+  permission?: Permission;
+}
+
+const navItems: NavItem[] = [
   { href: "/dashboard", icon: LayoutDashboard, label: "Dashboard" },
   { href: "/products", icon: Package, label: "Products" },
   { href: "/categories", icon: FolderOpen, label: "Categories" },
-  { href: "/suppliers", icon: Users, label: "Suppliers" },
+  { href: "/suppliers", icon: Users, label: "Suppliers", writeOnly: true },
+  { href: "/customers", icon: Contact, label: "Customers" },
+  { href: "/units", icon: Ruler, label: "Units" },
+  { href: "/locations", icon: Warehouse, label: "Locations" },
   { href: "/stock-movements", icon: ArrowUpDown, label: "Stock Movements" },
+  { href: "/stock-takes", icon: ClipboardCheck, label: "Stock Takes" },
   { href: "/requirements", icon: ClipboardList, label: "Requirements" },
+  { href: "/purchase-orders", icon: ShoppingCart, label: "Purchase Orders" },
+  { href: "/goods-receipts", icon: PackageCheck, label: "Goods Receipts" },
+  { href: "/quotations", icon: ScrollText, label: "Quotations" },
+  { href: "/sales-invoices", icon: ReceiptText, label: "Sales Invoices" },
+  { href: "/projects", icon: HardHat, label: "Projects" },
+  { href: "/boqs", icon: ListChecks, label: "BOQs" },
+  { href: "/job-cards", icon: Wrench, label: "Job Cards" },
   { href: "/reports", icon: FileText, label: "Reports" },
-  { href: "/auto-import", icon: Sparkles, label: "Smart Import" },
+  { href: "/auto-import", icon: Sparkles, label: "Smart Import", permission: "import.run" },
+  { href: "/reconciliation", icon: Scale, label: "Reconciliation", permission: "stock.adjust" },
+  { href: "/users", icon: UserCog, label: "Users", adminOnly: true },
+  { href: "/roles", icon: KeyRound, label: "Roles & Permissions", adminOnly: true },
+  { href: "/audit-log", icon: History, label: "Audit Log", adminOnly: true },
 ];
 
 export const Layout = ({ children }: LayoutProps) => {
@@ -42,6 +84,7 @@ export const Layout = ({ children }: LayoutProps) => {
   const navigate = useNavigate();
   const isMobile = useIsMobile();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { isAdmin, can, canWrite } = useUserRole();
 
   const handleLogout = async () => {
     const { error } = await supabase.auth.signOut();
@@ -70,8 +113,8 @@ export const Layout = ({ children }: LayoutProps) => {
       </div>
       
       <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-        {navItems.map((item) => {
-          const isActive = location.pathname === item.href;
+        {navItems.filter((item) => (!item.adminOnly || isAdmin) && (!item.writeOnly || canWrite) && (!item.permission || can(item.permission))).map((item) => {
+          const isActive = location.pathname === item.href || location.pathname.startsWith(`${item.href}/`);
           return (
             <Link
               key={item.href}
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { TablePagination } from "@/components/TablePagination";
+import { useTableParams } from "@/hooks/useTableParams";
+import { useDebounce } from "@/hooks/useDebounce";
+import { formatQuantity } from "@/lib/quantity";
+import { getAvailabilityColor } from "@/lib/catalog";
+
+type CatalogItem = Database["public"]["Functions"]["get_catalog"]["Returns"][number];
+
+const ALL = "all";
+
+// Read-only product list for viewers, who cannot select products directly. Built on
+// get_catalog, which leaves out purchase prices and suppliers.
+export function ProductCatalog() {
+  const [items, setItems] = useState<CatalogItem[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { page, search, get, update, setPage, range } = useTableParams({ sort: "name" });
+  const category = get("category");
+  const [searchInput, setSearchInput] = useState(search);
+  const debouncedSearch = useDebounce(searchInput.trim());
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  useEffect(() => {
+    update({ q: debouncedSearch || null });
+  }, [debouncedSearch, update]);
+
+  const loadCatalog = useCallback(async () => {
+    let query = supabase.rpc("get_catalog", { _search: search || undefined }, { count: "exact" });
+    if (category) query = query.eq("category_id", category);
+
+    setLoading(true);
+    const { data, count, error } = await query.range(...range);
+    setLoading(false);
+
+    if (error) {
+      toast.error("Error loading catalog");
+      return;
+    }
+    setItems(data || []);
+    setTotalCount(count ?? 0);
+  }, [search, category, range]);
+
+  useEffect(() => {
+    loadCatalog();
+  }, [loadCatalog]);
+
+  const loadCategories = async () => {
+    const { data } = await supabase.from("categories").select("id, name").order("name");
+    setCategories(data || []);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Product Catalog</h1>
+        <p className="text-muted-foreground mt-2">Prices and availability of everything we stock.</p>
+      </div>
+
+      <div className="flex gap-4 flex-wrap">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-3 w-5 h-5 text-muted-foreground" />
+          <Input
+            placeholder="Search products..."
+            className="pl-10"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <Select value={category || ALL} onValueChange={(v) => update({ category: v === ALL ? null : v })}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All categories</SelectItem>
+            {categories.map((c) => (
+              <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="bg-card rounded-lg border">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted/50">
+              <tr>
+                <th className="text-left p-4 font-semibold">Product</th>
+                <th className="text-left p-4 font-semibold">Category</th>
+                <th className="text-right p-4 font-semibold">MRP</th>
+                <th className="text-right p-4 font-semibold">Selling Price</th>
+                <th className="text-left p-4 font-semibold">Availability</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                    {loading ? "Loading..." : "No products found"}
+                  </td>
+                </tr>
+              )}
+              {items.map((item) => (
+                <tr key={item.id} className="border-t hover:bg-muted/30">
+                  <td className="p-4">
+                    <div className="font-medium">{item.name}</div>
+                    <div className="text-xs text-muted-foreground">{item.product_id}</div>
+                  </td>
+                  <td className="p-4">{item.category_name || "-"}</td>
+                  <td className="p-4 text-right">{item.mrp_price ? `₹${item.mrp_price.toFixed(2)}` : "-"}</td>
+                  <td className="p-4 text-right font-semibold">₹{item.selling_price.toFixed(2)}</td>
+                  <td className="p-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getAvailabilityColor(item.availability)}`}>
+                      {item.availability}
+                    </span>
+                    {item.stock_qty > 0 && (
+                      <span className="text-sm text-muted-foreground ml-2">
+                        {formatQuantity(item.stock_qty)} {item.unit}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <TablePagination page={page} total={totalCount} onPageChange={setPage} />
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface ProductChange {
+  id: string;
+  field_name: string;
+  old_value: string | null;
+  new_value: string | null;
+  changed_by_email: string | null;
+  changed_at: string | null;
+}
+
+interface NamedRecord {
+  id: string;
+  name: string;
+}
+
+interface ProductHistoryDialogProps {
+  product: NamedRecord | null;
+  onOpenChange: (open: boolean) => void;
+  categories?: NamedRecord[];
+  suppliers?: NamedRecord[];
+}
+
+const formatFieldName = (field: string) =>
+  field.replace(/_id$/, "").split("_").map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+
+export function ProductHistoryDialog({ product, onOpenChange, categories = [], suppliers = [] }: ProductHistoryDialogProps) {
+  const [changes, setChanges] = useState<ProductChange[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Foreign keys are stored as ids; show the category/supplier name instead
+  const displayValue = (field: string, value: string | null) => {
+    if (!value) return "—";
+    if (field === "category_id") return categories.find(c => c.id === value)?.name || value;
+    if (field === "supplier_id") return suppliers.find(s => s.id === value)?.name || value;
+    return value;
+  };
+
+  useEffect(() => {
+    if (!product) return;
+
+    const loadChanges = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("product_changes")
+        .select("*")
+        .eq("product_id", product.id)
+        .order("changed_at", { ascending: false });
+
+      setLoading(false);
+      if (error) {
+        toast.error("Error loading product history");
+        return;
+      }
+      setChanges(data || []);
+    };
+
+    loadChanges();
+  }, [product]);
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Change History — {product?.name}</DialogTitle>
+        </DialogHeader>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded for this product</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">When</th>
+                  <th className="text-left p-2 font-semibold">Who</th>
+                  <th className="text-left p-2 font-semibold">Field</th>
+                  <th className="text-left p-2 font-semibold">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.id} className="border-t">
+                    <td className="p-2 whitespace-nowrap">
+                      {change.changed_at ? format(new Date(change.changed_at), "MMM dd, yyyy HH:mm") : "-"}
+                    </td>
+                    <td className="p-2">{change.changed_by_email || "System"}</td>
+                    <td className="p-2 font-medium">{formatFieldName(change.field_name)}</td>
+                    <td className="p-2">
+                      <span className="text-muted-foreground line-through">{displayValue(change.field_name, change.old_value)}</span>
+                      {" → "}
+                      <span className="font-medium">{displayValue(change.field_name, change.new_value)}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebounce } from "@/hooks/useDebounce";
+import { PRODUCT_SEARCH_COLUMNS, searchFilter } from "@/lib/search";
+import type { UnitConversion } from "@/lib/quantity";
+
+export const PRODUCT_PICKER_COLUMNS = "id, name, product_id, unit, product_units (unit, factor)";
+
+const PICKER_LIMIT = 50;
+
+export interface PickerProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string | null;
+  product_units: UnitConversion[];
+}
+
+interface ProductPickerProps {
+  value: PickerProduct | null;
+  onChange: (product: PickerProduct) => void;
+}
+
+// Product select for forms. Loading every product would stop at the API's row cap, so it
+// offers the first matches of a search instead.
+export function ProductPicker({ value, onChange }: ProductPickerProps) {
+  const [searchInput, setSearchInput] = useState("");
+  const search = useDebounce(searchInput.trim());
+  const [options, setOptions] = useState<PickerProduct[]>([]);
+
+  const loadOptions = useCallback(async () => {
+    let query = supabase.from("products").select(PRODUCT_PICKER_COLUMNS);
+    if (search) query = query.or(searchFilter(PRODUCT_SEARCH_COLUMNS, search));
+
+    const { data } = await query.order("name").order("id").limit(PICKER_LIMIT);
+    setOptions(data || []);
+  }, [search]);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  // The chosen product stays selectable after the search moves on
+  const items = value && !options.some(o => o.id === value.id) ? [value, ...options] : options;
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Search by name, ID, item code, barcode or description..."
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+      />
+      <Select
+        value={value?.id ?? ""}
+        onValueChange={(id) => {
+          const product = items.find(p => p.id === id);
+          if (product) onChange(product);
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select product" />
+        </SelectTrigger>
+        <SelectContent>
+          {items.map((prod) => (
+            <SelectItem key={prod.id} value={prod.id}>
+              {prod.product_id} - {prod.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {options.length === PICKER_LIMIT && (
+        <p className="text-xs text-muted-foreground">Showing the first {PICKER_LIMIT} matches; search to narrow them down.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { format } from "date-fns";
+import { DocumentLetterhead } from "@/components/DocumentLetterhead";
+import { BUSINESS_DETAILS } from "@/lib/business";
+import { computeInvoiceLine, computeInvoiceTotals } from "@/lib/invoice";
+import { formatQuantity } from "@/lib/quantity";
+
+export interface QuotationLine {
+  id: string;
+  product_id: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  discount_percent: number;
+  gst_rate: number;
+  issued_qty: number | null;
+  requirement_id: string | null;
+}
+
+export interface Quotation {
+  id: string;
+  quotation_number: string;
+  quotation_date: string;
+  valid_until: string;
+  customer_id: string | null;
+  customer_name: string;
+  customer_phone: string | null;
+  customer_gstin: string | null;
+  customer_address: string | null;
+  inter_state: boolean;
+  status: string;
+  terms: string | null;
+  notes: string | null;
+  converted_at: string | null;
+  quotation_lines: QuotationLine[];
+}
+
+const money = (value: number) => `₹${value.toFixed(2)}`;
+
+// Printable quotation on A4 with the full business letterhead. Amounts are worked out
+// with the invoice arithmetic so an accepted quote bills at the same figures.
+export function QuotationDocument({ quotation }: { quotation: Quotation }) {
+  const amounts = quotation.quotation_lines.map(line =>
+    computeInvoiceLine(line.quantity, line.unit_price, line.discount_percent, line.gst_rate, quotation.inter_state)
+  );
+  const totals = computeInvoiceTotals(amounts);
+  const rows = [
+    { label: "Subtotal", value: totals.subtotal },
+    { label: "Discount", value: -totals.discount, hidden: totals.discount === 0 },
+    { label: "Taxable Value", value: totals.taxable },
+    { label: "CGST", value: totals.cgst, hidden: quotation.inter_state },
+    { label: "SGST", value: totals.sgst, hidden: quotation.inter_state },
+    { label: "IGST", value: totals.igst, hidden: !quotation.inter_state },
+    { label: "Round Off", value: totals.roundOff, hidden: totals.roundOff === 0 },
+  ].filter(row => !row.hidden);
+
+  return (
+    <div className="bg-white text-black mx-auto w-full max-w-[190mm] text-sm">
+      <DocumentLetterhead title="QUOTATION">
+        <p>{quotation.quotation_number}</p>
+        <p>Date: {format(new Date(quotation.quotation_date), "dd/MM/yyyy")}</p>
+        <p>Valid until: {format(new Date(quotation.valid_until), "dd/MM/yyyy")}</p>
+      </DocumentLetterhead>
+
+      <div className="mb-2">
+        <p className="font-semibold">To: {quotation.customer_name}</p>
+        {quotation.customer_address && <p>{quotation.customer_address}</p>}
+        {quotation.customer_phone && <p>Phone: {quotation.customer_phone}</p>}
+        {quotation.customer_gstin && <p>GSTIN: {quotation.customer_gstin}</p>}
+      </div>
+
+      <table className="w-full border-collapse">
+        <thead>
+          <tr className="border-y border-black">
+            <th className="text-left p-1">#</th>
+            <th className="text-left p-1">Item</th>
+            <th className="text-left p-1">HSN</th>
+            <th className="text-right p-1">Qty</th>
+            <th className="text-right p-1">Rate</th>
+            <th className="text-right p-1">Disc %</th>
+            <th className="text-right p-1">Taxable</th>
+            <th className="text-right p-1">GST %</th>
+            <th className="text-right p-1">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {quotation.quotation_lines.map((line, index) => (
+            <tr key={line.id} className="border-b border-gray-300">
+              <td className="p-1">{index + 1}</td>
+              <td className="p-1">{line.description}</td>
+              <td className="p-1">{line.hsn_code || "-"}</td>
+              <td className="p-1 text-right">{formatQuantity(line.quantity)} {line.unit}</td>
+              <td className="p-1 text-right">{line.unit_price.toFixed(2)}</td>
+              <td className="p-1 text-right">{line.discount_percent > 0 ? line.discount_percent : "-"}</td>
+              <td className="p-1 text-right">{amounts[index].taxable.toFixed(2)}</td>
+              <td className="p-1 text-right">{line.gst_rate}</td>
+              <td className="p-1 text-right">{amounts[index].total.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-2 ml-auto w-64">
+        {rows.map((row) => (
+          <div key={row.label} className="flex justify-between">
+            <span>{row.label}</span>
+            <span>{money(row.value)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-bold border-t border-black mt-1 pt-1">
+          <span>Total</span>
+          <span>{money(totals.grandTotal)}</span>
+        </div>
+      </div>
+
+      {quotation.terms && (
+        <div className="mt-4">
+          <p className="font-semibold">Terms &amp; Conditions</p>
+          <p className="whitespace-pre-line">{quotation.terms}</p>
+        </div>
+      )}
+      {quotation.notes && <p className="mt-2">{quotation.notes}</p>}
+
+      <div className="mt-6 flex justify-between items-end">
+        <p>Prices are subject to stock availability on the date of order.</p>
+        <div className="text-center">
+          <div className="h-10" />
+          <p className="border-t border-black pt-1">For {BUSINESS_DETAILS.name}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
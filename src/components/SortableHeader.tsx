@@ -0,0 +1,27 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+interface SortableHeaderProps {
+  column: string;
+  label: string;
+  sort: string;
+  ascending: boolean;
+  onSort: (column: string) => void;
+}
+
+// Table heading that sorts the server-paged table by its column
+export function SortableHeader({ column, label, sort, ascending, onSort }: SortableHeaderProps) {
+  const active = sort === column;
+  const Icon = !active ? ArrowUpDown : ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <th
+      className="text-left p-4 font-semibold"
+      aria-sort={active ? (ascending ? "ascending" : "descending") : "none"}
+    >
+      <button type="button" className="inline-flex items-center gap-1 hover:text-primary" onClick={() => onSort(column)}>
+        {label}
+        <Icon className={`w-3 h-3 ${active ? "" : "text-muted-foreground"}`} />
+      </button>
+    </th>
+  );
+}
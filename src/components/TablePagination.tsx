@@ -0,0 +1,34 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PAGE_SIZE } from "@/hooks/useTableParams";
+
+interface TablePaginationProps {
+  page: number;
+  total: number;
+  onPageChange: (page: number) => void;
+}
+
+export function TablePagination({ page, total, onPageChange }: TablePaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const first = total === 0 ? 0 : (page - 1) * PAGE_SIZE + 1;
+  const last = Math.min(page * PAGE_SIZE, total);
+
+  return (
+    <div className="flex items-center justify-between gap-4 flex-wrap">
+      <p className="text-sm text-muted-foreground">
+        {total === 0 ? "No results" : `Showing ${first}–${last} of ${total.toLocaleString()}`}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Previous
+        </Button>
+        <span className="text-sm">Page {page} of {pageCount}</span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount}>
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatQuantity, getQuantityStep, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+
+interface UnitQuantityInputProps {
+  quantity: number;
+  unit: string;
+  baseUnit: string | null | undefined;
+  conversions?: UnitConversion[];
+  onChange: (quantity: number, unit: string) => void;
+  required?: boolean;
+  inputClassName?: string;
+}
+
+// Quantity input with a unit picker for products that have alternate units (box, coil, ...)
+export function UnitQuantityInput({
+  quantity,
+  unit,
+  baseUnit,
+  conversions = [],
+  onChange,
+  required,
+  inputClassName,
+}: UnitQuantityInputProps) {
+  const selectedUnit = unit || baseUnit || "";
+  const baseQty = toBaseQuantity(quantity || 0, selectedUnit, baseUnit, conversions);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          required={required}
+          min="0"
+          step={getQuantityStep(selectedUnit)}
+          className={inputClassName}
+          value={quantity}
+          onChange={(e) => onChange(parseFloat(e.target.value), selectedUnit)}
+        />
+        {conversions.length > 0 ? (
+          <Select value={selectedUnit} onValueChange={(v) => onChange(quantity, v)}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {baseUnit && <SelectItem value={baseUnit}>{baseUnit}</SelectItem>}
+              {conversions.map((c) => (
+                <SelectItem key={c.unit} value={c.unit}>{c.unit}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="self-center text-sm text-muted-foreground">{baseUnit}</span>
+        )}
+      </div>
+      {selectedUnit !== baseUnit && baseQty !== null && (
+        <p className="text-xs text-muted-foreground">= {formatQuantity(baseQty)} {baseUnit}</p>
+      )}
+    </div>
+  );
+}
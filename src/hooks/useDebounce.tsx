@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+// The value once it has stopped changing for delay ms, e.g. to search as the user types
+// without a request per keystroke
+export function useDebounce<T>(value: T, delay = 300) {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
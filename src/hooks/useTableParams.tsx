@@ -0,0 +1,53 @@
+import { useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+
+export const PAGE_SIZE = 50;
+
+interface TableDefaults {
+  sort: string;
+  ascending?: boolean;
+}
+
+// Page, sort, search and filters of a server-paged table, kept in the URL so a filtered
+// view can be bookmarked, shared and restored with the back button. Changing anything but
+// the page goes back to the first page; an update that changes nothing is ignored.
+// update and range keep their identity between renders so loaders can depend on them.
+export function useTableParams(defaults: TableDefaults) {
+  const [params, setParams] = useSearchParams();
+  // setParams changes whenever the URL does
+  const setParamsRef = useRef(setParams);
+  setParamsRef.current = setParams;
+
+  const page = Math.max(1, Number(params.get("page")) || 1);
+  const sort = params.get("sort") || defaults.sort;
+  const ascending = params.has("dir") ? params.get("dir") === "asc" : defaults.ascending ?? true;
+  const search = params.get("q") || "";
+
+  const get = (key: string) => params.get(key) || "";
+
+  const update = useCallback((changes: Record<string, string | null>) => {
+    setParamsRef.current((current) => {
+      if (Object.entries(changes).every(([key, value]) => (current.get(key) || null) === (value || null))) {
+        return current;
+      }
+      const next = new URLSearchParams(current);
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value);
+        else next.delete(key);
+      }
+      if (!("page" in changes)) next.delete("page");
+      return next;
+    }, { replace: true });
+  }, []);
+
+  const setPage = (value: number) => update({ page: value > 1 ? String(value) : null });
+
+  // A new column sorts ascending; the current one flips
+  const toggleSort = (column: string) =>
+    update({ sort: column, dir: column === sort && ascending ? "desc" : "asc" });
+
+  const from = (page - 1) * PAGE_SIZE;
+  const range = useMemo(() => [from, from + PAGE_SIZE - 1] as const, [from]);
+
+  return { page, sort, ascending, search, get, update, setPage, toggleSort, range };
+}
@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Permission } from "@/lib/permissions";
 
 export type UserRole = "admin" | "staff" | "viewer";
 
 export function useUserRole() {
   const [role, setRole] = useState<UserRole | null>(null);
+  const [permissions, setPermissions] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -17,14 +19,17 @@ export function useUserRole() {
       
       if (!user) {
         setRole(null);
+        setPermissions([]);
         setLoading(false);
         return;
       }
 
-      const { data: roles } = await supabase
-        .from("user_roles")
-        .select("role")
-        .eq("user_id", user.id);
+      // Permissions come from the built-in role and any custom roles, as the server sees them
+      const [{ data: roles }, { data: granted }] = await Promise.all([
+        supabase.from("user_roles").select("role").eq("user_id", user.id),
+        supabase.rpc("my_permissions"),
+      ]);
+      setPermissions(granted || []);
 
       if (roles && roles.length > 0) {
         // User can have multiple roles, prioritize: admin > staff > viewer
@@ -43,14 +48,16 @@ export function useUserRole() {
         console.error("Error loading user role:", error);
       }
       setRole(null);
+      setPermissions([]);
     } finally {
       setLoading(false);
     }
   };
 
   const isAdmin = role === "admin";
-  const canWrite = role === "admin" || role === "staff";
+  const can = (permission: Permission) => isAdmin || permissions.includes(permission);
+  const canWrite = can("records.edit");
   const canDelete = role === "admin";
 
-  return { role, loading, isAdmin, canWrite, canDelete, refetch: loadUserRole };
+  return { role, permissions, loading, isAdmin, can, canWrite, canDelete, refetch: loadUserRole };
 }
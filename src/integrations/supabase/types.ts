@@ -14,154 +14,1437 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_email: string | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          record_label: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          record_label?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_email?: string | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          record_label?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      boq_lines: {
+        Row: {
+          boq_id: string
+          cost_price: number
+          description: string
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          line_no: number
+          price_basis: string
+          product_id: string
+          quantity: number
+          requirement_id: string | null
+          unit: string
+          unit_price: number
+        }
+        Insert: {
+          boq_id: string
+          cost_price?: number
+          description: string
+          gst_rate: number
+          hsn_code?: string | null
+          id?: string
+          line_no: number
+          price_basis?: string
+          product_id: string
+          quantity: number
+          requirement_id?: string | null
+          unit: string
+          unit_price: number
+        }
+        Update: {
+          boq_id?: string
+          cost_price?: number
+          description?: string
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          line_no?: number
+          price_basis?: string
+          product_id?: string
+          quantity?: number
+          requirement_id?: string | null
+          unit?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "boq_lines_boq_id_fkey"
+            columns: ["boq_id"]
+            isOneToOne: false
+            referencedRelation: "boqs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_lines_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "requirements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "boq_lines_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      boqs: {
+        Row: {
+          awarded_at: string | null
+          boq_date: string
+          boq_number: string
+          created_at: string | null
+          created_by: string | null
+          department: string | null
+          id: string
+          inter_state: boolean
+          notes: string | null
+          status: string
+          tender_ref: string | null
+          title: string
+        }
+        Insert: {
+          awarded_at?: string | null
+          boq_date?: string
+          boq_number?: string
+          created_at?: string | null
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          inter_state?: boolean
+          notes?: string | null
+          status?: string
+          tender_ref?: string | null
+          title: string
+        }
+        Update: {
+          awarded_at?: string | null
+          boq_date?: string
+          boq_number?: string
+          created_at?: string | null
+          created_by?: string | null
+          department?: string | null
+          id?: string
+          inter_state?: boolean
+          notes?: string | null
+          status?: string
+          tender_ref?: string | null
+          title?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string | null
           description: string | null
+          gst_rate: number | null
+          hsn_code: string | null
           id: string
           name: string
         }
         Insert: {
           created_at?: string | null
           description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
           name: string
         }
         Update: {
           created_at?: string | null
           description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
           name?: string
         }
         Relationships: []
       }
-      products: {
+      custom_roles: {
         Row: {
-          barcode: string | null
-          category_id: string | null
-          created_at: string | null
+          created_at: string
+          created_by: string | null
           description: string | null
           id: string
-          image_url: string | null
-          in_stock_standard: string | null
-          item_code: string | null
-          min_stock_level: number | null
-          mrp_price: number | null
           name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      customer_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          created_by: string | null
+          customer_id: string
+          id: string
+          mode: string
           notes: string | null
-          packing_final_price: number | null
-          packing_inner: string | null
+          payment_date: string
+          reference: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_id: string
+          id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string
+          id?: string
+          mode?: string
+          notes?: string | null
+          payment_date?: string
+          reference?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customers: {
+        Row: {
+          address: string | null
+          city: string | null
+          created_at: string | null
+          credit_limit: number
+          gstin: string | null
+          id: string
+          name: string
+          notes: string | null
+          opening_balance: number
+          phone: string | null
+        }
+        Insert: {
+          address?: string | null
+          city?: string | null
+          created_at?: string | null
+          credit_limit?: number
+          gstin?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          opening_balance?: number
+          phone?: string | null
+        }
+        Update: {
+          address?: string | null
+          city?: string | null
+          created_at?: string | null
+          credit_limit?: number
+          gstin?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          opening_balance?: number
+          phone?: string | null
+        }
+        Relationships: []
+      }
+      goods_receipt_lines: {
+        Row: {
+          created_at: string | null
+          goods_receipt_id: string
+          id: string
+          landed_unit_cost: number
           product_id: string
-          purchase_price: number
-          selling_price: number
-          sr_no: string | null
-          stock_qty: number
-          supplier_id: string | null
-          unit: string | null
-          without_tax_price: number | null
+          received_qty: number
+          rejected_qty: number
+          requirement_id: string | null
+          short_qty: number
+          stock_movement_id: string | null
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          goods_receipt_id: string
+          id?: string
+          landed_unit_cost?: number
+          product_id: string
+          received_qty?: number
+          rejected_qty?: number
+          requirement_id?: string | null
+          short_qty?: number
+          stock_movement_id?: string | null
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string | null
+          goods_receipt_id?: string
+          id?: string
+          landed_unit_cost?: number
+          product_id?: string
+          received_qty?: number
+          rejected_qty?: number
+          requirement_id?: string | null
+          short_qty?: number
+          stock_movement_id?: string | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipt_lines_goods_receipt_id_fkey"
+            columns: ["goods_receipt_id"]
+            isOneToOne: false
+            referencedRelation: "goods_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "requirements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_receipt_lines_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_receipts: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          grn_number: string
+          id: string
+          invoice_date: string | null
+          landed_cost: number
+          notes: string | null
+          received_at: string | null
+          supplier_id: string
+          supplier_invoice_no: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          grn_number?: string
+          id?: string
+          invoice_date?: string | null
+          landed_cost?: number
+          notes?: string | null
+          received_at?: string | null
+          supplier_id: string
+          supplier_invoice_no?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          grn_number?: string
+          id?: string
+          invoice_date?: string | null
+          landed_cost?: number
+          notes?: string | null
+          received_at?: string | null
+          supplier_id?: string
+          supplier_invoice_no?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_receipts_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_card_parts: {
+        Row: {
+          created_at: string | null
+          description: string
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          job_card_id: string
+          product_id: string
+          quantity: number
+          stock_movement_id: string | null
+          unit: string
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          gst_rate: number
+          hsn_code?: string | null
+          id?: string
+          job_card_id: string
+          product_id: string
+          quantity: number
+          stock_movement_id?: string | null
+          unit: string
+          unit_price: number
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          job_card_id?: string
+          product_id?: string
+          quantity?: number
+          stock_movement_id?: string | null
+          unit?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_card_parts_job_card_id_fkey"
+            columns: ["job_card_id"]
+            isOneToOne: false
+            referencedRelation: "job_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_card_parts_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_card_parts_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_card_parts_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      job_cards: {
+        Row: {
+          advance_paid: number
+          appliance_details: string | null
+          appliance_type: string
+          created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          customer_name: string
+          customer_phone: string | null
+          delivered_at: string | null
+          diagnosis: string | null
+          estimate: number | null
+          fault: string
+          id: string
+          job_number: string
+          labour_charge: number
+          labour_gst_rate: number
+          notes: string | null
+          promised_date: string | null
+          ready_at: string | null
+          received_date: string
+          serial_no: string | null
+          status: string
+        }
+        Insert: {
+          advance_paid?: number
+          appliance_details?: string | null
+          appliance_type: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          delivered_at?: string | null
+          diagnosis?: string | null
+          estimate?: number | null
+          fault: string
+          id?: string
+          job_number?: string
+          labour_charge?: number
+          labour_gst_rate?: number
+          notes?: string | null
+          promised_date?: string | null
+          ready_at?: string | null
+          received_date?: string
+          serial_no?: string | null
+          status?: string
+        }
+        Update: {
+          advance_paid?: number
+          appliance_details?: string | null
+          appliance_type?: string
+          created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          delivered_at?: string | null
+          diagnosis?: string | null
+          estimate?: number | null
+          fault?: string
+          id?: string
+          job_number?: string
+          labour_charge?: number
+          labour_gst_rate?: number
+          notes?: string | null
+          promised_date?: string | null
+          ready_at?: string | null
+          received_date?: string
+          serial_no?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_cards_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          code: string
+          created_at: string | null
+          id: string
+          is_default: boolean
+          name: string
+          notes: string | null
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          notes?: string | null
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          notes?: string | null
+        }
+        Relationships: []
+      }
+      movement_reasons: {
+        Row: {
+          code: string
+          label: string
+          movement_type: string
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          label: string
+          movement_type: string
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          label?: string
+          movement_type?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      permissions: {
+        Row: {
+          code: string
+          description: string | null
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          code: string
+          description?: string | null
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          code?: string
+          description?: string | null
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      product_changes: {
+        Row: {
+          changed_at: string | null
+          changed_by: string | null
+          changed_by_email: string | null
+          field_name: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          product_id: string
+        }
+        Insert: {
+          changed_at?: string | null
+          changed_by?: string | null
+          changed_by_email?: string | null
+          field_name: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          product_id: string
+        }
+        Update: {
+          changed_at?: string | null
+          changed_by?: string | null
+          changed_by_email?: string | null
+          field_name?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_changes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_locations: {
+        Row: {
+          location_id: string
+          min_stock_level: number | null
+          product_id: string
+          stock_qty: number
+        }
+        Insert: {
+          location_id: string
+          min_stock_level?: number | null
+          product_id: string
+          stock_qty?: number
+        }
+        Update: {
+          location_id?: string
+          min_stock_level?: number | null
+          product_id?: string
+          stock_qty?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_locations_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_locations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_units: {
+        Row: {
+          created_at: string | null
+          factor: number
+          id: string
+          product_id: string
+          unit: string
+        }
+        Insert: {
+          created_at?: string | null
+          factor: number
+          id?: string
+          product_id: string
+          unit: string
+        }
+        Update: {
+          created_at?: string | null
+          factor?: number
+          id?: string
+          product_id?: string
+          unit?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_units_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_units_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          allow_negative_stock: boolean
+          barcode: string | null
+          category_id: string | null
+          created_at: string | null
+          description: string | null
+          gst_rate: number | null
+          hsn_code: string | null
+          id: string
+          image_url: string | null
+          in_stock_standard: string | null
+          is_low_stock: boolean | null
+          item_code: string | null
+          min_stock_level: number | null
+          mrp_price: number | null
+          name: string
+          notes: string | null
+          packing_final_price: number | null
+          packing_inner: string | null
+          product_id: string
+          purchase_price: number
+          selling_price: number
+          sr_no: string | null
+          stock_qty: number
+          supplier_id: string | null
+          unit: string
+          without_tax_price: number | null
+        }
+        Insert: {
+          allow_negative_stock?: boolean
+          barcode?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
+          id?: string
+          image_url?: string | null
+          in_stock_standard?: string | null
+          is_low_stock?: never
+          item_code?: string | null
+          min_stock_level?: number | null
+          mrp_price?: number | null
+          name: string
+          notes?: string | null
+          packing_final_price?: number | null
+          packing_inner?: string | null
+          product_id: string
+          purchase_price?: number
+          selling_price?: number
+          sr_no?: string | null
+          stock_qty?: number
+          supplier_id?: string | null
+          unit?: string
+          without_tax_price?: number | null
+        }
+        Update: {
+          allow_negative_stock?: boolean
+          barcode?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
+          id?: string
+          image_url?: string | null
+          in_stock_standard?: string | null
+          is_low_stock?: never
+          item_code?: string | null
+          min_stock_level?: number | null
+          mrp_price?: number | null
+          name?: string
+          notes?: string | null
+          packing_final_price?: number | null
+          packing_inner?: string | null
+          product_id?: string
+          purchase_price?: number
+          selling_price?: number
+          sr_no?: string | null
+          stock_qty?: number
+          supplier_id?: string | null
+          unit?: string
+          without_tax_price?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          budget: number
+          created_at: string | null
+          created_by: string | null
+          department: string | null
+          end_date: string | null
+          id: string
+          name: string
+          notes: string | null
+          site: string | null
+          start_date: string | null
+          status: string
+          work_order_no: string
+        }
+        Insert: {
+          budget?: number
+          created_at?: string | null
+          created_by?: string | null
+          department?: string | null
+          end_date?: string | null
+          id?: string
+          name: string
+          notes?: string | null
+          site?: string | null
+          start_date?: string | null
+          status?: string
+          work_order_no: string
+        }
+        Update: {
+          budget?: number
+          created_at?: string | null
+          created_by?: string | null
+          department?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          site?: string | null
+          start_date?: string | null
+          status?: string
+          work_order_no?: string
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          created_at: string | null
+          entered_qty: number | null
+          entered_unit: string | null
+          id: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          requirement_id: string | null
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
+          id?: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          requirement_id?: string | null
+          unit_price?: number
+        }
+        Update: {
+          created_at?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
+          id?: string
+          product_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          requirement_id?: string | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "requirements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_entered_unit_fkey"
+            columns: ["entered_unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          issued_at: string | null
+          notes: string | null
+          order_date: string | null
+          po_number: string
+          status: string
+          supplier_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          issued_at?: string | null
+          notes?: string | null
+          order_date?: string | null
+          po_number?: string
+          status?: string
+          supplier_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          issued_at?: string | null
+          notes?: string | null
+          order_date?: string | null
+          po_number?: string
+          status?: string
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotation_lines: {
+        Row: {
+          created_at: string | null
+          description: string
+          discount_percent: number
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          issued_qty: number | null
+          product_id: string
+          quantity: number
+          quotation_id: string
+          requirement_id: string | null
+          stock_movement_id: string | null
+          unit: string
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          discount_percent?: number
+          gst_rate: number
+          hsn_code?: string | null
+          id?: string
+          issued_qty?: number | null
+          product_id: string
+          quantity: number
+          quotation_id: string
+          requirement_id?: string | null
+          stock_movement_id?: string | null
+          unit: string
+          unit_price: number
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_code?: string | null
+          id?: string
+          issued_qty?: number | null
+          product_id?: string
+          quantity?: number
+          quotation_id?: string
+          requirement_id?: string | null
+          stock_movement_id?: string | null
+          unit?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotation_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_lines_quotation_id_fkey"
+            columns: ["quotation_id"]
+            isOneToOne: false
+            referencedRelation: "quotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_lines_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "requirements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_lines_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotation_lines_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      quotations: {
+        Row: {
+          converted_at: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_address: string | null
+          customer_gstin: string | null
+          customer_id: string | null
+          customer_name: string
+          customer_phone: string | null
+          id: string
+          inter_state: boolean
+          notes: string | null
+          quotation_date: string
+          quotation_number: string
+          status: string
+          terms: string | null
+          valid_until: string
+        }
+        Insert: {
+          converted_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          id?: string
+          inter_state?: boolean
+          notes?: string | null
+          quotation_date?: string
+          quotation_number?: string
+          status?: string
+          terms?: string | null
+          valid_until?: string
+        }
+        Update: {
+          converted_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          id?: string
+          inter_state?: boolean
+          notes?: string | null
+          quotation_date?: string
+          quotation_number?: string
+          status?: string
+          terms?: string | null
+          valid_until?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotations_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      requirements: {
+        Row: {
+          created_at: string | null
+          entered_qty: number | null
+          entered_unit: string | null
+          id: string
+          needed_qty: number
+          notes: string | null
+          priority: string | null
+          product_id: string
+          received_at: string | null
+          received_qty: number
+          requested_date: string | null
+          status: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
+          id?: string
+          needed_qty: number
+          notes?: string | null
+          priority?: string | null
+          product_id: string
+          received_at?: string | null
+          received_qty?: number
+          requested_date?: string | null
+          status?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
+          id?: string
+          needed_qty?: number
+          notes?: string | null
+          priority?: string | null
+          product_id?: string
+          received_at?: string | null
+          received_qty?: number
+          requested_date?: string | null
+          status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "requirements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "requirements_entered_unit_fkey"
+            columns: ["entered_unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          app_role: Database["public"]["Enums"]["app_role"] | null
+          created_at: string
+          custom_role_id: string | null
+          id: string
+          permission_code: string
+        }
+        Insert: {
+          app_role?: Database["public"]["Enums"]["app_role"] | null
+          created_at?: string
+          custom_role_id?: string | null
+          id?: string
+          permission_code: string
+        }
+        Update: {
+          app_role?: Database["public"]["Enums"]["app_role"] | null
+          created_at?: string
+          custom_role_id?: string | null
+          id?: string
+          permission_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_custom_role_id_fkey"
+            columns: ["custom_role_id"]
+            isOneToOne: false
+            referencedRelation: "custom_roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_permissions_permission_code_fkey"
+            columns: ["permission_code"]
+            isOneToOne: false
+            referencedRelation: "permissions"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      sales_invoice_lines: {
+        Row: {
+          cgst: number
+          created_at: string | null
+          description: string
+          discount_percent: number
+          gst_rate: number
+          hsn_code: string | null
+          id: string
+          igst: number
+          line_total: number
+          product_id: string
+          quantity: number
+          sales_invoice_id: string
+          sgst: number
+          stock_movement_id: string | null
+          taxable_value: number
+          unit: string
+          unit_price: number
         }
         Insert: {
-          barcode?: string | null
-          category_id?: string | null
+          cgst?: number
           created_at?: string | null
-          description?: string | null
+          description: string
+          discount_percent?: number
+          gst_rate: number
+          hsn_code?: string | null
           id?: string
-          image_url?: string | null
-          in_stock_standard?: string | null
-          item_code?: string | null
-          min_stock_level?: number | null
-          mrp_price?: number | null
-          name: string
-          notes?: string | null
-          packing_final_price?: number | null
-          packing_inner?: string | null
+          igst?: number
+          line_total: number
           product_id: string
-          purchase_price?: number
-          selling_price?: number
-          sr_no?: string | null
-          stock_qty?: number
-          supplier_id?: string | null
-          unit?: string | null
-          without_tax_price?: number | null
+          quantity: number
+          sales_invoice_id: string
+          sgst?: number
+          stock_movement_id?: string | null
+          taxable_value: number
+          unit: string
+          unit_price: number
         }
         Update: {
-          barcode?: string | null
-          category_id?: string | null
+          cgst?: number
           created_at?: string | null
-          description?: string | null
+          description?: string
+          discount_percent?: number
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
-          image_url?: string | null
-          in_stock_standard?: string | null
-          item_code?: string | null
-          min_stock_level?: number | null
-          mrp_price?: number | null
-          name?: string
-          notes?: string | null
-          packing_final_price?: number | null
-          packing_inner?: string | null
+          igst?: number
+          line_total?: number
           product_id?: string
-          purchase_price?: number
-          selling_price?: number
-          sr_no?: string | null
-          stock_qty?: number
-          supplier_id?: string | null
-          unit?: string | null
-          without_tax_price?: number | null
+          quantity?: number
+          sales_invoice_id?: string
+          sgst?: number
+          stock_movement_id?: string | null
+          taxable_value?: number
+          unit?: string
+          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
+            foreignKeyName: "sales_invoice_lines_product_id_fkey"
+            columns: ["product_id"]
             isOneToOne: false
-            referencedRelation: "categories"
+            referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "products_supplier_id_fkey"
-            columns: ["supplier_id"]
+            foreignKeyName: "sales_invoice_lines_sales_invoice_id_fkey"
+            columns: ["sales_invoice_id"]
             isOneToOne: false
-            referencedRelation: "suppliers"
+            referencedRelation: "sales_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_invoice_lines_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "sales_invoice_lines_unit_fkey"
+            columns: ["unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
         ]
       }
-      requirements: {
+      sales_invoices: {
         Row: {
+          cgst_total: number
           created_at: string | null
+          created_by: string | null
+          customer_address: string | null
+          customer_gstin: string | null
+          customer_id: string | null
+          customer_name: string
+          customer_phone: string | null
+          discount_total: number
+          grand_total: number
           id: string
-          needed_qty: number
+          igst_total: number
+          inter_state: boolean
+          invoice_date: string
+          invoice_number: string
           notes: string | null
-          priority: string | null
-          product_id: string
-          requested_date: string | null
-          status: string | null
+          payment_type: string
+          round_off: number
+          sgst_total: number
+          subtotal: number
+          taxable_total: number
         }
         Insert: {
+          cgst_total?: number
           created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          discount_total?: number
+          grand_total?: number
           id?: string
-          needed_qty: number
+          igst_total?: number
+          inter_state?: boolean
+          invoice_date?: string
+          invoice_number?: string
           notes?: string | null
-          priority?: string | null
-          product_id: string
-          requested_date?: string | null
-          status?: string | null
+          payment_type?: string
+          round_off?: number
+          sgst_total?: number
+          subtotal?: number
+          taxable_total?: number
         }
         Update: {
+          cgst_total?: number
           created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_gstin?: string | null
+          customer_id?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          discount_total?: number
+          grand_total?: number
           id?: string
-          needed_qty?: number
+          igst_total?: number
+          inter_state?: boolean
+          invoice_date?: string
+          invoice_number?: string
           notes?: string | null
-          priority?: string | null
-          product_id?: string
-          requested_date?: string | null
-          status?: string | null
+          payment_type?: string
+          round_off?: number
+          sgst_total?: number
+          subtotal?: number
+          taxable_total?: number
         }
         Relationships: [
           {
-            foreignKeyName: "requirements_product_id_fkey"
-            columns: ["product_id"]
+            foreignKeyName: "sales_invoices_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
-            referencedRelation: "products"
+            referencedRelation: "customers"
             referencedColumns: ["id"]
           },
         ]
@@ -169,33 +1452,66 @@ export type Database = {
       stock_movements: {
         Row: {
           created_at: string | null
+          created_by: string | null
+          customer_id: string | null
+          entered_qty: number | null
+          entered_unit: string | null
           id: string
+          location_id: string
           movement_date: string | null
           movement_type: string
           notes: string | null
           product_id: string
+          project_id: string | null
           quantity: number
+          reason_code: string | null
           reference: string | null
+          requirement_id: string | null
+          reversal_of: string | null
+          to_location_id: string | null
+          unit_cost: number | null
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
           id?: string
+          location_id?: string
           movement_date?: string | null
           movement_type: string
           notes?: string | null
           product_id: string
+          project_id?: string | null
           quantity: number
+          reason_code?: string | null
           reference?: string | null
+          requirement_id?: string | null
+          reversal_of?: string | null
+          to_location_id?: string | null
+          unit_cost?: number | null
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
+          customer_id?: string | null
+          entered_qty?: number | null
+          entered_unit?: string | null
           id?: string
+          location_id?: string
           movement_date?: string | null
           movement_type?: string
           notes?: string | null
           product_id?: string
+          project_id?: string | null
           quantity?: number
+          reason_code?: string | null
           reference?: string | null
+          requirement_id?: string | null
+          reversal_of?: string | null
+          to_location_id?: string | null
+          unit_cost?: number | null
         }
         Relationships: [
           {
@@ -205,6 +1521,184 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_movements_requirement_id_fkey"
+            columns: ["requirement_id"]
+            isOneToOne: false
+            referencedRelation: "requirements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_entered_unit_fkey"
+            columns: ["entered_unit"]
+            isOneToOne: false
+            referencedRelation: "units"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "stock_movements_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_to_location_id_fkey"
+            columns: ["to_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_reason_code_fkey"
+            columns: ["reason_code"]
+            isOneToOne: false
+            referencedRelation: "movement_reasons"
+            referencedColumns: ["code"]
+          },
+          {
+            foreignKeyName: "stock_movements_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: true
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_take_lines: {
+        Row: {
+          counted_at: string | null
+          counted_by: string | null
+          counted_qty: number | null
+          expected_qty: number
+          id: string
+          product_id: string
+          stock_movement_id: string | null
+          stock_take_id: string
+        }
+        Insert: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_qty?: number | null
+          expected_qty: number
+          id?: string
+          product_id: string
+          stock_movement_id?: string | null
+          stock_take_id: string
+        }
+        Update: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_qty?: number | null
+          expected_qty?: number
+          id?: string
+          product_id?: string
+          stock_movement_id?: string | null
+          stock_take_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_takes: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          location_id: string
+          notes: string | null
+          started_at: string
+          status: string
+          stock_take_number: string
+          supplier_id: string | null
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id: string
+          notes?: string | null
+          started_at?: string
+          status?: string
+          stock_take_number?: string
+          supplier_id?: string | null
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          location_id?: string
+          notes?: string | null
+          started_at?: string
+          status?: string
+          stock_take_number?: string
+          supplier_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_takes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_takes_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_takes_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       suppliers: {
@@ -240,6 +1734,56 @@ export type Database = {
         }
         Relationships: []
       }
+      units: {
+        Row: {
+          code: string
+          created_at: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      user_custom_roles: {
+        Row: {
+          created_at: string
+          custom_role_id: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          custom_role_id: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          custom_role_id?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_custom_roles_custom_role_id_fkey"
+            columns: ["custom_role_id"]
+            isOneToOne: false
+            referencedRelation: "custom_roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -266,7 +1810,110 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_job_card_part: {
+        Args: {
+          _job_card_id: string
+          _product_id: string
+          _quantity: number
+          _unit: string
+          _unit_price?: number
+        }
+        Returns: string
+      }
+      approve_stock_take: { Args: { _stock_take_id: string }; Returns: number }
+      award_boq: { Args: { _boq_id: string }; Returns: number }
       can_write: { Args: { _user_id: string }; Returns: boolean }
+      convert_quotation: { Args: { _quotation_id: string }; Returns: undefined }
+      create_purchase_orders_from_requirements: {
+        Args: { _requirement_ids: string[] }
+        Returns: string[]
+      }
+      create_quotation: {
+        Args: {
+          _customer_address: string
+          _customer_gstin: string
+          _customer_id?: string
+          _customer_name: string
+          _customer_phone: string
+          _inter_state: boolean
+          _lines: Json
+          _notes: string
+          _quotation_date: string
+          _terms: string
+          _valid_until: string
+        }
+        Returns: string
+      }
+      default_location_id: { Args: never; Returns: string }
+      effective_gst_rate: {
+        Args: { _category_id: string; _gst_rate: number }
+        Returns: number
+      }
+      get_catalog: {
+        Args: { _search?: string }
+        Returns: {
+          availability: string
+          category_id: string
+          category_name: string
+          id: string
+          mrp_price: number
+          name: string
+          product_id: string
+          selling_price: number
+          stock_qty: number
+          unit: string
+        }[]
+      }
+      get_customer_ageing: {
+        Args: never
+        Returns: {
+          customer_id: string
+          due_0_30: number
+          due_31_60: number
+          due_61_90: number
+          due_over_90: number
+          oldest_due_date: string
+          outstanding: number
+        }[]
+      }
+      get_movement_summary: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          movement_count: number
+          movement_type: string
+          product_count: number
+          quantity: number
+          reason_code: string
+          value: number
+        }[]
+      }
+      get_project_costs: {
+        Args: never
+        Returns: {
+          issued_value: number
+          last_movement_at: string
+          movement_count: number
+          net_cost: number
+          project_id: string
+          returned_value: number
+        }[]
+      }
+      get_stock_reconciliation: {
+        Args: never
+        Returns: {
+          difference: number
+          expected_qty: number
+          name: string
+          product_code: string
+          product_id: string
+          stock_qty: number
+          unit: string
+        }[]
+      }
+      has_permission: {
+        Args: { _permission: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -275,6 +1922,87 @@ export type Database = {
         Returns: boolean
       }
       is_admin: { Args: { _user_id: string }; Returns: boolean }
+      my_permissions: { Args: never; Returns: string[] }
+      post_goods_receipt: {
+        Args: {
+          _invoice_date: string
+          _landed_cost: number
+          _lines: Json
+          _notes: string
+          _supplier_id: string
+          _supplier_invoice_no: string
+        }
+        Returns: string
+      }
+      post_sales_invoice: {
+        Args: {
+          _customer_address: string
+          _customer_gstin: string
+          _customer_id?: string
+          _customer_name: string
+          _customer_phone: string
+          _inter_state: boolean
+          _invoice_date: string
+          _lines: Json
+          _notes: string
+          _payment_type?: string
+        }
+        Returns: string
+      }
+      post_stock_adjustment: {
+        Args: {
+          _actual_qty: number
+          _location_id?: string
+          _product_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      receive_requirement: {
+        Args: { _quantity: number; _reference?: string; _requirement_id: string }
+        Returns: string
+      }
+      record_stock_count: {
+        Args: { _counted_qty: number; _line_id: string }
+        Returns: undefined
+      }
+      remove_job_card_part: { Args: { _part_id: string }; Returns: undefined }
+      reverse_stock_movement: {
+        Args: { _movement_id: string; _reason: string }
+        Returns: string
+      }
+      save_boq: {
+        Args: {
+          _boq_date: string
+          _boq_id?: string
+          _department: string
+          _inter_state: boolean
+          _lines: Json
+          _notes: string
+          _tender_ref: string
+          _title: string
+        }
+        Returns: string
+      }
+      set_default_location: { Args: { _location_id: string }; Returns: undefined }
+      set_location_min_stock: {
+        Args: {
+          _location_id: string
+          _min_stock_level: number
+          _product_id: string
+        }
+        Returns: undefined
+      }
+      start_stock_take: {
+        Args: {
+          _category_id?: string
+          _location_id: string
+          _notes?: string
+          _supplier_id?: string
+        }
+        Returns: string
+      }
+      unit_factor: { Args: { _product_id: string; _unit: string }; Returns: number }
     }
     Enums: {
       app_role: "admin" | "staff" | "viewer"
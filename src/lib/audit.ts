@@ -0,0 +1,50 @@
+import type { Json } from "@/integrations/supabase/types";
+
+// Tables with an audit trigger (public.log_audit), in the order they are offered as filters
+export const AUDIT_TABLE_LABELS: Record<string, string> = {
+  products: "Products",
+  stock_movements: "Stock Movements",
+  requirements: "Requirements",
+  categories: "Categories",
+  suppliers: "Suppliers",
+  user_roles: "User Roles",
+  custom_roles: "Custom Roles",
+  role_permissions: "Role Permissions",
+  user_custom_roles: "User Custom Roles",
+};
+
+export const AUDIT_ACTIONS = ["INSERT", "UPDATE", "DELETE"] as const;
+
+export function getAuditActionColor(action: string): string {
+  switch (action) {
+    case "INSERT": return "bg-success/10 text-success";
+    case "UPDATE": return "bg-primary/10 text-primary";
+    case "DELETE": return "bg-destructive/10 text-destructive";
+    default: return "bg-muted text-muted-foreground";
+  }
+}
+
+export interface AuditChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === "object" && !Array.isArray(data) ? data as Record<string, Json> : {};
+
+const display = (value: Json | undefined): string =>
+  value === null || value === undefined ? "-" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// Fields that differ between the old and new row. An insert lists every field it set and
+// a delete every field the row had.
+export function auditChanges(oldData: Json | null, newData: Json | null): AuditChange[] {
+  const before = asRecord(oldData);
+  const after = asRecord(newData);
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .filter(field => !(oldData === null && after[field] === null))
+    .map(field => ({ field, before: display(before[field]), after: display(after[field]) }));
+}
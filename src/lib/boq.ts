@@ -0,0 +1,149 @@
+import { format } from "date-fns";
+import { BUSINESS_DETAILS } from "@/lib/business";
+import { toTaxExclusive } from "@/lib/gst";
+import { computeInvoiceLine, computeInvoiceTotals, type InvoiceLineAmounts, type InvoiceTotals } from "@/lib/invoice";
+import type { XlsxSheet } from "@/lib/xlsx";
+
+export const PRICE_BASES = ["MRP", "Selling", "Purchase", "Manual"] as const;
+export type PriceBasis = (typeof PRICE_BASES)[number];
+
+export interface BoqLine {
+  id: string;
+  line_no: number;
+  product_id: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit: string;
+  price_basis: string;
+  unit_price: number;
+  cost_price: number;
+  gst_rate: number;
+  requirement_id: string | null;
+}
+
+export interface Boq {
+  id: string;
+  boq_number: string;
+  boq_date: string;
+  title: string;
+  tender_ref: string | null;
+  department: string | null;
+  inter_state: boolean;
+  status: string;
+  notes: string | null;
+  awarded_at: string | null;
+  boq_lines: BoqLine[];
+}
+
+export interface BoqLineAmounts extends InvoiceLineAmounts {
+  cost: number;
+  margin: number;
+}
+
+export interface BoqTotals extends InvoiceTotals {
+  cost: number;
+  margin: number;
+  marginPercent: number;
+}
+
+interface CatalogPrices {
+  mrp_price: number | null;
+  selling_price: number;
+  purchase_price: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Rate before tax for one quoted unit. MRP is tax-inclusive, so GST is taken back out of it.
+export function catalogRate(product: CatalogPrices, basis: PriceBasis, factor: number, gstRate: number): number | null {
+  switch (basis) {
+    case "MRP": return product.mrp_price === null ? null : toTaxExclusive(product.mrp_price * factor, gstRate);
+    case "Selling": return round2(product.selling_price * factor);
+    case "Purchase": return round2(product.purchase_price * factor);
+    default: return null;
+  }
+}
+
+// Margin is on the taxable value; GST passes through
+export function computeBoqLine(
+  quantity: number,
+  unitPrice: number,
+  costPrice: number,
+  gstRate: number,
+  interState: boolean
+): BoqLineAmounts {
+  const amounts = computeInvoiceLine(quantity, unitPrice, 0, gstRate, interState);
+  const cost = round2((quantity || 0) * (costPrice || 0));
+  return { ...amounts, cost, margin: round2(amounts.taxable - cost) };
+}
+
+export function computeBoqTotals(lines: BoqLineAmounts[]): BoqTotals {
+  const totals = computeInvoiceTotals(lines);
+  const cost = round2(lines.reduce((sum, line) => sum + line.cost, 0));
+  const margin = round2(totals.taxable - cost);
+  return { ...totals, cost, margin, marginPercent: totals.taxable > 0 ? round2(margin / totals.taxable * 100) : 0 };
+}
+
+export function boqAmounts(boq: Boq) {
+  const lines = boq.boq_lines.map(line =>
+    computeBoqLine(line.quantity, line.unit_price, line.cost_price, line.gst_rate, boq.inter_state)
+  );
+  return { lines, totals: computeBoqTotals(lines) };
+}
+
+// Workbook for a BOQ: the priced schedule as submitted with the tender, and an internal
+// costing sheet with cost and margin per line
+export function boqWorkbook(boq: Boq): XlsxSheet[] {
+  const { lines, totals } = boqAmounts(boq);
+  const heading = [
+    [BUSINESS_DETAILS.name],
+    [`GSTIN: ${BUSINESS_DETAILS.gstin}`, `M.C. No.: ${BUSINESS_DETAILS.mcNo}`, `Vendor No.: ${BUSINESS_DETAILS.vendorNo}`],
+    [`${boq.boq_number} — ${boq.title}`],
+    [
+      `Date: ${format(new Date(boq.boq_date), "dd/MM/yyyy")}`,
+      boq.tender_ref ? `Tender: ${boq.tender_ref}` : "",
+      boq.department ? `Department: ${boq.department}` : "",
+    ],
+  ];
+
+  const schedule: XlsxSheet = {
+    name: "BOQ",
+    boldRows: heading.length + 2,
+    columnWidths: [6, 40, 10, 10, 8, 12, 14, 8, 12, 14],
+    rows: [
+      ...heading,
+      [],
+      ["S.No.", "Item", "HSN", "Qty", "Unit", "Rate", "Amount", "GST %", "GST", "Total"],
+      ...boq.boq_lines.map((line, i) => [
+        line.line_no, line.description, line.hsn_code, line.quantity, line.unit, line.unit_price,
+        lines[i].taxable, line.gst_rate, round2(lines[i].total - lines[i].taxable), lines[i].total,
+      ]),
+      [],
+      ["", "Taxable value", "", "", "", "", totals.taxable],
+      ...(boq.inter_state
+        ? [["", "IGST", "", "", "", "", "", "", totals.igst]]
+        : [["", "CGST", "", "", "", "", "", "", totals.cgst], ["", "SGST", "", "", "", "", "", "", totals.sgst]]),
+      ["", "Round off", "", "", "", "", "", "", "", totals.roundOff],
+      ["", "Grand total", "", "", "", "", "", "", "", totals.grandTotal],
+    ],
+  };
+
+  const costing: XlsxSheet = {
+    name: "Costing",
+    boldRows: 1,
+    columnWidths: [6, 40, 10, 8, 10, 12, 12, 14, 14, 14, 10],
+    rows: [
+      ["S.No.", "Item", "Qty", "Unit", "Basis", "Rate", "Cost Rate", "Amount", "Cost", "Margin", "Margin %"],
+      ...boq.boq_lines.map((line, i) => [
+        line.line_no, line.description, line.quantity, line.unit, line.price_basis, line.unit_price, line.cost_price,
+        lines[i].taxable, lines[i].cost, lines[i].margin,
+        lines[i].taxable > 0 ? round2(lines[i].margin / lines[i].taxable * 100) : 0,
+      ]),
+      [],
+      ["", "Total", "", "", "", "", "", totals.taxable, totals.cost, totals.margin, totals.marginPercent],
+    ],
+  };
+
+  return [schedule, costing];
+}
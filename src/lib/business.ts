@@ -0,0 +1,11 @@
+// Business details printed on the dashboard header and on sales invoices
+export const BUSINESS_DETAILS = {
+  name: "IDEAL ELECTRICALS",
+  tagline: "Govt. Regd. Contractor",
+  mcNo: "3203100145090122024",
+  vendorNo: "100037533",
+  gstin: "27DGQPM5400R1ZN",
+  mobile: "+91 9028165082",
+  email: "iqbaljamsheed143@gmail.com",
+  address: "Tarasingh Market, Vazirabad, Nanded – 431601",
+} as const;
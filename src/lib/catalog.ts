@@ -0,0 +1,10 @@
+// Colours for the availability labels returned by public.get_catalog
+export function getAvailabilityColor(availability: string): string {
+  switch (availability) {
+    case "In Stock": return "bg-success/10 text-success";
+    case "Low Stock": return "bg-warning/10 text-warning";
+    case "Out of Stock": return "bg-destructive/10 text-destructive";
+    case "On Order": return "bg-primary/10 text-primary";
+    default: return "bg-muted text-muted-foreground";
+  }
+}
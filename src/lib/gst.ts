@@ -0,0 +1,51 @@
+import { BUSINESS_DETAILS } from "@/lib/business";
+
+// GST slabs allowed on products and categories (matches the CHECK constraints)
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+// State code from our GSTIN (27 = Maharashtra). Supplies within the state are split
+// into CGST + SGST; supplies to other states carry IGST.
+export const BUSINESS_STATE_CODE = BUSINESS_DETAILS.gstin.slice(0, 2);
+
+export interface GstSplit {
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Product rate if set, otherwise the category default (public.effective_gst_rate)
+export function getEffectiveGstRate(
+  productRate: number | null | undefined,
+  categoryRate: number | null | undefined
+): number | null {
+  return productRate ?? categoryRate ?? null;
+}
+
+export function toTaxInclusive(exclusive: number, rate: number): number {
+  return round2(exclusive * (1 + rate / 100));
+}
+
+export function toTaxExclusive(inclusive: number, rate: number): number {
+  return round2(inclusive / (1 + rate / 100));
+}
+
+export function isInterStateSupply(gstin: string | null | undefined): boolean {
+  return !!gstin && gstin.trim().slice(0, 2) !== BUSINESS_STATE_CODE;
+}
+
+// Tax on a tax-exclusive amount, split CGST/SGST for intra-state or IGST for inter-state
+export function splitGst(taxable: number, rate: number, interState = false): GstSplit {
+  const tax = round2(taxable * rate / 100);
+  const half = round2(tax / 2);
+  return {
+    taxable: round2(taxable),
+    cgst: interState ? 0 : half,
+    sgst: interState ? 0 : round2(tax - half),
+    igst: interState ? tax : 0,
+    total: round2(taxable + tax),
+  };
+}
@@ -0,0 +1,52 @@
+import { splitGst, type GstSplit } from "@/lib/gst";
+
+export interface InvoiceLineAmounts extends GstSplit {
+  gross: number;
+  discount: number;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  discount: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  roundOff: number;
+  grandTotal: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Same arithmetic as public.post_sales_invoice, so the preview matches the posted invoice
+export function computeInvoiceLine(
+  quantity: number,
+  unitPrice: number,
+  discountPercent: number,
+  gstRate: number,
+  interState: boolean
+): InvoiceLineAmounts {
+  const gross = round2((quantity || 0) * (unitPrice || 0));
+  const discount = round2(gross * (discountPercent || 0) / 100);
+  return { gross, discount, ...splitGst(gross - discount, gstRate, interState) };
+}
+
+export function computeInvoiceTotals(lines: InvoiceLineAmounts[]): InvoiceTotals {
+  const sum = (pick: (line: InvoiceLineAmounts) => number) => round2(lines.reduce((total, line) => total + pick(line), 0));
+  const taxable = sum(line => line.taxable);
+  const cgst = sum(line => line.cgst);
+  const sgst = sum(line => line.sgst);
+  const igst = sum(line => line.igst);
+  const unrounded = round2(taxable + cgst + sgst + igst);
+  const grandTotal = Math.round(unrounded);
+  return {
+    subtotal: sum(line => line.gross),
+    discount: sum(line => line.discount),
+    taxable,
+    cgst,
+    sgst,
+    igst,
+    roundOff: round2(grandTotal - unrounded),
+    grandTotal,
+  };
+}
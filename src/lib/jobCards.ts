@@ -0,0 +1,74 @@
+import { computeInvoiceLine, computeInvoiceTotals, type InvoiceLineAmounts, type InvoiceTotals } from "@/lib/invoice";
+
+export const APPLIANCE_TYPES = ["Armature", "Fan", "Mixer Grinder", "Motor", "Other"] as const;
+export const JOB_CARD_STATUSES = ["Received", "In Repair", "Ready", "Delivered"] as const;
+export type JobCardStatus = (typeof JOB_CARD_STATUSES)[number];
+
+// Forward step for each status (public.validate_job_card_status also allows Ready -> In Repair)
+export const NEXT_JOB_STATUS: Partial<Record<string, { status: JobCardStatus; action: string }>> = {
+  "Received": { status: "In Repair", action: "Start Repair" },
+  "In Repair": { status: "Ready", action: "Mark Ready" },
+  "Ready": { status: "Delivered", action: "Mark Delivered" },
+};
+
+export function getJobStatusColor(status: string): string {
+  switch (status) {
+    case "Received": return "bg-muted text-muted-foreground";
+    case "In Repair": return "bg-warning/10 text-warning";
+    case "Ready": return "bg-primary/10 text-primary";
+    case "Delivered": return "bg-success/10 text-success";
+    default: return "bg-muted text-muted-foreground";
+  }
+}
+
+export interface JobCardPart {
+  id: string;
+  product_id: string;
+  description: string;
+  hsn_code: string | null;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  gst_rate: number;
+}
+
+export interface JobCard {
+  id: string;
+  job_number: string;
+  received_date: string;
+  customer_id: string | null;
+  customer_name: string;
+  customer_phone: string | null;
+  appliance_type: string;
+  appliance_details: string | null;
+  serial_no: string | null;
+  fault: string;
+  diagnosis: string | null;
+  status: string;
+  promised_date: string | null;
+  estimate: number | null;
+  advance_paid: number;
+  labour_charge: number;
+  labour_gst_rate: number;
+  ready_at: string | null;
+  delivered_at: string | null;
+  notes: string | null;
+  job_card_parts: JobCardPart[];
+}
+
+export interface JobCardBill {
+  parts: InvoiceLineAmounts[];
+  labour: InvoiceLineAmounts;
+  totals: InvoiceTotals;
+  balanceDue: number;
+}
+
+// Repairs are billed over the counter, so tax is always CGST + SGST
+export function jobCardBill(job: JobCard): JobCardBill {
+  const parts = job.job_card_parts.map(part =>
+    computeInvoiceLine(part.quantity, part.unit_price, 0, part.gst_rate, false)
+  );
+  const labour = computeInvoiceLine(1, job.labour_charge, 0, job.labour_gst_rate, false);
+  const totals = computeInvoiceTotals([...parts, labour]);
+  return { parts, labour, totals, balanceDue: Math.round((totals.grandTotal - job.advance_paid) * 100) / 100 };
+}
@@ -0,0 +1,50 @@
+// Mirrors public.movement_sign: the direction each movement type moves stock_qty.
+// ADJUST quantities are already signed; TRANSFER moves stock between locations and
+// leaves the product total unchanged. OPENING is the stock a product was created with.
+const MOVEMENT_SIGNS: Record<string, number> = {
+  IN: 1,
+  OUT: -1,
+  ADJUST: 1,
+  DAMAGE: -1,
+  RETURN_IN: 1,
+  RETURN_OUT: -1,
+  PROJECT_ISSUE: -1,
+  PROJECT_RETURN: 1,
+  TRANSFER: 0,
+  OPENING: 1,
+};
+
+export const MOVEMENT_TYPE_LABELS: Record<string, string> = {
+  IN: "IN",
+  OUT: "OUT",
+  ADJUST: "ADJUST",
+  DAMAGE: "Damage",
+  RETURN_IN: "Customer Return",
+  RETURN_OUT: "Supplier Return",
+  PROJECT_ISSUE: "Project Issue",
+  PROJECT_RETURN: "Project Return",
+  TRANSFER: "Transfer",
+  OPENING: "Opening Balance",
+};
+
+export const MOVEMENT_TYPES = Object.keys(MOVEMENT_TYPE_LABELS);
+
+// Error code raised by public.validate_stock_available when a movement would take a
+// location below zero; the message names the product, quantity and location
+export const INSUFFICIENT_STOCK = "23514";
+
+// Reason codes are kept in public.movement_reasons; a type with any codes requires one
+export interface MovementReason {
+  code: string;
+  movement_type: string;
+  label: string;
+}
+
+export function movementSign(movementType: string): number {
+  return MOVEMENT_SIGNS[movementType] ?? 0;
+}
+
+// Signed change to stock for a movement
+export function movementChange(movementType: string, quantity: number): number {
+  return movementSign(movementType) * quantity;
+}
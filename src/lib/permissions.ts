@@ -0,0 +1,13 @@
+// Permission codes seeded in public.permissions. The server checks them with
+// public.has_permission; the app reads the current user's through public.my_permissions.
+export type Permission =
+  | "records.edit"
+  | "products.edit_price"
+  | "stock.out"
+  | "stock.adjust"
+  | "import.run"
+  | "reports.financial"
+  | "requirements.approve";
+
+// Built-in roles whose permissions can be edited; admins always hold every permission
+export const EDITABLE_APP_ROLES = ["staff", "viewer"] as const;
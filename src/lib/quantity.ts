@@ -0,0 +1,73 @@
+// Decimal places allowed for a quantity, by the product's unit. Keep in sync with
+// public.unit_decimal_places() so the database accepts what the forms accept.
+const UNIT_DECIMALS: Record<string, number> = {
+  m: 2,
+  mtr: 2,
+  mtrs: 2,
+  meter: 2,
+  meters: 2,
+  metre: 2,
+  metres: 2,
+  ft: 2,
+  feet: 2,
+  kg: 3,
+  kgs: 3,
+  kilogram: 3,
+  kilograms: 3,
+  l: 3,
+  ltr: 3,
+  litre: 3,
+  litres: 3,
+  liter: 3,
+  liters: 3,
+};
+
+export function getQuantityDecimals(unit: string | null | undefined): number {
+  if (!unit) return 0;
+  return UNIT_DECIMALS[unit.trim().toLowerCase().replace(/\.$/, "")] ?? 0;
+}
+
+export function getQuantityStep(unit: string | null | undefined): string {
+  const decimals = getQuantityDecimals(unit);
+  return decimals === 0 ? "1" : (1 / 10 ** decimals).toFixed(decimals);
+}
+
+export function roundQuantity(value: number, unit: string | null | undefined): number {
+  const factor = 10 ** getQuantityDecimals(unit);
+  return Math.round(value * factor) / factor;
+}
+
+// Returns an error message when the quantity has more decimals than its unit allows
+export function checkQuantityPrecision(value: number, unit: string | null | undefined): string | null {
+  const decimals = getQuantityDecimals(unit);
+  if (Math.abs(roundQuantity(value, unit) - value) < 1e-9) return null;
+  return decimals === 0
+    ? `Quantity must be a whole number${unit ? ` for unit "${unit}"` : ""}`
+    : `Quantity allows at most ${decimals} decimal places for unit "${unit}"`;
+}
+
+// Trims floating point noise from summed quantities (0.1 + 0.2) for display
+export function formatQuantity(value: number | null | undefined): string {
+  return String(Math.round((value ?? 0) * 1000) / 1000);
+}
+
+export interface UnitConversion {
+  unit: string;
+  factor: number;
+}
+
+// Base units per one `unit`, or null when the product has no such conversion
+export function getUnitFactor(unit: string, baseUnit: string | null | undefined, conversions: UnitConversion[] = []): number | null {
+  if (!unit || unit === baseUnit) return 1;
+  return conversions.find(c => c.unit === unit)?.factor ?? null;
+}
+
+export function toBaseQuantity(
+  quantity: number,
+  unit: string,
+  baseUnit: string | null | undefined,
+  conversions: UnitConversion[] = []
+): number | null {
+  const factor = getUnitFactor(unit, baseUnit, conversions);
+  return factor === null ? null : Math.round(quantity * factor * 1000) / 1000;
+}
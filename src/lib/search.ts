@@ -0,0 +1,12 @@
+// % and _ are wildcards in ilike; a search for them should match them literally
+export const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+// Product columns a search box matches, on the products page and wherever products are embedded
+export const PRODUCT_SEARCH_COLUMNS = ["name", "product_id", "item_code", "barcode", "description"] as const;
+
+// PostgREST or() filter matching the text anywhere in any of the columns. The pattern is
+// quoted so commas, dots and parentheses in the search are not read as filter syntax.
+export function searchFilter(columns: readonly string[], text: string): string {
+  const quoted = `"${likePattern(text).replace(/["\\]/g, (c) => `\\${c}`)}"`;
+  return columns.map(column => `${column}.ilike.${quoted}`).join(",");
+}
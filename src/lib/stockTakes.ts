@@ -0,0 +1,46 @@
+export const STOCK_TAKE_STATUSES = ["Counting", "Approved", "Cancelled"] as const;
+
+export function getStockTakeStatusColor(status: string): string {
+  switch (status) {
+    case "Counting": return "bg-warning/10 text-warning";
+    case "Approved": return "bg-success/10 text-success";
+    case "Cancelled": return "bg-muted text-muted-foreground";
+    default: return "bg-muted text-muted-foreground";
+  }
+}
+
+export interface StockTakeLine {
+  id: string;
+  product_id: string;
+  expected_qty: number;
+  counted_qty: number | null;
+  counted_at: string | null;
+  stock_movement_id: string | null;
+  products: { name: string; product_id: string; unit: string; purchase_price: number };
+}
+
+export interface StockTakeVariance {
+  counted: number;
+  uncounted: number;
+  mismatched: number;
+  // Value of the variances at purchase price; positive when more was found than expected
+  value: number;
+}
+
+// Counted minus expected for one line, or null while it has not been counted
+export function lineVariance(line: StockTakeLine): number | null {
+  return line.counted_qty === null ? null : line.counted_qty - line.expected_qty;
+}
+
+export function summariseStockTake(lines: StockTakeLine[]): StockTakeVariance {
+  return lines.reduce<StockTakeVariance>((summary, line) => {
+    const variance = lineVariance(line);
+    if (variance === null) return { ...summary, uncounted: summary.uncounted + 1 };
+    return {
+      counted: summary.counted + 1,
+      uncounted: summary.uncounted,
+      mismatched: summary.mismatched + (variance !== 0 ? 1 : 0),
+      value: Math.round((summary.value + variance * line.products.purchase_price) * 100) / 100,
+    };
+  }, { counted: 0, uncounted: 0, mismatched: 0, value: 0 });
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect, Fragment } from "react";
+import { useSearchParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronRight, Search } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { addDays, format } from "date-fns";
+import { AUDIT_TABLE_LABELS, auditChanges, getAuditActionColor } from "@/lib/audit";
+import { likePattern } from "@/lib/search";
+
+type AuditEntry = Tables<"audit_log">;
+
+const ALL = "all";
+const PAGE_SIZE = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export default function AuditLog() {
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const [searchParams] = useSearchParams();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [filters, setFilters] = useState({
+    user: "",
+    table: searchParams.get("table") || ALL,
+    entity: searchParams.get("entity") || "",
+    from: "",
+    to: "",
+  });
+
+  useEffect(() => {
+    if (isAdmin) loadEntries(0);
+  }, [isAdmin]);
+
+  const loadEntries = async (offset: number) => {
+    let query = supabase
+      .from("audit_log")
+      .select("*")
+      .order("changed_at", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.table !== ALL) {
+      query = query.eq("table_name", filters.table);
+    }
+    if (filters.user.trim()) {
+      query = query.ilike("changed_by_email", likePattern(filters.user.trim()));
+    }
+    const entity = filters.entity.trim();
+    if (entity) {
+      query = UUID_PATTERN.test(entity)
+        ? query.eq("record_id", entity)
+        : query.ilike("record_label", likePattern(entity));
+    }
+    if (filters.from) {
+      query = query.gte("changed_at", new Date(`${filters.from}T00:00:00`).toISOString());
+    }
+    if (filters.to) {
+      query = query.lt("changed_at", addDays(new Date(`${filters.to}T00:00:00`), 1).toISOString());
+    }
+
+    setLoading(true);
+    const { data, error } = await query;
+    setLoading(false);
+
+    if (error) {
+      toast.error("Error loading audit log");
+      return;
+    }
+
+    const page = data || [];
+    setEntries(offset === 0 ? page : [...entries, ...page]);
+    setHasMore(page.length === PAGE_SIZE);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setExpandedId(null);
+    loadEntries(0);
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Only admins can view the audit log.</p>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground mt-2">
+            Every change to products, stock movements, requirements, categories, suppliers, roles and permissions, with who made it.
+          </p>
+        </div>
+
+        <form onSubmit={handleSearch} className="bg-card rounded-lg border p-4 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-4 items-end">
+          <div>
+            <Label>User</Label>
+            <Input
+              placeholder="Email"
+              value={filters.user}
+              onChange={(e) => setFilters({ ...filters, user: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Table</Label>
+            <Select value={filters.table} onValueChange={(v) => setFilters({ ...filters, table: v })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tables</SelectItem>
+                {Object.entries(AUDIT_TABLE_LABELS).map(([table, label]) => (
+                  <SelectItem key={table} value={table}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Entity</Label>
+            <Input
+              placeholder="Name or ID"
+              value={filters.entity}
+              onChange={(e) => setFilters({ ...filters, entity: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <Button type="submit" disabled={loading}>
+            <Search className="w-4 h-4 mr-2" />
+            Search
+          </Button>
+        </form>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="w-8 p-4"></th>
+                  <th className="text-left p-4 font-semibold">When</th>
+                  <th className="text-left p-4 font-semibold">User</th>
+                  <th className="text-left p-4 font-semibold">Table</th>
+                  <th className="text-left p-4 font-semibold">Action</th>
+                  <th className="text-left p-4 font-semibold">Entity</th>
+                  <th className="text-left p-4 font-semibold">Changed</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading..." : "No changes match these filters"}
+                    </td>
+                  </tr>
+                )}
+                {entries.map((entry) => {
+                  const changes = auditChanges(entry.old_data, entry.new_data);
+                  const expanded = expandedId === entry.id;
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        className="border-t hover:bg-muted/30 cursor-pointer"
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                      >
+                        <td className="p-4">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </td>
+                        <td className="p-4 text-sm whitespace-nowrap">{format(new Date(entry.changed_at), "MMM dd, yyyy HH:mm:ss")}</td>
+                        <td className="p-4 text-sm">{entry.changed_by_email || entry.changed_by || "System"}</td>
+                        <td className="p-4 text-sm">{AUDIT_TABLE_LABELS[entry.table_name] ?? entry.table_name}</td>
+                        <td className="p-4">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getAuditActionColor(entry.action)}`}>
+                            {entry.action}
+                          </span>
+                        </td>
+                        <td className="p-4">
+                          <div className="font-medium">{entry.record_label || "-"}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{entry.record_id}</div>
+                        </td>
+                        <td className="p-4 text-sm text-muted-foreground">
+                          {entry.action === "UPDATE" ? changes.map(c => c.field).join(", ") : `${changes.length} fields`}
+                        </td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-muted/20">
+                          <td></td>
+                          <td colSpan={6} className="p-4">
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-muted-foreground">
+                                  <th className="text-left p-2 font-medium">Field</th>
+                                  <th className="text-left p-2 font-medium">Before</th>
+                                  <th className="text-left p-2 font-medium">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {changes.map((c) => (
+                                  <tr key={c.field} className="border-t">
+                                    <td className="p-2 font-mono">{c.field}</td>
+                                    <td className="p-2 break-all">{c.before}</td>
+                                    <td className="p-2 break-all">{c.after}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={loading}>
+              {loading ? "Loading..." : "Load more"}
+            </Button>
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -12,7 +12,8 @@ export default function AutoImport() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [parsedData, setParsedData] = useState<any[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { canWrite } = useUserRole();
+  const { can } = useUserRole();
+  const canImport = can("import.run");
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -172,7 +173,9 @@ export default function AutoImport() {
         // Check if product exists by name
         const existingProduct = productNameMap.get(product.name.toLowerCase());
         if (existingProduct) {
-          productsToUpdate.push({ id: existingProduct.id, ...productData });
+          // Stock only changes through stock movements; the file's quantity opens new products
+          const { stock_qty, ...updates } = productData;
+          productsToUpdate.push({ id: existingProduct.id, ...updates });
         } else {
           // Generate unique product_id
           const uniqueId = `AUTO-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
@@ -234,7 +237,7 @@ export default function AutoImport() {
             />
             <Button
               onClick={() => fileInputRef.current?.click()}
-              disabled={!canWrite || isProcessing}
+              disabled={!canImport || isProcessing}
               className="w-full"
               size="lg"
             >
@@ -251,7 +254,7 @@ export default function AutoImport() {
               )}
             </Button>
 
-            {!canWrite && (
+            {!canImport && (
               <p className="text-sm text-destructive">
                 You don't have permission to import data
               </p>
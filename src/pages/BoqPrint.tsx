@@ -0,0 +1,70 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { BoqDocument } from "@/components/BoqDocument";
+import type { Boq } from "@/lib/boq";
+import { toast } from "sonner";
+
+// Exported as PDF through the browser's "Save as PDF" print destination, as with quotations
+export default function BoqPrint() {
+  const { id } = useParams<{ id: string }>();
+  const [boq, setBoq] = useState<Boq | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadBoq = async () => {
+      const { data, error } = await supabase
+        .from("boqs")
+        .select("*, boq_lines (*)")
+        .eq("id", id!)
+        .order("line_no", { referencedTable: "boq_lines" })
+        .maybeSingle();
+
+      if (error) {
+        toast.error("Error loading BOQ");
+      }
+      setBoq(data);
+      setLoading(false);
+    };
+    loadBoq();
+  }, [id]);
+
+  useEffect(() => {
+    if (!boq) return;
+    const previousTitle = document.title;
+    document.title = `${boq.boq_number} - ${boq.title}`;
+    window.print();
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [boq]);
+
+  if (loading) {
+    return <p className="p-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (!boq) {
+    return <p className="p-8 text-center text-muted-foreground">BOQ not found</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-white p-4 print:p-0">
+      <style>{"@page { size: A4; margin: 10mm; }"}</style>
+      <div className="flex justify-between gap-2 mb-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/boqs">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            BOQs
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+      <BoqDocument boq={boq} />
+    </div>
+  );
+}
@@ -0,0 +1,735 @@
+import { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Award, Edit, Eye, FileDown, FileSpreadsheet, ListChecks, Plus, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { BoqDocument } from "@/components/BoqDocument";
+import { toast } from "sonner";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getUnitFactor, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+import { getEffectiveGstRate } from "@/lib/gst";
+import { PRICE_BASES, boqAmounts, boqWorkbook, catalogRate, computeBoqLine, computeBoqTotals, type Boq, type PriceBasis } from "@/lib/boq";
+import { downloadXlsx } from "@/lib/xlsx";
+
+const boqSchema = z.object({
+  title: z.string().trim().min(1, "BOQ title is required").max(300, "Title too long"),
+  tender_ref: z.string().trim().max(100, "Tender reference too long"),
+  department: z.string().trim().max(200, "Department too long"),
+  notes: z.string().trim().max(2000, "Notes too long")
+});
+
+const boqLineSchema = z.object({
+  quantity: z.number({ invalid_type_error: "Quantity is required" }).positive("Quantity must be greater than zero"),
+  unit_price: z.number().min(0, "Rate cannot be negative").max(999999.99, "Rate too high")
+});
+
+const statusSchema = z.enum(["Draft", "Submitted", "Lost"]);
+
+interface CatalogProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string;
+  mrp_price: number | null;
+  selling_price: number;
+  purchase_price: number;
+  stock_qty: number;
+  gst_rate: number | null;
+  categories: { gst_rate: number | null } | null;
+  product_units: UnitConversion[];
+}
+
+interface BoqLineDraft {
+  key: number;
+  product_id: string;
+  quantity: number;
+  unit: string;
+  price_basis: PriceBasis;
+  unit_price: number;
+}
+
+const emptyHeader = () => ({
+  title: "",
+  tender_ref: "",
+  department: "",
+  boq_date: format(new Date(), "yyyy-MM-dd"),
+  inter_state: false,
+  price_basis: "Selling" as PriceBasis,
+  notes: ""
+});
+
+let nextLineKey = 1;
+const newLine = (priceBasis: PriceBasis): BoqLineDraft => ({
+  key: nextLineKey++,
+  product_id: "",
+  quantity: 1,
+  unit: "",
+  price_basis: priceBasis,
+  unit_price: 0,
+});
+
+const openPrintView = (boqId: string) => {
+  window.open(`/boqs/${boqId}/print`, "_blank");
+};
+
+export default function Boqs() {
+  const { canWrite, isAdmin } = useUserRole();
+  const [boqs, setBoqs] = useState<Boq[]>([]);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingBoqId, setEditingBoqId] = useState<string | null>(null);
+  const [header, setHeader] = useState(emptyHeader);
+  const [lines, setLines] = useState<BoqLineDraft[]>([newLine("Selling")]);
+  const [saving, setSaving] = useState(false);
+  const [awarding, setAwarding] = useState(false);
+  const [selectedBoq, setSelectedBoq] = useState<Boq | null>(null);
+
+  useEffect(() => {
+    loadBoqs();
+    loadProducts();
+  }, []);
+
+  const loadBoqs = async () => {
+    const { data, error } = await supabase
+      .from("boqs")
+      .select("*, boq_lines (*)")
+      .order("created_at", { ascending: false })
+      .order("line_no", { referencedTable: "boq_lines" });
+
+    if (error) {
+      toast.error("Error loading BOQs");
+      return;
+    }
+    setBoqs(data || []);
+    setSelectedBoq(current => current && (data || []).find(b => b.id === current.id) || null);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("id, name, product_id, unit, mrp_price, selling_price, purchase_price, stock_qty, gst_rate, categories (gst_rate), product_units (unit, factor)")
+      .order("name");
+    setProducts(data || []);
+  };
+
+  const productFor = (line: { product_id: string }) => products.find(p => p.id === line.product_id);
+
+  const gstRateFor = (product: CatalogProduct | undefined) =>
+    product ? getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate) : null;
+
+  const factorFor = (product: CatalogProduct, unit: string) =>
+    getUnitFactor(unit, product.unit, product.product_units) ?? 1;
+
+  // Re-prices a line from the catalog for its basis; Manual keeps the typed rate
+  const repriced = (line: BoqLineDraft): BoqLineDraft => {
+    const product = productFor(line);
+    if (!product) return line;
+    const rate = catalogRate(product, line.price_basis, factorFor(product, line.unit), gstRateFor(product) ?? 0);
+    return rate === null ? line : { ...line, unit_price: rate };
+  };
+
+  const updateLine = (key: number, changes: Partial<BoqLineDraft>, reprice = false) => {
+    setLines(current => current.map(line => {
+      if (line.key !== key) return line;
+      const updated = { ...line, ...changes };
+      return reprice ? repriced(updated) : updated;
+    }));
+  };
+
+  const handleProductChange = (key: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    updateLine(key, { product_id: productId, unit: product.unit }, true);
+  };
+
+  const handleQuantityChange = (line: BoqLineDraft, quantity: number, unit: string) => {
+    updateLine(line.key, { quantity, unit }, unit !== line.unit);
+  };
+
+  const handleDefaultBasisChange = (basis: PriceBasis) => {
+    setHeader({ ...header, price_basis: basis });
+    if (basis !== "Manual") {
+      setLines(current => current.map(line => repriced({ ...line, price_basis: basis })));
+    }
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setEditingBoqId(null);
+      setHeader(emptyHeader());
+      setLines([newLine("Selling")]);
+    }
+  };
+
+  const handleEdit = (boq: Boq) => {
+    setEditingBoqId(boq.id);
+    setHeader({
+      title: boq.title,
+      tender_ref: boq.tender_ref || "",
+      department: boq.department || "",
+      boq_date: boq.boq_date,
+      inter_state: boq.inter_state,
+      price_basis: "Manual",
+      notes: boq.notes || "",
+    });
+    setLines(boq.boq_lines.map(line => ({
+      key: nextLineKey++,
+      product_id: line.product_id,
+      quantity: line.quantity,
+      unit: line.unit,
+      price_basis: line.price_basis as PriceBasis,
+      unit_price: line.unit_price,
+    })));
+    setSelectedBoq(null);
+    setDialogOpen(true);
+  };
+
+  const costRateFor = (line: BoqLineDraft) => {
+    const product = productFor(line);
+    return product ? Math.round(product.purchase_price * factorFor(product, line.unit) * 100) / 100 : 0;
+  };
+
+  const lineAmounts = lines.map(line =>
+    computeBoqLine(line.quantity, line.unit_price, costRateFor(line), gstRateFor(productFor(line)) ?? 0, header.inter_state)
+  );
+  const totals = computeBoqTotals(lineAmounts);
+
+  const handleSave = async () => {
+    if (!canWrite) {
+      toast.error("You don't have permission to save BOQs");
+      return;
+    }
+
+    const result = boqSchema.safeParse(header);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const pricedLines = lines.filter(line => line.product_id);
+    if (pricedLines.length === 0) {
+      toast.error("Add at least one product to the BOQ");
+      return;
+    }
+
+    for (const line of pricedLines) {
+      const product = productFor(line)!;
+      const lineResult = boqLineSchema.safeParse(line);
+      if (!lineResult.success) {
+        toast.error(`${product.name}: ${lineResult.error.errors[0].message}`);
+        return;
+      }
+      const precisionError = checkQuantityPrecision(line.quantity, line.unit);
+      if (precisionError) {
+        toast.error(`${product.name}: ${precisionError}`);
+        return;
+      }
+      if (gstRateFor(product) === null) {
+        toast.error(`${product.name}: set a GST rate on the product or its category first`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("save_boq", {
+      _boq_id: editingBoqId || undefined,
+      _title: result.data.title,
+      _tender_ref: result.data.tender_ref,
+      _department: result.data.department,
+      _boq_date: header.boq_date,
+      _inter_state: header.inter_state,
+      _notes: result.data.notes,
+      _lines: pricedLines.map(line => ({
+        product_id: line.product_id,
+        quantity: line.quantity,
+        unit: line.unit,
+        price_basis: line.price_basis,
+        unit_price: line.unit_price,
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to save BOQs");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error saving BOQ");
+      }
+      return;
+    }
+
+    toast.success(editingBoqId ? "BOQ updated" : "BOQ saved as draft");
+    handleDialogOpenChange(false);
+    loadBoqs();
+  };
+
+  const updateStatus = async (boq: Boq, newStatus: string) => {
+    const statusResult = statusSchema.safeParse(newStatus);
+    if (!statusResult.success) {
+      toast.error("Invalid status value");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("boqs")
+      .update({ status: statusResult.data })
+      .eq("id", boq.id);
+
+    if (error) {
+      toast.error("Error updating status");
+      return;
+    }
+
+    toast.success(`${boq.boq_number} marked ${statusResult.data}`);
+    loadBoqs();
+  };
+
+  const handleAward = async (boq: Boq) => {
+    if (!window.confirm(
+      `Mark ${boq.boq_number} as awarded? Requirements will be raised for every item that current stock cannot cover.`
+    )) return;
+
+    setAwarding(true);
+    const { data, error } = await supabase.rpc("award_boq", { _boq_id: boq.id });
+    setAwarding(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to award BOQs");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error awarding BOQ");
+      }
+      return;
+    }
+
+    toast.success(data ? `BOQ awarded. ${data} requirement(s) raised for stock shortfalls.` : "BOQ awarded. Stock covers every line.");
+    loadBoqs();
+  };
+
+  const handleDelete = async (boq: Boq) => {
+    if (!window.confirm(`Delete ${boq.boq_number}?`)) return;
+
+    const { error } = await supabase.from("boqs").delete().eq("id", boq.id);
+    if (error) {
+      toast.error("Error deleting BOQ");
+      return;
+    }
+
+    toast.success("BOQ deleted");
+    setSelectedBoq(null);
+    loadBoqs();
+  };
+
+  const handleExportXlsx = (boq: Boq) => {
+    try {
+      downloadXlsx(`${boq.boq_number}_${format(new Date(), "yyyy-MM-dd")}`, boqWorkbook(boq));
+      toast.success("BOQ exported");
+    } catch (error) {
+      if (import.meta.env.DEV) {
+        console.error("Export error:", error);
+      }
+      toast.error("Failed to export BOQ");
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "Draft": return "bg-muted text-muted-foreground";
+      case "Submitted": return "bg-primary/10 text-primary";
+      case "Awarded": return "bg-success/10 text-success";
+      case "Lost": return "bg-destructive/10 text-destructive";
+      default: return "bg-muted text-muted-foreground";
+    }
+  };
+
+  const selectedAmounts = selectedBoq ? boqAmounts(selectedBoq) : null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Bills of Quantities</h1>
+            <p className="text-muted-foreground mt-2">
+              Tender BOQs priced from the catalog. Awarding a BOQ raises requirements for any stock shortfall.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <ListChecks className="w-4 h-4 mr-2" />
+              New BOQ
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">BOQ No.</th>
+                  <th className="text-left p-4 font-semibold">Date</th>
+                  <th className="text-left p-4 font-semibold">Title</th>
+                  <th className="text-left p-4 font-semibold">Lines</th>
+                  <th className="text-right p-4 font-semibold">Total</th>
+                  <th className="text-right p-4 font-semibold">Margin</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {boqs.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">No BOQs yet</td>
+                  </tr>
+                )}
+                {boqs.map((boq) => {
+                  const { totals: boqTotals } = boqAmounts(boq);
+                  return (
+                    <tr key={boq.id} className="border-t hover:bg-muted/30">
+                      <td className="p-4 font-medium">{boq.boq_number}</td>
+                      <td className="p-4">{format(new Date(boq.boq_date), "MMM dd, yyyy")}</td>
+                      <td className="p-4">
+                        <div>{boq.title}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {[boq.tender_ref, boq.department].filter(Boolean).join(" · ")}
+                        </div>
+                      </td>
+                      <td className="p-4">{boq.boq_lines.length}</td>
+                      <td className="p-4 text-right font-semibold">₹{boqTotals.grandTotal.toFixed(2)}</td>
+                      <td className={`p-4 text-right ${boqTotals.margin < 0 ? "text-destructive" : ""}`}>
+                        ₹{boqTotals.margin.toFixed(2)}
+                        <div className="text-xs text-muted-foreground">{boqTotals.marginPercent}%</div>
+                      </td>
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(boq.status)}`}>
+                          {boq.status}
+                        </span>
+                      </td>
+                      <td className="p-4">
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedBoq(boq)} aria-label="View BOQ">
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => openPrintView(boq.id)} aria-label="Export BOQ as PDF">
+                            <FileDown className="w-4 h-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => handleExportXlsx(boq)} aria-label="Export BOQ as XLSX">
+                            <FileSpreadsheet className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingBoqId ? "Edit BOQ" : "New BOQ"}</DialogTitle>
+            <DialogDescription>
+              Rates are before tax. MRP is converted back to a pre-tax rate; margin is the rate over the purchase price.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <Label>Title *</Label>
+              <Input
+                placeholder="e.g. Supply of electrical fittings for ward office"
+                value={header.title}
+                onChange={(e) => setHeader({ ...header, title: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Tender Reference</Label>
+              <Input
+                value={header.tender_ref}
+                onChange={(e) => setHeader({ ...header, tender_ref: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Department</Label>
+              <Input
+                value={header.department}
+                onChange={(e) => setHeader({ ...header, department: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>BOQ Date</Label>
+              <Input
+                type="date"
+                value={header.boq_date}
+                onChange={(e) => setHeader({ ...header, boq_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Price Basis</Label>
+              <Select value={header.price_basis} onValueChange={(v) => handleDefaultBasisChange(v as PriceBasis)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRICE_BASES.map((basis) => (
+                    <SelectItem key={basis} value={basis}>{basis === "Manual" ? "Per line" : `${basis} price`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="boq-inter-state"
+                checked={header.inter_state}
+                onCheckedChange={(checked) => setHeader({ ...header, inter_state: checked })}
+              />
+              <Label htmlFor="boq-inter-state">Inter-state supply (IGST)</Label>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">Product</th>
+                  <th className="text-left p-2 font-semibold">Quantity</th>
+                  <th className="text-left p-2 font-semibold">Basis</th>
+                  <th className="text-left p-2 font-semibold">Rate</th>
+                  <th className="text-right p-2 font-semibold">Amount</th>
+                  <th className="text-right p-2 font-semibold">GST</th>
+                  <th className="text-right p-2 font-semibold">Margin</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => {
+                  const product = productFor(line);
+                  const rate = gstRateFor(product);
+                  const amounts = lineAmounts[index];
+                  const baseQty = product ? toBaseQuantity(line.quantity || 0, line.unit, product.unit, product.product_units) : null;
+                  return (
+                    <tr key={line.key} className="border-t align-top">
+                      <td className="p-2 min-w-[200px]">
+                        <Select value={line.product_id} onValueChange={(v) => handleProductChange(line.key, v)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name} ({p.product_id})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {product && baseQty !== null && baseQty > product.stock_qty && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatQuantity(Math.max(product.stock_qty, 0))} {product.unit} in stock
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {product && (
+                          <UnitQuantityInput
+                            quantity={line.quantity}
+                            unit={line.unit}
+                            baseUnit={product.unit}
+                            conversions={product.product_units}
+                            onChange={(quantity, unit) => handleQuantityChange(line, quantity, unit)}
+                            inputClassName="w-24"
+                          />
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Select
+                          value={line.price_basis}
+                          onValueChange={(v) => updateLine(line.key, { price_basis: v as PriceBasis }, true)}
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PRICE_BASES.map((basis) => (
+                              <SelectItem key={basis} value={basis} disabled={basis === "MRP" && product?.mrp_price == null}>
+                                {basis}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-28"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(line.key, { unit_price: parseFloat(e.target.value) || 0, price_basis: "Manual" })}
+                        />
+                      </td>
+                      <td className="p-2 text-right">₹{amounts.taxable.toFixed(2)}</td>
+                      <td className="p-2 text-right">
+                        {product && (rate === null ? <span className="text-destructive">Not set</span> : `${rate}%`)}
+                      </td>
+                      <td className={`p-2 text-right font-semibold ${amounts.margin < 0 ? "text-destructive" : ""}`}>
+                        ₹{amounts.margin.toFixed(2)}
+                        {amounts.taxable > 0 && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {(amounts.margin / amounts.taxable * 100).toFixed(1)}%
+                          </div>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.length > 1 ? lines.filter(l => l.key !== line.key) : [newLine(header.price_basis)])}
+                          aria-label="Remove line"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-start gap-4 flex-wrap">
+            <Button variant="outline" size="sm" onClick={() => setLines([...lines, newLine(header.price_basis)])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="text-sm space-y-1 min-w-[240px]">
+              <div className="flex justify-between"><span>Taxable</span><span>₹{totals.taxable.toFixed(2)}</span></div>
+              {header.inter_state ? (
+                <div className="flex justify-between"><span>IGST</span><span>₹{totals.igst.toFixed(2)}</span></div>
+              ) : (
+                <>
+                  <div className="flex justify-between"><span>CGST</span><span>₹{totals.cgst.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span>SGST</span><span>₹{totals.sgst.toFixed(2)}</span></div>
+                </>
+              )}
+              <div className="flex justify-between"><span>Round Off</span><span>₹{totals.roundOff.toFixed(2)}</span></div>
+              <div className="flex justify-between font-bold border-t pt-1"><span>Total</span><span>₹{totals.grandTotal.toFixed(2)}</span></div>
+              <div className="flex justify-between text-muted-foreground"><span>Cost</span><span>₹{totals.cost.toFixed(2)}</span></div>
+              <div className={`flex justify-between font-semibold ${totals.margin < 0 ? "text-destructive" : "text-success"}`}>
+                <span>Margin</span><span>₹{totals.margin.toFixed(2)} ({totals.marginPercent}%)</span>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea
+              placeholder="Printed below the schedule, e.g. delivery period or make of items"
+              value={header.notes}
+              onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+            />
+          </div>
+
+          <Button onClick={handleSave} disabled={saving} className="w-full">
+            {saving ? "Saving..." : editingBoqId ? "Update BOQ" : "Save BOQ"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedBoq} onOpenChange={(open) => !open && setSelectedBoq(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedBoq?.boq_number} — {selectedBoq?.title}</DialogTitle>
+            <DialogDescription>
+              {selectedBoq?.status === "Awarded"
+                ? `Awarded on ${format(new Date(selectedBoq.awarded_at!), "MMM dd, yyyy")}.`
+                : "Cost and margin are internal: the PDF leaves them out and the XLSX keeps them on a separate Costing sheet."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedBoq && selectedAmounts && (
+            <>
+              <div className="flex gap-2 flex-wrap">
+                <Button variant="outline" size="sm" onClick={() => openPrintView(selectedBoq.id)}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Export PDF
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => handleExportXlsx(selectedBoq)}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Export XLSX
+                </Button>
+                {canWrite && selectedBoq.status !== "Awarded" && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(selectedBoq)}>
+                      <Edit className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                    <Select value={selectedBoq.status} onValueChange={(v) => updateStatus(selectedBoq, v)}>
+                      <SelectTrigger className="w-36 h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="Draft">Draft</SelectItem>
+                        <SelectItem value="Submitted">Submitted</SelectItem>
+                        <SelectItem value="Lost">Lost</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </>
+                )}
+                {canWrite && ["Draft", "Submitted"].includes(selectedBoq.status) && (
+                  <Button size="sm" onClick={() => handleAward(selectedBoq)} disabled={awarding}>
+                    <Award className="w-4 h-4 mr-2" />
+                    {awarding ? "Awarding..." : "Mark Awarded"}
+                  </Button>
+                )}
+                {isAdmin && selectedBoq.status !== "Awarded" && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(selectedBoq)} aria-label="Delete BOQ">
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Cost</p>
+                  <p className="text-lg font-semibold">₹{selectedAmounts.totals.cost.toFixed(2)}</p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Margin</p>
+                  <p className={`text-lg font-semibold ${selectedAmounts.totals.margin < 0 ? "text-destructive" : "text-success"}`}>
+                    ₹{selectedAmounts.totals.margin.toFixed(2)} ({selectedAmounts.totals.marginPercent}%)
+                  </p>
+                </div>
+                <div className="rounded-lg border p-3">
+                  <p className="text-muted-foreground">Requirements raised</p>
+                  <p className="text-lg font-semibold">
+                    {new Set(selectedBoq.boq_lines.map(l => l.requirement_id).filter(Boolean)).size}
+                  </p>
+                </div>
+              </div>
+
+              <div className="border rounded-lg p-4 bg-white">
+                <BoqDocument boq={selectedBoq} />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -10,28 +10,37 @@ import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
 import { z } from "zod";
 import DOMPurify from "dompurify";
+import { GST_RATES } from "@/lib/gst";
 
 const categorySchema = z.object({
   name: z.string().trim().min(1, "Category name is required").max(100, "Name too long"),
-  description: z.string().trim().max(500, "Description too long").default("")
+  description: z.string().trim().max(500, "Description too long").default(""),
+  hsn_code: z.string().trim().regex(/^(\d{4}|\d{6}|\d{8})?$/, "HSN/SAC code must be 4, 6 or 8 digits").default(""),
+  gst_rate: z.number().refine(rate => (GST_RATES as readonly number[]).includes(rate), "GST rate must be 0, 5, 12, 18 or 28%").nullable().default(null)
 });
 
 interface Category {
   id: string;
   name: string;
   description: string;
+  hsn_code: string | null;
+  gst_rate: number | null;
 }
 
 export default function Categories() {
   const { canWrite, canDelete } = useUserRole();
   const [categories, setCategories] = useState<Category[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCategoryId, setEditingCategoryId] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     description: "",
+    hsn_code: "",
+    gst_rate: null as number | null,
   });
 
   useEffect(() => {
@@ -60,23 +69,49 @@ export default function Categories() {
       return;
     }
     
-    const { error } = await supabase.from("categories").insert([result.data as any]);
-    
-    if (error) {
-      toast.error("Error adding category");
-      return;
+    if (editingCategoryId) {
+      const { error } = await supabase.from("categories").update(result.data).eq("id", editingCategoryId);
+
+      if (error) {
+        toast.error("Error updating category");
+        return;
+      }
+
+      toast.success("Category updated successfully!");
+    } else {
+      const { error } = await supabase.from("categories").insert([result.data as any]);
+
+      if (error) {
+        toast.error("Error adding category");
+        return;
+      }
+
+      toast.success("Category added successfully!");
     }
-    
-    toast.success("Category added successfully!");
+
     setIsDialogOpen(false);
     loadCategories();
     resetForm();
   };
 
+  const handleEdit = (category: Category) => {
+    setEditingCategoryId(category.id);
+    setFormData({
+      name: category.name,
+      description: category.description || "",
+      hsn_code: category.hsn_code || "",
+      gst_rate: category.gst_rate,
+    });
+    setIsDialogOpen(true);
+  };
+
   const resetForm = () => {
+    setEditingCategoryId(null);
     setFormData({
       name: "",
       description: "",
+      hsn_code: "",
+      gst_rate: null,
     });
   };
 
@@ -110,7 +145,9 @@ export default function Categories() {
     for (const [index, row] of data.entries()) {
       const category = {
         name: DOMPurify.sanitize(row.name || row.category_name || ""),
-        description: DOMPurify.sanitize(row.description || "")
+        description: DOMPurify.sanitize(row.description || ""),
+        hsn_code: DOMPurify.sanitize(row.hsn_code || row.hsn || ""),
+        gst_rate: row.gst_rate ? parseFloat(row.gst_rate) : null
       };
 
       const result = categorySchema.safeParse(category);
@@ -148,7 +185,9 @@ export default function Categories() {
   const prepareExportData = () => {
     return categories.map(c => ({
       name: c.name,
-      description: c.description
+      description: c.description,
+      hsn_code: c.hsn_code || "",
+      gst_rate: c.gst_rate ?? ""
     }));
   };
 
@@ -168,7 +207,10 @@ export default function Categories() {
               filename="categories"
             />
             {canWrite && (
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <Dialog open={isDialogOpen} onOpenChange={(open) => {
+                setIsDialogOpen(open);
+                if (!open) resetForm();
+              }}>
                 <DialogTrigger asChild>
                   <Button>
                     <Plus className="w-4 h-4 mr-2" />
@@ -177,7 +219,7 @@ export default function Categories() {
                 </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Add New Category</DialogTitle>
+                <DialogTitle>{editingCategoryId ? "Edit Category" : "Add New Category"}</DialogTitle>
               </DialogHeader>
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
@@ -195,7 +237,33 @@ export default function Categories() {
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   />
                 </div>
-                <Button type="submit" className="w-full">Add Category</Button>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>HSN/SAC Code</Label>
+                    <Input
+                      value={formData.hsn_code}
+                      onChange={(e) => setFormData({ ...formData, hsn_code: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Default GST Rate</Label>
+                    <Select
+                      value={formData.gst_rate === null ? "none" : String(formData.gst_rate)}
+                      onValueChange={(v) => setFormData({ ...formData, gst_rate: v === "none" ? null : Number(v) })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not set</SelectItem>
+                        {GST_RATES.map((rate) => (
+                          <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <Button type="submit" className="w-full">{editingCategoryId ? "Update Category" : "Add Category"}</Button>
               </form>
             </DialogContent>
           </Dialog>
@@ -206,8 +274,25 @@ export default function Categories() {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {categories.map((category) => (
             <div key={category.id} className="bg-card p-6 rounded-lg border hover:shadow-md transition-shadow">
-              <h3 className="font-semibold text-lg mb-2">{category.name}</h3>
+              <div className="flex justify-between items-start gap-2 mb-2">
+                <h3 className="font-semibold text-lg">{category.name}</h3>
+                <div className="flex gap-1">
+                  {canWrite && (
+                    <Button variant="ghost" size="sm" onClick={() => handleEdit(category)} aria-label="Edit category">
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {canDelete && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(category.id)} aria-label="Delete category">
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              </div>
               <p className="text-sm text-muted-foreground">{category.description || "No description"}</p>
+              <p className="text-xs text-muted-foreground mt-2">
+                HSN: {category.hsn_code || "-"} · GST: {category.gst_rate !== null ? `${category.gst_rate}%` : "Not set"}
+              </p>
             </div>
           ))}
         </div>
@@ -0,0 +1,400 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, BookOpen, IndianRupee, Trash2 } from "lucide-react";
+import { ContactActions } from "@/components/ContactActions";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+
+const PAYMENT_MODES = ["Cash", "UPI", "Bank Transfer", "Cheque"] as const;
+
+const paymentSchema = z.object({
+  payment_date: z.string().min(1, "Payment date is required"),
+  amount: z.number().positive("Amount must be greater than zero").max(99999999.99, "Amount too high"),
+  mode: z.enum(PAYMENT_MODES),
+  reference: z.string().trim().max(100, "Reference too long"),
+  notes: z.string().trim().max(500, "Notes too long")
+});
+
+interface CustomerDetails {
+  id: string;
+  name: string;
+  phone: string | null;
+  gstin: string | null;
+  address: string | null;
+  city: string | null;
+  credit_limit: number;
+  opening_balance: number;
+  notes: string | null;
+  created_at: string | null;
+}
+
+interface LedgerEntry {
+  key: string;
+  date: string;
+  description: string;
+  reference: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  paymentId?: string;
+}
+
+const emptyPayment = {
+  payment_date: format(new Date(), "yyyy-MM-dd"),
+  amount: 0,
+  mode: "Cash" as (typeof PAYMENT_MODES)[number],
+  reference: "",
+  notes: "",
+};
+
+export default function CustomerDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { canWrite, canDelete } = useUserRole();
+  const [customer, setCustomer] = useState<CustomerDetails | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [paymentOpen, setPaymentOpen] = useState(false);
+  const [payment, setPayment] = useState(emptyPayment);
+
+  const loadCustomer = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+
+    const { data: customerData, error } = await supabase
+      .from("customers")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error || !customerData) {
+      toast.error("Error loading customer");
+      setLoading(false);
+      return;
+    }
+
+    const [{ data: invoices }, { data: payments }] = await Promise.all([
+      supabase
+        .from("sales_invoices")
+        .select("id, invoice_number, invoice_date, grand_total, created_at")
+        .eq("customer_id", id)
+        .eq("payment_type", "Credit"),
+      supabase
+        .from("customer_payments")
+        .select("id, payment_date, amount, mode, reference, notes, created_at")
+        .eq("customer_id", id),
+    ]);
+
+    const entries: Omit<LedgerEntry, "balance">[] = [
+      ...(invoices || []).map(inv => ({
+        key: `invoice-${inv.id}`,
+        date: inv.invoice_date,
+        sortKey: inv.created_at || inv.invoice_date,
+        description: "Credit sale",
+        reference: inv.invoice_number,
+        debit: inv.grand_total,
+        credit: 0,
+      })),
+      ...(payments || []).map(p => ({
+        key: `payment-${p.id}`,
+        date: p.payment_date,
+        sortKey: p.created_at || p.payment_date,
+        description: p.notes || `Payment received (${p.mode})`,
+        reference: p.reference || "",
+        debit: 0,
+        credit: p.amount,
+        paymentId: p.id,
+      })),
+    ]
+      .sort((a, b) => a.date.localeCompare(b.date) || a.sortKey.localeCompare(b.sortKey))
+      .map(({ sortKey: _sortKey, ...entry }) => entry);
+
+    let balance = customerData.opening_balance;
+    const withBalance = entries.map(e => {
+      balance += e.debit - e.credit;
+      return { ...e, balance };
+    });
+
+    setCustomer(customerData);
+    setLedger(withBalance);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    loadCustomer();
+  }, [loadCustomer]);
+
+  const handlePaymentOpenChange = (open: boolean) => {
+    setPaymentOpen(open);
+    if (!open) setPayment(emptyPayment);
+  };
+
+  const handleRecordPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+
+    const result = paymentSchema.safeParse(payment);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const { error } = await supabase.from("customer_payments").insert([{
+      customer_id: id,
+      payment_date: result.data.payment_date,
+      amount: result.data.amount,
+      mode: result.data.mode,
+      reference: result.data.reference || null,
+      notes: result.data.notes || null,
+    }]);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to record payments");
+      } else {
+        toast.error("Error recording payment");
+      }
+      return;
+    }
+
+    toast.success("Payment recorded");
+    handlePaymentOpenChange(false);
+    loadCustomer();
+  };
+
+  const handleDeletePayment = async (paymentId: string) => {
+    if (!window.confirm("Delete this payment? The customer's balance will go up by its amount.")) return;
+
+    const { error } = await supabase.from("customer_payments").delete().eq("id", paymentId);
+
+    if (error) {
+      toast.error("Error deleting payment");
+      return;
+    }
+
+    toast.success("Payment deleted");
+    loadCustomer();
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Loading...</p>
+      </Layout>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Customer not found</p>
+          <Button variant="secondary" asChild>
+            <Link to="/customers">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Customers
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const outstanding = ledger.length > 0 ? ledger[ledger.length - 1].balance : customer.opening_balance;
+  const available = customer.credit_limit > 0 ? customer.credit_limit - outstanding : null;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4 flex-wrap">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/customers" aria-label="Back to Customers">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold">{customer.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {[customer.phone, customer.gstin && `GSTIN ${customer.gstin}`, customer.city].filter(Boolean).join(" · ")}
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setPaymentOpen(true)}>
+              <IndianRupee className="w-4 h-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Contact</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2">
+              <p>{customer.address || "No address"}</p>
+              {customer.notes && <p className="text-muted-foreground">{customer.notes}</p>}
+              {customer.phone && <ContactActions phone={customer.phone} />}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Balance</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Opening Balance</span>
+                <span className="font-semibold">₹{customer.opening_balance.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credit Limit</span>
+                <span className="font-semibold">{customer.credit_limit > 0 ? `₹${customer.credit_limit.toFixed(2)}` : "No limit"}</span>
+              </div>
+              {available !== null && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Available Credit</span>
+                  <span className={available < 0 ? "font-semibold text-destructive" : "font-semibold"}>₹{available.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg">
+                <span className="text-muted-foreground">{outstanding < 0 ? "Advance" : "Outstanding"}</span>
+                <span className="font-bold">₹{Math.abs(outstanding).toFixed(2)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="w-5 h-5 text-primary" />
+              Ledger
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-semibold">Date</th>
+                    <th className="text-left p-3 font-semibold">Particulars</th>
+                    <th className="text-left p-3 font-semibold">Reference</th>
+                    <th className="text-right p-3 font-semibold">Debit</th>
+                    <th className="text-right p-3 font-semibold">Credit</th>
+                    <th className="text-right p-3 font-semibold">Balance</th>
+                    {canDelete && <th />}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t">
+                    <td className="p-3">
+                      {customer.created_at ? format(new Date(customer.created_at), "MMM dd, yyyy") : "-"}
+                    </td>
+                    <td className="p-3 text-muted-foreground" colSpan={4}>Opening balance</td>
+                    <td className="p-3 text-right font-semibold">₹{customer.opening_balance.toFixed(2)}</td>
+                    {canDelete && <td />}
+                  </tr>
+                  {ledger.map((entry) => (
+                    <tr key={entry.key} className="border-t">
+                      <td className="p-3">{format(new Date(entry.date), "MMM dd, yyyy")}</td>
+                      <td className="p-3">{entry.description}</td>
+                      <td className="p-3 text-muted-foreground">{entry.reference || "-"}</td>
+                      <td className="p-3 text-right">{entry.debit ? `₹${entry.debit.toFixed(2)}` : ""}</td>
+                      <td className="p-3 text-right text-success">{entry.credit ? `₹${entry.credit.toFixed(2)}` : ""}</td>
+                      <td className="p-3 text-right font-semibold">₹{entry.balance.toFixed(2)}</td>
+                      {canDelete && (
+                        <td className="p-3">
+                          {entry.paymentId && (
+                            <Button variant="ghost" size="sm" onClick={() => handleDeletePayment(entry.paymentId!)} aria-label="Delete payment">
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          )}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={paymentOpen} onOpenChange={handlePaymentOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment — {customer.name}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRecordPayment} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Date *</Label>
+                <Input
+                  type="date"
+                  required
+                  value={payment.payment_date}
+                  onChange={(e) => setPayment({ ...payment, payment_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Amount *</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  required
+                  value={payment.amount}
+                  onChange={(e) => setPayment({ ...payment, amount: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Mode</Label>
+                <Select
+                  value={payment.mode}
+                  onValueChange={(v) => setPayment({ ...payment, mode: v as (typeof PAYMENT_MODES)[number] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>{mode}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Reference</Label>
+                <Input
+                  placeholder="UTR / cheque no."
+                  value={payment.reference}
+                  onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Input
+                value={payment.notes}
+                onChange={(e) => setPayment({ ...payment, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">Record Payment</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,468 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Phone, Edit, BookOpen } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { CsvImport } from "@/components/CsvImport";
+import { CsvExport } from "@/components/CsvExport";
+import { ContactActions } from "@/components/ContactActions";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { z } from "zod";
+import DOMPurify from "dompurify";
+
+const customerSchema = z.object({
+  name: z.string().trim().min(1, "Customer name is required").max(200, "Name too long"),
+  phone: z.string().trim().max(20, "Phone number too long").default(""),
+  gstin: z.string().trim().toUpperCase().regex(/^([0-9]{2}[A-Z0-9]{13})?$/, "GSTIN must be 15 characters starting with the state code").default(""),
+  address: z.string().trim().max(300, "Address too long").default(""),
+  city: z.string().trim().max(100, "City name too long").default(""),
+  credit_limit: z.number().min(0, "Credit limit cannot be negative").max(99999999.99, "Credit limit too high"),
+  opening_balance: z.number().min(-99999999.99, "Opening balance too low").max(99999999.99, "Opening balance too high"),
+  notes: z.string().trim().max(1000, "Notes too long").default("")
+});
+
+interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  gstin: string | null;
+  address: string | null;
+  city: string | null;
+  credit_limit: number;
+  opening_balance: number;
+  notes: string | null;
+}
+
+interface CustomerAgeing {
+  customer_id: string;
+  outstanding: number;
+  due_0_30: number;
+  due_31_60: number;
+  due_61_90: number;
+  due_over_90: number;
+  oldest_due_date: string | null;
+}
+
+const emptyForm = {
+  name: "",
+  phone: "",
+  gstin: "",
+  address: "",
+  city: "",
+  credit_limit: 0,
+  opening_balance: 0,
+  notes: "",
+};
+
+export default function Customers() {
+  const { canWrite } = useUserRole();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [ageing, setAgeing] = useState<Record<string, CustomerAgeing>>({});
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingCustomerId, setEditingCustomerId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadCustomers();
+    loadAgeing();
+  }, []);
+
+  const loadCustomers = async () => {
+    const { data, error } = await supabase
+      .from("customers")
+      .select("*")
+      .order("name");
+
+    if (error) {
+      toast.error("Error loading customers");
+      return;
+    }
+    setCustomers(data || []);
+  };
+
+  const loadAgeing = async () => {
+    const { data, error } = await supabase.rpc("get_customer_ageing");
+
+    if (error) {
+      toast.error("Error loading customer balances");
+      return;
+    }
+    setAgeing(Object.fromEntries((data || []).map(row => [row.customer_id, row])));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = customerSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const customer = {
+      ...result.data,
+      phone: result.data.phone || null,
+      gstin: result.data.gstin || null,
+    };
+
+    const { error } = editingCustomerId
+      ? await supabase.from("customers").update(customer).eq("id", editingCustomerId)
+      : await supabase.from("customers").insert([customer as any]);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to save customers");
+      } else {
+        toast.error(editingCustomerId ? "Error updating customer" : "Error adding customer");
+      }
+      return;
+    }
+
+    toast.success(editingCustomerId ? "Customer updated successfully!" : "Customer added successfully!");
+    handleDialogOpenChange(false);
+    loadCustomers();
+    loadAgeing();
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setEditingCustomerId(customer.id);
+    setFormData({
+      name: customer.name,
+      phone: customer.phone || "",
+      gstin: customer.gstin || "",
+      address: customer.address || "",
+      city: customer.city || "",
+      credit_limit: customer.credit_limit,
+      opening_balance: customer.opening_balance,
+      notes: customer.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingCustomerId(null);
+      setFormData(emptyForm);
+    }
+  };
+
+  const handleImport = async (data: any[]) => {
+    if (!canWrite) {
+      toast.error("You don't have permission to import customers");
+      return;
+    }
+
+    const validCustomers = [];
+    const errors = [];
+
+    for (const [index, row] of data.entries()) {
+      const customer = {
+        name: DOMPurify.sanitize(row.name || row.customer_name || ""),
+        phone: DOMPurify.sanitize(row.phone || row.phone_number || ""),
+        gstin: DOMPurify.sanitize(row.gstin || row.gst_no || ""),
+        address: DOMPurify.sanitize(row.address || ""),
+        city: DOMPurify.sanitize(row.city || ""),
+        credit_limit: parseFloat(row.credit_limit) || 0,
+        opening_balance: parseFloat(row.opening_balance) || 0,
+        notes: DOMPurify.sanitize(row.notes || "")
+      };
+
+      const result = customerSchema.safeParse(customer);
+      if (result.success) {
+        validCustomers.push({ ...result.data, phone: result.data.phone || null, gstin: result.data.gstin || null });
+      } else {
+        errors.push(`Row ${index + 1}: ${result.error.errors[0].message}`);
+      }
+    }
+
+    if (validCustomers.length === 0) {
+      toast.error(errors.length > 0 ? `Import failed. First error: ${errors[0]}` : "No valid customers found");
+      return;
+    }
+
+    const { error } = await supabase.from("customers").insert(validCustomers as any);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to import customers");
+      } else {
+        toast.error("Error importing customers");
+      }
+      return;
+    }
+
+    const message = errors.length > 0
+      ? `Imported ${validCustomers.length} customers (${errors.length} rows skipped)`
+      : `Successfully imported ${validCustomers.length} customers`;
+
+    toast.success(message);
+    loadCustomers();
+    loadAgeing();
+  };
+
+  const prepareExportData = () => {
+    return customers.map(c => ({
+      name: c.name,
+      phone: c.phone || "",
+      gstin: c.gstin || "",
+      address: c.address || "",
+      city: c.city || "",
+      credit_limit: c.credit_limit,
+      opening_balance: c.opening_balance,
+      outstanding: ageing[c.id]?.outstanding ?? "",
+      notes: c.notes || ""
+    }));
+  };
+
+  const ageingRows = customers
+    .map(customer => ({ customer, ageing: ageing[customer.id] }))
+    .filter(row => row.ageing && row.ageing.outstanding > 0)
+    .sort((a, b) => b.ageing.outstanding - a.ageing.outstanding);
+
+  const prepareAgeingExport = () => {
+    return ageingRows.map(({ customer, ageing }) => ({
+      customer: customer.name,
+      phone: customer.phone || "",
+      credit_limit: customer.credit_limit,
+      outstanding: ageing.outstanding,
+      "0_30_days": ageing.due_0_30,
+      "31_60_days": ageing.due_31_60,
+      "61_90_days": ageing.due_61_90,
+      over_90_days: ageing.due_over_90,
+      oldest_due: ageing.oldest_due_date || ""
+    }));
+  };
+
+  const ageingTotal = (pick: (row: CustomerAgeing) => number) =>
+    ageingRows.reduce((sum, row) => sum + pick(row.ageing), 0);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <h1 className="text-3xl font-bold">Customers</h1>
+          <div className="flex gap-2 flex-wrap">
+            <CsvImport
+              onImport={handleImport}
+              disabled={!canWrite}
+              acceptedFields={["name"]}
+            />
+            <CsvExport
+              data={prepareExportData()}
+              filename="customers"
+            />
+            {canWrite && (
+              <Button onClick={() => setIsDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Customer
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Tabs defaultValue="customers">
+          <TabsList>
+            <TabsTrigger value="customers">Customers</TabsTrigger>
+            <TabsTrigger value="ageing">Outstanding by Age</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="customers">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {customers.map((customer) => {
+                const outstanding = ageing[customer.id]?.outstanding ?? 0;
+                const overLimit = customer.credit_limit > 0 && outstanding > customer.credit_limit;
+                return (
+                  <div key={customer.id} className="bg-card p-6 rounded-lg border hover:shadow-md transition-shadow">
+                    <div className="flex justify-between items-start gap-2 mb-3">
+                      <Link to={`/customers/${customer.id}`} className="font-semibold text-lg hover:underline">
+                        {customer.name}
+                      </Link>
+                      {canWrite && (
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(customer)} aria-label="Edit customer">
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="space-y-2 text-sm">
+                      {customer.phone && (
+                        <div className="flex items-center gap-2 text-muted-foreground">
+                          <Phone className="w-4 h-4" />
+                          <span>{customer.phone}</span>
+                        </div>
+                      )}
+                      {customer.gstin && (
+                        <p className="text-muted-foreground">GSTIN: {customer.gstin}</p>
+                      )}
+                      {customer.city && (
+                        <p className="text-muted-foreground">{customer.city}</p>
+                      )}
+                      <div className="flex justify-between pt-2 border-t">
+                        <span className="text-muted-foreground">Outstanding</span>
+                        <span className={overLimit ? "font-semibold text-destructive" : "font-semibold"}>
+                          ₹{outstanding.toFixed(2)}
+                        </span>
+                      </div>
+                      {customer.credit_limit > 0 && (
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Credit limit</span>
+                          <span>₹{customer.credit_limit.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </div>
+                    {customer.phone && <ContactActions phone={customer.phone} />}
+                    <Button size="sm" variant="outline" asChild className="w-full mt-2">
+                      <Link to={`/customers/${customer.id}`}>
+                        <BookOpen className="w-4 h-4 mr-1" />
+                        Ledger
+                      </Link>
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="ageing" className="space-y-4">
+            <div className="flex justify-end">
+              <CsvExport
+                data={prepareAgeingExport()}
+                filename="customer-outstanding-ageing"
+              />
+            </div>
+            <div className="bg-card rounded-lg border">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-4 font-semibold">Customer</th>
+                      <th className="text-right p-4 font-semibold">0–30 days</th>
+                      <th className="text-right p-4 font-semibold">31–60 days</th>
+                      <th className="text-right p-4 font-semibold">61–90 days</th>
+                      <th className="text-right p-4 font-semibold">Over 90 days</th>
+                      <th className="text-right p-4 font-semibold">Outstanding</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ageingRows.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="p-8 text-center text-muted-foreground">No outstanding balances</td>
+                      </tr>
+                    )}
+                    {ageingRows.map(({ customer, ageing }) => (
+                      <tr key={customer.id} className="border-t hover:bg-muted/30">
+                        <td className="p-4">
+                          <Link to={`/customers/${customer.id}`} className="font-medium hover:underline">{customer.name}</Link>
+                          {customer.phone && <div className="text-xs text-muted-foreground">{customer.phone}</div>}
+                        </td>
+                        <td className="p-4 text-right">₹{ageing.due_0_30.toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageing.due_31_60.toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageing.due_61_90.toFixed(2)}</td>
+                        <td className="p-4 text-right text-destructive">₹{ageing.due_over_90.toFixed(2)}</td>
+                        <td className="p-4 text-right font-semibold">₹{ageing.outstanding.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    {ageingRows.length > 0 && (
+                      <tr className="border-t bg-muted/30 font-semibold">
+                        <td className="p-4">Total</td>
+                        <td className="p-4 text-right">₹{ageingTotal(a => a.due_0_30).toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageingTotal(a => a.due_31_60).toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageingTotal(a => a.due_61_90).toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageingTotal(a => a.due_over_90).toFixed(2)}</td>
+                        <td className="p-4 text-right">₹{ageingTotal(a => a.outstanding).toFixed(2)}</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCustomerId ? "Edit Customer" : "Add New Customer"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Customer Name *</Label>
+              <Input
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Phone</Label>
+                <Input
+                  value={formData.phone}
+                  onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>GSTIN</Label>
+                <Input
+                  value={formData.gstin}
+                  onChange={(e) => setFormData({ ...formData, gstin: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Address</Label>
+              <Input
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>City</Label>
+              <Input
+                value={formData.city}
+                onChange={(e) => setFormData({ ...formData, city: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Credit Limit (0 = no limit)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.credit_limit}
+                  onChange={(e) => setFormData({ ...formData, credit_limit: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label>Opening Balance</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={formData.opening_balance}
+                  onChange={(e) => setFormData({ ...formData, opening_balance: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">{editingCustomerId ? "Update Customer" : "Add Customer"}</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -6,9 +6,12 @@ import { Button } from "@/components/ui/button";
 import { Package, AlertTriangle, DollarSign, Users, Plus, Package2, FileText, UserPlus } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
+import { useUserRole } from "@/hooks/useUserRole";
+import { ProductCatalog } from "@/components/ProductCatalog";
 
 export default function Dashboard() {
   const navigate = useNavigate();
+  const { canWrite, can, loading: roleLoading } = useUserRole();
   const [metrics, setMetrics] = useState({
     totalProducts: 0,
     lowStockItems: 0,
@@ -49,6 +52,15 @@ export default function Dashboard() {
     });
   };
 
+  if (!roleLoading && !canWrite) {
+    return (
+      <Layout>
+        <BusinessHeader />
+        <ProductCatalog />
+      </Layout>
+    );
+  }
+
   return (
     <Layout>
       <BusinessHeader />
@@ -68,12 +80,14 @@ export default function Dashboard() {
             icon={AlertTriangle}
             variant="warning"
           />
-          <MetricCard
-            title="Total Stock Value"
-            value={`₹${metrics.totalStockValue.toFixed(2)}`}
-            icon={DollarSign}
-            variant="success"
-          />
+          {can("reports.financial") && (
+            <MetricCard
+              title="Total Stock Value"
+              value={`₹${metrics.totalStockValue.toFixed(2)}`}
+              icon={DollarSign}
+              variant="success"
+            />
+          )}
           <MetricCard
             title="Total Suppliers"
             value={metrics.totalSuppliers}
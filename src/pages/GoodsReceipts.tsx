@@ -0,0 +1,495 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, PackageCheck } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getQuantityStep, roundQuantity } from "@/lib/quantity";
+
+const goodsReceiptSchema = z.object({
+  supplier_invoice_no: z.string().trim().min(1, "Supplier invoice number is required").max(100, "Invoice number too long"),
+  landed_cost: z.number().min(0, "Landed cost cannot be negative").max(9999999.99, "Landed cost too high")
+});
+
+const goodsReceiptLineSchema = z.object({
+  received_qty: z.number().min(0, "Quantities cannot be negative"),
+  rejected_qty: z.number().min(0, "Quantities cannot be negative"),
+  unit_price: z.number().min(0, "Price cannot be negative").max(999999.99, "Price too high")
+}).refine(line => line.rejected_qty <= line.received_qty, "Rejected quantity cannot exceed received quantity");
+
+interface Supplier {
+  id: string;
+  name: string;
+}
+
+interface ReceiptLineDraft {
+  requirement_id: string;
+  product_name: string;
+  product_code: string;
+  unit: string | null;
+  outstanding: number;
+  received_qty: number;
+  rejected_qty: number;
+  unit_price: number;
+}
+
+interface GoodsReceiptLine {
+  id: string;
+  received_qty: number;
+  rejected_qty: number;
+  short_qty: number;
+  unit_price: number;
+  landed_unit_cost: number;
+  products: { id: string; name: string; product_id: string; unit: string | null } | null;
+}
+
+interface GoodsReceipt {
+  id: string;
+  grn_number: string;
+  supplier_invoice_no: string | null;
+  invoice_date: string | null;
+  landed_cost: number;
+  received_at: string | null;
+  notes: string | null;
+  suppliers: { name: string } | null;
+  goods_receipt_lines: GoodsReceiptLine[];
+}
+
+const emptyHeader = {
+  supplier_id: "",
+  supplier_invoice_no: "",
+  invoice_date: format(new Date(), "yyyy-MM-dd"),
+  landed_cost: "0",
+  notes: ""
+};
+
+const acceptedQty = (line: { received_qty: number; rejected_qty: number; unit: string | null }) =>
+  roundQuantity((line.received_qty || 0) - (line.rejected_qty || 0), line.unit);
+
+export default function GoodsReceipts() {
+  const { canWrite } = useUserRole();
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [header, setHeader] = useState(emptyHeader);
+  const [lines, setLines] = useState<ReceiptLineDraft[]>([]);
+  const [posting, setPosting] = useState(false);
+  const [selectedReceipt, setSelectedReceipt] = useState<GoodsReceipt | null>(null);
+
+  useEffect(() => {
+    loadReceipts();
+    loadSuppliers();
+  }, []);
+
+  const loadReceipts = async () => {
+    const { data, error } = await supabase
+      .from("goods_receipts")
+      .select(`
+        *,
+        suppliers (name),
+        goods_receipt_lines (id, received_qty, rejected_qty, short_qty, unit_price, landed_unit_cost, products (id, name, product_id, unit))
+      `)
+      .order("received_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error loading goods receipts");
+      return;
+    }
+    setReceipts(data || []);
+  };
+
+  const loadSuppliers = async () => {
+    const { data } = await supabase.from("suppliers").select("id, name").order("name");
+    setSuppliers(data || []);
+  };
+
+  // Ordered requirements for the supplier, priced from the issued PO line when there is one
+  const loadOrderedLines = async (supplierId: string) => {
+    const { data, error } = await supabase
+      .from("requirements")
+      .select(`
+        id,
+        needed_qty,
+        received_qty,
+        products!inner (name, product_id, unit, purchase_price, supplier_id),
+        purchase_order_lines (unit_price, purchase_orders (status))
+      `)
+      .eq("status", "Ordered")
+      .eq("products.supplier_id", supplierId)
+      .order("requested_date");
+
+    if (error) {
+      toast.error("Error loading ordered requirements");
+      return;
+    }
+
+    setLines((data || []).map(req => {
+      const outstanding = roundQuantity(req.needed_qty - req.received_qty, req.products.unit);
+      const poLine = req.purchase_order_lines.find(l => l.purchase_orders?.status === "Issued");
+      return {
+        requirement_id: req.id,
+        product_name: req.products.name,
+        product_code: req.products.product_id,
+        unit: req.products.unit,
+        outstanding,
+        received_qty: outstanding,
+        rejected_qty: 0,
+        unit_price: poLine?.unit_price ?? req.products.purchase_price,
+      };
+    }));
+  };
+
+  const handleSupplierChange = (supplierId: string) => {
+    setHeader({ ...header, supplier_id: supplierId });
+    setLines([]);
+    loadOrderedLines(supplierId);
+  };
+
+  const updateLine = (requirementId: string, changes: Partial<ReceiptLineDraft>) => {
+    setLines(current => current.map(line => line.requirement_id === requirementId ? { ...line, ...changes } : line));
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setHeader(emptyHeader);
+      setLines([]);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!canWrite) {
+      toast.error("You don't have permission to post goods receipts");
+      return;
+    }
+
+    const headerResult = goodsReceiptSchema.safeParse({
+      supplier_invoice_no: header.supplier_invoice_no,
+      landed_cost: parseFloat(header.landed_cost) || 0
+    });
+    if (!headerResult.success) {
+      toast.error(headerResult.error.errors[0].message);
+      return;
+    }
+
+    const postedLines = lines.filter(line => (line.received_qty || 0) > 0);
+    if (postedLines.length === 0) {
+      toast.error("Enter a received quantity on at least one line");
+      return;
+    }
+
+    for (const line of postedLines) {
+      const result = goodsReceiptLineSchema.safeParse({
+        received_qty: line.received_qty,
+        rejected_qty: line.rejected_qty || 0,
+        unit_price: line.unit_price
+      });
+      if (!result.success) {
+        toast.error(`${line.product_name}: ${result.error.errors[0].message}`);
+        return;
+      }
+      const precisionError = checkQuantityPrecision(line.received_qty, line.unit) || checkQuantityPrecision(line.rejected_qty || 0, line.unit);
+      if (precisionError) {
+        toast.error(`${line.product_name}: ${precisionError}`);
+        return;
+      }
+      if (acceptedQty(line) > line.outstanding) {
+        toast.error(`${line.product_name}: cannot accept more than the outstanding ${line.outstanding}`);
+        return;
+      }
+    }
+
+    setPosting(true);
+    const { error } = await supabase.rpc("post_goods_receipt", {
+      _supplier_id: header.supplier_id,
+      _supplier_invoice_no: headerResult.data.supplier_invoice_no,
+      _invoice_date: header.invoice_date,
+      _landed_cost: headerResult.data.landed_cost,
+      _notes: header.notes,
+      _lines: postedLines.map(line => ({
+        requirement_id: line.requirement_id,
+        received_qty: line.received_qty,
+        rejected_qty: line.rejected_qty || 0,
+        unit_price: line.unit_price,
+      })),
+    });
+    setPosting(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to post goods receipts");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error posting goods receipt");
+      }
+      return;
+    }
+
+    toast.success("Goods receipt posted. Stock and requirements updated.");
+    handleDialogOpenChange(false);
+    loadReceipts();
+  };
+
+  const invoiceValue = lines.reduce((sum, line) => sum + Math.max(acceptedQty(line), 0) * line.unit_price, 0);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Goods Receipts</h1>
+            <p className="text-muted-foreground mt-2">
+              Receive a supplier's ordered requirements against their invoice.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <PackageCheck className="w-4 h-4 mr-2" />
+              New GRN
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">GRN No.</th>
+                  <th className="text-left p-4 font-semibold">Received</th>
+                  <th className="text-left p-4 font-semibold">Supplier</th>
+                  <th className="text-left p-4 font-semibold">Invoice</th>
+                  <th className="text-left p-4 font-semibold">Lines</th>
+                  <th className="text-right p-4 font-semibold">Landed Cost</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipts.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">No goods receipts yet</td>
+                  </tr>
+                )}
+                {receipts.map((receipt) => (
+                  <tr key={receipt.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4 font-medium">{receipt.grn_number}</td>
+                    <td className="p-4">{receipt.received_at ? format(new Date(receipt.received_at), "MMM dd, yyyy") : "-"}</td>
+                    <td className="p-4">{receipt.suppliers?.name || "-"}</td>
+                    <td className="p-4">
+                      <div>{receipt.supplier_invoice_no || "-"}</div>
+                      {receipt.invoice_date && (
+                        <div className="text-xs text-muted-foreground">{format(new Date(receipt.invoice_date), "MMM dd, yyyy")}</div>
+                      )}
+                    </td>
+                    <td className="p-4">{receipt.goods_receipt_lines.length}</td>
+                    <td className="p-4 text-right">₹{receipt.landed_cost.toFixed(2)}</td>
+                    <td className="p-4">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedReceipt(receipt)} aria-label="View goods receipt">
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Goods Receipt</DialogTitle>
+            <DialogDescription>
+              Accepted quantity (received minus rejected) is added to stock. Anything not received stays outstanding.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="sm:col-span-2">
+              <Label>Supplier *</Label>
+              <Select value={header.supplier_id} onValueChange={handleSupplierChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Supplier Invoice No. *</Label>
+              <Input
+                value={header.supplier_invoice_no}
+                onChange={(e) => setHeader({ ...header, supplier_invoice_no: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Invoice Date</Label>
+              <Input
+                type="date"
+                value={header.invoice_date}
+                onChange={(e) => setHeader({ ...header, invoice_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Landed Cost (freight, duty, handling)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={header.landed_cost}
+                onChange={(e) => setHeader({ ...header, landed_cost: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {header.supplier_id && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-2 font-semibold">Product</th>
+                    <th className="text-right p-2 font-semibold">Outstanding</th>
+                    <th className="text-left p-2 font-semibold">Received</th>
+                    <th className="text-left p-2 font-semibold">Rejected</th>
+                    <th className="text-right p-2 font-semibold">Short</th>
+                    <th className="text-left p-2 font-semibold">Unit Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-4 text-center text-muted-foreground">
+                        No ordered requirements for this supplier
+                      </td>
+                    </tr>
+                  )}
+                  {lines.map((line) => (
+                    <tr key={line.requirement_id} className="border-t">
+                      <td className="p-2">
+                        <div className="font-medium">{line.product_name}</div>
+                        <div className="text-xs text-muted-foreground">{line.product_code}</div>
+                      </td>
+                      <td className="p-2 text-right">{formatQuantity(line.outstanding)} {line.unit || ""}</td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step={getQuantityStep(line.unit)}
+                          className="w-24"
+                          value={line.received_qty}
+                          onChange={(e) => updateLine(line.requirement_id, { received_qty: parseFloat(e.target.value) })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step={getQuantityStep(line.unit)}
+                          className="w-24"
+                          value={line.rejected_qty}
+                          onChange={(e) => updateLine(line.requirement_id, { rejected_qty: parseFloat(e.target.value) })}
+                        />
+                      </td>
+                      <td className="p-2 text-right">{formatQuantity(Math.max(line.outstanding - acceptedQty(line), 0))}</td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-28"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(line.requirement_id, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                  <tr className="border-t">
+                    <td className="p-2 font-semibold" colSpan={5}>Invoice value (accepted)</td>
+                    <td className="p-2 font-bold">₹{invoiceValue.toFixed(2)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea
+              value={header.notes}
+              onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+            />
+          </div>
+
+          <Button onClick={handlePost} disabled={posting || !header.supplier_id || lines.length === 0} className="w-full">
+            {posting ? "Posting..." : "Post Goods Receipt"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedReceipt} onOpenChange={(open) => !open && setSelectedReceipt(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedReceipt?.grn_number} — {selectedReceipt?.suppliers?.name}</DialogTitle>
+            <DialogDescription>
+              Invoice {selectedReceipt?.supplier_invoice_no || "-"}
+              {selectedReceipt?.invoice_date ? ` dated ${format(new Date(selectedReceipt.invoice_date), "MMM dd, yyyy")}` : ""}
+              {` · Landed cost ₹${(selectedReceipt?.landed_cost ?? 0).toFixed(2)}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">Product</th>
+                  <th className="text-right p-2 font-semibold">Received</th>
+                  <th className="text-right p-2 font-semibold">Rejected</th>
+                  <th className="text-right p-2 font-semibold">Short</th>
+                  <th className="text-right p-2 font-semibold">Unit Price</th>
+                  <th className="text-right p-2 font-semibold">Landed Unit Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {selectedReceipt?.goods_receipt_lines.map((line) => (
+                  <tr key={line.id} className="border-t">
+                    <td className="p-2">
+                      {line.products ? (
+                        <Link to={`/products/${line.products.id}`} className="font-medium hover:underline">
+                          {line.products.name}
+                        </Link>
+                      ) : "-"}
+                      <div className="text-xs text-muted-foreground">{line.products?.product_id}</div>
+                    </td>
+                    <td className="p-2 text-right">{formatQuantity(line.received_qty)} {line.products?.unit || ""}</td>
+                    <td className="p-2 text-right">{formatQuantity(line.rejected_qty)}</td>
+                    <td className="p-2 text-right">{formatQuantity(line.short_qty)}</td>
+                    <td className="p-2 text-right">₹{line.unit_price.toFixed(2)}</td>
+                    <td className="p-2 text-right font-semibold">₹{line.landed_unit_cost.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedReceipt?.notes && (
+            <p className="text-sm text-muted-foreground">{selectedReceipt.notes}</p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,576 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, ArrowRight, Package, Plus, Printer, Trash2, Undo2, Wrench } from "lucide-react";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getUnitFactor, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+import { GST_RATES } from "@/lib/gst";
+import { INSUFFICIENT_STOCK } from "@/lib/movements";
+import { NEXT_JOB_STATUS, getJobStatusColor, jobCardBill, type JobCard } from "@/lib/jobCards";
+
+const chargesSchema = z.object({
+  diagnosis: z.string().trim().max(1000, "Work done too long"),
+  labour_charge: z.number().min(0, "Labour charge cannot be negative").max(9999999.99, "Labour charge too high"),
+  labour_gst_rate: z.number(),
+  advance_paid: z.number().min(0, "Advance cannot be negative").max(9999999.99, "Advance too high")
+});
+
+const partSchema = z.object({
+  product_id: z.string().uuid("Select a part"),
+  quantity: z.number().positive("Quantity must be greater than 0")
+});
+
+interface PartProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string;
+  selling_price: number;
+  stock_qty: number;
+  allow_negative_stock: boolean;
+  product_units: UnitConversion[];
+}
+
+const emptyPartForm = {
+  product_id: "",
+  quantity: 1,
+  unit: "",
+};
+
+export default function JobCardDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { canWrite, isAdmin, can } = useUserRole();
+  // Fitting a part takes it out of stock
+  const canFitParts = canWrite && can("stock.out");
+  const [job, setJob] = useState<JobCard | null>(null);
+  const [products, setProducts] = useState<PartProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [charges, setCharges] = useState({ diagnosis: "", labour_charge: 0, labour_gst_rate: 18, advance_paid: 0 });
+  const [partDialogOpen, setPartDialogOpen] = useState(false);
+  const [partForm, setPartForm] = useState(emptyPartForm);
+  const [busy, setBusy] = useState(false);
+
+  const loadJob = useCallback(async () => {
+    if (!id) return;
+
+    const [{ data, error }, { data: productData }] = await Promise.all([
+      supabase
+        .from("job_cards")
+        .select("*, job_card_parts (*)")
+        .eq("id", id)
+        .order("created_at", { referencedTable: "job_card_parts" })
+        .maybeSingle(),
+      supabase
+        .from("products")
+        .select("id, name, product_id, unit, selling_price, stock_qty, allow_negative_stock, product_units (unit, factor)")
+        .order("name"),
+    ]);
+
+    if (error) {
+      toast.error("Error loading job card");
+    }
+    setJob(data);
+    setProducts(productData || []);
+    if (data) {
+      setCharges({
+        diagnosis: data.diagnosis || "",
+        labour_charge: data.labour_charge,
+        labour_gst_rate: data.labour_gst_rate,
+        advance_paid: data.advance_paid,
+      });
+    }
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    loadJob();
+  }, [loadJob]);
+
+  const selectedProduct = products.find(p => p.id === partForm.product_id);
+
+  const updateStatus = async (newStatus: string) => {
+    if (!job) return;
+    if (newStatus === "Delivered") {
+      const { balanceDue } = jobCardBill(job);
+      if (!window.confirm(
+        `Hand over ${job.job_number} to ${job.customer_name}? ` +
+        (balanceDue > 0 ? `Collect ₹${balanceDue.toFixed(2)}. ` : "") +
+        "The bill cannot be changed after delivery."
+      )) return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("job_cards")
+      .update({ status: newStatus })
+      .eq("id", job.id);
+    setBusy(false);
+
+    if (error) {
+      if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error updating status");
+      }
+      return;
+    }
+
+    toast.success(`${job.job_number} is now ${newStatus}`);
+    loadJob();
+  };
+
+  const handleSaveCharges = async () => {
+    if (!job) return;
+
+    const result = chargesSchema.safeParse(charges);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase
+      .from("job_cards")
+      .update({ ...result.data, diagnosis: result.data.diagnosis || null })
+      .eq("id", job.id);
+    setBusy(false);
+
+    if (error) {
+      toast.error("Error saving charges");
+      return;
+    }
+
+    toast.success("Charges saved");
+    loadJob();
+  };
+
+  const handlePartDialogOpenChange = (open: boolean) => {
+    setPartDialogOpen(open);
+    if (!open) {
+      setPartForm(emptyPartForm);
+    }
+  };
+
+  const handleAddPart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!job) return;
+
+    const result = partSchema.safeParse(partForm);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const baseQty = toBaseQuantity(result.data.quantity, partForm.unit, selectedProduct?.unit, selectedProduct?.product_units);
+    if (baseQty === null) {
+      toast.error(`Unit "${partForm.unit}" is not defined for this product`);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.quantity, partForm.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
+
+    if (selectedProduct && !selectedProduct.allow_negative_stock && baseQty > selectedProduct.stock_qty) {
+      toast.error(`Only ${formatQuantity(selectedProduct.stock_qty)} ${selectedProduct.unit} of ${selectedProduct.name} in stock`);
+      return;
+    }
+
+    setBusy(true);
+    const { error } = await supabase.rpc("add_job_card_part", {
+      _job_card_id: job.id,
+      _product_id: result.data.product_id,
+      _quantity: result.data.quantity,
+      _unit: partForm.unit,
+    });
+    setBusy(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to fit parts");
+      } else if (error.code === '22023' || error.code === INSUFFICIENT_STOCK) {
+        toast.error(error.message);
+      } else {
+        toast.error("Error adding part");
+      }
+      return;
+    }
+
+    toast.success("Part fitted and taken out of stock");
+    handlePartDialogOpenChange(false);
+    loadJob();
+  };
+
+  const handleRemovePart = async (partId: string, description: string) => {
+    if (!window.confirm(`Remove ${description} from this job and return it to stock?`)) return;
+
+    const { error } = await supabase.rpc("remove_job_card_part", { _part_id: partId });
+    if (error) {
+      if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error removing part");
+      }
+      return;
+    }
+
+    toast.success("Part returned to stock");
+    loadJob();
+  };
+
+  const handleDelete = async () => {
+    if (!job || !window.confirm(`Delete ${job.job_number}?`)) return;
+
+    const { error } = await supabase.from("job_cards").delete().eq("id", job.id);
+    if (error) {
+      toast.error("Error deleting job card");
+      return;
+    }
+
+    toast.success("Job card deleted");
+    navigate("/job-cards");
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Loading...</p>
+      </Layout>
+    );
+  }
+
+  if (!job) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Job card not found</p>
+          <Button variant="secondary" asChild>
+            <Link to="/job-cards">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Job Cards
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const { parts, labour, totals, balanceDue } = jobCardBill(job);
+  const next = NEXT_JOB_STATUS[job.status];
+  const editable = canWrite && job.status !== "Delivered";
+  const inRepair = job.status === "In Repair";
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4 flex-wrap">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/job-cards" aria-label="Back to Job Cards">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              {job.job_number}
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getJobStatusColor(job.status)}`}>
+                {job.status}
+              </span>
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {[job.customer_name, job.customer_phone, `Received ${format(new Date(job.received_date), "MMM dd, yyyy")}`]
+                .filter(Boolean).join(" · ")}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Button variant="outline" onClick={() => window.open(`/job-cards/${job.id}/print`, "_blank")}>
+              <Printer className="w-4 h-4 mr-2" />
+              {job.status === "Ready" || job.status === "Delivered" ? "Print Bill" : "Print Receipt"}
+            </Button>
+            {canWrite && job.status === "Ready" && (
+              <Button variant="outline" onClick={() => updateStatus("In Repair")} disabled={busy}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Back to Repair
+              </Button>
+            )}
+            {canWrite && next && (
+              <Button onClick={() => updateStatus(next.status)} disabled={busy}>
+                <ArrowRight className="w-4 h-4 mr-2" />
+                {next.action}
+              </Button>
+            )}
+            {isAdmin && job.status === "Received" && (
+              <Button variant="ghost" onClick={handleDelete} aria-label="Delete job card">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wrench className="w-5 h-5 text-primary" />
+                Appliance
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2">
+              <p className="font-medium">
+                {job.appliance_type}{job.appliance_details ? ` — ${job.appliance_details}` : ""}
+              </p>
+              {job.serial_no && <p className="text-muted-foreground">Serial No.: {job.serial_no}</p>}
+              <p><span className="text-muted-foreground">Fault:</span> {job.fault}</p>
+              {job.promised_date && (
+                <p><span className="text-muted-foreground">Promised:</span> {format(new Date(job.promised_date), "MMM dd, yyyy")}</p>
+              )}
+              {job.estimate !== null && (
+                <p><span className="text-muted-foreground">Estimate:</span> ₹{job.estimate.toFixed(2)}</p>
+              )}
+              {job.ready_at && (
+                <p><span className="text-muted-foreground">Ready:</span> {format(new Date(job.ready_at), "MMM dd, yyyy HH:mm")}</p>
+              )}
+              {job.delivered_at && (
+                <p><span className="text-muted-foreground">Delivered:</span> {format(new Date(job.delivered_at), "MMM dd, yyyy HH:mm")}</p>
+              )}
+              {job.notes && <p className="text-muted-foreground">{job.notes}</p>}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Work and Charges</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div>
+                <Label>Work Done</Label>
+                <Textarea
+                  disabled={!editable}
+                  placeholder="e.g. Rewound stator, replaced bearings"
+                  value={charges.diagnosis}
+                  onChange={(e) => setCharges({ ...charges, diagnosis: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label>Labour (₹)</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    disabled={!editable}
+                    value={charges.labour_charge}
+                    onChange={(e) => setCharges({ ...charges, labour_charge: parseFloat(e.target.value) || 0 })}
+                  />
+                </div>
+                <div>
+                  <Label>Labour GST</Label>
+                  <Select
+                    disabled={!editable}
+                    value={String(charges.labour_gst_rate)}
+                    onValueChange={(v) => setCharges({ ...charges, labour_gst_rate: Number(v) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GST_RATES.map((rate) => (
+                        <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Advance Paid (₹)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  disabled={!editable}
+                  value={charges.advance_paid}
+                  onChange={(e) => setCharges({ ...charges, advance_paid: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              {editable && (
+                <Button variant="outline" className="w-full" onClick={handleSaveCharges} disabled={busy}>
+                  Save Charges
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Bill</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Parts</span>
+                <span>₹{parts.reduce((sum, p) => sum + p.taxable, 0).toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Labour</span>
+                <span>₹{labour.taxable.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">CGST + SGST</span>
+                <span>₹{(totals.cgst + totals.sgst).toFixed(2)}</span>
+              </div>
+              {totals.roundOff !== 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Round Off</span>
+                  <span>₹{totals.roundOff.toFixed(2)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg border-t pt-2">
+                <span className="font-semibold">Total</span>
+                <span className="font-bold">₹{totals.grandTotal.toFixed(2)}</span>
+              </div>
+              {job.advance_paid > 0 && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Advance</span>
+                    <span>-₹{job.advance_paid.toFixed(2)}</span>
+                  </div>
+                  <div className={`flex justify-between font-semibold ${balanceDue < 0 ? "text-destructive" : ""}`}>
+                    <span>{balanceDue < 0 ? "Refund due" : "Balance due"}</span>
+                    <span>₹{Math.abs(balanceDue).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <Package className="w-5 h-5 text-primary" />
+              Parts Used
+            </CardTitle>
+            {canFitParts && (
+              <Button size="sm" onClick={() => setPartDialogOpen(true)} disabled={!inRepair}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Part
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {canWrite && !inRepair && job.status !== "Delivered" && (
+              <p className="text-sm text-muted-foreground mb-3">Parts can be fitted or removed while the job is In Repair.</p>
+            )}
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-semibold">Part</th>
+                    <th className="text-right p-3 font-semibold">Quantity</th>
+                    <th className="text-right p-3 font-semibold">Rate</th>
+                    <th className="text-right p-3 font-semibold">GST %</th>
+                    <th className="text-right p-3 font-semibold">Amount</th>
+                    {canWrite && inRepair && <th />}
+                  </tr>
+                </thead>
+                <tbody>
+                  {job.job_card_parts.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-6 text-center text-muted-foreground">No parts used yet</td>
+                    </tr>
+                  )}
+                  {job.job_card_parts.map((part, index) => (
+                    <tr key={part.id} className="border-t">
+                      <td className="p-3">
+                        <Link to={`/products/${part.product_id}`} className="font-medium hover:underline">{part.description}</Link>
+                      </td>
+                      <td className="p-3 text-right">{formatQuantity(part.quantity)} {part.unit}</td>
+                      <td className="p-3 text-right">₹{part.unit_price.toFixed(2)}</td>
+                      <td className="p-3 text-right">{part.gst_rate}</td>
+                      <td className="p-3 text-right font-semibold">₹{parts[index].total.toFixed(2)}</td>
+                      {canWrite && inRepair && (
+                        <td className="p-3 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemovePart(part.id, part.description)}
+                            aria-label="Remove part"
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={partDialogOpen} onOpenChange={handlePartDialogOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Part — {job.job_number}</DialogTitle>
+            <DialogDescription>
+              The part is taken out of stock now and billed at its selling price.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleAddPart} className="space-y-4">
+            <div>
+              <Label>Part *</Label>
+              <Select
+                value={partForm.product_id}
+                onValueChange={(v) => setPartForm({ ...partForm, product_id: v, unit: products.find(p => p.id === v)?.unit || "" })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.product_id} - {p.name} ({formatQuantity(p.stock_qty)} {p.unit} in stock)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Quantity *</Label>
+              <UnitQuantityInput
+                required
+                quantity={partForm.quantity}
+                unit={partForm.unit}
+                baseUnit={selectedProduct?.unit}
+                conversions={selectedProduct?.product_units}
+                onChange={(quantity, unit) => setPartForm({ ...partForm, quantity, unit })}
+              />
+            </div>
+            {selectedProduct && (
+              <p className="text-sm text-muted-foreground">
+                Rate: ₹{(selectedProduct.selling_price * (getUnitFactor(partForm.unit, selectedProduct.unit, selectedProduct.product_units) ?? 1)).toFixed(2)} per {partForm.unit || selectedProduct.unit} before GST
+              </p>
+            )}
+            <Button type="submit" className="w-full" disabled={busy}>
+              {busy ? "Saving..." : "Fit Part"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
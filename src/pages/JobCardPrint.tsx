@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { JobCardReceipt } from "@/components/JobCardReceipt";
+import type { JobCard } from "@/lib/jobCards";
+import { toast } from "sonner";
+
+export default function JobCardPrint() {
+  const { id } = useParams<{ id: string }>();
+  const [job, setJob] = useState<JobCard | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadJob = async () => {
+      const { data, error } = await supabase
+        .from("job_cards")
+        .select("*, job_card_parts (*)")
+        .eq("id", id!)
+        .order("created_at", { referencedTable: "job_card_parts" })
+        .maybeSingle();
+
+      if (error) {
+        toast.error("Error loading job card");
+      }
+      setJob(data);
+      setLoading(false);
+    };
+    loadJob();
+  }, [id]);
+
+  useEffect(() => {
+    if (!job) return;
+    const previousTitle = document.title;
+    document.title = `${job.job_number} - ${job.customer_name}`;
+    window.print();
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [job]);
+
+  if (loading) {
+    return <p className="p-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (!job) {
+    return <p className="p-8 text-center text-muted-foreground">Job card not found</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-white p-4 print:p-0">
+      <style>{"@page { size: A4; margin: 10mm; }"}</style>
+      <div className="flex justify-between gap-2 mb-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to={`/job-cards/${job.id}`}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {job.job_number}
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+      <JobCardReceipt job={job} />
+    </div>
+  );
+}
@@ -0,0 +1,406 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Search, Wrench } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { APPLIANCE_TYPES, JOB_CARD_STATUSES, getJobStatusColor } from "@/lib/jobCards";
+
+const jobCardSchema = z.object({
+  customer_name: z.string().trim().min(1, "Customer name is required").max(200, "Customer name too long"),
+  customer_phone: z.string().trim().max(20, "Phone number too long"),
+  appliance_type: z.enum(APPLIANCE_TYPES),
+  appliance_details: z.string().trim().max(200, "Appliance details too long"),
+  serial_no: z.string().trim().max(100, "Serial number too long"),
+  fault: z.string().trim().min(1, "Describe the fault reported").max(1000, "Fault description too long"),
+  received_date: z.string().min(1, "Received date is required"),
+  promised_date: z.string(),
+  estimate: z.number().min(0, "Estimate cannot be negative").max(9999999.99, "Estimate too high").nullable(),
+  advance_paid: z.number().min(0, "Advance cannot be negative").max(9999999.99, "Advance too high"),
+  notes: z.string().trim().max(1000, "Notes too long")
+}).refine(j => !j.promised_date || j.promised_date >= j.received_date, {
+  message: "Promised date cannot be before the received date"
+});
+
+interface JobCardSummary {
+  id: string;
+  job_number: string;
+  received_date: string;
+  customer_name: string;
+  customer_phone: string | null;
+  appliance_type: string;
+  appliance_details: string | null;
+  fault: string;
+  status: string;
+  promised_date: string | null;
+}
+
+interface JobCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+const emptyForm = () => ({
+  customer_id: "",
+  customer_name: "",
+  customer_phone: "",
+  appliance_type: "Fan" as (typeof APPLIANCE_TYPES)[number],
+  appliance_details: "",
+  serial_no: "",
+  fault: "",
+  received_date: format(new Date(), "yyyy-MM-dd"),
+  promised_date: "",
+  estimate: null as number | null,
+  advance_paid: 0,
+  notes: "",
+});
+
+export default function JobCards() {
+  const navigate = useNavigate();
+  const { canWrite } = useUserRole();
+  const [jobs, setJobs] = useState<JobCardSummary[]>([]);
+  const [customers, setCustomers] = useState<JobCustomer[]>([]);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadJobs();
+    loadCustomers();
+  }, []);
+
+  const loadJobs = async () => {
+    const { data, error } = await supabase
+      .from("job_cards")
+      .select("id, job_number, received_date, customer_name, customer_phone, appliance_type, appliance_details, fault, status, promised_date")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error loading job cards");
+      return;
+    }
+    setJobs(data || []);
+  };
+
+  const loadCustomers = async () => {
+    const { data } = await supabase
+      .from("customers")
+      .select("id, name, phone")
+      .order("name");
+    setCustomers(data || []);
+  };
+
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) {
+      setFormData({ ...formData, customer_id: "" });
+      return;
+    }
+    setFormData({ ...formData, customer_id: customer.id, customer_name: customer.name, customer_phone: customer.phone || "" });
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setFormData(emptyForm());
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = jobCardSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from("job_cards")
+      .insert([{
+        ...result.data,
+        customer_id: formData.customer_id || null,
+        customer_phone: result.data.customer_phone || null,
+        appliance_details: result.data.appliance_details || null,
+        serial_no: result.data.serial_no || null,
+        promised_date: result.data.promised_date || null,
+        notes: result.data.notes || null,
+      } as any])
+      .select("id, job_number")
+      .single();
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to book in repairs");
+      } else {
+        toast.error("Error creating job card");
+      }
+      return;
+    }
+
+    toast.success(`${data.job_number} booked in`);
+    handleDialogOpenChange(false);
+    navigate(`/job-cards/${data.id}`);
+  };
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const isOverdue = (job: JobCardSummary) =>
+    !!job.promised_date && job.promised_date < today && (job.status === "Received" || job.status === "In Repair");
+
+  const filteredJobs = jobs.filter(job => {
+    if (statusFilter === "open" && job.status === "Delivered") return false;
+    if (statusFilter !== "open" && statusFilter !== "all" && job.status !== statusFilter) return false;
+    const term = searchTerm.trim().toLowerCase();
+    return !term
+      || job.job_number.toLowerCase().includes(term)
+      || job.customer_name.toLowerCase().includes(term)
+      || (job.customer_phone || "").includes(term);
+  });
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Job Cards</h1>
+            <p className="text-muted-foreground mt-2">
+              Armature, fan winding, mixer grinder and motor repairs. Parts fitted on a job are taken out of stock.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Book In Repair
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by job number, customer or phone..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Not delivered</SelectItem>
+              <SelectItem value="all">All statuses</SelectItem>
+              {JOB_CARD_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Job No.</th>
+                  <th className="text-left p-4 font-semibold">Received</th>
+                  <th className="text-left p-4 font-semibold">Customer</th>
+                  <th className="text-left p-4 font-semibold">Appliance</th>
+                  <th className="text-left p-4 font-semibold">Fault</th>
+                  <th className="text-left p-4 font-semibold">Promised</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredJobs.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">No job cards found</td>
+                  </tr>
+                )}
+                {filteredJobs.map((job) => (
+                  <tr key={job.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4">
+                      <Link to={`/job-cards/${job.id}`} className="font-medium hover:underline">{job.job_number}</Link>
+                    </td>
+                    <td className="p-4">{format(new Date(job.received_date), "MMM dd, yyyy")}</td>
+                    <td className="p-4">
+                      <div>{job.customer_name}</div>
+                      {job.customer_phone && <div className="text-xs text-muted-foreground">{job.customer_phone}</div>}
+                    </td>
+                    <td className="p-4">
+                      <div>{job.appliance_type}</div>
+                      {job.appliance_details && <div className="text-xs text-muted-foreground">{job.appliance_details}</div>}
+                    </td>
+                    <td className="p-4 max-w-xs truncate" title={job.fault}>{job.fault}</td>
+                    <td className={`p-4 ${isOverdue(job) ? "text-destructive font-medium" : ""}`}>
+                      {job.promised_date ? format(new Date(job.promised_date), "MMM dd, yyyy") : "-"}
+                    </td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getJobStatusColor(job.status)}`}>
+                        {job.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Wrench className="w-5 h-5" />
+              Book In Repair
+            </DialogTitle>
+            <DialogDescription>Print the job receipt for the customer once the job card is created.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Customer</Label>
+              <Select value={formData.customer_id || "walk-in"} onValueChange={(v) => handleCustomerChange(v === "walk-in" ? "" : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="walk-in">Walk-in customer</SelectItem>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Name *</Label>
+                <Input
+                  required
+                  value={formData.customer_name}
+                  onChange={(e) => setFormData({ ...formData, customer_name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Phone</Label>
+                <Input
+                  type="tel"
+                  value={formData.customer_phone}
+                  onChange={(e) => setFormData({ ...formData, customer_phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Appliance *</Label>
+                <Select
+                  value={formData.appliance_type}
+                  onValueChange={(v) => setFormData({ ...formData, appliance_type: v as (typeof APPLIANCE_TYPES)[number] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {APPLIANCE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Serial No.</Label>
+                <Input
+                  value={formData.serial_no}
+                  onChange={(e) => setFormData({ ...formData, serial_no: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Make / Model</Label>
+              <Input
+                placeholder="e.g. Crompton 1200mm ceiling fan"
+                value={formData.appliance_details}
+                onChange={(e) => setFormData({ ...formData, appliance_details: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Fault Reported *</Label>
+              <Textarea
+                required
+                value={formData.fault}
+                onChange={(e) => setFormData({ ...formData, fault: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Received Date</Label>
+                <Input
+                  type="date"
+                  value={formData.received_date}
+                  onChange={(e) => setFormData({ ...formData, received_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Promised Date</Label>
+                <Input
+                  type="date"
+                  value={formData.promised_date}
+                  onChange={(e) => setFormData({ ...formData, promised_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Estimate (₹)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.estimate ?? ""}
+                  onChange={(e) => setFormData({ ...formData, estimate: e.target.value === "" ? null : parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div>
+                <Label>Advance Paid (₹)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.advance_paid}
+                  onChange={(e) => setFormData({ ...formData, advance_paid: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea
+                placeholder="Accessories received with the appliance, condition, etc."
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving ? "Saving..." : "Create Job Card"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Pencil, Plus, Star, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const locationSchema = z.object({
+  code: z.string().trim().min(1, "Location code is required").max(20, "Code too long"),
+  name: z.string().trim().min(1, "Location name is required").max(100, "Name too long"),
+  notes: z.string().trim().max(500, "Notes too long").optional()
+});
+
+interface Location {
+  id: string;
+  code: string;
+  name: string;
+  is_default: boolean;
+  notes: string | null;
+}
+
+const emptyForm = { code: "", name: "", notes: "" };
+
+export default function Locations() {
+  const { canWrite, isAdmin } = useUserRole();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadLocations();
+  }, []);
+
+  const loadLocations = async () => {
+    const { data, error } = await supabase
+      .from("locations")
+      .select("id, code, name, is_default, notes")
+      .order("created_at");
+
+    if (error) {
+      toast.error("Error loading locations");
+      return;
+    }
+    setLocations(data || []);
+  };
+
+  const openAdd = () => {
+    setEditingId(null);
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditingId(location.id);
+    setFormData({ code: location.code, name: location.name, notes: location.notes || "" });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = locationSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const values = { code: result.data.code, name: result.data.name, notes: result.data.notes || null };
+    const { error } = editingId
+      ? await supabase.from("locations").update(values).eq("id", editingId)
+      : await supabase.from("locations").insert([values]);
+
+    if (error) {
+      if (error.code === '23505') {
+        toast.error("A location with this code already exists");
+      } else if (error.code === '42501') {
+        toast.error("You do not have permission to change locations");
+      } else {
+        toast.error("Error saving location");
+      }
+      return;
+    }
+
+    toast.success(editingId ? "Location updated" : "Location added successfully!");
+    setIsDialogOpen(false);
+    setFormData(emptyForm);
+    loadLocations();
+  };
+
+  const handleMakeDefault = async (location: Location) => {
+    if (!window.confirm(`Post new stock movements to "${location.name}" by default?`)) return;
+
+    const { error } = await supabase.rpc("set_default_location", { _location_id: location.id });
+
+    if (error) {
+      toast.error(error.code === '42501' ? error.message : "Error changing default location");
+      return;
+    }
+
+    toast.success(`${location.name} is now the default location`);
+    loadLocations();
+  };
+
+  const handleDelete = async (location: Location) => {
+    if (!window.confirm(`Delete location "${location.name}"?`)) return;
+
+    const { error } = await supabase.from("locations").delete().eq("id", location.id);
+
+    if (error) {
+      if (error.code === '23503') {
+        toast.error("This location still has stock movements");
+      } else {
+        toast.error("Error deleting location");
+      }
+      return;
+    }
+
+    toast.success("Location deleted successfully!");
+    loadLocations();
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Stock Locations</h1>
+            <p className="text-muted-foreground mt-2">
+              Places where stock is kept. Sales, receipts and project issues use the default location.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={openAdd}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Location
+            </Button>
+          )}
+        </div>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editingId ? "Edit Location" : "Add New Location"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label>Code *</Label>
+                <Input
+                  required
+                  placeholder="e.g. SHOP, GODOWN"
+                  value={formData.code}
+                  onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Name *</Label>
+                <Input
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Notes</Label>
+                <Textarea
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </div>
+              <Button type="submit" className="w-full">{editingId ? "Save Changes" : "Add Location"}</Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Code</th>
+                  <th className="text-left p-4 font-semibold">Name</th>
+                  <th className="text-left p-4 font-semibold">Notes</th>
+                  {canWrite && <th className="text-left p-4 font-semibold">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {locations.map((location) => (
+                  <tr key={location.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4 font-medium">{location.code}</td>
+                    <td className="p-4">
+                      {location.name}
+                      {location.is_default && (
+                        <span className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary">
+                          Default
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-muted-foreground">{location.notes || "-"}</td>
+                    {canWrite && (
+                      <td className="p-4">
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => openEdit(location)} aria-label="Edit location">
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          {isAdmin && !location.is_default && (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => handleMakeDefault(location)} aria-label="Make default location">
+                                <Star className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(location)} aria-label="Delete location">
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
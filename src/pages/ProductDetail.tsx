@@ -0,0 +1,543 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, ArrowUp, ArrowDown, BookOpen, History, Package, Plus, Ruler, Trash2, Warehouse } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { formatQuantity } from "@/lib/quantity";
+import { getEffectiveGstRate, splitGst } from "@/lib/gst";
+import { MOVEMENT_TYPE_LABELS, movementChange } from "@/lib/movements";
+
+const unitConversionSchema = z.object({
+  unit: z.string().min(1, "Select a unit"),
+  factor: z.number().positive("Conversion factor must be greater than 0").max(999999, "Conversion factor too high")
+});
+
+interface ProductDetails {
+  id: string;
+  product_id: string;
+  name: string;
+  stock_qty: number;
+  unit: string | null;
+  min_stock_level: number | null;
+  purchase_price: number;
+  selling_price: number;
+  mrp_price: number | null;
+  without_tax_price: number | null;
+  barcode: string | null;
+  item_code: string | null;
+  description: string | null;
+  notes: string | null;
+  hsn_code: string | null;
+  gst_rate: number | null;
+  allow_negative_stock: boolean;
+  categories: { name: string; hsn_code: string | null; gst_rate: number | null } | null;
+  suppliers: { name: string } | null;
+}
+
+interface UnitConversionRow {
+  id: string;
+  unit: string;
+  factor: number;
+}
+
+interface LocationStock {
+  id: string;
+  name: string;
+  stock_qty: number;
+  min_stock_level: number | null;
+}
+
+interface LedgerEntry {
+  key: string;
+  date: string;
+  description: string;
+  reference: string;
+  change: number;
+  balance: number;
+}
+
+export default function ProductDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [product, setProduct] = useState<ProductDetails | null>(null);
+  const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+  const [openingQty, setOpeningQty] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const { canWrite, canDelete, isAdmin } = useUserRole();
+  const [conversions, setConversions] = useState<UnitConversionRow[]>([]);
+  const [unitCodes, setUnitCodes] = useState<string[]>([]);
+  const [conversionForm, setConversionForm] = useState({ unit: "", factor: 0 });
+  const [locationStock, setLocationStock] = useState<LocationStock[]>([]);
+  const [locationMins, setLocationMins] = useState<Record<string, string>>({});
+
+  const loadProduct = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+
+    const { data: productData, error } = await supabase
+      .from("products")
+      .select(`
+        *,
+        categories (name, hsn_code, gst_rate),
+        suppliers (name),
+        product_locations (location_id, stock_qty, min_stock_level)
+      `)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error || !productData) {
+      toast.error("Error loading product");
+      setLoading(false);
+      return;
+    }
+
+    const [{ data: movements }, { data: locations }] = await Promise.all([
+      supabase
+        .from("stock_movements")
+        .select("id, movement_date, movement_type, quantity, reference, notes")
+        .eq("product_id", id),
+      supabase.from("locations").select("id, name").order("created_at"),
+    ]);
+
+    const byLocation = (locations || []).map(l => {
+      const held = productData.product_locations.find(pl => pl.location_id === l.id);
+      return { ...l, stock_qty: held?.stock_qty ?? 0, min_stock_level: held?.min_stock_level ?? null };
+    });
+
+    // Stock imports that once overwrote stock_qty are part of each product's OPENING movement
+    const entries: Omit<LedgerEntry, "balance">[] = (movements || []).map(m => ({
+      key: `movement-${m.id}`,
+      date: m.movement_date || "",
+      description: m.notes || `Stock ${MOVEMENT_TYPE_LABELS[m.movement_type] ?? m.movement_type}`,
+      reference: m.reference || "",
+      change: movementChange(m.movement_type, m.quantity),
+    })).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    // Work backwards from the current quantity so the closing balance always matches stock_qty
+    const totalChange = entries.reduce((sum, e) => sum + e.change, 0);
+    const opening = productData.stock_qty - totalChange;
+
+    let balance = opening;
+    const withBalance = entries.map(e => {
+      balance += e.change;
+      return { ...e, balance };
+    });
+
+    setProduct(productData);
+    setOpeningQty(opening);
+    setLocationStock(byLocation);
+    setLocationMins(Object.fromEntries(byLocation.map(l => [l.id, l.min_stock_level?.toString() ?? ""])));
+    setLedger(withBalance);
+    setLoading(false);
+  }, [id]);
+
+  const loadConversions = useCallback(async () => {
+    if (!id) return;
+    const [{ data: rows }, { data: units }] = await Promise.all([
+      supabase.from("product_units").select("id, unit, factor").eq("product_id", id).order("factor"),
+      supabase.from("units").select("code").order("code"),
+    ]);
+    setConversions(rows || []);
+    setUnitCodes((units || []).map(u => u.code));
+  }, [id]);
+
+  useEffect(() => {
+    loadProduct();
+    loadConversions();
+  }, [loadProduct, loadConversions]);
+
+  const handleAddConversion = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id) return;
+
+    const result = unitConversionSchema.safeParse(conversionForm);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const { error } = await supabase
+      .from("product_units")
+      .insert([{ product_id: id, unit: result.data.unit, factor: result.data.factor }]);
+
+    if (error) {
+      if (error.code === '23505') {
+        toast.error("This product already has a conversion for that unit");
+      } else if (error.code === '42501') {
+        toast.error("You do not have permission to change unit conversions");
+      } else {
+        toast.error("Error adding unit conversion");
+      }
+      return;
+    }
+
+    toast.success("Unit conversion added");
+    setConversionForm({ unit: "", factor: 0 });
+    loadConversions();
+  };
+
+  const handleDeleteConversion = async (conversionId: string) => {
+    if (!window.confirm("Remove this unit conversion?")) return;
+
+    const { error } = await supabase.from("product_units").delete().eq("id", conversionId);
+
+    if (error) {
+      toast.error("Error removing unit conversion");
+      return;
+    }
+
+    toast.success("Unit conversion removed");
+    loadConversions();
+  };
+
+  const handleSaveLocationMin = async (location: LocationStock) => {
+    if (!id) return;
+    const value = locationMins[location.id]?.trim() ?? "";
+    const minStock = value === "" ? null : parseFloat(value);
+    if (minStock !== null && (isNaN(minStock) || minStock < 0)) {
+      toast.error("Min stock cannot be negative");
+      return;
+    }
+
+    const { error } = await supabase.rpc("set_location_min_stock", {
+      _product_id: id,
+      _location_id: location.id,
+      _min_stock_level: minStock,
+    });
+
+    if (error) {
+      toast.error(error.code === '42501' || error.code === '22023' ? error.message : "Error saving minimum stock");
+      return;
+    }
+
+    toast.success(`Minimum stock at ${location.name} ${minStock === null ? "cleared" : "saved"}`);
+    loadProduct();
+  };
+
+  const handleAllowNegativeChange = async (allowed: boolean) => {
+    if (!id) return;
+    const { error } = await supabase
+      .from("products")
+      .update({ allow_negative_stock: allowed })
+      .eq("id", id);
+
+    if (error) {
+      toast.error(error.code === '42501' ? error.message : "Error updating product");
+      return;
+    }
+
+    toast.success(allowed ? "Negative stock allowed; this product can be issued on backorder" : "Negative stock no longer allowed");
+    loadProduct();
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Loading...</p>
+      </Layout>
+    );
+  }
+
+  if (!product) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Product not found</p>
+          <Button variant="secondary" asChild>
+            <Link to="/products">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Products
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const unit = product.unit || "";
+  const gstRate = getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate);
+  const tax = gstRate === null ? null : splitGst(product.without_tax_price || 0, gstRate);
+  const masterData = [
+    { label: "Product ID", value: product.product_id },
+    { label: "Item Code", value: product.item_code },
+    { label: "Category", value: product.categories?.name },
+    { label: "Supplier", value: product.suppliers?.name },
+    { label: "Barcode", value: product.barcode },
+    { label: "Unit", value: product.unit },
+    { label: "Min Stock Level", value: product.min_stock_level },
+    { label: "Purchase Price", value: `₹${product.purchase_price.toFixed(2)}` },
+    { label: "Selling Price", value: `₹${product.selling_price.toFixed(2)}` },
+    { label: "MRP Price", value: `₹${(product.mrp_price || 0).toFixed(2)}` },
+    { label: "Without Tax", value: `₹${(product.without_tax_price || 0).toFixed(2)}` },
+    { label: "HSN/SAC Code", value: product.hsn_code || product.categories?.hsn_code },
+    {
+      label: "GST Rate",
+      value: gstRate === null ? null : `${gstRate}%${product.gst_rate === null ? " (category default)" : ""}`,
+    },
+    { label: "CGST + SGST", value: tax && `₹${tax.cgst.toFixed(2)} + ₹${tax.sgst.toFixed(2)}` },
+    { label: "IGST (inter-state)", value: gstRate === null ? null : `₹${splitGst(product.without_tax_price || 0, gstRate, true).igst.toFixed(2)}` },
+  ];
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4 flex-wrap">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/products" aria-label="Back to Products">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{product.name}</h1>
+            <p className="text-sm text-muted-foreground">{product.product_id}</p>
+          </div>
+          {isAdmin && (
+            <Button variant="outline" size="sm" className="ml-auto" asChild>
+              <Link to={`/audit-log?table=products&entity=${product.id}`}>
+                <History className="w-4 h-4 mr-2" />
+                Change History
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="w-5 h-5 text-primary" />
+                Master Data
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3 text-sm">
+                {masterData.map((item) => (
+                  <div key={item.label} className="flex justify-between gap-4 border-b pb-2">
+                    <dt className="text-muted-foreground">{item.label}</dt>
+                    <dd className="font-medium text-right">{item.value ?? "-"}</dd>
+                  </div>
+                ))}
+              </dl>
+              {product.description && (
+                <p className="text-sm text-muted-foreground mt-4">{product.description}</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Opening Qty</span>
+                <span className="font-semibold">{formatQuantity(openingQty)} {unit}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Entries</span>
+                <span className="font-semibold">{ledger.length}</span>
+              </div>
+              <div className="flex justify-between text-lg">
+                <span className="text-muted-foreground">Closing Qty</span>
+                <span className={product.stock_qty < (product.min_stock_level ?? 0) ? "text-warning font-bold" : "font-bold"}>
+                  {formatQuantity(product.stock_qty)} {unit}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2 border-t pt-3">
+                <Label htmlFor="allow-negative-stock" className="text-muted-foreground font-normal">
+                  Allow backorders / negative stock
+                </Label>
+                <Switch
+                  id="allow-negative-stock"
+                  checked={product.allow_negative_stock}
+                  disabled={!isAdmin}
+                  onCheckedChange={handleAllowNegativeChange}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Warehouse className="w-5 h-5 text-primary" />
+              Stock by Location
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A location minimum raises a requirement when stock there runs low and other locations cannot cover it. Leave blank for no minimum.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-semibold">Location</th>
+                    <th className="text-right p-3 font-semibold">Stock</th>
+                    <th className="text-left p-3 font-semibold">Min Stock</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {locationStock.map((location) => (
+                    <tr key={location.id} className="border-t">
+                      <td className="p-3">{location.name}</td>
+                      <td className={`p-3 text-right ${location.min_stock_level !== null && location.stock_qty < location.min_stock_level ? "text-warning font-bold" : "font-semibold"}`}>
+                        {formatQuantity(location.stock_qty)} {unit}
+                      </td>
+                      <td className="p-3">
+                        {canWrite ? (
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.001"
+                              className="w-28"
+                              value={locationMins[location.id] ?? ""}
+                              onChange={(e) => setLocationMins({ ...locationMins, [location.id]: e.target.value })}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={(locationMins[location.id] ?? "") === (location.min_stock_level?.toString() ?? "")}
+                              onClick={() => handleSaveLocationMin(location)}
+                            >
+                              Save
+                            </Button>
+                          </div>
+                        ) : (
+                          location.min_stock_level === null ? "-" : formatQuantity(location.min_stock_level)
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Ruler className="w-5 h-5 text-primary" />
+              Unit Conversions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Stock is kept in {unit || "the base unit"}. Movements, requirements and purchase orders can also be entered in these units.
+            </p>
+            {conversions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No alternate units defined</p>
+            ) : (
+              <ul className="space-y-2">
+                {conversions.map((c) => (
+                  <li key={c.id} className="flex items-center justify-between border-b pb-2 text-sm">
+                    <span>1 {c.unit} = <span className="font-semibold">{formatQuantity(c.factor)} {unit}</span></span>
+                    {canDelete && (
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteConversion(c.id)} aria-label="Remove unit conversion">
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {canWrite && (
+              <form onSubmit={handleAddConversion} className="flex flex-wrap items-end gap-2">
+                <div>
+                  <Label>Unit</Label>
+                  <Select value={conversionForm.unit} onValueChange={(v) => setConversionForm({ ...conversionForm, unit: v })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Select unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unitCodes
+                        .filter(code => code !== product.unit && !conversions.some(c => c.unit === code))
+                        .map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>{unit ? `${unit} per unit` : "Base units per unit"}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    className="w-36"
+                    value={conversionForm.factor}
+                    onChange={(e) => setConversionForm({ ...conversionForm, factor: parseFloat(e.target.value) })}
+                  />
+                </div>
+                <Button type="submit">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <section aria-labelledby="ledger-heading" className="space-y-4">
+          <h2 id="ledger-heading" className="text-xl font-semibold flex items-center gap-2">
+            <BookOpen className="w-5 h-5 text-primary" />
+            Stock Ledger
+          </h2>
+          <div className="bg-card rounded-lg border">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-4 font-semibold">Date</th>
+                    <th className="text-left p-4 font-semibold">Details</th>
+                    <th className="text-left p-4 font-semibold">Reference</th>
+                    <th className="text-right p-4 font-semibold">In / Out</th>
+                    <th className="text-right p-4 font-semibold">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t bg-muted/20">
+                    <td className="p-4" colSpan={4}>Opening balance</td>
+                    <td className="p-4 text-right font-semibold">{formatQuantity(openingQty)}</td>
+                  </tr>
+                  {ledger.map((entry) => (
+                    <tr key={entry.key} className="border-t hover:bg-muted/30">
+                      <td className="p-4 whitespace-nowrap">
+                        {entry.date ? format(new Date(entry.date), "MMM dd, yyyy HH:mm") : "-"}
+                      </td>
+                      <td className="p-4 text-sm text-muted-foreground">{entry.description}</td>
+                      <td className="p-4">{entry.reference || "-"}</td>
+                      <td className="p-4 text-right">
+                        <span className={`inline-flex items-center gap-1 font-semibold ${entry.change >= 0 ? "text-success" : "text-destructive"}`}>
+                          {entry.change >= 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+                          {formatQuantity(Math.abs(entry.change))}
+                        </span>
+                      </td>
+                      <td className="p-4 text-right font-semibold">{formatQuantity(entry.balance)}</td>
+                    </tr>
+                  ))}
+                  <tr className="border-t bg-muted/20">
+                    <td className="p-4" colSpan={4}>Closing balance</td>
+                    <td className="p-4 text-right font-bold">{formatQuantity(product.stock_qty)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </section>
+      </div>
+    </Layout>
+  );
+}
@@ -1,11 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Search, Edit, Trash2 } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Search, Edit, Trash2, History } from "lucide-react";
 import { useUserRole } from "@/hooks/useUserRole";
+import { useTableParams } from "@/hooks/useTableParams";
+import { useDebounce } from "@/hooks/useDebounce";
+import { ProductCatalog } from "@/components/ProductCatalog";
 import { CsvImport } from "@/components/CsvImport";
 import { CsvExport } from "@/components/CsvExport";
+import { ProductHistoryDialog } from "@/components/ProductHistoryDialog";
+import { SortableHeader } from "@/components/SortableHeader";
+import { TablePagination } from "@/components/TablePagination";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -14,6 +22,9 @@ import { toast } from "sonner";
 import { Textarea } from "@/components/ui/textarea";
 import { z } from "zod";
 import DOMPurify from "dompurify";
+import { checkQuantityPrecision, formatQuantity, getQuantityStep } from "@/lib/quantity";
+import { GST_RATES, getEffectiveGstRate, splitGst, toTaxExclusive, toTaxInclusive } from "@/lib/gst";
+import { PRODUCT_SEARCH_COLUMNS, searchFilter } from "@/lib/search";
 
 const productSchema = z.object({
   product_id: z.string().trim().min(1, "Product ID is required").max(50, "Product ID too long"),
@@ -22,8 +33,8 @@ const productSchema = z.object({
   supplier_id: z.string().uuid("Invalid supplier"),
   purchase_price: z.number().min(0, "Purchase price cannot be negative").max(999999.99, "Price too high"),
   selling_price: z.number().min(0, "Selling price cannot be negative").max(999999.99, "Price too high"),
-  stock_qty: z.number().int("Stock must be a whole number").min(0, "Stock cannot be negative"),
-  min_stock_level: z.number().int("Min stock must be a whole number").min(0, "Min stock cannot be negative"),
+  stock_qty: z.number().min(0, "Stock cannot be negative"),
+  min_stock_level: z.number().min(0, "Min stock cannot be negative"),
   unit: z.string().trim().max(20, "Unit too long"),
   barcode: z.string().trim().max(100, "Barcode too long").default(""),
   notes: z.string().trim().max(1000, "Notes too long").default(""),
@@ -35,7 +46,14 @@ const productSchema = z.object({
   mrp_price: z.number().min(0, "MRP price cannot be negative").max(999999.99, "Price too high").default(0),
   description: z.string().trim().max(1000, "Description too long").default(""),
   item_code: z.string().trim().max(50, "Item code too long").default(""),
-  sr_no: z.string().trim().max(50, "Sr. No. too long").default("")
+  sr_no: z.string().trim().max(50, "Sr. No. too long").default(""),
+  hsn_code: z.string().trim().regex(/^(\d{4}|\d{6}|\d{8})?$/, "HSN/SAC code must be 4, 6 or 8 digits").default(""),
+  gst_rate: z.number().refine(rate => (GST_RATES as readonly number[]).includes(rate), "GST rate must be 0, 5, 12, 18 or 28%").nullable().default(null)
+}).superRefine((product, ctx) => {
+  for (const field of ["stock_qty", "min_stock_level"] as const) {
+    const message = checkQuantityPrecision(product[field], product.unit);
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message });
+  }
 });
 
 interface Product {
@@ -60,17 +78,38 @@ interface Product {
   description?: string;
   item_code?: string;
   sr_no?: string;
-  categories: { name: string };
+  hsn_code?: string | null;
+  gst_rate?: number | null;
+  categories: { name: string; hsn_code: string | null; gst_rate: number | null };
   suppliers: { name: string };
+  product_locations: { location_id: string; stock_qty: number; min_stock_level: number | null }[];
 }
 
+const PRICE_FIELDS = ["purchase_price", "selling_price", "without_tax_price", "mrp_price"] as const;
+
+const ALL = "all";
+// PostgREST returns at most this many rows per request
+const EXPORT_BATCH_SIZE = 1000;
+
 export default function Products() {
-  const { canWrite, canDelete } = useUserRole();
+  const { canWrite, canDelete, can, loading: roleLoading } = useUserRole();
   const [products, setProducts] = useState<Product[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
   const [categories, setCategories] = useState<any[]>([]);
   const [suppliers, setSuppliers] = useState<any[]>([]);
-  const [searchTerm, setSearchTerm] = useState("");
+  const [units, setUnits] = useState<{ code: string; name: string }[]>([]);
+  const [locations, setLocations] = useState<{ id: string; name: string }[]>([]);
+  const { page, sort, ascending, search, get, update, setPage, toggleSort, range } = useTableParams({ sort: "name" });
+  const categoryFilter = get("category");
+  const supplierFilter = get("supplier");
+  const lowStockOnly = get("low") === "1";
+  const [searchInput, setSearchInput] = useState(search);
+  const debouncedSearch = useDebounce(searchInput.trim());
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingProductId, setEditingProductId] = useState<string | null>(null);
+  const lockPrices = !!editingProductId && !can("products.edit_price");
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null);
   const [formData, setFormData] = useState({
     product_id: "",
     name: "",
@@ -91,29 +130,69 @@ export default function Products() {
     description: "",
     item_code: "",
     sr_no: "",
+    hsn_code: "",
+    gst_rate: null as number | null,
   });
 
+  const formGstRate = getEffectiveGstRate(formData.gst_rate, categories.find(c => c.id === formData.category_id)?.gst_rate);
+
   useEffect(() => {
-    loadProducts();
     loadCategories();
     loadSuppliers();
+    loadUnits();
+    loadLocations();
   }, []);
 
-  const loadProducts = async () => {
-    const { data, error } = await supabase
+  useEffect(() => {
+    update({ q: debouncedSearch || null });
+  }, [debouncedSearch, update]);
+
+  // Products matching the search and filters, in the table's order
+  const productsQuery = useCallback(() => {
+    let query = supabase
       .from("products")
       .select(`
         *,
-        categories (name),
-        suppliers (name)
-      `)
-      .order("name");
-    
+        categories (name, hsn_code, gst_rate),
+        suppliers (name),
+        product_locations (location_id, stock_qty, min_stock_level)
+      `, { count: "exact" });
+
+    if (search) query = query.or(searchFilter(PRODUCT_SEARCH_COLUMNS, search));
+    if (categoryFilter) query = query.eq("category_id", categoryFilter);
+    if (supplierFilter) query = query.eq("supplier_id", supplierFilter);
+    if (lowStockOnly) query = query.eq("is_low_stock", true);
+
+    return query.order(sort, { ascending }).order("id");
+  }, [search, categoryFilter, supplierFilter, lowStockOnly, sort, ascending]);
+
+  const loadProducts = useCallback(async () => {
+    setLoading(true);
+    const { data, count, error } = await productsQuery().range(...range);
+    setLoading(false);
+
     if (error) {
       toast.error("Error loading products");
       return;
     }
     setProducts(data || []);
+    setTotalCount(count ?? 0);
+  }, [productsQuery, range]);
+
+  useEffect(() => {
+    loadProducts();
+  }, [loadProducts]);
+
+  // Every matching product, not just the page on screen
+  const loadExportData = async () => {
+    const rows: Product[] = [];
+    for (let from = 0; ; from += EXPORT_BATCH_SIZE) {
+      const { data, error } = await productsQuery().range(from, from + EXPORT_BATCH_SIZE - 1);
+      if (error) throw error;
+      rows.push(...(data || []));
+      if (!data || data.length < EXPORT_BATCH_SIZE) break;
+    }
+    return prepareExportData(rows);
   };
 
   const loadCategories = async () => {
@@ -126,6 +205,16 @@ export default function Products() {
     setSuppliers(data || []);
   };
 
+  const loadUnits = async () => {
+    const { data } = await supabase.from("units").select("code, name").order("code");
+    setUnits(data || []);
+  };
+
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("id, name").order("created_at");
+    setLocations(data || []);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -135,20 +224,73 @@ export default function Products() {
       return;
     }
     
-    const { error } = await supabase.from("products").insert([result.data as any]);
-    
-    if (error) {
-      toast.error("Error adding product");
-      return;
+    if (editingProductId) {
+      // Stock is only changed through stock movements, never by editing the product
+      const { stock_qty, ...updates } = result.data;
+      // Without products.edit_price the prices are left out, so the server re-derives the
+      // price without tax itself if the GST rate changed
+      if (lockPrices) {
+        for (const field of PRICE_FIELDS) delete updates[field];
+      }
+      const { error } = await supabase.from("products").update(updates).eq("id", editingProductId);
+
+      if (error) {
+        toast.error(error.code === "42501" ? error.message : "Error updating product");
+        return;
+      }
+
+      toast.success("Product updated successfully!");
+    } else {
+      const { error } = await supabase.from("products").insert([result.data as any]);
+
+      if (error) {
+        toast.error("Error adding product");
+        return;
+      }
+
+      toast.success("Product added successfully!");
     }
-    
-    toast.success("Product added successfully!");
+
     setIsDialogOpen(false);
     loadProducts();
     resetForm();
   };
 
+  const handleEdit = (product: Product) => {
+    setEditingProductId(product.id);
+    setFormData({
+      product_id: product.product_id,
+      name: product.name,
+      category_id: product.category_id || "",
+      supplier_id: product.supplier_id || "",
+      purchase_price: product.purchase_price,
+      selling_price: product.selling_price,
+      stock_qty: product.stock_qty,
+      unit: product.unit || "pieces",
+      barcode: product.barcode || "",
+      min_stock_level: product.min_stock_level ?? 10,
+      notes: product.notes || "",
+      in_stock_standard: product.in_stock_standard || "",
+      packing_inner: product.packing_inner || "",
+      packing_final_price: product.packing_final_price || 0,
+      without_tax_price: product.without_tax_price || 0,
+      mrp_price: product.mrp_price || 0,
+      description: product.description || "",
+      item_code: product.item_code || "",
+      sr_no: product.sr_no || "",
+      hsn_code: product.hsn_code || "",
+      gst_rate: product.gst_rate ?? null,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) resetForm();
+  };
+
   const resetForm = () => {
+    setEditingProductId(null);
     setFormData({
       product_id: "",
       name: "",
@@ -169,6 +311,8 @@ export default function Products() {
       description: "",
       item_code: "",
       sr_no: "",
+      hsn_code: "",
+      gst_rate: null,
     });
   };
 
@@ -216,8 +360,8 @@ export default function Products() {
           supplier_id: supplier.id,
           purchase_price: parseFloat(row.purchase_price || row.cost || 0),
           selling_price: parseFloat(row.selling_price || row.price || 0),
-          stock_qty: parseInt(row.stock_qty || row.stock || row.quantity || 0),
-          min_stock_level: parseInt(row.min_stock_level || row.min_stock || 10),
+          stock_qty: parseFloat(row.stock_qty || row.stock || row.quantity || 0),
+          min_stock_level: parseFloat(row.min_stock_level || row.min_stock || 10),
           unit: DOMPurify.sanitize(row.unit || "pieces"),
           barcode: DOMPurify.sanitize(row.barcode || ""),
           notes: DOMPurify.sanitize(row.notes || ""),
@@ -229,7 +373,9 @@ export default function Products() {
           mrp_price: parseFloat(row.mrp_price || 0),
           description: DOMPurify.sanitize(row.description || ""),
           item_code: DOMPurify.sanitize(row.item_code || ""),
-          sr_no: DOMPurify.sanitize(row.sr_no || "")
+          sr_no: DOMPurify.sanitize(row.sr_no || ""),
+          hsn_code: DOMPurify.sanitize(row.hsn_code || row.hsn || ""),
+          gst_rate: row.gst_rate ? parseFloat(row.gst_rate) : null
         };
 
         const result = productSchema.safeParse(product);
@@ -268,34 +414,48 @@ export default function Products() {
     loadProducts();
   };
 
-  const prepareExportData = () => {
-    return products.map(p => ({
-      sr_no: p.sr_no || "",
-      item_code: p.item_code || "",
-      product_id: p.product_id,
-      name: p.name,
-      description: p.description || "",
-      category: p.categories?.name,
-      supplier: p.suppliers?.name,
-      purchase_price: p.purchase_price,
-      selling_price: p.selling_price,
-      without_tax_price: p.without_tax_price || 0,
-      mrp_price: p.mrp_price || 0,
-      packing_final_price: p.packing_final_price || 0,
-      stock_qty: p.stock_qty,
-      in_stock_standard: p.in_stock_standard || "",
-      packing_inner: p.packing_inner || "",
-      min_stock_level: p.min_stock_level,
-      unit: p.unit,
-      barcode: p.barcode,
-      notes: p.notes
-    }));
+  const prepareExportData = (rows: Product[]) => {
+    return rows.map(p => {
+      const gstRate = getEffectiveGstRate(p.gst_rate, p.categories?.gst_rate);
+      const tax = gstRate === null ? null : splitGst(p.without_tax_price || 0, gstRate);
+      const interStateTax = gstRate === null ? null : splitGst(p.without_tax_price || 0, gstRate, true);
+      return {
+        sr_no: p.sr_no || "",
+        item_code: p.item_code || "",
+        product_id: p.product_id,
+        name: p.name,
+        description: p.description || "",
+        category: p.categories?.name,
+        supplier: p.suppliers?.name,
+        purchase_price: p.purchase_price,
+        selling_price: p.selling_price,
+        without_tax_price: p.without_tax_price || 0,
+        mrp_price: p.mrp_price || 0,
+        packing_final_price: p.packing_final_price || 0,
+        stock_qty: formatQuantity(p.stock_qty),
+        in_stock_standard: p.in_stock_standard || "",
+        packing_inner: p.packing_inner || "",
+        min_stock_level: formatQuantity(p.min_stock_level),
+        unit: p.unit,
+        barcode: p.barcode,
+        notes: p.notes,
+        hsn_code: p.hsn_code || p.categories?.hsn_code || "",
+        gst_rate: gstRate ?? "",
+        cgst: tax?.cgst ?? "",
+        sgst: tax?.sgst ?? "",
+        igst: interStateTax?.igst ?? ""
+      };
+    });
   };
 
-  const filteredProducts = products.filter(p =>
-    p.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    p.product_id.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  // Without records.edit products cannot be read directly; the catalog leaves out costs and suppliers
+  if (!roleLoading && !canWrite) {
+    return (
+      <Layout>
+        <ProductCatalog />
+      </Layout>
+    );
+  }
 
   return (
     <Layout>
@@ -309,11 +469,12 @@ export default function Products() {
               acceptedFields={["name", "category", "supplier"]}
             />
             <CsvExport 
-              data={prepareExportData()} 
+              data={loadExportData}
+              count={totalCount}
               filename="products"
             />
             {canWrite && (
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
                 <DialogTrigger asChild>
                   <Button>
                     <Plus className="w-4 h-4 mr-2" />
@@ -322,7 +483,7 @@ export default function Products() {
                 </DialogTrigger>
                 <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
-                    <DialogTitle>Add New Product</DialogTitle>
+                    <DialogTitle>{editingProductId ? "Edit Product" : "Add New Product"}</DialogTitle>
                   </DialogHeader>
                   <form onSubmit={handleSubmit} className="space-y-4">
                     <div className="grid grid-cols-2 gap-4">
@@ -374,6 +535,7 @@ export default function Products() {
                           type="number"
                           step="0.01"
                           required
+                          disabled={lockPrices}
                           value={formData.purchase_price}
                           onChange={(e) => setFormData({ ...formData, purchase_price: parseFloat(e.target.value) })}
                         />
@@ -384,6 +546,7 @@ export default function Products() {
                           type="number"
                           step="0.01"
                           required
+                          disabled={lockPrices}
                           value={formData.selling_price}
                           onChange={(e) => setFormData({ ...formData, selling_price: parseFloat(e.target.value) })}
                         />
@@ -393,16 +556,28 @@ export default function Products() {
                         <Input
                           type="number"
                           required
+                          disabled={!!editingProductId}
+                          step={getQuantityStep(formData.unit)}
                           value={formData.stock_qty}
-                          onChange={(e) => setFormData({ ...formData, stock_qty: parseInt(e.target.value) })}
+                          onChange={(e) => setFormData({ ...formData, stock_qty: parseFloat(e.target.value) })}
                         />
+                        {editingProductId && (
+                          <p className="text-xs text-muted-foreground mt-1">Use Stock Movements to change quantity</p>
+                        )}
                       </div>
                       <div>
-                        <Label>Unit</Label>
-                        <Input
-                          value={formData.unit}
-                          onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
-                        />
+                        <Label>Base Unit</Label>
+                        <Select value={formData.unit} onValueChange={(v) => setFormData({ ...formData, unit: v })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select unit" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {units.map((u) => (
+                              <SelectItem key={u.code} value={u.code}>{u.code} ({u.name})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1">Box and coil conversions are set on the product page</p>
                       </div>
                       <div>
                         <Label>Barcode</Label>
@@ -415,8 +590,9 @@ export default function Products() {
                         <Label>Min Stock Level</Label>
                         <Input
                           type="number"
+                          step={getQuantityStep(formData.unit)}
                           value={formData.min_stock_level}
-                          onChange={(e) => setFormData({ ...formData, min_stock_level: parseInt(e.target.value) })}
+                          onChange={(e) => setFormData({ ...formData, min_stock_level: parseFloat(e.target.value) })}
                         />
                       </div>
                       <div>
@@ -447,13 +623,57 @@ export default function Products() {
                           onChange={(e) => setFormData({ ...formData, packing_inner: e.target.value })}
                         />
                       </div>
+                      <div>
+                        <Label>HSN/SAC Code</Label>
+                        <Input
+                          placeholder={categories.find(c => c.id === formData.category_id)?.hsn_code || ""}
+                          value={formData.hsn_code}
+                          onChange={(e) => setFormData({ ...formData, hsn_code: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label>GST Rate</Label>
+                        <Select
+                          value={formData.gst_rate === null ? "category" : String(formData.gst_rate)}
+                          onValueChange={(v) => {
+                            const gst_rate = v === "category" ? null : Number(v);
+                            const rate = getEffectiveGstRate(gst_rate, categories.find(c => c.id === formData.category_id)?.gst_rate);
+                            setFormData({
+                              ...formData,
+                              gst_rate,
+                              without_tax_price: rate === null || !formData.mrp_price ? formData.without_tax_price : toTaxExclusive(formData.mrp_price, rate),
+                            });
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="category">Category default</SelectItem>
+                            {GST_RATES.map((rate) => (
+                              <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {formGstRate === null ? "No rate set; prices are not linked" : `MRP includes ${formGstRate}% GST`}
+                        </p>
+                      </div>
                       <div>
                         <Label>Without Tax Price</Label>
                         <Input
                           type="number"
                           step="0.01"
+                          disabled={lockPrices}
                           value={formData.without_tax_price}
-                          onChange={(e) => setFormData({ ...formData, without_tax_price: parseFloat(e.target.value) || 0 })}
+                          onChange={(e) => {
+                            const without_tax_price = parseFloat(e.target.value) || 0;
+                            setFormData({
+                              ...formData,
+                              without_tax_price,
+                              mrp_price: formGstRate === null ? formData.mrp_price : toTaxInclusive(without_tax_price, formGstRate),
+                            });
+                          }}
                         />
                       </div>
                       <div>
@@ -461,8 +681,16 @@ export default function Products() {
                         <Input
                           type="number"
                           step="0.01"
+                          disabled={lockPrices}
                           value={formData.mrp_price}
-                          onChange={(e) => setFormData({ ...formData, mrp_price: parseFloat(e.target.value) || 0 })}
+                          onChange={(e) => {
+                            const mrp_price = parseFloat(e.target.value) || 0;
+                            setFormData({
+                              ...formData,
+                              mrp_price,
+                              without_tax_price: formGstRate === null ? formData.without_tax_price : toTaxExclusive(mrp_price, formGstRate),
+                            });
+                          }}
                         />
                       </div>
                       <div>
@@ -489,7 +717,7 @@ export default function Products() {
                         onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
                       />
                     </div>
-                    <Button type="submit" className="w-full">Add Product</Button>
+                    <Button type="submit" className="w-full">{editingProductId ? "Save Changes" : "Add Product"}</Button>
                   </form>
                 </DialogContent>
               </Dialog>
@@ -497,14 +725,42 @@ export default function Products() {
           </div>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-3 top-3 w-5 h-5 text-muted-foreground" />
-          <Input
-            placeholder="Search products..."
-            className="pl-10"
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-          />
+        <div className="flex gap-4 flex-wrap items-center">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-3 w-5 h-5 text-muted-foreground" />
+            <Input
+              placeholder="Search name, product ID, item code, barcode or description..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <Select value={categoryFilter || ALL} onValueChange={(v) => update({ category: v === ALL ? null : v })}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {categories.map((cat) => (
+                <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={supplierFilter || ALL} onValueChange={(v) => update({ supplier: v === ALL ? null : v })}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All suppliers</SelectItem>
+              {suppliers.map((sup) => (
+                <SelectItem key={sup.id} value={sup.id}>{sup.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={lowStockOnly} onCheckedChange={(checked) => update({ low: checked === true ? "1" : null })} />
+            Low stock only
+          </label>
         </div>
 
         <div className="bg-card rounded-lg border">
@@ -512,44 +768,76 @@ export default function Products() {
             <table className="w-full">
               <thead className="bg-muted/50">
                 <tr>
-                  <th className="text-left p-4 font-semibold">Sr. No.</th>
-                  <th className="text-left p-4 font-semibold">Item Code</th>
-                  <th className="text-left p-4 font-semibold">Product ID</th>
-                  <th className="text-left p-4 font-semibold">Name</th>
+                  <SortableHeader column="sr_no" label="Sr. No." sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="item_code" label="Item Code" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="product_id" label="Product ID" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="name" label="Name" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Category</th>
-                  <th className="text-left p-4 font-semibold">Stock</th>
-                  <th className="text-left p-4 font-semibold">MRP Price</th>
-                  <th className="text-left p-4 font-semibold">Without Tax</th>
-                  <th className="text-left p-4 font-semibold">Selling Price</th>
+                  <SortableHeader column="stock_qty" label="Stock" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="mrp_price" label="MRP Price" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="without_tax_price" label="Without Tax" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <th className="text-left p-4 font-semibold">GST</th>
+                  <SortableHeader column="selling_price" label="Selling Price" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Supplier</th>
                   {(canWrite || canDelete) && <th className="text-left p-4 font-semibold">Actions</th>}
                 </tr>
               </thead>
               <tbody>
-                {filteredProducts.map((product) => (
+                {products.length === 0 && (
+                  <tr>
+                    <td colSpan={canWrite || canDelete ? 12 : 11} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading..." : "No products found"}
+                    </td>
+                  </tr>
+                )}
+                {products.map((product) => (
                   <tr key={product.id} className="border-t hover:bg-muted/30">
                     <td className="p-4">{product.sr_no || "-"}</td>
                     <td className="p-4">{product.item_code || "-"}</td>
                     <td className="p-4">{product.product_id}</td>
-                    <td className="p-4 font-medium">{product.name}</td>
+                    <td className="p-4 font-medium">
+                      <Link to={`/products/${product.id}`} className="hover:underline">{product.name}</Link>
+                    </td>
                     <td className="p-4">{product.categories?.name || "-"}</td>
                     <td className="p-4">
                       <span className={product.stock_qty < product.min_stock_level ? "text-warning font-semibold" : ""}>
-                        {product.stock_qty} {product.unit}
+                        {formatQuantity(product.stock_qty)} {product.unit}
                       </span>
+                      {locations.length > 1 && (
+                        <div className="text-xs text-muted-foreground whitespace-nowrap">
+                          {locations.map((location) => {
+                            const held = product.product_locations?.find(pl => pl.location_id === location.id);
+                            const isLow = held?.min_stock_level != null && held.stock_qty < held.min_stock_level;
+                            return (
+                              <div key={location.id} className={isLow ? "text-warning" : ""}>
+                                {location.name}: {formatQuantity(held?.stock_qty ?? 0)}
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                     </td>
                     <td className="p-4">₹{(product.mrp_price || 0).toFixed(2)}</td>
                     <td className="p-4">₹{(product.without_tax_price || 0).toFixed(2)}</td>
+                    <td className="p-4">
+                      {getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate) ?? "-"}
+                      {getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate) !== null && "%"}
+                    </td>
                     <td className="p-4">₹{product.selling_price.toFixed(2)}</td>
                     <td className="p-4">{product.suppliers?.name || "-"}</td>
                     {(canWrite || canDelete) && (
                       <td className="p-4">
                         <div className="flex gap-2">
                           {canWrite && (
-                            <Button variant="ghost" size="sm">
+                            <Button variant="ghost" size="sm" onClick={() => handleEdit(product)} aria-label="Edit product">
                               <Edit className="w-4 h-4" />
                             </Button>
                           )}
+                          {canWrite && (
+                            <Button variant="ghost" size="sm" onClick={() => setHistoryProduct(product)} aria-label="View change history">
+                              <History className="w-4 h-4" />
+                            </Button>
+                          )}
                           {canDelete && (
                             <Button 
                               variant="ghost" 
@@ -568,7 +856,16 @@ export default function Products() {
             </table>
           </div>
         </div>
+
+        <TablePagination page={page} total={totalCount} onPageChange={setPage} />
       </div>
+
+      <ProductHistoryDialog
+        product={historyProduct}
+        onOpenChange={(open) => !open && setHistoryProduct(null)}
+        categories={categories}
+        suppliers={suppliers}
+      />
     </Layout>
   );
 }
@@ -0,0 +1,497 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, ArrowDown, ArrowUp, History, Package, Undo2 } from "lucide-react";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { CsvExport } from "@/components/CsvExport";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+import { INSUFFICIENT_STOCK, MOVEMENT_TYPE_LABELS, movementSign } from "@/lib/movements";
+
+const projectMovementSchema = z.object({
+  product_id: z.string().uuid("Select a product"),
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  reference: z.string().trim().max(100, "Reference too long"),
+  notes: z.string().trim().max(500, "Notes too long")
+});
+
+type ProjectMovementType = "PROJECT_ISSUE" | "PROJECT_RETURN";
+
+interface ProjectDetails {
+  id: string;
+  work_order_no: string;
+  name: string;
+  department: string | null;
+  site: string | null;
+  budget: number;
+  status: string;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+}
+
+interface ProjectMovement {
+  id: string;
+  movement_date: string | null;
+  movement_type: string;
+  quantity: number;
+  unit_cost: number | null;
+  reference: string | null;
+  notes: string | null;
+  product_id: string;
+  products: { name: string; product_id: string; unit: string } | null;
+}
+
+interface IssuableProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string;
+  stock_qty: number;
+  allow_negative_stock: boolean;
+  product_units: UnitConversion[];
+}
+
+interface MaterialSummary {
+  product_id: string;
+  name: string;
+  code: string;
+  unit: string;
+  issued: number;
+  returned: number;
+  held: number;
+  cost: number;
+}
+
+const emptyForm = {
+  product_id: "",
+  quantity: 0,
+  unit: "",
+  reference: "",
+  notes: "",
+};
+
+export default function ProjectDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { canWrite, can } = useUserRole();
+  const [project, setProject] = useState<ProjectDetails | null>(null);
+  const [movements, setMovements] = useState<ProjectMovement[]>([]);
+  const [products, setProducts] = useState<IssuableProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [movementType, setMovementType] = useState<ProjectMovementType | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [posting, setPosting] = useState(false);
+
+  const loadProject = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+
+    const { data: projectData, error } = await supabase
+      .from("projects")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error || !projectData) {
+      toast.error("Error loading project");
+      setLoading(false);
+      return;
+    }
+
+    const [{ data: movementData }, { data: productData }] = await Promise.all([
+      supabase
+        .from("stock_movements")
+        .select("id, movement_date, movement_type, quantity, unit_cost, reference, notes, product_id, products (name, product_id, unit)")
+        .eq("project_id", id)
+        .order("movement_date", { ascending: false }),
+      supabase
+        .from("products")
+        .select("id, name, product_id, unit, stock_qty, allow_negative_stock, product_units (unit, factor)")
+        .order("name"),
+    ]);
+
+    setProject(projectData);
+    setMovements(movementData || []);
+    setProducts(productData || []);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    loadProject();
+  }, [loadProject]);
+
+  const materials = Object.values(movements.reduce<Record<string, MaterialSummary>>((acc, m) => {
+    const row = acc[m.product_id] ??= {
+      product_id: m.product_id,
+      name: m.products?.name || "",
+      code: m.products?.product_id || "",
+      unit: m.products?.unit || "",
+      issued: 0,
+      returned: 0,
+      held: 0,
+      cost: 0,
+    };
+    if (m.movement_type === "PROJECT_ISSUE") row.issued += m.quantity;
+    else row.returned += m.quantity;
+    row.held -= movementSign(m.movement_type) * m.quantity;
+    row.cost -= movementSign(m.movement_type) * m.quantity * (m.unit_cost ?? 0);
+    return acc;
+  }, {})).sort((a, b) => b.cost - a.cost);
+
+  const totalCost = materials.reduce((sum, m) => sum + m.cost, 0);
+  const returnableProducts = products.filter(p => (materials.find(m => m.product_id === p.id)?.held ?? 0) > 0);
+  const dialogProducts = movementType === "PROJECT_RETURN" ? returnableProducts : products;
+  const selectedProduct = products.find(p => p.id === formData.product_id);
+
+  const handleDialogOpenChange = (open: boolean) => {
+    if (!open) {
+      setMovementType(null);
+      setFormData(emptyForm);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !movementType || !project) return;
+
+    const result = projectMovementSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const baseQty = toBaseQuantity(result.data.quantity, formData.unit, selectedProduct?.unit, selectedProduct?.product_units);
+    if (baseQty === null) {
+      toast.error(`Unit "${formData.unit}" is not defined for this product`);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.quantity, formData.unit)
+      || checkQuantityPrecision(baseQty, selectedProduct?.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
+
+    if (movementType === "PROJECT_ISSUE" && selectedProduct && !selectedProduct.allow_negative_stock && baseQty > selectedProduct.stock_qty) {
+      toast.error(`Only ${formatQuantity(selectedProduct.stock_qty)} ${selectedProduct.unit} of ${selectedProduct.name} in stock`);
+      return;
+    }
+
+    const held = materials.find(m => m.product_id === result.data.product_id)?.held ?? 0;
+    if (movementType === "PROJECT_RETURN" && baseQty > held) {
+      toast.error(`This project only holds ${formatQuantity(held)} ${selectedProduct?.unit}`);
+      return;
+    }
+
+    setPosting(true);
+    const { error } = await supabase.from("stock_movements").insert([{
+      product_id: result.data.product_id,
+      movement_type: movementType,
+      project_id: id,
+      quantity: baseQty,
+      entered_qty: result.data.quantity,
+      entered_unit: formData.unit || selectedProduct?.unit,
+      reference: result.data.reference || project.work_order_no,
+      notes: result.data.notes || null,
+    }]);
+    setPosting(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to issue stock");
+      } else if (error.code === '22023' || error.code === INSUFFICIENT_STOCK) {
+        toast.error(error.message);
+      } else {
+        toast.error(movementType === "PROJECT_ISSUE" ? "Error issuing stock" : "Error returning stock");
+      }
+      return;
+    }
+
+    toast.success(movementType === "PROJECT_ISSUE" ? "Stock issued to project" : "Stock returned from project");
+    handleDialogOpenChange(false);
+    loadProject();
+  };
+
+  const prepareExportData = () => {
+    return materials.map(m => ({
+      product_id: m.code,
+      name: m.name,
+      unit: m.unit,
+      issued: m.issued,
+      returned: m.returned,
+      consumed: m.held,
+      cost: m.cost.toFixed(2),
+    }));
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Loading...</p>
+      </Layout>
+    );
+  }
+
+  if (!project) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Project not found</p>
+          <Button variant="secondary" asChild>
+            <Link to="/projects">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Projects
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4 flex-wrap">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/projects" aria-label="Back to Projects">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold">{project.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {[`WO ${project.work_order_no}`, project.department, project.site, project.status].filter(Boolean).join(" · ")}
+            </p>
+          </div>
+          {canWrite && (
+            <div className="flex gap-2">
+              {can("stock.out") && (
+                <Button onClick={() => setMovementType("PROJECT_ISSUE")} disabled={project.status !== "Active"}>
+                  <ArrowDown className="w-4 h-4 mr-2" />
+                  Issue Stock
+                </Button>
+              )}
+              <Button variant="outline" onClick={() => setMovementType("PROJECT_RETURN")} disabled={returnableProducts.length === 0}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Return Stock
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Work Order</CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-2">
+              <p>
+                {project.start_date ? format(new Date(project.start_date), "MMM dd, yyyy") : "Start not set"}
+                {" – "}
+                {project.end_date ? format(new Date(project.end_date), "MMM dd, yyyy") : "ongoing"}
+              </p>
+              {project.notes && <p className="text-muted-foreground">{project.notes}</p>}
+              {project.status !== "Active" && (
+                <p className="text-muted-foreground">Stock can only be issued while the project is Active.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Material Cost</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Budget</span>
+                <span className="font-semibold">{project.budget > 0 ? `₹${project.budget.toFixed(2)}` : "Not set"}</span>
+              </div>
+              {project.budget > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Remaining</span>
+                  <span className={totalCost > project.budget ? "font-semibold text-destructive" : "font-semibold"}>
+                    ₹{(project.budget - totalCost).toFixed(2)}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-lg">
+                <span className="text-muted-foreground">Consumed</span>
+                <span className="font-bold">₹{totalCost.toFixed(2)}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2">
+              <Package className="w-5 h-5 text-primary" />
+              Material Consumed
+            </CardTitle>
+            <CsvExport data={prepareExportData()} filename={`project-${project.work_order_no}-materials`} />
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-semibold">Product</th>
+                    <th className="text-right p-3 font-semibold">Issued</th>
+                    <th className="text-right p-3 font-semibold">Returned</th>
+                    <th className="text-right p-3 font-semibold">Consumed</th>
+                    <th className="text-right p-3 font-semibold">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {materials.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="p-6 text-center text-muted-foreground">No material issued yet</td>
+                    </tr>
+                  )}
+                  {materials.map((m) => (
+                    <tr key={m.product_id} className="border-t">
+                      <td className="p-3">
+                        <Link to={`/products/${m.product_id}`} className="font-medium hover:underline">{m.name}</Link>
+                        <div className="text-xs text-muted-foreground">{m.code}</div>
+                      </td>
+                      <td className="p-3 text-right">{formatQuantity(m.issued)} {m.unit}</td>
+                      <td className="p-3 text-right">{m.returned ? `${formatQuantity(m.returned)} ${m.unit}` : "-"}</td>
+                      <td className="p-3 text-right font-semibold">{formatQuantity(m.held)} {m.unit}</td>
+                      <td className="p-3 text-right">₹{m.cost.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Issues and Returns
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50">
+                  <tr>
+                    <th className="text-left p-3 font-semibold">Date</th>
+                    <th className="text-left p-3 font-semibold">Type</th>
+                    <th className="text-left p-3 font-semibold">Product</th>
+                    <th className="text-right p-3 font-semibold">Quantity</th>
+                    <th className="text-right p-3 font-semibold">Value</th>
+                    <th className="text-left p-3 font-semibold">Reference</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {movements.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="p-6 text-center text-muted-foreground">No movements yet</td>
+                    </tr>
+                  )}
+                  {movements.map((m) => (
+                    <tr key={m.id} className="border-t">
+                      <td className="p-3">{m.movement_date ? format(new Date(m.movement_date), "MMM dd, yyyy") : "-"}</td>
+                      <td className="p-3">
+                        <span className={`inline-flex items-center gap-1 ${m.movement_type === "PROJECT_ISSUE" ? "text-destructive" : "text-success"}`}>
+                          {m.movement_type === "PROJECT_ISSUE" ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />}
+                          {MOVEMENT_TYPE_LABELS[m.movement_type]}
+                        </span>
+                      </td>
+                      <td className="p-3">{m.products?.name}</td>
+                      <td className="p-3 text-right">{formatQuantity(m.quantity)} {m.products?.unit}</td>
+                      <td className="p-3 text-right">₹{(m.quantity * (m.unit_cost ?? 0)).toFixed(2)}</td>
+                      <td className="p-3 text-muted-foreground">{m.reference || "-"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!movementType} onOpenChange={handleDialogOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {movementType === "PROJECT_ISSUE" ? "Issue Stock" : "Return Stock"} — WO {project.work_order_no}
+            </DialogTitle>
+            <DialogDescription>
+              {movementType === "PROJECT_ISSUE"
+                ? "Issued material leaves stock and is costed to this project at the current purchase price."
+                : "Returned material goes back into stock and is credited at the project's average issue cost."}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Product *</Label>
+              <Select
+                value={formData.product_id}
+                onValueChange={(v) => setFormData({ ...formData, product_id: v, unit: products.find(p => p.id === v)?.unit || "" })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dialogProducts.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.product_id} - {p.name}
+                      {movementType === "PROJECT_RETURN"
+                        ? ` (${formatQuantity(materials.find(m => m.product_id === p.id)?.held ?? 0)} ${p.unit} at site)`
+                        : ` (${formatQuantity(p.stock_qty)} ${p.unit} in stock)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Quantity *</Label>
+              <UnitQuantityInput
+                required
+                quantity={formData.quantity}
+                unit={formData.unit}
+                baseUnit={selectedProduct?.unit}
+                conversions={selectedProduct?.product_units}
+                onChange={(quantity, unit) => setFormData({ ...formData, quantity, unit })}
+              />
+            </div>
+            <div>
+              <Label>Reference</Label>
+              <Input
+                placeholder={`Defaults to ${project.work_order_no}`}
+                value={formData.reference}
+                onChange={(e) => setFormData({ ...formData, reference: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={posting}>
+              {posting ? "Saving..." : movementType === "PROJECT_ISSUE" ? "Issue to Project" : "Return to Stock"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
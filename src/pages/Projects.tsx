@@ -0,0 +1,403 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Edit, HardHat, MapPin, Building2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { CsvExport } from "@/components/CsvExport";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+
+const PROJECT_STATUSES = ["Active", "On Hold", "Completed"] as const;
+
+const projectSchema = z.object({
+  work_order_no: z.string().trim().min(1, "Work order number is required").max(100, "Work order number too long"),
+  name: z.string().trim().min(1, "Project name is required").max(200, "Name too long"),
+  department: z.string().trim().max(200, "Department too long"),
+  site: z.string().trim().max(300, "Site too long"),
+  budget: z.number().min(0, "Budget cannot be negative").max(9999999999.99, "Budget too high"),
+  status: z.enum(PROJECT_STATUSES),
+  start_date: z.string(),
+  end_date: z.string(),
+  notes: z.string().trim().max(1000, "Notes too long")
+}).refine(p => !p.start_date || !p.end_date || p.end_date >= p.start_date, {
+  message: "End date cannot be before the start date"
+});
+
+interface Project {
+  id: string;
+  work_order_no: string;
+  name: string;
+  department: string | null;
+  site: string | null;
+  budget: number;
+  status: string;
+  start_date: string | null;
+  end_date: string | null;
+  notes: string | null;
+}
+
+interface ProjectCost {
+  project_id: string;
+  issued_value: number;
+  returned_value: number;
+  net_cost: number;
+  movement_count: number;
+  last_movement_at: string;
+}
+
+const emptyForm = {
+  work_order_no: "",
+  name: "",
+  department: "",
+  site: "",
+  budget: 0,
+  status: "Active" as (typeof PROJECT_STATUSES)[number],
+  start_date: "",
+  end_date: "",
+  notes: "",
+};
+
+export default function Projects() {
+  const { canWrite } = useUserRole();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [costs, setCosts] = useState<Record<string, ProjectCost>>({});
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    loadProjects();
+    loadCosts();
+  }, []);
+
+  const loadProjects = async () => {
+    const { data, error } = await supabase
+      .from("projects")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error loading projects");
+      return;
+    }
+    setProjects(data || []);
+  };
+
+  const loadCosts = async () => {
+    const { data, error } = await supabase.rpc("get_project_costs");
+
+    if (error) {
+      toast.error("Error loading project costs");
+      return;
+    }
+    setCosts(Object.fromEntries((data || []).map(row => [row.project_id, row])));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = projectSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const project = {
+      ...result.data,
+      department: result.data.department || null,
+      site: result.data.site || null,
+      start_date: result.data.start_date || null,
+      end_date: result.data.end_date || null,
+      notes: result.data.notes || null,
+    };
+
+    const { error } = editingProjectId
+      ? await supabase.from("projects").update(project).eq("id", editingProjectId)
+      : await supabase.from("projects").insert([project as any]);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to save projects");
+      } else if (error.code === '23505') {
+        toast.error("A project with this work order number already exists");
+      } else {
+        toast.error(editingProjectId ? "Error updating project" : "Error adding project");
+      }
+      return;
+    }
+
+    toast.success(editingProjectId ? "Project updated successfully!" : "Project added successfully!");
+    handleDialogOpenChange(false);
+    loadProjects();
+  };
+
+  const handleEdit = (project: Project) => {
+    setEditingProjectId(project.id);
+    setFormData({
+      work_order_no: project.work_order_no,
+      name: project.name,
+      department: project.department || "",
+      site: project.site || "",
+      budget: project.budget,
+      status: project.status as (typeof PROJECT_STATUSES)[number],
+      start_date: project.start_date || "",
+      end_date: project.end_date || "",
+      notes: project.notes || "",
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setEditingProjectId(null);
+      setFormData(emptyForm);
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "Active": return "bg-success/10 text-success";
+      case "On Hold": return "bg-warning/10 text-warning";
+      case "Completed": return "bg-muted text-muted-foreground";
+      default: return "bg-muted text-muted-foreground";
+    }
+  };
+
+  const filteredProjects = projects.filter(p => statusFilter === "all" || p.status === statusFilter);
+
+  const prepareExportData = () => {
+    return filteredProjects.map(p => ({
+      work_order_no: p.work_order_no,
+      name: p.name,
+      department: p.department || "",
+      site: p.site || "",
+      status: p.status,
+      budget: p.budget,
+      material_issued: costs[p.id]?.issued_value ?? 0,
+      material_returned: costs[p.id]?.returned_value ?? 0,
+      material_cost: costs[p.id]?.net_cost ?? 0,
+    }));
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Projects</h1>
+            <p className="text-muted-foreground mt-2">
+              Government works and job sites. Material issued to a project is costed against its budget.
+            </p>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {PROJECT_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CsvExport
+              data={prepareExportData()}
+              filename="project-material-costs"
+            />
+            {canWrite && (
+              <Button onClick={() => setIsDialogOpen(true)}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Project
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {filteredProjects.length === 0 && (
+          <p className="text-center text-muted-foreground py-8">No projects yet</p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {filteredProjects.map((project) => {
+            const cost = costs[project.id]?.net_cost ?? 0;
+            const used = project.budget > 0 ? (cost / project.budget) * 100 : 0;
+            return (
+              <div key={project.id} className="bg-card p-6 rounded-lg border hover:shadow-md transition-shadow">
+                <div className="flex justify-between items-start gap-2 mb-3">
+                  <div>
+                    <Link to={`/projects/${project.id}`} className="font-semibold text-lg hover:underline">
+                      {project.name}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">WO {project.work_order_no}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
+                      {project.status}
+                    </span>
+                    {canWrite && (
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(project)} aria-label="Edit project">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="space-y-2 text-sm">
+                  {project.department && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Building2 className="w-4 h-4" />
+                      <span>{project.department}</span>
+                    </div>
+                  )}
+                  {project.site && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <MapPin className="w-4 h-4" />
+                      <span>{project.site}</span>
+                    </div>
+                  )}
+                  {(project.start_date || project.end_date) && (
+                    <p className="text-muted-foreground">
+                      {project.start_date ? format(new Date(project.start_date), "MMM dd, yyyy") : "?"}
+                      {" – "}
+                      {project.end_date ? format(new Date(project.end_date), "MMM dd, yyyy") : "ongoing"}
+                    </p>
+                  )}
+                  <div className="flex justify-between pt-2 border-t">
+                    <span className="text-muted-foreground">Material cost</span>
+                    <span className={project.budget > 0 && cost > project.budget ? "font-semibold text-destructive" : "font-semibold"}>
+                      ₹{cost.toFixed(2)}
+                    </span>
+                  </div>
+                  {project.budget > 0 && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Budget</span>
+                        <span>₹{project.budget.toFixed(2)}</span>
+                      </div>
+                      <Progress value={Math.min(used, 100)} />
+                      <p className="text-xs text-muted-foreground text-right">{used.toFixed(0)}% of budget used</p>
+                    </>
+                  )}
+                </div>
+                <Button size="sm" variant="outline" asChild className="w-full mt-3">
+                  <Link to={`/projects/${project.id}`}>
+                    <HardHat className="w-4 h-4 mr-1" />
+                    Material Register
+                  </Link>
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingProjectId ? "Edit Project" : "Add New Project"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Work Order No. *</Label>
+                <Input
+                  required
+                  value={formData.work_order_no}
+                  onChange={(e) => setFormData({ ...formData, work_order_no: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(v) => setFormData({ ...formData, status: v as (typeof PROJECT_STATUSES)[number] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PROJECT_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status}>{status}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label>Project Name *</Label>
+              <Input
+                required
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Department</Label>
+                <Input
+                  placeholder="e.g. PWD, Municipal Corporation"
+                  value={formData.department}
+                  onChange={(e) => setFormData({ ...formData, department: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Budget (₹)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.budget}
+                  onChange={(e) => setFormData({ ...formData, budget: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Site</Label>
+              <Input
+                value={formData.site}
+                onChange={(e) => setFormData({ ...formData, site: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Start Date</Label>
+                <Input
+                  type="date"
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>End Date</Label>
+                <Input
+                  type="date"
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">{editingProjectId ? "Update Project" : "Add Project"}</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
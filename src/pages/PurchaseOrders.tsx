@@ -0,0 +1,430 @@
+import { useState, useEffect } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, Send, Trash2, XCircle } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { checkQuantityPrecision, formatQuantity, getUnitFactor, toBaseQuantity } from "@/lib/quantity";
+
+const purchaseOrderLineSchema = z.object({
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  unit_price: z.number().min(0, "Price cannot be negative").max(999999.99, "Price too high")
+});
+
+interface PurchaseOrderLine {
+  id: string;
+  quantity: number;
+  unit_price: number;
+  entered_qty: number | null;
+  entered_unit: string | null;
+  requirement_id: string | null;
+  products: {
+    name: string;
+    product_id: string;
+    unit: string;
+    product_units: { unit: string; factor: number }[];
+  } | null;
+}
+
+interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  status: string;
+  order_date: string | null;
+  issued_at: string | null;
+  notes: string | null;
+  suppliers: { name: string; phone: string | null } | null;
+  purchase_order_lines: PurchaseOrderLine[];
+}
+
+const getPurchaseOrderStatusColor = (status: string) => {
+  switch (status) {
+    case "Draft": return "bg-muted text-muted-foreground";
+    case "Issued": return "bg-primary/10 text-primary";
+    case "Received": return "bg-success/10 text-success";
+    case "Cancelled": return "bg-destructive/10 text-destructive";
+    default: return "bg-muted text-muted-foreground";
+  }
+};
+
+const orderTotal = (lines: PurchaseOrderLine[]) =>
+  lines.reduce((sum, line) => sum + (line.quantity || 0) * line.unit_price, 0);
+
+export default function PurchaseOrders() {
+  const { canWrite, canDelete } = useUserRole();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
+  const [draftLines, setDraftLines] = useState<PurchaseOrderLine[]>([]);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    loadOrders();
+  }, []);
+
+  const loadOrders = async () => {
+    const { data, error } = await supabase
+      .from("purchase_orders")
+      .select(`
+        *,
+        suppliers (name, phone),
+        purchase_order_lines (id, quantity, unit_price, entered_qty, entered_unit, requirement_id, products (name, product_id, unit, product_units (unit, factor)))
+      `)
+      .order("order_date", { ascending: false });
+
+    if (error) {
+      toast.error("Error loading purchase orders");
+      return;
+    }
+    setOrders(data || []);
+    return data || [];
+  };
+
+  const openOrder = (order: PurchaseOrder) => {
+    setSelectedOrder(order);
+    setDraftLines(order.purchase_order_lines.map(line => ({
+      ...line,
+      entered_qty: line.entered_qty ?? line.quantity,
+      entered_unit: line.entered_unit ?? line.products?.unit ?? null,
+    })));
+    setNotes(order.notes || "");
+  };
+
+  const updateDraftLine = (id: string, changes: Partial<PurchaseOrderLine>) => {
+    setDraftLines(lines => lines.map(line => line.id === id ? { ...line, ...changes } : line));
+  };
+
+  // Base units per entered unit, so prices can be quoted per box while stock is counted per piece
+  const lineFactor = (line: PurchaseOrderLine) =>
+    getUnitFactor(line.entered_unit || "", line.products?.unit, line.products?.product_units) ?? 1;
+
+  const updateLineQuantity = (line: PurchaseOrderLine, enteredQty: number, enteredUnit: string) => {
+    const quantity = toBaseQuantity(enteredQty || 0, enteredUnit, line.products?.unit, line.products?.product_units);
+    updateDraftLine(line.id, { entered_qty: enteredQty, entered_unit: enteredUnit, quantity: quantity ?? line.quantity });
+  };
+
+  const saveDraft = async () => {
+    if (!selectedOrder) return false;
+
+    for (const line of draftLines) {
+      const result = purchaseOrderLineSchema.safeParse({ quantity: line.entered_qty, unit_price: line.unit_price });
+      if (!result.success) {
+        toast.error(`${line.products?.name}: ${result.error.errors[0].message}`);
+        return false;
+      }
+      const precisionError = checkQuantityPrecision(line.entered_qty ?? 0, line.entered_unit)
+        || checkQuantityPrecision(line.quantity, line.products?.unit);
+      if (precisionError) {
+        toast.error(`${line.products?.name}: ${precisionError}`);
+        return false;
+      }
+    }
+
+    const originalLines = selectedOrder.purchase_order_lines;
+    const removedIds = originalLines.filter(o => !draftLines.some(d => d.id === o.id)).map(o => o.id);
+    const changedLines = draftLines.filter(d => {
+      const original = originalLines.find(o => o.id === d.id);
+      return original && (
+        original.quantity !== d.quantity
+        || original.unit_price !== d.unit_price
+        || original.entered_unit !== d.entered_unit
+        || original.entered_qty !== d.entered_qty
+      );
+    });
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("purchase_order_lines").delete().in("id", removedIds);
+      if (error) {
+        toast.error("Error removing purchase order lines");
+        return false;
+      }
+    }
+
+    for (const line of changedLines) {
+      const { error } = await supabase
+        .from("purchase_order_lines")
+        .update({
+          entered_qty: line.entered_qty,
+          entered_unit: line.entered_unit,
+          unit_price: Math.round(line.unit_price * 100) / 100,
+        })
+        .eq("id", line.id);
+      if (error) {
+        toast.error("Error updating purchase order lines");
+        return false;
+      }
+    }
+
+    if (notes !== (selectedOrder.notes || "")) {
+      const { error } = await supabase.from("purchase_orders").update({ notes: notes.trim() }).eq("id", selectedOrder.id);
+      if (error) {
+        toast.error("Error updating purchase order");
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  const refreshSelected = async (orderId: string) => {
+    const data = await loadOrders();
+    const refreshed = data?.find(o => o.id === orderId);
+    if (refreshed) openOrder(refreshed);
+  };
+
+  const handleSave = async () => {
+    if (!selectedOrder) return;
+    if (await saveDraft()) {
+      toast.success("Purchase order saved!");
+      refreshSelected(selectedOrder.id);
+    }
+  };
+
+  const handleIssue = async () => {
+    if (!selectedOrder) return;
+    if (draftLines.length === 0) {
+      toast.error("Cannot issue a purchase order without lines");
+      return;
+    }
+    if (!(await saveDraft())) return;
+
+    const { error } = await supabase
+      .from("purchase_orders")
+      .update({ status: "Issued" })
+      .eq("id", selectedOrder.id);
+
+    if (error) {
+      toast.error(error.code === "42501" ? error.message : "Error issuing purchase order");
+      return;
+    }
+
+    toast.success(`${selectedOrder.po_number} issued. Linked requirements moved to Ordered.`);
+    refreshSelected(selectedOrder.id);
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Cancel ${order.po_number}?`)) return;
+
+    const { error } = await supabase.from("purchase_orders").update({ status: "Cancelled" }).eq("id", order.id);
+
+    if (error) {
+      toast.error(error.code === "22023" ? error.message : "Error cancelling purchase order");
+      return;
+    }
+
+    toast.success("Purchase order cancelled");
+    setSelectedOrder(null);
+    loadOrders();
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!canDelete) {
+      toast.error("You don't have permission to delete purchase orders");
+      return;
+    }
+    if (!window.confirm("Are you sure you want to delete this purchase order?")) return;
+
+    const { error } = await supabase.from("purchase_orders").delete().eq("id", id);
+
+    if (error) {
+      toast.error("Error deleting purchase order");
+      return;
+    }
+
+    toast.success("Purchase order deleted successfully!");
+    loadOrders();
+  };
+
+  const isDraft = selectedOrder?.status === "Draft" && canWrite;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground mt-2">
+            Select open requirements on the Requirements page to create draft orders grouped by supplier.
+          </p>
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">PO No.</th>
+                  <th className="text-left p-4 font-semibold">Date</th>
+                  <th className="text-left p-4 font-semibold">Supplier</th>
+                  <th className="text-left p-4 font-semibold">Lines</th>
+                  <th className="text-right p-4 font-semibold">Total</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {orders.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="p-8 text-center text-muted-foreground">No purchase orders yet</td>
+                  </tr>
+                )}
+                {orders.map((order) => (
+                  <tr key={order.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4 font-medium">{order.po_number}</td>
+                    <td className="p-4">{order.order_date ? format(new Date(order.order_date), "MMM dd, yyyy") : "-"}</td>
+                    <td className="p-4">{order.suppliers?.name || "-"}</td>
+                    <td className="p-4">{order.purchase_order_lines.length}</td>
+                    <td className="p-4 text-right font-semibold">₹{orderTotal(order.purchase_order_lines).toFixed(2)}</td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPurchaseOrderStatusColor(order.status)}`}>
+                        {order.status}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => openOrder(order)} aria-label="View purchase order">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        {canDelete && order.status === "Draft" && (
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(order.id)} aria-label="Delete purchase order">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={!!selectedOrder} onOpenChange={(open) => !open && setSelectedOrder(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedOrder?.po_number} — {selectedOrder?.suppliers?.name}</DialogTitle>
+            <DialogDescription>
+              {selectedOrder?.status === "Draft"
+                ? "Review quantities and prices, then issue the order to the supplier."
+                : `Status: ${selectedOrder?.status}${selectedOrder?.issued_at ? ` (issued ${format(new Date(selectedOrder.issued_at), "MMM dd, yyyy")})` : ""}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">Product</th>
+                  <th className="text-left p-2 font-semibold">Qty</th>
+                  <th className="text-left p-2 font-semibold">Unit Price</th>
+                  <th className="text-right p-2 font-semibold">Amount</th>
+                  {isDraft && <th className="p-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {draftLines.map((line) => (
+                  <tr key={line.id} className="border-t">
+                    <td className="p-2">
+                      <div className="font-medium">{line.products?.name}</div>
+                      <div className="text-xs text-muted-foreground">{line.products?.product_id}</div>
+                    </td>
+                    <td className="p-2">
+                      {isDraft ? (
+                        <UnitQuantityInput
+                          quantity={line.entered_qty ?? line.quantity}
+                          unit={line.entered_unit || ""}
+                          baseUnit={line.products?.unit}
+                          conversions={line.products?.product_units}
+                          inputClassName="w-24"
+                          onChange={(quantity, unit) => updateLineQuantity(line, quantity, unit)}
+                        />
+                      ) : (
+                        <>
+                          {formatQuantity(line.quantity)} {line.products?.unit || ""}
+                          {line.entered_unit && line.entered_unit !== line.products?.unit && (
+                            <div className="text-xs text-muted-foreground">{formatQuantity(line.entered_qty)} {line.entered_unit}</div>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      {isDraft ? (
+                        <div className="space-y-1">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="w-28"
+                            value={Math.round(line.unit_price * lineFactor(line) * 100) / 100}
+                            onChange={(e) => updateDraftLine(line.id, { unit_price: (parseFloat(e.target.value) || 0) / lineFactor(line) })}
+                          />
+                          <p className="text-xs text-muted-foreground">per {line.entered_unit || line.products?.unit}</p>
+                        </div>
+                      ) : (
+                        `₹${(line.unit_price * lineFactor(line)).toFixed(2)} / ${line.entered_unit || line.products?.unit || ""}`
+                      )}
+                    </td>
+                    <td className="p-2 text-right font-semibold">₹{((line.quantity || 0) * line.unit_price).toFixed(2)}</td>
+                    {isDraft && (
+                      <td className="p-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDraftLines(lines => lines.filter(l => l.id !== line.id))}
+                          aria-label="Remove line"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+                <tr className="border-t">
+                  <td className="p-2 font-semibold" colSpan={3}>Total</td>
+                  <td className="p-2 text-right font-bold">₹{orderTotal(draftLines).toFixed(2)}</td>
+                  {isDraft && <td />}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea
+              disabled={!isDraft}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          {canWrite && selectedOrder && (
+            <div className="flex gap-2 flex-wrap justify-end">
+              {(selectedOrder.status === "Draft" || selectedOrder.status === "Issued") && (
+                <Button variant="outline" onClick={() => handleCancel(selectedOrder)}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel Order
+                </Button>
+              )}
+              {isDraft && (
+                <>
+                  <Button variant="secondary" onClick={handleSave}>Save Draft</Button>
+                  <Button onClick={handleIssue}>
+                    <Send className="w-4 h-4 mr-2" />
+                    Issue Order
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { QuotationDocument, type Quotation } from "@/components/QuotationDocument";
+import { toast } from "sonner";
+
+// There is no PDF library in the bundle: the browser's "Save as PDF" print destination is
+// the export, and the document title becomes the suggested file name.
+export default function QuotationPrint() {
+  const { id } = useParams<{ id: string }>();
+  const [quotation, setQuotation] = useState<Quotation | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadQuotation = async () => {
+      const { data, error } = await supabase
+        .from("quotations")
+        .select("*, quotation_lines (*)")
+        .eq("id", id!)
+        .order("created_at", { referencedTable: "quotation_lines" })
+        .maybeSingle();
+
+      if (error) {
+        toast.error("Error loading quotation");
+      }
+      setQuotation(data);
+      setLoading(false);
+    };
+    loadQuotation();
+  }, [id]);
+
+  useEffect(() => {
+    if (!quotation) return;
+    const previousTitle = document.title;
+    document.title = `${quotation.quotation_number} - ${quotation.customer_name}`;
+    window.print();
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [quotation]);
+
+  if (loading) {
+    return <p className="p-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (!quotation) {
+    return <p className="p-8 text-center text-muted-foreground">Quotation not found</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-white p-4 print:p-0">
+      <style>{"@page { size: A4; margin: 10mm; }"}</style>
+      <div className="flex justify-between gap-2 mb-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/quotations">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Quotations
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </div>
+      <QuotationDocument quotation={quotation} />
+    </div>
+  );
+}
@@ -0,0 +1,725 @@
+import { useState, useEffect } from "react";
+import { addDays, format } from "date-fns";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle2, Eye, FileDown, FileText, PackageCheck, Plus, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { QuotationDocument, type Quotation } from "@/components/QuotationDocument";
+import { toast } from "sonner";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getUnitFactor, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+import { getEffectiveGstRate, isInterStateSupply } from "@/lib/gst";
+import { computeInvoiceLine, computeInvoiceTotals } from "@/lib/invoice";
+
+const quotationSchema = z.object({
+  customer_name: z.string().trim().min(1, "Customer name is required").max(200, "Customer name too long"),
+  customer_phone: z.string().trim().max(20, "Phone number too long"),
+  customer_gstin: z.string().trim().toUpperCase().regex(/^([0-9]{2}[A-Z0-9]{13})?$/, "GSTIN must be 15 characters starting with the state code"),
+  customer_address: z.string().trim().max(500, "Address too long"),
+  terms: z.string().trim().max(2000, "Terms too long")
+});
+
+const quotationLineSchema = z.object({
+  quantity: z.number({ invalid_type_error: "Quantity is required" }).positive("Quantity must be greater than zero"),
+  unit_price: z.number().min(0, "Price cannot be negative").max(999999.99, "Price too high"),
+  discount_percent: z.number().min(0, "Discount cannot be negative").max(100, "Discount cannot exceed 100%")
+});
+
+const statusSchema = z.enum(["Draft", "Sent", "Accepted", "Rejected"]);
+
+interface QuotableProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string;
+  selling_price: number;
+  stock_qty: number;
+  gst_rate: number | null;
+  categories: { gst_rate: number | null } | null;
+  product_units: UnitConversion[];
+}
+
+interface QuotationCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  gstin: string | null;
+  address: string | null;
+  city: string | null;
+}
+
+interface QuotationLineDraft {
+  key: number;
+  product_id: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  discount_percent: number;
+}
+
+const DEFAULT_TERMS = "Prices are exclusive of GST, which is charged as shown.\nDelivery from stock or within 7 days of order confirmation.\nPayment on delivery unless agreed otherwise.";
+
+const emptyHeader = () => ({
+  customer_id: "",
+  quotation_date: format(new Date(), "yyyy-MM-dd"),
+  valid_until: format(addDays(new Date(), 30), "yyyy-MM-dd"),
+  customer_name: "",
+  customer_phone: "",
+  customer_gstin: "",
+  customer_address: "",
+  inter_state: false,
+  terms: DEFAULT_TERMS,
+  notes: ""
+});
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+let nextLineKey = 1;
+const newLine = (): QuotationLineDraft => ({
+  key: nextLineKey++,
+  product_id: "",
+  quantity: 1,
+  unit: "",
+  unit_price: 0,
+  discount_percent: 0,
+});
+
+const openPrintView = (quotationId: string) => {
+  window.open(`/quotations/${quotationId}/print`, "_blank");
+};
+
+const quotationTotal = (quotation: Quotation) =>
+  computeInvoiceTotals(quotation.quotation_lines.map(line =>
+    computeInvoiceLine(line.quantity, line.unit_price, line.discount_percent, line.gst_rate, quotation.inter_state)
+  )).grandTotal;
+
+const isExpired = (quotation: Quotation) =>
+  ["Draft", "Sent"].includes(quotation.status) && quotation.valid_until < format(new Date(), "yyyy-MM-dd");
+
+export default function Quotations() {
+  const { canWrite, isAdmin, can } = useUserRole();
+  // Converting issues the quoted stock
+  const canConvert = canWrite && can("stock.out");
+  const [quotations, setQuotations] = useState<Quotation[]>([]);
+  const [products, setProducts] = useState<QuotableProduct[]>([]);
+  const [customers, setCustomers] = useState<QuotationCustomer[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [header, setHeader] = useState(emptyHeader);
+  const [lines, setLines] = useState<QuotationLineDraft[]>([newLine()]);
+  const [saving, setSaving] = useState(false);
+  const [converting, setConverting] = useState(false);
+  const [selectedQuotation, setSelectedQuotation] = useState<Quotation | null>(null);
+
+  useEffect(() => {
+    loadQuotations();
+    loadProducts();
+    loadCustomers();
+  }, []);
+
+  const loadQuotations = async () => {
+    const { data, error } = await supabase
+      .from("quotations")
+      .select("*, quotation_lines (*)")
+      .order("created_at", { ascending: false })
+      .order("created_at", { referencedTable: "quotation_lines" });
+
+    if (error) {
+      toast.error("Error loading quotations");
+      return;
+    }
+    setQuotations(data || []);
+    setSelectedQuotation(current => current && (data || []).find(q => q.id === current.id) || null);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("id, name, product_id, unit, selling_price, stock_qty, gst_rate, categories (gst_rate), product_units (unit, factor)")
+      .order("name");
+    setProducts(data || []);
+  };
+
+  const loadCustomers = async () => {
+    const { data } = await supabase
+      .from("customers")
+      .select("id, name, phone, gstin, address, city")
+      .order("name");
+    setCustomers(data || []);
+  };
+
+  const productFor = (line: { product_id: string }) => products.find(p => p.id === line.product_id);
+
+  const gstRateFor = (product: QuotableProduct | undefined) =>
+    product ? getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate) : null;
+
+  const updateLine = (key: number, changes: Partial<QuotationLineDraft>) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, ...changes } : line));
+  };
+
+  const handleProductChange = (key: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    updateLine(key, { product_id: productId, unit: product.unit, unit_price: product.selling_price });
+  };
+
+  // Changing the unit re-prices the line from the selling price of the base unit
+  const handleQuantityChange = (line: QuotationLineDraft, quantity: number, unit: string) => {
+    const product = productFor(line);
+    if (!product || unit === line.unit) {
+      updateLine(line.key, { quantity, unit });
+      return;
+    }
+    const factor = getUnitFactor(unit, product.unit, product.product_units) ?? 1;
+    updateLine(line.key, { quantity, unit, unit_price: round2(product.selling_price * factor) });
+  };
+
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) {
+      setHeader({ ...header, customer_id: "" });
+      return;
+    }
+    setHeader({
+      ...header,
+      customer_id: customer.id,
+      customer_name: customer.name,
+      customer_phone: customer.phone || "",
+      customer_gstin: customer.gstin || "",
+      customer_address: [customer.address, customer.city].filter(Boolean).join(", "),
+      inter_state: isInterStateSupply(customer.gstin),
+    });
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setHeader(emptyHeader());
+      setLines([newLine()]);
+    }
+  };
+
+  const lineAmounts = lines.map(line =>
+    computeInvoiceLine(line.quantity, line.unit_price, line.discount_percent, gstRateFor(productFor(line)) ?? 0, header.inter_state)
+  );
+  const totals = computeInvoiceTotals(lineAmounts);
+
+  const handleSave = async () => {
+    if (!canWrite) {
+      toast.error("You don't have permission to create quotations");
+      return;
+    }
+
+    const result = quotationSchema.safeParse(header);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    if (header.valid_until < header.quotation_date) {
+      toast.error("Validity date cannot be before the quotation date");
+      return;
+    }
+
+    const quotedLines = lines.filter(line => line.product_id);
+    if (quotedLines.length === 0) {
+      toast.error("Add at least one product to the quotation");
+      return;
+    }
+
+    for (const line of quotedLines) {
+      const product = productFor(line)!;
+      const lineResult = quotationLineSchema.safeParse(line);
+      if (!lineResult.success) {
+        toast.error(`${product.name}: ${lineResult.error.errors[0].message}`);
+        return;
+      }
+      const precisionError = checkQuantityPrecision(line.quantity, line.unit);
+      if (precisionError) {
+        toast.error(`${product.name}: ${precisionError}`);
+        return;
+      }
+      if (gstRateFor(product) === null) {
+        toast.error(`${product.name}: set a GST rate on the product or its category first`);
+        return;
+      }
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("create_quotation", {
+      _customer_name: result.data.customer_name,
+      _customer_phone: result.data.customer_phone,
+      _customer_gstin: result.data.customer_gstin,
+      _customer_address: result.data.customer_address,
+      _inter_state: header.inter_state,
+      _quotation_date: header.quotation_date,
+      _valid_until: header.valid_until,
+      _terms: result.data.terms,
+      _notes: header.notes,
+      _customer_id: header.customer_id || undefined,
+      _lines: quotedLines.map(line => ({
+        product_id: line.product_id,
+        quantity: line.quantity,
+        unit: line.unit,
+        unit_price: line.unit_price,
+        discount_percent: line.discount_percent || 0,
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to create quotations");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error saving quotation");
+      }
+      return;
+    }
+
+    toast.success("Quotation saved as draft");
+    handleDialogOpenChange(false);
+    loadQuotations();
+  };
+
+  const updateStatus = async (quotation: Quotation, newStatus: string) => {
+    const statusResult = statusSchema.safeParse(newStatus);
+    if (!statusResult.success) {
+      toast.error("Invalid status value");
+      return;
+    }
+
+    const { error } = await supabase
+      .from("quotations")
+      .update({ status: statusResult.data })
+      .eq("id", quotation.id);
+
+    if (error) {
+      toast.error("Error updating status");
+      return;
+    }
+
+    toast.success(`${quotation.quotation_number} marked ${statusResult.data}`);
+    loadQuotations();
+  };
+
+  const handleConvert = async (quotation: Quotation) => {
+    if (!window.confirm(
+      `Convert ${quotation.quotation_number}? Items in stock are issued now and a requirement is raised for any shortfall.`
+    )) return;
+
+    setConverting(true);
+    const { error } = await supabase.rpc("convert_quotation", { _quotation_id: quotation.id });
+    setConverting(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to convert quotations");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error converting quotation");
+      }
+      return;
+    }
+
+    toast.success("Quotation converted. Stock issued and requirements raised for shortfalls.");
+    loadQuotations();
+    loadProducts();
+  };
+
+  const handleDelete = async (quotation: Quotation) => {
+    if (!window.confirm(`Delete ${quotation.quotation_number}?`)) return;
+
+    const { error } = await supabase.from("quotations").delete().eq("id", quotation.id);
+    if (error) {
+      toast.error("Error deleting quotation");
+      return;
+    }
+
+    toast.success("Quotation deleted");
+    setSelectedQuotation(null);
+    loadQuotations();
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "Draft": return "bg-muted text-muted-foreground";
+      case "Sent": return "bg-primary/10 text-primary";
+      case "Accepted": return "bg-success/10 text-success";
+      case "Rejected": return "bg-destructive/10 text-destructive";
+      case "Converted": return "bg-accent/10 text-accent";
+      default: return "bg-muted text-muted-foreground";
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Quotations</h1>
+            <p className="text-muted-foreground mt-2">
+              Estimates for customers. An accepted quotation converts into stock issues, with requirements for anything short.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <FileText className="w-4 h-4 mr-2" />
+              New Quotation
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Quotation No.</th>
+                  <th className="text-left p-4 font-semibold">Date</th>
+                  <th className="text-left p-4 font-semibold">Valid Until</th>
+                  <th className="text-left p-4 font-semibold">Customer</th>
+                  <th className="text-left p-4 font-semibold">Lines</th>
+                  <th className="text-right p-4 font-semibold">Total</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quotations.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">No quotations yet</td>
+                  </tr>
+                )}
+                {quotations.map((quotation) => (
+                  <tr key={quotation.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4 font-medium">{quotation.quotation_number}</td>
+                    <td className="p-4">{format(new Date(quotation.quotation_date), "MMM dd, yyyy")}</td>
+                    <td className="p-4">
+                      {format(new Date(quotation.valid_until), "MMM dd, yyyy")}
+                      {isExpired(quotation) && <div className="text-xs text-destructive">Expired</div>}
+                    </td>
+                    <td className="p-4">{quotation.customer_name}</td>
+                    <td className="p-4">{quotation.quotation_lines.length}</td>
+                    <td className="p-4 text-right font-semibold">₹{quotationTotal(quotation).toFixed(2)}</td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(quotation.status)}`}>
+                        {quotation.status}
+                      </span>
+                    </td>
+                    <td className="p-4">
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedQuotation(quotation)} aria-label="View quotation">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openPrintView(quotation.id)} aria-label="Export quotation as PDF">
+                          <FileDown className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Quotation</DialogTitle>
+            <DialogDescription>
+              Prices are before tax. Nothing leaves stock until the quotation is accepted and converted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label>Customer</Label>
+              <Select value={header.customer_id || "new"} onValueChange={(v) => handleCustomerChange(v === "new" ? "" : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">Not in customer list</SelectItem>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}{c.phone ? ` (${c.phone})` : ""}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Customer Name *</Label>
+              <Input
+                value={header.customer_name}
+                onChange={(e) => setHeader({ ...header, customer_name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Quotation Date</Label>
+              <Input
+                type="date"
+                value={header.quotation_date}
+                onChange={(e) => setHeader({ ...header, quotation_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Valid Until</Label>
+              <Input
+                type="date"
+                min={header.quotation_date}
+                value={header.valid_until}
+                onChange={(e) => setHeader({ ...header, valid_until: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Phone</Label>
+              <Input
+                value={header.customer_phone}
+                onChange={(e) => setHeader({ ...header, customer_phone: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Customer GSTIN</Label>
+              <Input
+                value={header.customer_gstin}
+                onChange={(e) => setHeader({ ...header, customer_gstin: e.target.value, inter_state: isInterStateSupply(e.target.value) })}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <Label>Address</Label>
+              <Input
+                value={header.customer_address}
+                onChange={(e) => setHeader({ ...header, customer_address: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="quotation-inter-state"
+                checked={header.inter_state}
+                onCheckedChange={(checked) => setHeader({ ...header, inter_state: checked })}
+              />
+              <Label htmlFor="quotation-inter-state">Inter-state supply (IGST)</Label>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">Product</th>
+                  <th className="text-left p-2 font-semibold">Quantity</th>
+                  <th className="text-left p-2 font-semibold">Rate</th>
+                  <th className="text-left p-2 font-semibold">Disc %</th>
+                  <th className="text-right p-2 font-semibold">GST</th>
+                  <th className="text-right p-2 font-semibold">Amount</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => {
+                  const product = productFor(line);
+                  const rate = gstRateFor(product);
+                  const baseQty = product ? toBaseQuantity(line.quantity || 0, line.unit, product.unit, product.product_units) : null;
+                  return (
+                    <tr key={line.key} className="border-t align-top">
+                      <td className="p-2 min-w-[200px]">
+                        <Select value={line.product_id} onValueChange={(v) => handleProductChange(line.key, v)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name} ({p.product_id})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {product && baseQty !== null && baseQty > product.stock_qty && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {formatQuantity(Math.max(product.stock_qty, 0))} {product.unit} in stock; the rest will be raised as a requirement
+                          </p>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {product && (
+                          <UnitQuantityInput
+                            quantity={line.quantity}
+                            unit={line.unit}
+                            baseUnit={product.unit}
+                            conversions={product.product_units}
+                            onChange={(quantity, unit) => handleQuantityChange(line, quantity, unit)}
+                            inputClassName="w-24"
+                          />
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-28"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(line.key, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          className="w-20"
+                          value={line.discount_percent}
+                          onChange={(e) => updateLine(line.key, { discount_percent: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="p-2 text-right">
+                        {product && (rate === null ? <span className="text-destructive">Not set</span> : `${rate}%`)}
+                      </td>
+                      <td className="p-2 text-right font-semibold">₹{lineAmounts[index].total.toFixed(2)}</td>
+                      <td className="p-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.length > 1 ? lines.filter(l => l.key !== line.key) : [newLine()])}
+                          aria-label="Remove line"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-start gap-4 flex-wrap">
+            <Button variant="outline" size="sm" onClick={() => setLines([...lines, newLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="text-sm space-y-1 min-w-[220px]">
+              <div className="flex justify-between"><span>Subtotal</span><span>₹{totals.subtotal.toFixed(2)}</span></div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between"><span>Discount</span><span>-₹{totals.discount.toFixed(2)}</span></div>
+              )}
+              <div className="flex justify-between"><span>Taxable</span><span>₹{totals.taxable.toFixed(2)}</span></div>
+              {header.inter_state ? (
+                <div className="flex justify-between"><span>IGST</span><span>₹{totals.igst.toFixed(2)}</span></div>
+              ) : (
+                <>
+                  <div className="flex justify-between"><span>CGST</span><span>₹{totals.cgst.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span>SGST</span><span>₹{totals.sgst.toFixed(2)}</span></div>
+                </>
+              )}
+              <div className="flex justify-between"><span>Round Off</span><span>₹{totals.roundOff.toFixed(2)}</span></div>
+              <div className="flex justify-between font-bold border-t pt-1"><span>Total</span><span>₹{totals.grandTotal.toFixed(2)}</span></div>
+            </div>
+          </div>
+
+          <div>
+            <Label>Terms &amp; Conditions</Label>
+            <Textarea
+              rows={4}
+              value={header.terms}
+              onChange={(e) => setHeader({ ...header, terms: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea
+              value={header.notes}
+              onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+            />
+          </div>
+
+          <Button onClick={handleSave} disabled={saving} className="w-full">
+            {saving ? "Saving..." : "Save Quotation"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedQuotation} onOpenChange={(open) => !open && setSelectedQuotation(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedQuotation?.quotation_number} — {selectedQuotation?.customer_name}</DialogTitle>
+            <DialogDescription>
+              {selectedQuotation?.status === "Converted"
+                ? `Converted on ${format(new Date(selectedQuotation.converted_at!), "MMM dd, yyyy")}. Stock movements carry ${selectedQuotation.quotation_number} as their reference.`
+                : "Mark the quotation Accepted once the customer confirms, then convert it to issue stock."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedQuotation && (
+            <>
+              <div className="flex gap-2 flex-wrap">
+                <Button variant="outline" size="sm" onClick={() => openPrintView(selectedQuotation.id)}>
+                  <FileDown className="w-4 h-4 mr-2" />
+                  Export PDF
+                </Button>
+                {canWrite && selectedQuotation.status !== "Converted" && (
+                  <Select value={selectedQuotation.status} onValueChange={(v) => updateStatus(selectedQuotation, v)}>
+                    <SelectTrigger className="w-36 h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="Draft">Draft</SelectItem>
+                      <SelectItem value="Sent">Sent</SelectItem>
+                      <SelectItem value="Accepted">Accepted</SelectItem>
+                      <SelectItem value="Rejected">Rejected</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {canConvert && selectedQuotation.status === "Accepted" && (
+                  <Button size="sm" onClick={() => handleConvert(selectedQuotation)} disabled={converting}>
+                    <PackageCheck className="w-4 h-4 mr-2" />
+                    {converting ? "Converting..." : "Convert to Stock Issue"}
+                  </Button>
+                )}
+                {isAdmin && selectedQuotation.status !== "Converted" && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(selectedQuotation)} aria-label="Delete quotation">
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+
+              {selectedQuotation.status === "Converted" && (
+                <div className="rounded-lg border p-3 text-sm space-y-1">
+                  {selectedQuotation.quotation_lines.map((line) => {
+                    const product = productFor(line);
+                    return (
+                      <div key={line.id} className="flex items-center justify-between gap-2">
+                        <span>{line.description}</span>
+                        <span className="flex items-center gap-2">
+                          <CheckCircle2 className="w-4 h-4 text-success" />
+                          Issued {formatQuantity(line.issued_qty ?? 0)} {product?.unit}
+                          {line.requirement_id && <span className="text-warning">· shortfall sent to Requirements</span>}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              <div className="border rounded-lg p-4 bg-white">
+                <QuotationDocument quotation={selectedQuotation} />
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
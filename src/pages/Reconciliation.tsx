@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { RefreshCw, Scale } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getQuantityStep } from "@/lib/quantity";
+
+const adjustmentSchema = z.object({
+  actual_qty: z.number().min(0, "Quantity cannot be negative"),
+  reason: z.string().trim().min(1, "A reason is required").max(500, "Reason too long")
+});
+
+interface ReconciliationRow {
+  product_id: string;
+  product_code: string;
+  name: string;
+  unit: string;
+  stock_qty: number;
+  expected_qty: number;
+  difference: number;
+}
+
+export default function Reconciliation() {
+  const { can, loading: roleLoading } = useUserRole();
+  const canAdjust = can("stock.adjust");
+  const [rows, setRows] = useState<ReconciliationRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [adjusting, setAdjusting] = useState<ReconciliationRow | null>(null);
+  const [formData, setFormData] = useState({ actual_qty: 0, reason: "" });
+
+  useEffect(() => {
+    if (canAdjust) loadReconciliation();
+  }, [canAdjust]);
+
+  const loadReconciliation = async () => {
+    setLoading(true);
+    const { data, error } = await supabase.rpc("get_stock_reconciliation");
+    setLoading(false);
+
+    if (error) {
+      toast.error("Error running stock reconciliation");
+      return;
+    }
+    setRows(data || []);
+  };
+
+  const openAdjustment = (row: ReconciliationRow) => {
+    setAdjusting(row);
+    setFormData({ actual_qty: row.stock_qty, reason: "" });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!adjusting) return;
+
+    const result = adjustmentSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.actual_qty, adjusting.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
+
+    const { error } = await supabase.rpc("post_stock_adjustment", {
+      _product_id: adjusting.product_id,
+      _actual_qty: result.data.actual_qty,
+      _reason: result.data.reason,
+    });
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to post stock adjustments");
+      } else {
+        toast.error("Error posting stock adjustment");
+      }
+      return;
+    }
+
+    toast.success("Adjustment posted successfully!");
+    setAdjusting(null);
+    loadReconciliation();
+  };
+
+  if (!roleLoading && !canAdjust) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">You do not have permission to adjust stock.</p>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Stock Reconciliation</h1>
+            <p className="text-muted-foreground mt-2">
+              Products whose recorded stock differs from the quantity expected from their movement history.
+            </p>
+          </div>
+          <Button onClick={loadReconciliation} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+            Recompute
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Product</th>
+                  <th className="text-right p-4 font-semibold">Recorded Stock</th>
+                  <th className="text-right p-4 font-semibold">Expected (Movements)</th>
+                  <th className="text-right p-4 font-semibold">Difference</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Recomputing..." : "All products match their movement history"}
+                    </td>
+                  </tr>
+                )}
+                {rows.map((row) => (
+                  <tr key={row.product_id} className="border-t hover:bg-muted/30">
+                    <td className="p-4">
+                      <Link to={`/products/${row.product_id}`} className="font-medium hover:underline">
+                        {row.name}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">{row.product_code}</div>
+                    </td>
+                    <td className="p-4 text-right">{formatQuantity(row.stock_qty)} {row.unit}</td>
+                    <td className="p-4 text-right">{formatQuantity(row.expected_qty)} {row.unit}</td>
+                    <td className={`p-4 text-right font-semibold ${row.difference > 0 ? "text-success" : "text-destructive"}`}>
+                      {row.difference > 0 ? "+" : ""}{formatQuantity(row.difference)}
+                    </td>
+                    <td className="p-4">
+                      <Button variant="secondary" size="sm" onClick={() => openAdjustment(row)}>
+                        <Scale className="w-4 h-4 mr-1" />
+                        Adjust
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={!!adjusting} onOpenChange={(open) => !open && setAdjusting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Post ADJUST Movement — {adjusting?.name}</DialogTitle>
+            <DialogDescription>
+              Enter the correct quantity. An ADJUST movement will bring both the movement history and the recorded stock to this value.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setFormData({ ...formData, actual_qty: adjusting?.stock_qty ?? 0 })}
+              >
+                Keep recorded ({formatQuantity(adjusting?.stock_qty)})
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setFormData({ ...formData, actual_qty: Math.max(adjusting?.expected_qty ?? 0, 0) })}
+              >
+                Use expected ({formatQuantity(adjusting?.expected_qty)})
+              </Button>
+            </div>
+            <div>
+              <Label>Correct Quantity *</Label>
+              <Input
+                type="number"
+                required
+                min="0"
+                step={getQuantityStep(adjusting?.unit)}
+                value={formData.actual_qty}
+                onChange={(e) => setFormData({ ...formData, actual_qty: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label>Reason *</Label>
+              <Textarea
+                required
+                placeholder="e.g. Physical count differs from the system"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">Post Adjustment</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
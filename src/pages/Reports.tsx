@@ -1,28 +1,92 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { Layout } from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
-import { Package, AlertTriangle, FolderOpen, TrendingUp } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { CsvExport } from "@/components/CsvExport";
+import { Package, AlertTriangle, FolderOpen, TrendingUp, Receipt, ArrowUpDown } from "lucide-react";
+import { toast } from "sonner";
+import { format, subDays } from "date-fns";
+import { formatQuantity } from "@/lib/quantity";
+import { getEffectiveGstRate, splitGst } from "@/lib/gst";
+import { MOVEMENT_TYPES, MOVEMENT_TYPE_LABELS, type MovementReason } from "@/lib/movements";
+
+interface GstSlabSummary {
+  slab: string;
+  rate: number | null;
+  products: number;
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+interface MovementSummaryRow {
+  movement_type: string;
+  reason_code: string | null;
+  movement_count: number;
+  product_count: number;
+  quantity: number;
+  // Null without the reports.financial permission
+  value: number | null;
+}
 
 export default function Reports() {
+  const { can } = useUserRole();
+  const showFinancial = can("reports.financial");
   const [stats, setStats] = useState({
     totalValue: 0,
     lowStockCount: 0,
     categoryBreakdown: [] as any[],
     topProducts: [] as any[],
+    gstSummary: [] as GstSlabSummary[],
+  });
+
+  const [movementRange, setMovementRange] = useState({
+    from: format(subDays(new Date(), 30), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
   });
+  const [movementTypeFilter, setMovementTypeFilter] = useState("all");
+  const [movementSummary, setMovementSummary] = useState<MovementSummaryRow[]>([]);
+  const [reasons, setReasons] = useState<MovementReason[]>([]);
 
   useEffect(() => {
     loadReports();
+    loadReasons();
   }, []);
 
+  useEffect(() => {
+    if (!movementRange.from || !movementRange.to) return;
+    const loadMovementSummary = async () => {
+      const { data, error } = await supabase.rpc("get_movement_summary", {
+        _from: movementRange.from,
+        _to: movementRange.to,
+      });
+
+      if (error) {
+        toast.error("Error loading movement summary");
+        return;
+      }
+      setMovementSummary(data || []);
+    };
+    loadMovementSummary();
+  }, [movementRange]);
+
+  const loadReasons = async () => {
+    const { data } = await supabase.from("movement_reasons").select("code, movement_type, label");
+    setReasons(data || []);
+  };
+
   const loadReports = async () => {
     // Get all products with related data
     const { data: products } = await supabase
       .from("products")
       .select(`
         *,
-        categories (name),
+        categories (name, gst_rate),
         suppliers (name)
       `);
 
@@ -56,14 +120,51 @@ export default function Reports() {
       .sort((a, b) => b.value - a.value)
       .slice(0, 10);
 
+    // GST on current stock at the tax-exclusive price, grouped by slab
+    const gstMap = new Map<string, GstSlabSummary>();
+    products.forEach(p => {
+      const rate = getEffectiveGstRate(p.gst_rate, p.categories?.gst_rate);
+      const slab = rate === null ? "Not set" : `${rate}%`;
+      const current = gstMap.get(slab) || { slab, rate, products: 0, taxable: 0, cgst: 0, sgst: 0, igst: 0 };
+      const intraState = splitGst(p.stock_qty * (p.without_tax_price || 0), rate ?? 0);
+      const interState = splitGst(p.stock_qty * (p.without_tax_price || 0), rate ?? 0, true);
+      current.products += 1;
+      current.taxable += intraState.taxable;
+      current.cgst += intraState.cgst;
+      current.sgst += intraState.sgst;
+      current.igst += interState.igst;
+      gstMap.set(slab, current);
+    });
+    const gstSummary = Array.from(gstMap.values()).sort((a, b) => (a.rate ?? 100) - (b.rate ?? 100));
+
     setStats({
       totalValue,
       lowStockCount,
       categoryBreakdown,
       topProducts,
+      gstSummary,
     });
   };
 
+  // One total row per movement type, followed by its reasons when it has any
+  const movementTypes = MOVEMENT_TYPES
+    .filter(type => movementTypeFilter === "all" || type === movementTypeFilter)
+    .map(type => {
+      const rows = movementSummary.filter(r => r.movement_type === type);
+      return {
+        type,
+        reasons: rows.filter(r => r.reason_code),
+        movement_count: rows.reduce((sum, r) => sum + r.movement_count, 0),
+        quantity: rows.reduce((sum, r) => sum + r.quantity, 0),
+        value: rows.reduce((sum, r) => sum + (r.value ?? 0), 0),
+      };
+    })
+    .filter(t => t.movement_count > 0);
+  const reasonLabel = (code: string | null) => reasons.find(r => r.code === code)?.label ?? code;
+  // ADJUST totals are a net change, shown signed like adjustments on the movements page
+  const signedQuantity = (type: string, quantity: number) =>
+    `${type === "ADJUST" && quantity > 0 ? "+" : ""}${formatQuantity(quantity)}`;
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -72,6 +173,7 @@ export default function Reports() {
         <section aria-labelledby="overview-heading" className="space-y-4">
           <h2 id="overview-heading" className="text-xl font-semibold">Inventory Overview</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {showFinancial && (
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
@@ -84,6 +186,7 @@ export default function Reports() {
               <p className="text-sm text-muted-foreground mt-2">Current inventory valuation</p>
             </CardContent>
           </Card>
+          )}
 
           <Card>
             <CardHeader>
@@ -100,6 +203,7 @@ export default function Reports() {
           </div>
         </section>
 
+        {showFinancial && (
         <section aria-labelledby="breakdown-heading" className="space-y-4">
           <h2 id="breakdown-heading" className="text-xl font-semibold">Stock Breakdown</h2>
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -139,7 +243,7 @@ export default function Reports() {
                     <div>
                       <p className="font-medium">{prod.name}</p>
                       <p className="text-xs text-muted-foreground">
-                        {prod.product_id} • {prod.stock_qty} units
+                        {prod.product_id} • {formatQuantity(prod.stock_qty)} units
                       </p>
                     </div>
                     <p className="font-semibold">₹{prod.value.toFixed(2)}</p>
@@ -150,6 +254,163 @@ export default function Reports() {
           </Card>
           </div>
         </section>
+        )}
+
+        <section aria-labelledby="movements-heading" className="space-y-4">
+          <div className="flex justify-between items-end gap-4 flex-wrap">
+            <h2 id="movements-heading" className="text-xl font-semibold">Stock Movements by Type</h2>
+            <div className="flex items-end gap-2 flex-wrap">
+              <div>
+                <Label>From</Label>
+                <Input
+                  type="date"
+                  value={movementRange.from}
+                  onChange={(e) => setMovementRange({ ...movementRange, from: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input
+                  type="date"
+                  value={movementRange.to}
+                  onChange={(e) => setMovementRange({ ...movementRange, to: e.target.value })}
+                />
+              </div>
+              <Select value={movementTypeFilter} onValueChange={setMovementTypeFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All movement types</SelectItem>
+                  {MOVEMENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>{MOVEMENT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <CsvExport
+                data={movementSummary
+                  .filter(row => movementTypeFilter === "all" || row.movement_type === movementTypeFilter)
+                  .map(row => ({
+                    movement_type: MOVEMENT_TYPE_LABELS[row.movement_type] ?? row.movement_type,
+                    reason: reasonLabel(row.reason_code) ?? "",
+                    movements: row.movement_count,
+                    products: row.product_count,
+                    quantity: formatQuantity(row.quantity),
+                    ...(showFinancial && { value: (row.value ?? 0).toFixed(2) }),
+                  }))}
+                filename="stock-movements-by-type"
+              />
+            </div>
+          </div>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ArrowUpDown className="w-5 h-5 text-primary" />
+                Movements and Reasons
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-semibold">Type / Reason</th>
+                      <th className="text-right p-3 font-semibold">Movements</th>
+                      <th className="text-right p-3 font-semibold">Quantity</th>
+                      {showFinancial && <th className="text-right p-3 font-semibold">Value</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {movementTypes.length === 0 && (
+                      <tr>
+                        <td colSpan={showFinancial ? 4 : 3} className="p-6 text-center text-muted-foreground">No movements in this period</td>
+                      </tr>
+                    )}
+                    {movementTypes.map((t) => (
+                      <Fragment key={t.type}>
+                        <tr className="border-t bg-muted/20">
+                          <td className="p-3 font-semibold">{MOVEMENT_TYPE_LABELS[t.type]}</td>
+                          <td className="p-3 text-right font-semibold">{t.movement_count}</td>
+                          <td className="p-3 text-right font-semibold">{signedQuantity(t.type, t.quantity)}</td>
+                          {showFinancial && <td className="p-3 text-right font-semibold">₹{t.value.toFixed(2)}</td>}
+                        </tr>
+                        {t.reasons.map((r) => (
+                          <tr key={`${t.type}-${r.reason_code}`} className="border-t">
+                            <td className="p-3 pl-8 text-muted-foreground">{reasonLabel(r.reason_code)}</td>
+                            <td className="p-3 text-right">{r.movement_count}</td>
+                            <td className="p-3 text-right">{signedQuantity(t.type, r.quantity)}</td>
+                            {showFinancial && <td className="p-3 text-right">₹{(r.value ?? 0).toFixed(2)}</td>}
+                          </tr>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Quantities are in each product's base unit; adjustments are net of gains and losses.{showFinancial && " Value is at purchase price."}
+              </p>
+            </CardContent>
+          </Card>
+        </section>
+
+        {showFinancial && (
+        <section aria-labelledby="gst-heading" className="space-y-4">
+          <div className="flex justify-between items-center gap-4 flex-wrap">
+            <h2 id="gst-heading" className="text-xl font-semibold">GST Summary</h2>
+            <CsvExport
+              data={stats.gstSummary.map(row => ({
+                gst_rate: row.slab,
+                products: row.products,
+                taxable_value: row.taxable.toFixed(2),
+                cgst: row.cgst.toFixed(2),
+                sgst: row.sgst.toFixed(2),
+                igst: row.igst.toFixed(2),
+              }))}
+              filename="gst-summary"
+            />
+          </div>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="w-5 h-5 text-primary" />
+                Tax on Stock by GST Slab
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-3 font-semibold">GST Rate</th>
+                      <th className="text-right p-3 font-semibold">Products</th>
+                      <th className="text-right p-3 font-semibold">Taxable Value</th>
+                      <th className="text-right p-3 font-semibold">CGST</th>
+                      <th className="text-right p-3 font-semibold">SGST</th>
+                      <th className="text-right p-3 font-semibold">IGST (inter-state)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.gstSummary.map((row) => (
+                      <tr key={row.slab} className="border-t">
+                        <td className="p-3 font-medium">{row.slab}</td>
+                        <td className="p-3 text-right">{row.products}</td>
+                        <td className="p-3 text-right">₹{row.taxable.toFixed(2)}</td>
+                        <td className="p-3 text-right">₹{row.cgst.toFixed(2)}</td>
+                        <td className="p-3 text-right">₹{row.sgst.toFixed(2)}</td>
+                        <td className="p-3 text-right">₹{row.igst.toFixed(2)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                Stock valued at the price without tax. CGST + SGST applies within the state; IGST applies to other states.
+              </p>
+            </CardContent>
+          </Card>
+        </section>
+        )}
       </div>
     </Layout>
   );
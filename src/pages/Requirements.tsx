@@ -1,72 +1,111 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus } from "lucide-react";
+import { Plus, PackageCheck, Search, ShoppingCart } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useTableParams } from "@/hooks/useTableParams";
+import { useDebounce } from "@/hooks/useDebounce";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { z } from "zod";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { ProductPicker, type PickerProduct } from "@/components/ProductPicker";
+import { SortableHeader } from "@/components/SortableHeader";
+import { TablePagination } from "@/components/TablePagination";
+import { checkQuantityPrecision, formatQuantity, getQuantityStep, roundQuantity, toBaseQuantity } from "@/lib/quantity";
+import { PRODUCT_SEARCH_COLUMNS, searchFilter } from "@/lib/search";
 
 const requirementSchema = z.object({
   product_id: z.string().uuid("Invalid product selected"),
-  needed_qty: z.number().int("Quantity must be a whole number").positive("Quantity must be greater than 0"),
+  needed_qty: z.number().positive("Quantity must be greater than 0"),
   priority: z.enum(["High", "Medium", "Low"], { errorMap: () => ({ message: "Invalid priority level" }) }),
   status: z.enum(["Open", "Ordered", "Received", "Closed"], { errorMap: () => ({ message: "Invalid status" }) }),
   notes: z.string().trim().max(500, "Notes too long").default("")
 });
 
+const receiptSchema = z.object({
+  quantity: z.number().positive("Quantity must be greater than 0"),
+  reference: z.string().trim().max(100, "Reference too long").default("")
+});
+
 interface Requirement {
   id: string;
   needed_qty: number;
+  received_qty: number;
+  entered_qty: number | null;
+  entered_unit: string | null;
   requested_date: string;
   priority: string;
   status: string;
   notes: string;
-  products: { name: string; product_id: string; stock_qty: number };
+  products: { name: string; product_id: string; stock_qty: number; unit: string | null; supplier_id: string | null };
 }
 
 export default function Requirements() {
+  const navigate = useNavigate();
+  const { can } = useUserRole();
+  const canApprove = can("requirements.approve");
   const [requirements, setRequirements] = useState<Requirement[]>([]);
-  const [products, setProducts] = useState<any[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const { page, sort, ascending, search, get, update, setPage, toggleSort, range } =
+    useTableParams({ sort: "requested_date", ascending: false });
+  const statusFilter = get("status") || "all";
+  const [searchInput, setSearchInput] = useState(search);
+  const debouncedSearch = useDebounce(searchInput.trim());
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectedProduct, setSelectedProduct] = useState<PickerProduct | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [receiving, setReceiving] = useState<Requirement | null>(null);
+  const [receiptData, setReceiptData] = useState({ quantity: 0, reference: "" });
   const [formData, setFormData] = useState({
     product_id: "",
     needed_qty: 0,
+    unit: "",
     priority: "Medium",
     notes: "",
   });
 
   useEffect(() => {
-    loadRequirements();
-    loadProducts();
-  }, []);
+    update({ q: debouncedSearch || null });
+  }, [debouncedSearch, update]);
 
-  const loadRequirements = async () => {
-    const { data, error } = await supabase
+  const loadRequirements = useCallback(async () => {
+    let query = supabase
       .from("requirements")
       .select(`
         *,
-        products (name, product_id, stock_qty)
-      `)
-      .order("requested_date", { ascending: false });
-    
+        products!inner (name, product_id, stock_qty, unit, supplier_id)
+      `, { count: "exact" });
+
+    if (search) query = query.or(searchFilter(PRODUCT_SEARCH_COLUMNS, search), { referencedTable: "products" });
+    if (statusFilter !== "all") query = query.eq("status", statusFilter);
+
+    setLoading(true);
+    const { data, count, error } = await query.order(sort, { ascending }).order("id").range(...range);
+    setLoading(false);
+
     if (error) {
       toast.error("Error loading requirements");
       return;
     }
     setRequirements(data || []);
-  };
+    setTotalCount(count ?? 0);
+    setSelectedIds([]);
+  }, [search, statusFilter, sort, ascending, range]);
 
-  const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("id, name, product_id").order("name");
-    setProducts(data || []);
-  };
+  useEffect(() => {
+    loadRequirements();
+  }, [loadRequirements]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -76,8 +115,26 @@ export default function Requirements() {
       toast.error(result.error.errors[0].message);
       return;
     }
+
+    const baseQty = toBaseQuantity(result.data.needed_qty, formData.unit, selectedProduct?.unit, selectedProduct?.product_units);
+    if (baseQty === null) {
+      toast.error(`Unit "${formData.unit}" is not defined for this product`);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.needed_qty, formData.unit)
+      || checkQuantityPrecision(baseQty, selectedProduct?.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
     
-    const { error } = await supabase.from("requirements").insert([result.data as any]);
+    const { error } = await supabase.from("requirements").insert([{
+      ...result.data,
+      needed_qty: baseQty,
+      entered_qty: result.data.needed_qty,
+      entered_unit: formData.unit || selectedProduct?.unit,
+    } as any]);
     
     if (error) {
       toast.error("Error adding requirement");
@@ -103,7 +160,7 @@ export default function Requirements() {
       .eq("id", id);
     
     if (error) {
-      toast.error("Error updating status");
+      toast.error(error.code === "42501" ? error.message : "Error updating status");
       return;
     }
     
@@ -111,10 +168,95 @@ export default function Requirements() {
     loadRequirements();
   };
 
+  const openReceipt = (req: Requirement) => {
+    setReceiving(req);
+    setReceiptData({ quantity: roundQuantity(req.needed_qty - req.received_qty, req.products.unit), reference: "" });
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiving) return;
+
+    const result = receiptSchema.safeParse(receiptData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.quantity, receiving.products.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
+
+    const outstanding = roundQuantity(receiving.needed_qty - receiving.received_qty, receiving.products.unit);
+    if (result.data.quantity > outstanding) {
+      toast.error(`Cannot receive more than the outstanding quantity of ${outstanding}`);
+      return;
+    }
+
+    const { error } = await supabase.rpc("receive_requirement", {
+      _requirement_id: receiving.id,
+      _quantity: result.data.quantity,
+      _reference: result.data.reference,
+    });
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to receive stock");
+      } else {
+        toast.error("Error receiving requirement");
+      }
+      return;
+    }
+
+    toast.success(result.data.quantity === outstanding ? "Requirement fully received!" : "Partial receipt recorded!");
+    setReceiving(null);
+    loadRequirements();
+  };
+
+  const selectableRequirements = requirements.filter(r => r.status === "Open" && r.received_qty < r.needed_qty);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(i => i !== id));
+  };
+
+  const handleCreatePurchaseOrders = async () => {
+    const selected = requirements.filter(r => selectedIds.includes(r.id));
+    const withoutSupplier = selected.filter(r => !r.products?.supplier_id);
+    if (withoutSupplier.length > 0) {
+      toast.error(`Assign a supplier to ${withoutSupplier[0].products?.name} before ordering`);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc("create_purchase_orders_from_requirements", {
+      _requirement_ids: selectedIds,
+    });
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to create purchase orders");
+      } else {
+        toast.error("Error creating purchase orders");
+      }
+      return;
+    }
+
+    if (!data?.length) {
+      toast.error("The selected requirements are already on open purchase orders");
+      return;
+    }
+
+    toast.success(`Created ${data.length} draft purchase order${data.length === 1 ? "" : "s"}`);
+    navigate("/purchase-orders");
+  };
+
   const resetForm = () => {
+    setSelectedProduct(null);
     setFormData({
       product_id: "",
       needed_qty: 0,
+      unit: "",
       priority: "Medium",
       notes: "",
     });
@@ -142,8 +284,13 @@ export default function Requirements() {
   return (
     <Layout>
       <div className="space-y-6">
-        <div className="flex justify-between items-center">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
           <h1 className="text-3xl font-bold">Requirements</h1>
+          <div className="flex gap-2 flex-wrap">
+          <Button variant="secondary" disabled={selectedIds.length === 0} onClick={handleCreatePurchaseOrders}>
+            <ShoppingCart className="w-4 h-4 mr-2" />
+            Create Purchase Orders{selectedIds.length > 0 ? ` (${selectedIds.length})` : ""}
+          </Button>
           <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
             <DialogTrigger asChild>
               <Button>
@@ -158,27 +305,23 @@ export default function Requirements() {
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <Label>Product *</Label>
-                  <Select value={formData.product_id} onValueChange={(v) => setFormData({ ...formData, product_id: v })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select product" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {products.map((prod) => (
-                        <SelectItem key={prod.id} value={prod.id}>
-                          {prod.product_id} - {prod.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <ProductPicker
+                    value={selectedProduct}
+                    onChange={(product) => {
+                      setSelectedProduct(product);
+                      setFormData({ ...formData, product_id: product.id, unit: product.unit || "" });
+                    }}
+                  />
                 </div>
                 <div>
                   <Label>Needed Quantity *</Label>
-                  <Input
-                    type="number"
+                  <UnitQuantityInput
                     required
-                    min="1"
-                    value={formData.needed_qty}
-                    onChange={(e) => setFormData({ ...formData, needed_qty: parseInt(e.target.value) })}
+                    quantity={formData.needed_qty}
+                    unit={formData.unit}
+                    baseUnit={selectedProduct?.unit}
+                    conversions={selectedProduct?.product_units}
+                    onChange={(needed_qty, unit) => setFormData({ ...formData, needed_qty, unit })}
                   />
                 </div>
                 <div>
@@ -205,6 +348,31 @@ export default function Requirements() {
               </form>
             </DialogContent>
           </Dialog>
+          </div>
+        </div>
+
+        <div className="flex gap-4 flex-wrap items-center">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-3 w-5 h-5 text-muted-foreground" />
+            <Input
+              placeholder="Search by product name, ID, item code, barcode or description..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <Select value={statusFilter} onValueChange={(v) => update({ status: v === "all" ? null : v })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="Open">Open</SelectItem>
+              <SelectItem value="Ordered">Ordered</SelectItem>
+              <SelectItem value="Received">Received</SelectItem>
+              <SelectItem value="Closed">Closed</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
 
         <div className="bg-card rounded-lg border">
@@ -212,18 +380,41 @@ export default function Requirements() {
             <table className="w-full">
               <thead className="bg-muted/50">
                 <tr>
-                  <th className="text-left p-4 font-semibold">Date</th>
+                  <th className="p-4 w-10">
+                    <Checkbox
+                      aria-label="Select all open requirements"
+                      checked={selectableRequirements.length > 0 && selectedIds.length === selectableRequirements.length}
+                      onCheckedChange={(checked) => setSelectedIds(checked ? selectableRequirements.map(r => r.id) : [])}
+                    />
+                  </th>
+                  <SortableHeader column="requested_date" label="Date" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Product</th>
                   <th className="text-left p-4 font-semibold">Current Stock</th>
-                  <th className="text-left p-4 font-semibold">Needed Qty</th>
+                  <SortableHeader column="needed_qty" label="Needed Qty" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Priority</th>
-                  <th className="text-left p-4 font-semibold">Status</th>
+                  <SortableHeader column="status" label="Status" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Actions</th>
                 </tr>
               </thead>
               <tbody>
+                {requirements.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading..." : "No requirements found"}
+                    </td>
+                  </tr>
+                )}
                 {requirements.map((req) => (
                   <tr key={req.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4">
+                      {req.status === "Open" && req.received_qty < req.needed_qty && (
+                        <Checkbox
+                          aria-label="Select requirement"
+                          checked={selectedIds.includes(req.id)}
+                          onCheckedChange={(checked) => toggleSelected(req.id, checked === true)}
+                        />
+                      )}
+                    </td>
                     <td className="p-4">{format(new Date(req.requested_date), "MMM dd, yyyy")}</td>
                     <td className="p-4">
                       <div>
@@ -231,8 +422,16 @@ export default function Requirements() {
                         <div className="text-xs text-muted-foreground">{req.products?.product_id}</div>
                       </div>
                     </td>
-                    <td className="p-4">{req.products?.stock_qty}</td>
-                    <td className="p-4 font-semibold">{req.needed_qty}</td>
+                    <td className="p-4">{formatQuantity(req.products?.stock_qty)}</td>
+                    <td className="p-4">
+                      <span className="font-semibold">{formatQuantity(req.needed_qty)} {req.products?.unit}</span>
+                      {req.entered_unit && req.entered_unit !== req.products?.unit && (
+                        <div className="text-xs text-muted-foreground">{formatQuantity(req.entered_qty)} {req.entered_unit}</div>
+                      )}
+                      {req.received_qty > 0 && (
+                        <div className="text-xs text-muted-foreground">{formatQuantity(req.received_qty)} received</div>
+                      )}
+                    </td>
                     <td className="p-4">
                       <span className={`px-2 py-1 rounded-full text-xs font-medium ${getPriorityColor(req.priority)}`}>
                         {req.priority}
@@ -244,17 +443,25 @@ export default function Requirements() {
                       </span>
                     </td>
                     <td className="p-4">
+                      <div className="flex gap-2">
                       <Select value={req.status} onValueChange={(v) => updateStatus(req.id, v)}>
                         <SelectTrigger className="w-32">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="Open">Open</SelectItem>
-                          <SelectItem value="Ordered">Ordered</SelectItem>
+                          <SelectItem value="Ordered" disabled={req.status === "Open" && !canApprove}>Ordered</SelectItem>
                           <SelectItem value="Received">Received</SelectItem>
                           <SelectItem value="Closed">Closed</SelectItem>
                         </SelectContent>
                       </Select>
+                      {req.received_qty < req.needed_qty && (
+                        <Button variant="secondary" size="sm" onClick={() => openReceipt(req)}>
+                          <PackageCheck className="w-4 h-4 mr-1" />
+                          Receive
+                        </Button>
+                      )}
+                      </div>
                     </td>
                   </tr>
                 ))}
@@ -262,7 +469,43 @@ export default function Requirements() {
             </table>
           </div>
         </div>
+
+        <TablePagination page={page} total={totalCount} onPageChange={setPage} />
       </div>
+
+      <Dialog open={!!receiving} onOpenChange={(open) => !open && setReceiving(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Receive Stock — {receiving?.products?.name}</DialogTitle>
+            <DialogDescription>
+              {receiving && `${formatQuantity(receiving.received_qty)} of ${formatQuantity(receiving.needed_qty)} received so far. An IN movement will be recorded for this quantity.`}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleReceive} className="space-y-4">
+            <div>
+              <Label>Quantity Received *</Label>
+              <Input
+                type="number"
+                required
+                min="0"
+                step={getQuantityStep(receiving?.products.unit)}
+                max={receiving ? roundQuantity(receiving.needed_qty - receiving.received_qty, receiving.products.unit) : undefined}
+                value={receiptData.quantity}
+                onChange={(e) => setReceiptData({ ...receiptData, quantity: parseFloat(e.target.value) })}
+              />
+            </div>
+            <div>
+              <Label>Reference</Label>
+              <Input
+                placeholder="e.g. Invoice No., Challan No."
+                value={receiptData.reference}
+                onChange={(e) => setReceiptData({ ...receiptData, reference: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">Record Receipt</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 }
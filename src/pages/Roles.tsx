@@ -0,0 +1,266 @@
+import { useState, useEffect } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { z } from "zod";
+import { EDITABLE_APP_ROLES } from "@/lib/permissions";
+
+type PermissionRow = Tables<"permissions">;
+type CustomRole = Tables<"custom_roles">;
+type RolePermission = Tables<"role_permissions">;
+
+// A column of the matrix: a built-in role or a custom role
+type RoleColumn =
+  | { kind: "app"; role: (typeof EDITABLE_APP_ROLES)[number]; label: string }
+  | { kind: "custom"; role: CustomRole; label: string };
+
+const APP_ROLE_LABELS: Record<(typeof EDITABLE_APP_ROLES)[number], string> = {
+  staff: "Staff",
+  viewer: "Viewer",
+};
+
+const roleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(50, "Name too long"),
+  description: z.string().trim().max(200, "Description too long"),
+});
+
+export default function Roles() {
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const [permissions, setPermissions] = useState<PermissionRow[]>([]);
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
+  const [grants, setGrants] = useState<RolePermission[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ name: "", description: "" });
+
+  useEffect(() => {
+    if (isAdmin) loadMatrix();
+  }, [isAdmin]);
+
+  const loadMatrix = async () => {
+    setLoading(true);
+    const [permissionsResult, rolesResult, grantsResult] = await Promise.all([
+      supabase.from("permissions").select("*").order("sort_order"),
+      supabase.from("custom_roles").select("*").order("name"),
+      supabase.from("role_permissions").select("*"),
+    ]);
+    setLoading(false);
+
+    if (permissionsResult.error || rolesResult.error || grantsResult.error) {
+      toast.error("Error loading roles");
+      return;
+    }
+    setPermissions(permissionsResult.data || []);
+    setCustomRoles(rolesResult.data || []);
+    setGrants(grantsResult.data || []);
+  };
+
+  const columns: RoleColumn[] = [
+    ...EDITABLE_APP_ROLES.map(role => ({ kind: "app" as const, role, label: APP_ROLE_LABELS[role] })),
+    ...customRoles.map(role => ({ kind: "custom" as const, role, label: role.name })),
+  ];
+
+  const columnKey = (column: RoleColumn) => column.kind === "app" ? column.role : column.role.id;
+
+  const findGrant = (column: RoleColumn, permissionCode: string) =>
+    grants.find(g =>
+      g.permission_code === permissionCode
+      && (column.kind === "app" ? g.app_role === column.role : g.custom_role_id === column.role.id)
+    );
+
+  const handleToggle = async (column: RoleColumn, permission: PermissionRow, granted: boolean) => {
+    const key = `${columnKey(column)}:${permission.code}`;
+    setBusyKey(key);
+
+    const existing = findGrant(column, permission.code);
+    const { error } = granted
+      ? await supabase.from("role_permissions").insert([{
+          permission_code: permission.code,
+          app_role: column.kind === "app" ? column.role : null,
+          custom_role_id: column.kind === "custom" ? column.role.id : null,
+        }])
+      : await supabase.from("role_permissions").delete().eq("id", existing?.id ?? "");
+    setBusyKey(null);
+
+    if (error) {
+      toast.error("Error updating permission");
+      return;
+    }
+
+    toast.success(`${permission.label} ${granted ? "granted to" : "removed from"} ${column.label}`);
+    loadMatrix();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = roleSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const { error } = await supabase.from("custom_roles").insert([{
+      name: result.data.name,
+      description: result.data.description || null,
+    }]);
+
+    if (error) {
+      toast.error(error.code === "23505" ? "A role with this name already exists" : "Error creating role");
+      return;
+    }
+
+    toast.success(`${result.data.name} created. Tick the permissions it should grant.`);
+    setIsDialogOpen(false);
+    setFormData({ name: "", description: "" });
+    loadMatrix();
+  };
+
+  const handleDelete = async (role: CustomRole) => {
+    if (!window.confirm(`Delete the ${role.name} role? Users who have it lose its permissions.`)) return;
+
+    const { error } = await supabase.from("custom_roles").delete().eq("id", role.id);
+
+    if (error) {
+      toast.error("Error deleting role");
+      return;
+    }
+
+    toast.success(`${role.name} deleted`);
+    loadMatrix();
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Only admins can manage roles and permissions.</p>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Roles & Permissions</h1>
+            <p className="text-muted-foreground mt-2">
+              Admins hold every permission. Custom roles are assigned on the Users page and add to a user's built-in role.
+              Changes apply the next time the user opens a page.
+            </p>
+          </div>
+          <Button onClick={() => setIsDialogOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Permission</th>
+                  <th className="text-center p-4 font-semibold">Admin</th>
+                  {columns.map((column) => (
+                    <th
+                      key={columnKey(column)}
+                      className="text-center p-4 font-semibold"
+                      title={column.kind === "custom" ? column.role.description ?? undefined : undefined}
+                    >
+                      <div className="flex items-center justify-center gap-1">
+                        {column.label}
+                        {column.kind === "custom" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            aria-label={`Delete ${column.label}`}
+                            onClick={() => handleDelete(column.role)}
+                          >
+                            <Trash2 className="w-3 h-3 text-destructive" />
+                          </Button>
+                        )}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {permissions.length === 0 && (
+                  <tr>
+                    <td colSpan={columns.length + 2} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading..." : "No permissions found"}
+                    </td>
+                  </tr>
+                )}
+                {permissions.map((permission) => (
+                  <tr key={permission.code} className="border-t hover:bg-muted/30">
+                    <td className="p-4">
+                      <div className="font-medium">{permission.label}</div>
+                      <div className="text-xs text-muted-foreground">{permission.description}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{permission.code}</div>
+                    </td>
+                    <td className="p-4 text-center">
+                      <Checkbox aria-label={`${permission.label} for Admin`} checked disabled />
+                    </td>
+                    {columns.map((column) => (
+                      <td key={columnKey(column)} className="p-4 text-center">
+                        <Checkbox
+                          aria-label={`${permission.label} for ${column.label}`}
+                          checked={!!findGrant(column, permission.code)}
+                          disabled={busyKey === `${columnKey(column)}:${permission.code}`}
+                          onCheckedChange={(checked) => handleToggle(column, permission, checked === true)}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Role</DialogTitle>
+            <DialogDescription>
+              A custom role starts with no permissions; tick the ones it grants in the matrix.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div>
+              <Label>Name *</Label>
+              <Input
+                required
+                placeholder="e.g. Storekeeper"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Description</Label>
+              <Textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full">Create Role</Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Printer } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { InvoiceDocument, type InvoicePaperSize, type SalesInvoice } from "@/components/InvoiceDocument";
+import { toast } from "sonner";
+
+const PAGE_STYLES: Record<InvoicePaperSize, string> = {
+  a4: "@page { size: A4; margin: 10mm; }",
+  thermal: "@page { size: 80mm auto; margin: 4mm; }",
+};
+
+export default function SalesInvoicePrint() {
+  const { id } = useParams<{ id: string }>();
+  const [searchParams] = useSearchParams();
+  const paper: InvoicePaperSize = searchParams.get("paper") === "thermal" ? "thermal" : "a4";
+  const [invoice, setInvoice] = useState<SalesInvoice | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadInvoice = async () => {
+      const { data, error } = await supabase
+        .from("sales_invoices")
+        .select("*, sales_invoice_lines (*)")
+        .eq("id", id!)
+        .order("created_at", { referencedTable: "sales_invoice_lines" })
+        .maybeSingle();
+
+      if (error) {
+        toast.error("Error loading invoice");
+      }
+      setInvoice(data);
+      setLoading(false);
+    };
+    loadInvoice();
+  }, [id]);
+
+  useEffect(() => {
+    if (invoice) window.print();
+  }, [invoice]);
+
+  if (loading) {
+    return <p className="p-8 text-center text-muted-foreground">Loading...</p>;
+  }
+
+  if (!invoice) {
+    return <p className="p-8 text-center text-muted-foreground">Invoice not found</p>;
+  }
+
+  return (
+    <div className="min-h-screen bg-white p-4 print:p-0">
+      <style>{PAGE_STYLES[paper]}</style>
+      <div className="flex justify-between gap-2 mb-4 print:hidden">
+        <Button variant="ghost" size="sm" asChild>
+          <Link to="/sales-invoices">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Sales Invoices
+          </Link>
+        </Button>
+        <Button size="sm" onClick={() => window.print()}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print
+        </Button>
+      </div>
+      <InvoiceDocument invoice={invoice} paper={paper} />
+    </div>
+  );
+}
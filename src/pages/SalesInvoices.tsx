@@ -0,0 +1,601 @@
+import { useState, useEffect } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Eye, Plus, Printer, ReceiptText, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { InvoiceDocument, type SalesInvoice } from "@/components/InvoiceDocument";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+import { checkQuantityPrecision, formatQuantity, getUnitFactor, toBaseQuantity, type UnitConversion } from "@/lib/quantity";
+import { getEffectiveGstRate, isInterStateSupply } from "@/lib/gst";
+import { computeInvoiceLine, computeInvoiceTotals } from "@/lib/invoice";
+import { INSUFFICIENT_STOCK } from "@/lib/movements";
+
+const customerSchema = z.object({
+  customer_name: z.string().trim().min(1, "Customer name is required").max(200, "Customer name too long"),
+  customer_phone: z.string().trim().max(20, "Phone number too long"),
+  customer_gstin: z.string().trim().toUpperCase().regex(/^([0-9]{2}[A-Z0-9]{13})?$/, "GSTIN must be 15 characters starting with the state code"),
+  customer_address: z.string().trim().max(500, "Address too long")
+});
+
+const invoiceLineSchema = z.object({
+  quantity: z.number({ invalid_type_error: "Quantity is required" }).positive("Quantity must be greater than zero"),
+  unit_price: z.number().min(0, "Price cannot be negative").max(999999.99, "Price too high"),
+  discount_percent: z.number().min(0, "Discount cannot be negative").max(100, "Discount cannot exceed 100%")
+});
+
+interface SaleableProduct {
+  id: string;
+  name: string;
+  product_id: string;
+  unit: string;
+  selling_price: number;
+  stock_qty: number;
+  allow_negative_stock: boolean;
+  gst_rate: number | null;
+  categories: { gst_rate: number | null } | null;
+  product_units: UnitConversion[];
+}
+
+interface InvoiceCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  gstin: string | null;
+  address: string | null;
+  city: string | null;
+}
+
+interface InvoiceLineDraft {
+  key: number;
+  product_id: string;
+  quantity: number;
+  unit: string;
+  unit_price: number;
+  discount_percent: number;
+}
+
+const emptyHeader = {
+  customer_id: "",
+  payment_type: "Cash" as "Cash" | "Credit",
+  invoice_date: format(new Date(), "yyyy-MM-dd"),
+  customer_name: "",
+  customer_phone: "",
+  customer_gstin: "",
+  customer_address: "",
+  inter_state: false,
+  notes: ""
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+let nextLineKey = 1;
+const newLine = (): InvoiceLineDraft => ({
+  key: nextLineKey++,
+  product_id: "",
+  quantity: 1,
+  unit: "",
+  unit_price: 0,
+  discount_percent: 0,
+});
+
+const openPrintView = (invoiceId: string, paper: "a4" | "thermal") => {
+  window.open(`/sales-invoices/${invoiceId}/print?paper=${paper}`, "_blank");
+};
+
+export default function SalesInvoices() {
+  const { canWrite, can } = useUserRole();
+  // Posting an invoice takes the sold stock out
+  const canPost = canWrite && can("stock.out");
+  const [invoices, setInvoices] = useState<SalesInvoice[]>([]);
+  const [products, setProducts] = useState<SaleableProduct[]>([]);
+  const [customers, setCustomers] = useState<InvoiceCustomer[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [header, setHeader] = useState(emptyHeader);
+  const [lines, setLines] = useState<InvoiceLineDraft[]>([newLine()]);
+  const [posting, setPosting] = useState(false);
+  const [selectedInvoice, setSelectedInvoice] = useState<SalesInvoice | null>(null);
+
+  useEffect(() => {
+    loadInvoices();
+    loadProducts();
+    loadCustomers();
+  }, []);
+
+  const loadInvoices = async () => {
+    const { data, error } = await supabase
+      .from("sales_invoices")
+      .select("*, sales_invoice_lines (*)")
+      .order("created_at", { ascending: false })
+      .order("created_at", { referencedTable: "sales_invoice_lines" });
+
+    if (error) {
+      toast.error("Error loading sales invoices");
+      return;
+    }
+    setInvoices(data || []);
+  };
+
+  const loadProducts = async () => {
+    const { data } = await supabase
+      .from("products")
+      .select("id, name, product_id, unit, selling_price, stock_qty, allow_negative_stock, gst_rate, categories (gst_rate), product_units (unit, factor)")
+      .order("name");
+    setProducts(data || []);
+  };
+
+  const loadCustomers = async () => {
+    const { data } = await supabase
+      .from("customers")
+      .select("id, name, phone, gstin, address, city")
+      .order("name");
+    setCustomers(data || []);
+  };
+
+  const productFor = (line: InvoiceLineDraft) => products.find(p => p.id === line.product_id);
+
+  const gstRateFor = (product: SaleableProduct | undefined) =>
+    product ? getEffectiveGstRate(product.gst_rate, product.categories?.gst_rate) : null;
+
+  const updateLine = (key: number, changes: Partial<InvoiceLineDraft>) => {
+    setLines(current => current.map(line => line.key === key ? { ...line, ...changes } : line));
+  };
+
+  const handleProductChange = (key: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    updateLine(key, { product_id: productId, unit: product.unit, unit_price: product.selling_price });
+  };
+
+  // Changing the unit re-prices the line from the selling price of the base unit
+  const handleQuantityChange = (line: InvoiceLineDraft, quantity: number, unit: string) => {
+    const product = productFor(line);
+    if (!product || unit === line.unit) {
+      updateLine(line.key, { quantity, unit });
+      return;
+    }
+    const factor = getUnitFactor(unit, product.unit, product.product_units) ?? 1;
+    updateLine(line.key, { quantity, unit, unit_price: round2(product.selling_price * factor) });
+  };
+
+  // Billing details come from the customer master; walk-in sales are always cash
+  const handleCustomerChange = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    if (!customer) {
+      setHeader({ ...header, customer_id: "", payment_type: "Cash" });
+      return;
+    }
+    setHeader({
+      ...header,
+      customer_id: customer.id,
+      customer_name: customer.name,
+      customer_phone: customer.phone || "",
+      customer_gstin: customer.gstin || "",
+      customer_address: [customer.address, customer.city].filter(Boolean).join(", "),
+      inter_state: isInterStateSupply(customer.gstin),
+    });
+  };
+
+  const handleGstinChange = (gstin: string) => {
+    setHeader({ ...header, customer_gstin: gstin, inter_state: isInterStateSupply(gstin) });
+  };
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setHeader(emptyHeader);
+      setLines([newLine()]);
+    }
+  };
+
+  const lineAmounts = lines.map(line =>
+    computeInvoiceLine(line.quantity, line.unit_price, line.discount_percent, gstRateFor(productFor(line)) ?? 0, header.inter_state)
+  );
+  const totals = computeInvoiceTotals(lineAmounts);
+
+  const handlePost = async () => {
+    if (!canPost) {
+      toast.error("You don't have permission to post sales invoices");
+      return;
+    }
+
+    const customerResult = customerSchema.safeParse(header);
+    if (!customerResult.success) {
+      toast.error(customerResult.error.errors[0].message);
+      return;
+    }
+
+    const postedLines = lines.filter(line => line.product_id);
+    if (postedLines.length === 0) {
+      toast.error("Add at least one product to the invoice");
+      return;
+    }
+
+    for (const line of postedLines) {
+      const product = productFor(line)!;
+      const result = invoiceLineSchema.safeParse(line);
+      if (!result.success) {
+        toast.error(`${product.name}: ${result.error.errors[0].message}`);
+        return;
+      }
+      const precisionError = checkQuantityPrecision(line.quantity, line.unit);
+      if (precisionError) {
+        toast.error(`${product.name}: ${precisionError}`);
+        return;
+      }
+      if (gstRateFor(product) === null) {
+        toast.error(`${product.name}: set a GST rate on the product or its category first`);
+        return;
+      }
+    }
+
+    setPosting(true);
+    const { error } = await supabase.rpc("post_sales_invoice", {
+      _invoice_date: header.invoice_date,
+      _customer_name: customerResult.data.customer_name,
+      _customer_phone: customerResult.data.customer_phone,
+      _customer_gstin: customerResult.data.customer_gstin,
+      _customer_address: customerResult.data.customer_address,
+      _inter_state: header.inter_state,
+      _notes: header.notes,
+      _payment_type: header.payment_type,
+      _customer_id: header.customer_id || undefined,
+      _lines: postedLines.map(line => ({
+        product_id: line.product_id,
+        quantity: line.quantity,
+        unit: line.unit,
+        unit_price: line.unit_price,
+        discount_percent: line.discount_percent || 0,
+      })),
+    });
+    setPosting(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to post sales invoices");
+      } else if (error.code === '22023' || error.code === INSUFFICIENT_STOCK) {
+        toast.error(error.message);
+      } else {
+        toast.error("Error posting sales invoice");
+      }
+      return;
+    }
+
+    toast.success(header.payment_type === "Credit"
+      ? "Invoice posted on credit. Stock deducted and customer ledger updated."
+      : "Invoice posted. Stock has been deducted.");
+    handleDialogOpenChange(false);
+    loadInvoices();
+    loadProducts();
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between flex-wrap gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">Sales Invoices</h1>
+            <p className="text-muted-foreground mt-2">
+              GST tax invoices. Posting an invoice books the matching OUT stock movements.
+            </p>
+          </div>
+          {canPost && (
+            <Button onClick={() => setDialogOpen(true)}>
+              <ReceiptText className="w-4 h-4 mr-2" />
+              New Invoice
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Invoice No.</th>
+                  <th className="text-left p-4 font-semibold">Date</th>
+                  <th className="text-left p-4 font-semibold">Customer</th>
+                  <th className="text-left p-4 font-semibold">Lines</th>
+                  <th className="text-right p-4 font-semibold">Taxable</th>
+                  <th className="text-right p-4 font-semibold">GST</th>
+                  <th className="text-right p-4 font-semibold">Total</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoices.length === 0 && (
+                  <tr>
+                    <td colSpan={8} className="p-8 text-center text-muted-foreground">No sales invoices yet</td>
+                  </tr>
+                )}
+                {invoices.map((invoice) => (
+                  <tr key={invoice.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4 font-medium">{invoice.invoice_number}</td>
+                    <td className="p-4">{format(new Date(invoice.invoice_date), "MMM dd, yyyy")}</td>
+                    <td className="p-4">
+                      <div>
+                        {invoice.customer_name}
+                        {invoice.payment_type === "Credit" && (
+                          <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-warning/10 text-warning">Credit</span>
+                        )}
+                      </div>
+                      {invoice.customer_gstin && (
+                        <div className="text-xs text-muted-foreground">{invoice.customer_gstin}</div>
+                      )}
+                    </td>
+                    <td className="p-4">{invoice.sales_invoice_lines.length}</td>
+                    <td className="p-4 text-right">₹{invoice.taxable_total.toFixed(2)}</td>
+                    <td className="p-4 text-right">
+                      ₹{(invoice.cgst_total + invoice.sgst_total + invoice.igst_total).toFixed(2)}
+                    </td>
+                    <td className="p-4 text-right font-semibold">₹{invoice.grand_total.toFixed(2)}</td>
+                    <td className="p-4">
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedInvoice(invoice)} aria-label="View invoice">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => openPrintView(invoice.id, "a4")} aria-label="Print invoice">
+                          <Printer className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Sales Invoice</DialogTitle>
+            <DialogDescription>
+              Prices are before tax. GST is added at each product's rate; an out-of-state GSTIN switches to IGST.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <Label>Customer</Label>
+              <Select value={header.customer_id || "walk-in"} onValueChange={(v) => handleCustomerChange(v === "walk-in" ? "" : v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="walk-in">Walk-in customer</SelectItem>
+                  {customers.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}{c.phone ? ` (${c.phone})` : ""}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Payment</Label>
+              <Select
+                value={header.payment_type}
+                onValueChange={(v) => setHeader({ ...header, payment_type: v as "Cash" | "Credit" })}
+                disabled={!header.customer_id}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Cash">Cash / paid now</SelectItem>
+                  <SelectItem value="Credit">Credit (udhaar)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Customer Name *</Label>
+              <Input
+                value={header.customer_name}
+                onChange={(e) => setHeader({ ...header, customer_name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Invoice Date</Label>
+              <Input
+                type="date"
+                value={header.invoice_date}
+                onChange={(e) => setHeader({ ...header, invoice_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Phone</Label>
+              <Input
+                value={header.customer_phone}
+                onChange={(e) => setHeader({ ...header, customer_phone: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Customer GSTIN</Label>
+              <Input
+                value={header.customer_gstin}
+                onChange={(e) => handleGstinChange(e.target.value)}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <Label>Address</Label>
+              <Input
+                value={header.customer_address}
+                onChange={(e) => setHeader({ ...header, customer_address: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="inter-state"
+                checked={header.inter_state}
+                onCheckedChange={(checked) => setHeader({ ...header, inter_state: checked })}
+              />
+              <Label htmlFor="inter-state">Inter-state supply (IGST)</Label>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-2 font-semibold">Product</th>
+                  <th className="text-left p-2 font-semibold">Quantity</th>
+                  <th className="text-left p-2 font-semibold">Rate</th>
+                  <th className="text-left p-2 font-semibold">Disc %</th>
+                  <th className="text-right p-2 font-semibold">GST</th>
+                  <th className="text-right p-2 font-semibold">Amount</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line, index) => {
+                  const product = productFor(line);
+                  const rate = gstRateFor(product);
+                  const baseQty = product ? toBaseQuantity(line.quantity || 0, line.unit, product.unit, product.product_units) : null;
+                  return (
+                    <tr key={line.key} className="border-t align-top">
+                      <td className="p-2 min-w-[200px]">
+                        <Select value={line.product_id} onValueChange={(v) => handleProductChange(line.key, v)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>{p.name} ({p.product_id})</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {product && baseQty !== null && !product.allow_negative_stock && baseQty > product.stock_qty && (
+                          <p className="text-xs text-destructive mt-1">Only {formatQuantity(product.stock_qty)} {product.unit} in stock</p>
+                        )}
+                      </td>
+                      <td className="p-2">
+                        {product && (
+                          <UnitQuantityInput
+                            quantity={line.quantity}
+                            unit={line.unit}
+                            baseUnit={product.unit}
+                            conversions={product.product_units}
+                            onChange={(quantity, unit) => handleQuantityChange(line, quantity, unit)}
+                            inputClassName="w-24"
+                          />
+                        )}
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          className="w-28"
+                          value={line.unit_price}
+                          onChange={(e) => updateLine(line.key, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="p-2">
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          className="w-20"
+                          value={line.discount_percent}
+                          onChange={(e) => updateLine(line.key, { discount_percent: parseFloat(e.target.value) || 0 })}
+                        />
+                      </td>
+                      <td className="p-2 text-right">
+                        {product && (rate === null ? <span className="text-destructive">Not set</span> : `${rate}%`)}
+                      </td>
+                      <td className="p-2 text-right font-semibold">₹{lineAmounts[index].total.toFixed(2)}</td>
+                      <td className="p-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLines(lines.length > 1 ? lines.filter(l => l.key !== line.key) : [newLine()])}
+                          aria-label="Remove line"
+                        >
+                          <Trash2 className="w-4 h-4 text-destructive" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-between items-start gap-4 flex-wrap">
+            <Button variant="outline" size="sm" onClick={() => setLines([...lines, newLine()])}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Line
+            </Button>
+            <div className="text-sm space-y-1 min-w-[220px]">
+              <div className="flex justify-between"><span>Subtotal</span><span>₹{totals.subtotal.toFixed(2)}</span></div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between"><span>Discount</span><span>-₹{totals.discount.toFixed(2)}</span></div>
+              )}
+              <div className="flex justify-between"><span>Taxable</span><span>₹{totals.taxable.toFixed(2)}</span></div>
+              {header.inter_state ? (
+                <div className="flex justify-between"><span>IGST</span><span>₹{totals.igst.toFixed(2)}</span></div>
+              ) : (
+                <>
+                  <div className="flex justify-between"><span>CGST</span><span>₹{totals.cgst.toFixed(2)}</span></div>
+                  <div className="flex justify-between"><span>SGST</span><span>₹{totals.sgst.toFixed(2)}</span></div>
+                </>
+              )}
+              <div className="flex justify-between"><span>Round Off</span><span>₹{totals.roundOff.toFixed(2)}</span></div>
+              <div className="flex justify-between font-bold border-t pt-1"><span>Total</span><span>₹{totals.grandTotal.toFixed(2)}</span></div>
+            </div>
+          </div>
+
+          <div>
+            <Label>Notes</Label>
+            <Textarea
+              value={header.notes}
+              onChange={(e) => setHeader({ ...header, notes: e.target.value })}
+            />
+          </div>
+
+          <Button onClick={handlePost} disabled={posting} className="w-full">
+            {posting ? "Posting..." : "Post Invoice"}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedInvoice} onOpenChange={(open) => !open && setSelectedInvoice(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedInvoice?.invoice_number} — {selectedInvoice?.customer_name}</DialogTitle>
+            <DialogDescription>
+              Stock movements for this invoice carry {selectedInvoice?.invoice_number} as their reference.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => selectedInvoice && openPrintView(selectedInvoice.id, "a4")}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print A4
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => selectedInvoice && openPrintView(selectedInvoice.id, "thermal")}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print Thermal
+            </Button>
+          </div>
+
+          {selectedInvoice && (
+            <div className="border rounded-lg p-4 bg-white">
+              <InvoiceDocument invoice={selectedInvoice} paper="a4" />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
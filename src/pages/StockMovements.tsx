@@ -1,21 +1,37 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, ArrowUp, ArrowDown } from "lucide-react";
+import { Plus, ArrowUp, ArrowDown, ArrowLeftRight, Scale, Search, Undo2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useTableParams } from "@/hooks/useTableParams";
+import { useDebounce } from "@/hooks/useDebounce";
 import { supabase } from "@/integrations/supabase/client";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { z } from "zod";
+import { UnitQuantityInput } from "@/components/UnitQuantityInput";
+import { PRODUCT_PICKER_COLUMNS, ProductPicker, type PickerProduct } from "@/components/ProductPicker";
+import { SortableHeader } from "@/components/SortableHeader";
+import { TablePagination } from "@/components/TablePagination";
+import { checkQuantityPrecision, formatQuantity, toBaseQuantity } from "@/lib/quantity";
+import { INSUFFICIENT_STOCK, MOVEMENT_TYPES, MOVEMENT_TYPE_LABELS, movementSign, type MovementReason } from "@/lib/movements";
+import { PRODUCT_SEARCH_COLUMNS, searchFilter } from "@/lib/search";
+
+const ENTRY_MOVEMENT_TYPES = ["IN", "OUT", "DAMAGE", "RETURN_IN", "RETURN_OUT", "TRANSFER"] as const;
 
 const stockMovementSchema = z.object({
   product_id: z.string().uuid("Invalid product selected"),
-  movement_type: z.enum(["IN", "OUT"], { errorMap: () => ({ message: "Movement type must be IN or OUT" }) }),
-  quantity: z.number().int("Quantity must be a whole number").positive("Quantity must be greater than 0"),
+  movement_type: z.enum(ENTRY_MOVEMENT_TYPES, { errorMap: () => ({ message: "Select a movement type" }) }),
+  reason_code: z.string().default(""),
+  location_id: z.string().uuid("Select a location"),
+  to_location_id: z.string().default(""),
+  quantity: z.number().positive("Quantity must be greater than 0"),
   reference: z.string().trim().max(100, "Reference too long").default(""),
   notes: z.string().trim().max(500, "Notes too long").default("")
 });
@@ -24,64 +40,156 @@ interface StockMovement {
   id: string;
   movement_date: string;
   movement_type: string;
+  reason_code: string | null;
   quantity: number;
   reference: string;
   notes: string;
-  products: { name: string; product_id: string };
+  product_id: string;
+  entered_qty: number | null;
+  entered_unit: string | null;
+  location_id: string;
+  to_location_id: string | null;
+  project_id: string | null;
+  requirement_id: string | null;
+  reversal_of: string | null;
+  location: { name: string } | null;
+  to_location: { name: string } | null;
+  products: { name: string; product_id: string; unit: string };
+  projects: { id: string; work_order_no: string } | null;
 }
 
 export default function StockMovements() {
+  const { canWrite, can } = useUserRole();
+  const canIssue = can("stock.out");
   const [movements, setMovements] = useState<StockMovement[]>([]);
-  const [products, setProducts] = useState<any[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [reversedIds, setReversedIds] = useState<Set<string>>(new Set());
+  const [selectedProduct, setSelectedProduct] = useState<PickerProduct | null>(null);
+  const [locations, setLocations] = useState<{ id: string; name: string; is_default: boolean }[]>([]);
+  const [reasons, setReasons] = useState<MovementReason[]>([]);
+  const { page, sort, ascending, search, get, update, setPage, toggleSort, range } =
+    useTableParams({ sort: "movement_date", ascending: false });
+  const typeFilter = get("type") || "all";
+  const [searchInput, setSearchInput] = useState(search);
+  const debouncedSearch = useDebounce(searchInput.trim());
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [reverseTarget, setReverseTarget] = useState<StockMovement | null>(null);
+  const [reverseReason, setReverseReason] = useState("");
+  const [reversing, setReversing] = useState(false);
   const [formData, setFormData] = useState({
     product_id: "",
     movement_type: "IN",
+    reason_code: "",
+    location_id: "",
+    to_location_id: "",
     quantity: 0,
+    unit: "",
     reference: "",
     notes: "",
   });
 
+  const defaultLocationId = locations.find(l => l.is_default)?.id || "";
+  const typeReasons = reasons.filter(r => r.movement_type === formData.movement_type);
+  const reasonLabel = (code: string | null) => reasons.find(r => r.code === code)?.label ?? code;
+
   useEffect(() => {
-    loadMovements();
-    loadProducts();
+    loadLocations();
+    loadReasons();
   }, []);
 
-  const loadMovements = async () => {
-    const { data, error } = await supabase
+  useEffect(() => {
+    update({ q: debouncedSearch || null });
+  }, [debouncedSearch, update]);
+
+  const loadMovements = useCallback(async () => {
+    // The search matches the product, so products is an inner join
+    let query = supabase
       .from("stock_movements")
       .select(`
         *,
-        products (name, product_id)
-      `)
-      .order("movement_date", { ascending: false });
-    
+        products!inner (name, product_id, unit),
+        projects (id, work_order_no),
+        location:locations!stock_movements_location_id_fkey (name),
+        to_location:locations!stock_movements_to_location_id_fkey (name)
+      `, { count: "exact" });
+
+    if (search) query = query.or(searchFilter(PRODUCT_SEARCH_COLUMNS, search), { referencedTable: "products" });
+    if (typeFilter !== "all") query = query.eq("movement_type", typeFilter);
+
+    setLoading(true);
+    const { data, count, error } = await query.order(sort, { ascending }).order("id").range(...range);
+
     if (error) {
+      setLoading(false);
       toast.error("Error loading stock movements");
       return;
     }
+
+    // A reversal can be on another page than the movement it reverses
+    const ids = (data || []).map(m => m.id);
+    const { data: reversals } = ids.length > 0
+      ? await supabase.from("stock_movements").select("reversal_of").in("reversal_of", ids)
+      : { data: [] };
+    setLoading(false);
+
     setMovements(data || []);
+    setTotalCount(count ?? 0);
+    setReversedIds(new Set((reversals || []).map(r => r.reversal_of).filter((id): id is string => !!id)));
+  }, [search, typeFilter, sort, ascending, range]);
+
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements]);
+
+  const loadReasons = async () => {
+    const { data } = await supabase.from("movement_reasons").select("code, movement_type, label").order("sort_order");
+    setReasons(data || []);
   };
 
-  const loadProducts = async () => {
-    const { data } = await supabase.from("products").select("id, name, product_id").order("name");
-    setProducts(data || []);
+  const loadLocations = async () => {
+    const { data } = await supabase.from("locations").select("id, name, is_default").order("created_at");
+    setLocations(data || []);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    const result = stockMovementSchema.safeParse(formData);
+    const result = stockMovementSchema.safeParse({ ...formData, location_id: formData.location_id || defaultLocationId });
     if (!result.success) {
       toast.error(result.error.errors[0].message);
       return;
     }
 
-    // Validate OUT movements against available stock
-    if (result.data.movement_type === "OUT") {
+    const isTransfer = result.data.movement_type === "TRANSFER";
+    if (typeReasons.length > 0 && !result.data.reason_code) {
+      toast.error(`Select a reason for this ${MOVEMENT_TYPE_LABELS[result.data.movement_type]} movement`);
+      return;
+    }
+    if (isTransfer && (!result.data.to_location_id || result.data.to_location_id === result.data.location_id)) {
+      toast.error("Select a different location to transfer to");
+      return;
+    }
+
+    const baseQty = toBaseQuantity(result.data.quantity, formData.unit, selectedProduct?.unit, selectedProduct?.product_units);
+    if (baseQty === null) {
+      toast.error(`Unit "${formData.unit}" is not defined for this product`);
+      return;
+    }
+
+    const precisionError = checkQuantityPrecision(result.data.quantity, formData.unit)
+      || checkQuantityPrecision(baseQty, selectedProduct?.unit);
+    if (precisionError) {
+      toast.error(precisionError);
+      return;
+    }
+
+    // Whether the location holds enough is checked by the database as the movement is
+    // posted; here we only warn before stock goes into backorder or below its minimum
+    if (!isTransfer && movementSign(result.data.movement_type) < 0) {
       const { data: product, error: fetchError } = await supabase
         .from("products")
-        .select("stock_qty, name, min_stock_level")
+        .select("stock_qty, name, min_stock_level, allow_negative_stock, product_locations (location_id, stock_qty)")
         .eq("id", result.data.product_id)
         .single();
 
@@ -90,27 +198,38 @@ export default function StockMovements() {
         return;
       }
 
-      if (result.data.quantity > product.stock_qty) {
-        toast.error(
-          `Cannot remove ${result.data.quantity} units of ${product.name}. Only ${product.stock_qty} units available.`
+      const locationQty = product.product_locations.find(pl => pl.location_id === result.data.location_id)?.stock_qty ?? 0;
+      if (product.allow_negative_stock && baseQty > locationQty) {
+        const locationName = locations.find(l => l.id === result.data.location_id)?.name;
+        const confirmed = window.confirm(
+          `Only ${formatQuantity(locationQty)} units of ${product.name} at ${locationName}. Remove ${formatQuantity(baseQty)} units and leave the rest on backorder?`
         );
-        return;
+        if (!confirmed) return;
       }
 
-      const newStockQty = product.stock_qty - result.data.quantity;
+      const newStockQty = product.stock_qty - baseQty;
       if (product.min_stock_level && newStockQty < product.min_stock_level) {
         const confirmed = window.confirm(
-          `Warning: This will reduce stock to ${newStockQty} units, below the minimum level of ${product.min_stock_level}. Continue?`
+          `Warning: This will reduce stock to ${formatQuantity(newStockQty)} units, below the minimum level of ${product.min_stock_level}. Continue?`
         );
         if (!confirmed) return;
       }
     }
     
-    const { error } = await supabase.from("stock_movements").insert([result.data as any]);
+    const { error } = await supabase.from("stock_movements").insert([{
+      ...result.data,
+      to_location_id: isTransfer ? result.data.to_location_id : null,
+      reason_code: result.data.reason_code || null,
+      quantity: baseQty,
+      entered_qty: result.data.quantity,
+      entered_unit: formData.unit || selectedProduct?.unit,
+    } as any]);
     
     if (error) {
       if (error.code === '42501') {
         toast.error("You do not have permission to add stock movements");
+      } else if (error.code === '22023' || error.code === INSUFFICIENT_STOCK) {
+        toast.error(error.message);
       } else {
         toast.error("Error adding stock movement");
       }
@@ -124,15 +243,80 @@ export default function StockMovements() {
   };
 
   const resetForm = () => {
+    setSelectedProduct(null);
     setFormData({
       product_id: "",
       movement_type: "IN",
+      reason_code: "",
+      location_id: "",
+      to_location_id: "",
       quantity: 0,
+      unit: "",
       reference: "",
       notes: "",
     });
   };
 
+  const handleReverse = async (reenter: boolean) => {
+    if (!reverseTarget) return;
+    const reason = reverseReason.trim();
+    if (!reason) {
+      toast.error("Enter why this movement is being reversed");
+      return;
+    }
+
+    setReversing(true);
+    const { error } = await supabase.rpc("reverse_stock_movement", {
+      _movement_id: reverseTarget.id,
+      _reason: reason.slice(0, 480),
+    });
+    setReversing(false);
+
+    if (error) {
+      if (error.code === '42501' || error.code === '22023' || error.code === INSUFFICIENT_STOCK) {
+        toast.error(error.message);
+      } else {
+        toast.error("Error reversing stock movement");
+      }
+      return;
+    }
+
+    toast.success("Movement reversed");
+    const original = reverseTarget;
+    setReverseTarget(null);
+    setReverseReason("");
+    loadMovements();
+
+    if (reenter) {
+      const { data: product } = await supabase.from("products").select(PRODUCT_PICKER_COLUMNS).eq("id", original.product_id).single();
+      setSelectedProduct(product);
+      setFormData({
+        product_id: original.product_id,
+        movement_type: original.movement_type,
+        reason_code: original.reason_code || "",
+        location_id: original.location_id,
+        to_location_id: original.to_location_id || "",
+        quantity: original.entered_qty ?? original.quantity,
+        unit: original.entered_unit || original.products?.unit || "",
+        reference: original.reference || "",
+        notes: original.notes || "",
+      });
+      setIsDialogOpen(true);
+    }
+  };
+
+  // Movements posted by documents (projects, receipts, invoices, job cards) are corrected there;
+  // the server refuses those it can only detect through the document lines
+  const canReverse = (movement: StockMovement) =>
+    canWrite
+    && !movement.reversal_of
+    && !reversedIds.has(movement.id)
+    && !movement.project_id
+    && !movement.requirement_id
+    && movement.movement_type !== "OPENING"
+    && (movement.movement_type !== "ADJUST" || can("stock.adjust"))
+    && (movement.movement_type === "ADJUST" || movementSign(movement.movement_type) <= 0 || canIssue);
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -152,39 +336,89 @@ export default function StockMovements() {
               <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
                   <Label>Product *</Label>
-                  <Select value={formData.product_id} onValueChange={(v) => setFormData({ ...formData, product_id: v })}>
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select product" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {products.map((prod) => (
-                        <SelectItem key={prod.id} value={prod.id}>
-                          {prod.product_id} - {prod.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                  <ProductPicker
+                    value={selectedProduct}
+                    onChange={(product) => {
+                      setSelectedProduct(product);
+                      setFormData({ ...formData, product_id: product.id, unit: product.unit || "" });
+                    }}
+                  />
                 </div>
                 <div>
                   <Label>Movement Type *</Label>
-                  <Select value={formData.movement_type} onValueChange={(v) => setFormData({ ...formData, movement_type: v })}>
+                  <Select value={formData.movement_type} onValueChange={(v) => setFormData({ ...formData, movement_type: v, reason_code: "" })}>
                     <SelectTrigger>
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="IN">IN (Stock Added)</SelectItem>
-                      <SelectItem value="OUT">OUT (Stock Removed)</SelectItem>
+                      {canIssue && <SelectItem value="OUT">OUT (Stock Removed)</SelectItem>}
+                      {canIssue && <SelectItem value="DAMAGE">Damage (Written Off)</SelectItem>}
+                      <SelectItem value="RETURN_IN">Customer Return (Back Into Stock)</SelectItem>
+                      {canIssue && <SelectItem value="RETURN_OUT">Supplier Return (Sent Back)</SelectItem>}
+                      <SelectItem value="TRANSFER">Transfer (Between Locations)</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
+                {typeReasons.length > 0 && (
+                  <div>
+                    <Label>Reason *</Label>
+                    <Select value={formData.reason_code} onValueChange={(v) => setFormData({ ...formData, reason_code: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select reason" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {typeReasons.map((reason) => (
+                          <SelectItem key={reason.code} value={reason.code}>{reason.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className={formData.movement_type === "TRANSFER" ? "grid grid-cols-2 gap-4" : ""}>
+                  <div>
+                    <Label>{formData.movement_type === "TRANSFER" ? "From Location *" : "Location *"}</Label>
+                    <Select
+                      value={formData.location_id || defaultLocationId}
+                      onValueChange={(v) => setFormData({ ...formData, location_id: v })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select location" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {locations.map((loc) => (
+                          <SelectItem key={loc.id} value={loc.id}>{loc.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {formData.movement_type === "TRANSFER" && (
+                    <div>
+                      <Label>To Location *</Label>
+                      <Select value={formData.to_location_id} onValueChange={(v) => setFormData({ ...formData, to_location_id: v })}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select location" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {locations
+                            .filter(loc => loc.id !== (formData.location_id || defaultLocationId))
+                            .map((loc) => (
+                              <SelectItem key={loc.id} value={loc.id}>{loc.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
                 <div>
                   <Label>Quantity *</Label>
-                  <Input
-                    type="number"
+                  <UnitQuantityInput
                     required
-                    min="1"
-                    value={formData.quantity}
-                    onChange={(e) => setFormData({ ...formData, quantity: parseInt(e.target.value) })}
+                    quantity={formData.quantity}
+                    unit={formData.unit}
+                    baseUnit={selectedProduct?.unit}
+                    conversions={selectedProduct?.product_units}
+                    onChange={(quantity, unit) => setFormData({ ...formData, quantity, unit })}
                   />
                 </div>
                 <div>
@@ -208,49 +442,180 @@ export default function StockMovements() {
           </Dialog>
         </div>
 
+        <div className="flex gap-4 flex-wrap items-center">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-3 w-5 h-5 text-muted-foreground" />
+            <Input
+              placeholder="Search by product name, ID, item code, barcode or description..."
+              className="pl-10"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <Select value={typeFilter} onValueChange={(v) => update({ type: v === "all" ? null : v })}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All movement types</SelectItem>
+              {MOVEMENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>{MOVEMENT_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="bg-card rounded-lg border">
           <div className="overflow-x-auto">
             <table className="w-full">
               <thead className="bg-muted/50">
                 <tr>
-                  <th className="text-left p-4 font-semibold">Date</th>
+                  <SortableHeader column="movement_date" label="Date" sort={sort} ascending={ascending} onSort={toggleSort} />
                   <th className="text-left p-4 font-semibold">Product</th>
-                  <th className="text-left p-4 font-semibold">Type</th>
-                  <th className="text-left p-4 font-semibold">Quantity</th>
+                  <SortableHeader column="movement_type" label="Type" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <SortableHeader column="quantity" label="Quantity" sort={sort} ascending={ascending} onSort={toggleSort} />
+                  <th className="text-left p-4 font-semibold">Location</th>
                   <th className="text-left p-4 font-semibold">Reference</th>
                   <th className="text-left p-4 font-semibold">Notes</th>
+                  {canWrite && <th className="text-left p-4 font-semibold">Actions</th>}
                 </tr>
               </thead>
               <tbody>
+                {movements.length === 0 && (
+                  <tr>
+                    <td colSpan={canWrite ? 8 : 7} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading..." : "No stock movements found"}
+                    </td>
+                  </tr>
+                )}
                 {movements.map((movement) => (
                   <tr key={movement.id} className="border-t hover:bg-muted/30">
                     <td className="p-4">{format(new Date(movement.movement_date), "MMM dd, yyyy HH:mm")}</td>
                     <td className="p-4">
                       <div>
-                        <div className="font-medium">{movement.products?.name}</div>
+                        <Link to={`/products/${movement.product_id}`} className="font-medium hover:underline">
+                          {movement.products?.name}
+                        </Link>
                         <div className="text-xs text-muted-foreground">{movement.products?.product_id}</div>
                       </div>
                     </td>
                     <td className="p-4">
                       <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
-                        movement.movement_type === "IN" 
-                          ? "bg-success/10 text-success" 
-                          : "bg-destructive/10 text-destructive"
+                        movement.movement_type === "ADJUST"
+                          ? "bg-accent/10 text-accent"
+                          : movement.movement_type === "TRANSFER"
+                            ? "bg-primary/10 text-primary"
+                            : movementSign(movement.movement_type) > 0
+                            ? "bg-success/10 text-success"
+                            : "bg-destructive/10 text-destructive"
                       }`}>
-                        {movement.movement_type === "IN" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
-                        {movement.movement_type}
+                        {movement.movement_type === "ADJUST" ? (
+                          <Scale className="w-3 h-3" />
+                        ) : movement.movement_type === "TRANSFER" ? (
+                          <ArrowLeftRight className="w-3 h-3" />
+                        ) : movementSign(movement.movement_type) > 0 ? (
+                          <ArrowUp className="w-3 h-3" />
+                        ) : (
+                          <ArrowDown className="w-3 h-3" />
+                        )}
+                        {MOVEMENT_TYPE_LABELS[movement.movement_type] ?? movement.movement_type}
                       </span>
+                      {movement.reason_code && (
+                        <div className="text-xs text-muted-foreground mt-1">{reasonLabel(movement.reason_code)}</div>
+                      )}
+                      {movement.reversal_of && (
+                        <div className="text-xs font-medium text-warning mt-1">Reversal</div>
+                      )}
+                      {reversedIds.has(movement.id) && (
+                        <div className="text-xs font-medium text-muted-foreground mt-1">Reversed</div>
+                      )}
+                    </td>
+                    <td className="p-4 font-semibold">
+                      {(movement.movement_type === "ADJUST" || movement.reversal_of) && movement.quantity > 0 ? "+" : ""}{formatQuantity(movement.quantity)} {movement.products?.unit}
+                      {movement.entered_unit && movement.entered_unit !== movement.products?.unit && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          {formatQuantity(movement.entered_qty)} {movement.entered_unit}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm">
+                      {movement.location?.name}
+                      {movement.to_location && <> &rarr; {movement.to_location.name}</>}
+                    </td>
+                    <td className="p-4">
+                      {movement.reference || "-"}
+                      {movement.projects && (
+                        <Link to={`/projects/${movement.projects.id}`} className="block text-xs text-primary hover:underline">
+                          {movement.projects.work_order_no}
+                        </Link>
+                      )}
                     </td>
-                    <td className="p-4 font-semibold">{movement.quantity}</td>
-                    <td className="p-4">{movement.reference || "-"}</td>
                     <td className="p-4 text-sm text-muted-foreground">{movement.notes || "-"}</td>
+                    {canWrite && (
+                      <td className="p-4">
+                        {canReverse(movement) && (
+                          <Button variant="ghost" size="sm" onClick={() => setReverseTarget(movement)} aria-label="Reverse movement">
+                            <Undo2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
         </div>
+
+        <TablePagination page={page} total={totalCount} onPageChange={setPage} />
       </div>
+
+      <Dialog
+        open={!!reverseTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReverseTarget(null);
+            setReverseReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reverse Stock Movement</DialogTitle>
+            <DialogDescription>
+              Movements cannot be edited. Reversing posts an opposite movement linked to this one; both stay in the ledger.
+            </DialogDescription>
+          </DialogHeader>
+          {reverseTarget && (
+            <div className="space-y-4">
+              <p className="text-sm">
+                {MOVEMENT_TYPE_LABELS[reverseTarget.movement_type] ?? reverseTarget.movement_type}{" "}
+                <span className="font-semibold">{formatQuantity(reverseTarget.quantity)} {reverseTarget.products?.unit}</span>{" "}
+                of {reverseTarget.products?.name}, {format(new Date(reverseTarget.movement_date), "MMM dd, yyyy HH:mm")}
+              </p>
+              <div>
+                <Label>Reason *</Label>
+                <Textarea
+                  placeholder="e.g. Wrong quantity entered"
+                  value={reverseReason}
+                  onChange={(e) => setReverseReason(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2 justify-end flex-wrap">
+                <Button variant="outline" onClick={() => handleReverse(false)} disabled={reversing}>
+                  Reverse Only
+                </Button>
+                {(ENTRY_MOVEMENT_TYPES as readonly string[]).includes(reverseTarget.movement_type)
+                  && (movementSign(reverseTarget.movement_type) >= 0 || canIssue) && (
+                  <Button onClick={() => handleReverse(true)} disabled={reversing}>
+                    Reverse and Re-enter
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </Layout>
   );
 }
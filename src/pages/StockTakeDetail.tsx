@@ -0,0 +1,375 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowLeft, Check, CheckCircle2, Search, Trash2, XCircle } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { checkQuantityPrecision, formatQuantity, getQuantityStep } from "@/lib/quantity";
+import { getStockTakeStatusColor, lineVariance, summariseStockTake, type StockTakeLine } from "@/lib/stockTakes";
+
+interface StockTake {
+  id: string;
+  stock_take_number: string;
+  status: string;
+  started_at: string;
+  approved_at: string | null;
+  notes: string | null;
+  locations: { name: string } | null;
+  categories: { name: string } | null;
+  suppliers: { name: string } | null;
+  stock_take_lines: StockTakeLine[];
+}
+
+export default function StockTakeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { canWrite, isAdmin, can } = useUserRole();
+  const [take, setTake] = useState<StockTake | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [searchTerm, setSearchTerm] = useState("");
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const loadTake = useCallback(async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from("stock_takes")
+      .select(`
+        id, stock_take_number, status, started_at, approved_at, notes,
+        locations (name),
+        categories (name),
+        suppliers (name),
+        stock_take_lines (id, product_id, expected_qty, counted_qty, counted_at, stock_movement_id, products (name, product_id, unit, purchase_price))
+      `)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      toast.error("Error loading stock take");
+    }
+    if (data) {
+      data.stock_take_lines.sort((a, b) => a.products.name.localeCompare(b.products.name));
+      setDrafts(Object.fromEntries(data.stock_take_lines.map(l => [l.id, l.counted_qty?.toString() ?? ""])));
+    }
+    setTake(data);
+    setLoading(false);
+  }, [id]);
+
+  useEffect(() => {
+    loadTake();
+  }, [loadTake]);
+
+  const saveCount = async (line: StockTakeLine) => {
+    const value = drafts[line.id]?.trim() ?? "";
+    const counted = value === "" ? null : parseFloat(value);
+    if (counted === line.counted_qty) return;
+
+    if (counted !== null) {
+      const message = isNaN(counted) || counted < 0
+        ? "Counted quantity cannot be negative"
+        : checkQuantityPrecision(counted, line.products.unit);
+      if (message) {
+        toast.error(`${line.products.name}: ${message}`);
+        return;
+      }
+    }
+
+    const { error } = await supabase.rpc("record_stock_count", { _line_id: line.id, _counted_qty: counted });
+
+    if (error) {
+      toast.error(error.code === '22023' || error.code === 'P0002' ? error.message : `Error saving count for ${line.products.name}`);
+      return;
+    }
+
+    setTake(current => current && {
+      ...current,
+      stock_take_lines: current.stock_take_lines.map(l =>
+        l.id === line.id ? { ...l, counted_qty: counted, counted_at: counted === null ? null : new Date().toISOString() } : l
+      ),
+    });
+  };
+
+  const handleApprove = async () => {
+    if (!take) return;
+    const { uncounted, mismatched } = summariseStockTake(take.stock_take_lines);
+    if (!window.confirm(
+      `Approve ${take.stock_take_number}? ${mismatched} adjustment${mismatched === 1 ? "" : "s"} will be posted.` +
+      (uncounted > 0 ? ` ${uncounted} uncounted product${uncounted === 1 ? " is" : "s are"} left unchanged.` : "")
+    )) return;
+
+    setBusy(true);
+    const { data, error } = await supabase.rpc("approve_stock_take", { _stock_take_id: take.id });
+    setBusy(false);
+
+    if (error) {
+      if (error.code === '42501' || error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error approving stock take");
+      }
+      return;
+    }
+
+    toast.success(`${take.stock_take_number} approved, ${data} adjustment${data === 1 ? "" : "s"} posted`);
+    loadTake();
+  };
+
+  const handleCancel = async () => {
+    if (!take || !window.confirm(`Cancel ${take.stock_take_number}? Counts entered so far will not be posted.`)) return;
+
+    setBusy(true);
+    const { error } = await supabase.from("stock_takes").update({ status: "Cancelled" }).eq("id", take.id);
+    setBusy(false);
+
+    if (error) {
+      toast.error("Error cancelling stock take");
+      return;
+    }
+
+    toast.success(`${take.stock_take_number} cancelled`);
+    loadTake();
+  };
+
+  const handleDelete = async () => {
+    if (!take || !window.confirm(`Delete ${take.stock_take_number}?`)) return;
+
+    const { error } = await supabase.from("stock_takes").delete().eq("id", take.id);
+
+    if (error) {
+      toast.error("Error deleting stock take");
+      return;
+    }
+
+    toast.success("Stock take deleted");
+    navigate("/stock-takes");
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Loading...</p>
+      </Layout>
+    );
+  }
+
+  if (!take) {
+    return (
+      <Layout>
+        <div className="space-y-4">
+          <p className="text-muted-foreground">Stock take not found</p>
+          <Button variant="secondary" asChild>
+            <Link to="/stock-takes">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Stock Takes
+            </Link>
+          </Button>
+        </div>
+      </Layout>
+    );
+  }
+
+  const counting = take.status === "Counting";
+  const summary = summariseStockTake(take.stock_take_lines);
+  const term = searchTerm.trim().toLowerCase();
+  const sheetLines = take.stock_take_lines.filter(line =>
+    (!uncountedOnly || line.counted_qty === null)
+    && (!term
+      || line.products.name.toLowerCase().includes(term)
+      || line.products.product_id.toLowerCase().includes(term))
+  );
+  const varianceLines = take.stock_take_lines.filter(line => lineVariance(line) !== null);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex items-center gap-4 flex-wrap">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/stock-takes" aria-label="Back to Stock Takes">
+              <ArrowLeft className="w-4 h-4" />
+            </Link>
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              {take.stock_take_number}
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStockTakeStatusColor(take.status)}`}>
+                {take.status}
+              </span>
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {[
+                take.locations?.name,
+                [take.categories?.name, take.suppliers?.name].filter(Boolean).join(" · ") || "All products",
+                `Started ${format(new Date(take.started_at), "MMM dd, yyyy HH:mm")}`,
+                take.approved_at && `Approved ${format(new Date(take.approved_at), "MMM dd, yyyy HH:mm")}`,
+              ].filter(Boolean).join(" · ")}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            {canWrite && counting && (
+              <Button variant="outline" onClick={handleCancel} disabled={busy}>
+                <XCircle className="w-4 h-4 mr-2" />
+                Cancel
+              </Button>
+            )}
+            {can("stock.adjust") && counting && (
+              <Button onClick={handleApprove} disabled={busy || summary.counted === 0}>
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Approve
+              </Button>
+            )}
+            {isAdmin && take.status !== "Approved" && (
+              <Button variant="ghost" onClick={handleDelete} aria-label="Delete stock take">
+                <Trash2 className="w-4 h-4 text-destructive" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Counted</CardTitle>
+            </CardHeader>
+            <CardContent className="text-2xl font-bold">{summary.counted} / {take.stock_take_lines.length}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Not Counted</CardTitle>
+            </CardHeader>
+            <CardContent className="text-2xl font-bold">{summary.uncounted}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Variances</CardTitle>
+            </CardHeader>
+            <CardContent className={`text-2xl font-bold ${summary.mismatched > 0 ? "text-warning" : ""}`}>{summary.mismatched}</CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Variance Value</CardTitle>
+            </CardHeader>
+            <CardContent className={`text-2xl font-bold ${summary.value < 0 ? "text-destructive" : summary.value > 0 ? "text-success" : ""}`}>
+              ₹{summary.value.toFixed(2)}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue={counting ? "count" : "variance"}>
+          <TabsList>
+            <TabsTrigger value="count">Count Sheet</TabsTrigger>
+            <TabsTrigger value="variance">Variance Report</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="count" className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name or product ID..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+              <Button variant={uncountedOnly ? "default" : "outline"} onClick={() => setUncountedOnly(!uncountedOnly)}>
+                Not counted only
+              </Button>
+            </div>
+
+            <div className="bg-card rounded-lg border divide-y">
+              {sheetLines.length === 0 && (
+                <p className="p-8 text-center text-muted-foreground">No products to show</p>
+              )}
+              {sheetLines.map((line) => (
+                <div key={line.id} className="flex items-center gap-3 p-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{line.products.name}</div>
+                    <div className="text-xs text-muted-foreground">{line.products.product_id}</div>
+                  </div>
+                  {counting && canWrite ? (
+                    <>
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        min="0"
+                        step={getQuantityStep(line.products.unit)}
+                        className="w-24 text-right"
+                        aria-label={`Counted quantity of ${line.products.name}`}
+                        value={drafts[line.id] ?? ""}
+                        onChange={(e) => setDrafts({ ...drafts, [line.id]: e.target.value })}
+                        onBlur={() => saveCount(line)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                      />
+                      <span className="w-10 text-sm text-muted-foreground">{line.products.unit}</span>
+                    </>
+                  ) : (
+                    <span className="font-semibold">
+                      {line.counted_qty === null ? "-" : `${formatQuantity(line.counted_qty)} ${line.products.unit}`}
+                    </span>
+                  )}
+                  <Check className={`w-4 h-4 shrink-0 ${line.counted_qty === null ? "invisible" : "text-success"}`} />
+                </div>
+              ))}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="variance" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Expected quantities are the stock held at {take.locations?.name} when this count started.
+              {counting && " Products that are not counted are not adjusted."}
+            </p>
+            <div className="bg-card rounded-lg border">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted/50">
+                    <tr>
+                      <th className="text-left p-4 font-semibold">Product</th>
+                      <th className="text-right p-4 font-semibold">Expected</th>
+                      <th className="text-right p-4 font-semibold">Counted</th>
+                      <th className="text-right p-4 font-semibold">Variance</th>
+                      <th className="text-right p-4 font-semibold">Value</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {varianceLines.length === 0 && (
+                      <tr>
+                        <td colSpan={5} className="p-8 text-center text-muted-foreground">Nothing counted yet</td>
+                      </tr>
+                    )}
+                    {varianceLines.map((line) => {
+                      const variance = lineVariance(line) ?? 0;
+                      return (
+                        <tr key={line.id} className="border-t hover:bg-muted/30">
+                          <td className="p-4">
+                            <Link to={`/products/${line.product_id}`} className="font-medium hover:underline">{line.products.name}</Link>
+                            <div className="text-xs text-muted-foreground">{line.products.product_id}</div>
+                          </td>
+                          <td className="p-4 text-right">{formatQuantity(line.expected_qty)} {line.products.unit}</td>
+                          <td className="p-4 text-right">{formatQuantity(line.counted_qty)} {line.products.unit}</td>
+                          <td className={`p-4 text-right font-semibold ${variance < 0 ? "text-destructive" : variance > 0 ? "text-success" : ""}`}>
+                            {variance > 0 ? "+" : ""}{formatQuantity(variance)}
+                          </td>
+                          <td className="p-4 text-right">₹{(variance * line.products.purchase_price).toFixed(2)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,266 @@
+import { useState, useEffect } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { ClipboardCheck, Plus } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { getStockTakeStatusColor } from "@/lib/stockTakes";
+
+interface StockTakeSummary {
+  id: string;
+  stock_take_number: string;
+  status: string;
+  started_at: string;
+  approved_at: string | null;
+  notes: string | null;
+  locations: { name: string } | null;
+  categories: { name: string } | null;
+  suppliers: { name: string } | null;
+  stock_take_lines: { counted_qty: number | null }[];
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+const ALL = "all";
+
+const emptyForm = { location_id: "", category_id: ALL, supplier_id: ALL, notes: "" };
+
+export default function StockTakes() {
+  const navigate = useNavigate();
+  const { canWrite } = useUserRole();
+  const [stockTakes, setStockTakes] = useState<StockTakeSummary[]>([]);
+  const [locations, setLocations] = useState<(Option & { is_default: boolean })[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [suppliers, setSuppliers] = useState<Option[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadStockTakes();
+    loadOptions();
+  }, []);
+
+  const loadStockTakes = async () => {
+    const { data, error } = await supabase
+      .from("stock_takes")
+      .select(`
+        id, stock_take_number, status, started_at, approved_at, notes,
+        locations (name),
+        categories (name),
+        suppliers (name),
+        stock_take_lines (counted_qty)
+      `)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      toast.error("Error loading stock takes");
+      return;
+    }
+    setStockTakes(data || []);
+  };
+
+  const loadOptions = async () => {
+    const [{ data: locationData }, { data: categoryData }, { data: supplierData }] = await Promise.all([
+      supabase.from("locations").select("id, name, is_default").order("created_at"),
+      supabase.from("categories").select("id, name").order("name"),
+      supabase.from("suppliers").select("id, name").order("name"),
+    ]);
+    setLocations(locationData || []);
+    setCategories(categoryData || []);
+    setSuppliers(supplierData || []);
+  };
+
+  const defaultLocationId = locations.find(l => l.is_default)?.id || "";
+
+  const handleDialogOpenChange = (open: boolean) => {
+    setIsDialogOpen(open);
+    if (!open) {
+      setFormData(emptyForm);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const locationId = formData.location_id || defaultLocationId;
+    if (!locationId) {
+      toast.error("Select a location to count");
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("start_stock_take", {
+      _location_id: locationId,
+      _category_id: formData.category_id === ALL ? undefined : formData.category_id,
+      _supplier_id: formData.supplier_id === ALL ? undefined : formData.supplier_id,
+      _notes: formData.notes.trim().slice(0, 500) || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      if (error.code === '42501') {
+        toast.error("You do not have permission to start stock takes");
+      } else if (error.code === '22023') {
+        toast.error(error.message);
+      } else {
+        toast.error("Error starting stock take");
+      }
+      return;
+    }
+
+    toast.success("Stock take started");
+    handleDialogOpenChange(false);
+    navigate(`/stock-takes/${data}`);
+  };
+
+  const scopeLabel = (take: StockTakeSummary) =>
+    [take.categories?.name, take.suppliers?.name].filter(Boolean).join(" · ") || "All products";
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Stock Takes</h1>
+            <p className="text-muted-foreground mt-2">
+              Count the shelf against the stock held when the count started. Approving posts the differences as adjustments.
+            </p>
+          </div>
+          {canWrite && (
+            <Button onClick={() => setIsDialogOpen(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Stock Take
+            </Button>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Stock Take</th>
+                  <th className="text-left p-4 font-semibold">Started</th>
+                  <th className="text-left p-4 font-semibold">Location</th>
+                  <th className="text-left p-4 font-semibold">Scope</th>
+                  <th className="text-left p-4 font-semibold">Counted</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stockTakes.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">No stock takes yet</td>
+                  </tr>
+                )}
+                {stockTakes.map((take) => (
+                  <tr key={take.id} className="border-t hover:bg-muted/30">
+                    <td className="p-4">
+                      <Link to={`/stock-takes/${take.id}`} className="font-medium hover:underline">{take.stock_take_number}</Link>
+                      {take.notes && <div className="text-xs text-muted-foreground">{take.notes}</div>}
+                    </td>
+                    <td className="p-4">{format(new Date(take.started_at), "MMM dd, yyyy HH:mm")}</td>
+                    <td className="p-4">{take.locations?.name}</td>
+                    <td className="p-4">{scopeLabel(take)}</td>
+                    <td className="p-4">
+                      {take.stock_take_lines.filter(l => l.counted_qty !== null).length} / {take.stock_take_lines.length}
+                    </td>
+                    <td className="p-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStockTakeStatusColor(take.status)}`}>
+                        {take.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={handleDialogOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ClipboardCheck className="w-5 h-5" />
+              New Stock Take
+            </DialogTitle>
+            <DialogDescription>
+              Expected quantities are taken from current stock at the location when the count starts.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <Label>Location *</Label>
+              <Select
+                value={formData.location_id || defaultLocationId}
+                onValueChange={(v) => setFormData({ ...formData, location_id: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((loc) => (
+                    <SelectItem key={loc.id} value={loc.id}>{loc.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Category</Label>
+                <Select value={formData.category_id} onValueChange={(v) => setFormData({ ...formData, category_id: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All categories</SelectItem>
+                    {categories.map((c) => (
+                      <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Supplier</Label>
+                <Select value={formData.supplier_id} onValueChange={(v) => setFormData({ ...formData, supplier_id: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All suppliers</SelectItem>
+                    {suppliers.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label>Notes</Label>
+              <Textarea
+                placeholder="e.g. Rack 3, wires and cables"
+                value={formData.notes}
+                onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={saving}>
+              {saving ? "Starting..." : "Start Counting"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -2,10 +2,11 @@ import { useState, useEffect } from "react";
 import { Layout } from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Plus, Phone, Mail, MessageSquare, Edit, Trash2 } from "lucide-react";
+import { Plus, Phone, Mail, Edit, Trash2 } from "lucide-react";
 import { useUserRole } from "@/hooks/useUserRole";
 import { CsvImport } from "@/components/CsvImport";
 import { CsvExport } from "@/components/CsvExport";
+import { ContactActions } from "@/components/ContactActions";
 import { supabase } from "@/integrations/supabase/client";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -34,7 +35,7 @@ interface Supplier {
 }
 
 export default function Suppliers() {
-  const { canWrite, canDelete } = useUserRole();
+  const { canWrite, canDelete, loading: roleLoading } = useUserRole();
   const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [formData, setFormData] = useState({
@@ -176,6 +177,14 @@ export default function Suppliers() {
     }));
   };
 
+  if (!roleLoading && !canWrite) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Supplier details are only available to users who can edit records.</p>
+      </Layout>
+    );
+  }
+
   return (
     <Layout>
       <div className="space-y-6">
@@ -279,22 +288,7 @@ export default function Suppliers() {
                   <p className="text-muted-foreground">{supplier.city}</p>
                 )}
               </div>
-              {supplier.phone && (
-                <div className="flex gap-2 mt-4">
-                  <Button size="sm" variant="secondary" asChild className="flex-1">
-                    <a href={`tel:${supplier.phone}`}>
-                      <Phone className="w-4 h-4 mr-1" />
-                      Call
-                    </a>
-                  </Button>
-                  <Button size="sm" variant="secondary" asChild className="flex-1">
-                    <a href={`https://wa.me/${supplier.phone.replace(/[^0-9]/g, '')}`} target="_blank" rel="noopener noreferrer">
-                      <MessageSquare className="w-4 h-4 mr-1" />
-                      WhatsApp
-                    </a>
-                  </Button>
-                </div>
-              )}
+              {supplier.phone && <ContactActions phone={supplier.phone} />}
             </div>
           ))}
         </div>
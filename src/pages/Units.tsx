@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, Trash2 } from "lucide-react";
+import { useUserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { z } from "zod";
+import { getQuantityDecimals } from "@/lib/quantity";
+
+const unitSchema = z.object({
+  code: z.string().trim().min(1, "Unit code is required").max(20, "Code too long"),
+  name: z.string().trim().min(1, "Unit name is required").max(100, "Name too long")
+});
+
+interface Unit {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export default function Units() {
+  const { canWrite, canDelete } = useUserRole();
+  const [units, setUnits] = useState<Unit[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ code: "", name: "" });
+
+  useEffect(() => {
+    loadUnits();
+  }, []);
+
+  const loadUnits = async () => {
+    const { data, error } = await supabase
+      .from("units")
+      .select("id, code, name")
+      .order("code");
+
+    if (error) {
+      toast.error("Error loading units");
+      return;
+    }
+    setUnits(data || []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = unitSchema.safeParse(formData);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    const { error } = await supabase.from("units").insert([{ code: result.data.code, name: result.data.name }]);
+
+    if (error) {
+      if (error.code === '23505') {
+        toast.error("A unit with this code already exists");
+      } else if (error.code === '42501') {
+        toast.error("You do not have permission to add units");
+      } else {
+        toast.error("Error adding unit");
+      }
+      return;
+    }
+
+    toast.success("Unit added successfully!");
+    setIsDialogOpen(false);
+    setFormData({ code: "", name: "" });
+    loadUnits();
+  };
+
+  const handleDelete = async (unit: Unit) => {
+    if (!canDelete) {
+      toast.error("You don't have permission to delete units");
+      return;
+    }
+    if (!window.confirm(`Delete unit "${unit.code}"?`)) return;
+
+    const { error } = await supabase.from("units").delete().eq("id", unit.id);
+
+    if (error) {
+      if (error.code === '23503') {
+        toast.error("This unit is still used by products or movements");
+      } else {
+        toast.error("Error deleting unit");
+      }
+      return;
+    }
+
+    toast.success("Unit deleted successfully!");
+    loadUnits();
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Units of Measure</h1>
+            <p className="text-muted-foreground mt-2">
+              Stock is kept in each product's base unit. Pack conversions such as box or coil are set on the product page.
+            </p>
+          </div>
+          {canWrite && (
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Unit
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Add New Unit</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div>
+                    <Label>Code *</Label>
+                    <Input
+                      required
+                      placeholder="e.g. box, coil, m"
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Name *</Label>
+                    <Input
+                      required
+                      value={formData.name}
+                      onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    />
+                  </div>
+                  <Button type="submit" className="w-full">Add Unit</Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">Code</th>
+                  <th className="text-left p-4 font-semibold">Name</th>
+                  <th className="text-left p-4 font-semibold">Quantities</th>
+                  {canDelete && <th className="text-left p-4 font-semibold">Actions</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {units.map((unit) => {
+                  const decimals = getQuantityDecimals(unit.code);
+                  return (
+                    <tr key={unit.id} className="border-t hover:bg-muted/30">
+                      <td className="p-4 font-medium">{unit.code}</td>
+                      <td className="p-4">{unit.name}</td>
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {decimals === 0 ? "Whole numbers" : `Up to ${decimals} decimal places`}
+                      </td>
+                      {canDelete && (
+                        <td className="p-4">
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(unit)} aria-label="Delete unit">
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,389 @@
+import { useState, useEffect } from "react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Layout } from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Ban, CircleCheck, RefreshCw, UserPlus, X } from "lucide-react";
+import { useUserRole, type UserRole } from "@/hooks/useUserRole";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { z } from "zod";
+
+const ROLES: { role: UserRole; label: string; description: string }[] = [
+  { role: "admin", label: "Admin", description: "Everything, including users and adjustments" },
+  { role: "staff", label: "Staff", description: "Add and edit stock, documents and master data" },
+  { role: "viewer", label: "Viewer", description: "Read only" },
+];
+
+const NO_ROLE = "none";
+
+type CustomRole = Pick<Tables<"custom_roles">, "id" | "name" | "description">;
+type CustomRoleAssignment = Pick<Tables<"user_custom_roles">, "id" | "user_id" | "custom_role_id">;
+
+const inviteSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").max(255, "Email too long"),
+});
+
+interface ManagedUser {
+  id: string;
+  email: string | null;
+  created_at: string;
+  invited_at: string | null;
+  confirmed_at: string | null;
+  last_sign_in_at: string | null;
+  disabled: boolean;
+  roles: UserRole[];
+}
+
+type ManageUsersRequest =
+  | { action: "list" }
+  | { action: "invite"; email: string; role?: UserRole; redirect_to?: string }
+  | { action: "grant_role" | "revoke_role"; user_id: string; role: UserRole }
+  | { action: "disable" | "enable"; user_id: string };
+
+// Auth admin calls need the service role key, so they go through the manage-users edge
+// function. Its error responses carry a message meant for the user.
+async function manageUsers<T>(body: ManageUsersRequest): Promise<T> {
+  const { data, error } = await supabase.functions.invoke("manage-users", { body });
+  if (error) {
+    const payload = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(payload?.error || "User management is unavailable right now");
+  }
+  return data as T;
+}
+
+export default function Users() {
+  const { isAdmin, loading: roleLoading } = useUserRole();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [customRoles, setCustomRoles] = useState<CustomRole[]>([]);
+  const [assignments, setAssignments] = useState<CustomRoleAssignment[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ email: "", role: "staff" });
+  const [inviting, setInviting] = useState(false);
+
+  useEffect(() => {
+    if (isAdmin) loadUsers();
+  }, [isAdmin]);
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      // Custom roles are plain tables that admins can write, so they skip the edge function
+      const [{ data: { user } }, result, rolesResult, assignmentsResult] = await Promise.all([
+        supabase.auth.getUser(),
+        manageUsers<{ users: ManagedUser[] }>({ action: "list" }),
+        supabase.from("custom_roles").select("id, name, description").order("name"),
+        supabase.from("user_custom_roles").select("id, user_id, custom_role_id"),
+      ]);
+      if (rolesResult.error || assignmentsResult.error) throw new Error("Error loading custom roles");
+      setCurrentUserId(user?.id ?? null);
+      setCustomRoles(rolesResult.data || []);
+      setAssignments(assignmentsResult.data || []);
+      setUsers(
+        [...result.users].sort((a, b) => (a.email ?? "").localeCompare(b.email ?? ""))
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error loading users");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (user: ManagedUser, body: ManageUsersRequest, success: string) => {
+    setBusyUserId(user.id);
+    try {
+      await manageUsers(body);
+      toast.success(success);
+      loadUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error updating user");
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleRoleChange = (user: ManagedUser, role: UserRole, granted: boolean) => {
+    const label = ROLES.find(r => r.role === role)?.label;
+    runAction(
+      user,
+      { action: granted ? "grant_role" : "revoke_role", user_id: user.id, role },
+      `${label} role ${granted ? "granted to" : "removed from"} ${user.email}`
+    );
+  };
+
+  const handleAssignCustomRole = async (user: ManagedUser, role: CustomRole) => {
+    setBusyUserId(user.id);
+    const { error } = await supabase.from("user_custom_roles").insert([{ user_id: user.id, custom_role_id: role.id }]);
+    setBusyUserId(null);
+
+    if (error) {
+      toast.error("Error assigning role");
+      return;
+    }
+    toast.success(`${role.name} role granted to ${user.email}`);
+    loadUsers();
+  };
+
+  const handleRemoveCustomRole = async (user: ManagedUser, assignment: CustomRoleAssignment) => {
+    const name = customRoles.find(r => r.id === assignment.custom_role_id)?.name;
+    setBusyUserId(user.id);
+    const { error } = await supabase.from("user_custom_roles").delete().eq("id", assignment.id);
+    setBusyUserId(null);
+
+    if (error) {
+      toast.error("Error removing role");
+      return;
+    }
+    toast.success(`${name} role removed from ${user.email}`);
+    loadUsers();
+  };
+
+  const userAssignments = (user: ManagedUser) => assignments.filter(a => a.user_id === user.id);
+
+  const handleToggleDisabled = (user: ManagedUser) => {
+    if (!user.disabled && !window.confirm(`Disable ${user.email}? They will be signed out and unable to sign in until re-enabled.`)) {
+      return;
+    }
+    runAction(
+      user,
+      { action: user.disabled ? "enable" : "disable", user_id: user.id },
+      `${user.email} ${user.disabled ? "enabled" : "disabled"}`
+    );
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const result = inviteSchema.safeParse(inviteForm);
+    if (!result.success) {
+      toast.error(result.error.errors[0].message);
+      return;
+    }
+
+    setInviting(true);
+    try {
+      await manageUsers({
+        action: "invite",
+        email: result.data.email,
+        role: inviteForm.role === NO_ROLE ? undefined : inviteForm.role as UserRole,
+        redirect_to: window.location.origin,
+      });
+      toast.success(`Invitation sent to ${result.data.email}`);
+      setIsInviteOpen(false);
+      setInviteForm({ email: "", role: "staff" });
+      loadUsers();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Error inviting user");
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const statusLabel = (user: ManagedUser) => {
+    if (user.disabled) return { label: "Disabled", color: "bg-destructive/10 text-destructive" };
+    if (!user.confirmed_at) return { label: "Invited", color: "bg-warning/10 text-warning" };
+    if (user.roles.length === 0 && userAssignments(user).length === 0) return { label: "No role", color: "bg-warning/10 text-warning" };
+    return { label: "Active", color: "bg-success/10 text-success" };
+  };
+
+  if (!roleLoading && !isAdmin) {
+    return (
+      <Layout>
+        <p className="text-muted-foreground">Only admins can manage users.</p>
+      </Layout>
+    );
+  }
+
+  const pendingCount = users.filter(u => !u.disabled && u.roles.length === 0 && userAssignments(u).length === 0).length;
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div>
+            <h1 className="text-3xl font-bold">Users</h1>
+            <p className="text-muted-foreground mt-2">
+              Users without a role can sign in but see nothing until they are given one.
+              {pendingCount > 0 && ` ${pendingCount} waiting for a role.`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={loadUsers} disabled={loading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button onClick={() => setIsInviteOpen(true)}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Invite User
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-card rounded-lg border">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted/50">
+                <tr>
+                  <th className="text-left p-4 font-semibold">User</th>
+                  {ROLES.map((r) => (
+                    <th key={r.role} className="text-center p-4 font-semibold" title={r.description}>{r.label}</th>
+                  ))}
+                  <th className="text-left p-4 font-semibold">Custom Roles</th>
+                  <th className="text-left p-4 font-semibold">Last Sign In</th>
+                  <th className="text-left p-4 font-semibold">Status</th>
+                  <th className="text-left p-4 font-semibold">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.length === 0 && (
+                  <tr>
+                    <td colSpan={ROLES.length + 5} className="p-8 text-center text-muted-foreground">
+                      {loading ? "Loading users..." : "No users found"}
+                    </td>
+                  </tr>
+                )}
+                {users.map((user) => {
+                  const isSelf = user.id === currentUserId;
+                  const busy = busyUserId === user.id;
+                  const status = statusLabel(user);
+                  const assigned = userAssignments(user);
+                  const assignable = customRoles.filter(r => !assigned.some(a => a.custom_role_id === r.id));
+                  return (
+                    <tr key={user.id} className="border-t hover:bg-muted/30">
+                      <td className="p-4">
+                        <div className="font-medium">{user.email ?? "-"}{isSelf && <span className="text-muted-foreground"> (you)</span>}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {user.invited_at ? "Invited" : "Signed up"} {format(new Date(user.invited_at ?? user.created_at), "MMM dd, yyyy")}
+                        </div>
+                      </td>
+                      {ROLES.map((r) => (
+                        <td key={r.role} className="p-4 text-center">
+                          <Checkbox
+                            aria-label={`${r.label} role for ${user.email}`}
+                            checked={user.roles.includes(r.role)}
+                            disabled={busy || (isSelf && r.role === "admin")}
+                            onCheckedChange={(checked) => handleRoleChange(user, r.role, checked === true)}
+                          />
+                        </td>
+                      ))}
+                      <td className="p-4">
+                        <div className="flex flex-wrap items-center gap-1">
+                          {assigned.map((a) => (
+                            <Badge key={a.id} variant="secondary" className="gap-1">
+                              {customRoles.find(r => r.id === a.custom_role_id)?.name}
+                              <button
+                                type="button"
+                                aria-label="Remove role"
+                                disabled={busy}
+                                onClick={() => handleRemoveCustomRole(user, a)}
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                          {assignable.length > 0 && (
+                            <Select
+                              value=""
+                              disabled={busy}
+                              onValueChange={(id) => {
+                                const role = customRoles.find(r => r.id === id);
+                                if (role) handleAssignCustomRole(user, role);
+                              }}
+                            >
+                              <SelectTrigger className="h-7 w-28 text-xs">
+                                <SelectValue placeholder="Add role" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {assignable.map((r) => (
+                                  <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {user.last_sign_in_at ? format(new Date(user.last_sign_in_at), "MMM dd, yyyy HH:mm") : "Never"}
+                      </td>
+                      <td className="p-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="p-4">
+                        {!isSelf && (
+                          <Button variant="ghost" size="sm" disabled={busy} onClick={() => handleToggleDisabled(user)}>
+                            {user.disabled ? (
+                              <>
+                                <CircleCheck className="w-4 h-4 mr-1" />
+                                Enable
+                              </>
+                            ) : (
+                              <>
+                                <Ban className="w-4 h-4 mr-1 text-destructive" />
+                                Disable
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              An email is sent with a link to set a password. The role applies as soon as they sign in.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div>
+              <Label>Email *</Label>
+              <Input
+                type="email"
+                required
+                value={inviteForm.email}
+                onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={inviteForm.role} onValueChange={(v) => setInviteForm({ ...inviteForm, role: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.map((r) => (
+                    <SelectItem key={r.role} value={r.role}>{r.label} — {r.description}</SelectItem>
+                  ))}
+                  <SelectItem value={NO_ROLE}>No role yet</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" className="w-full" disabled={inviting}>
+              {inviting ? "Sending..." : "Send Invitation"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Layout>
+  );
+}
@@ -0,0 +1,183 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type User } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+
+// Admin-only user management. Listing auth users, inviting and banning all need the
+// service role key, so the browser calls this function instead of the auth admin API.
+
+const RoleSchema = z.enum(['admin', 'staff', 'viewer']);
+
+const RequestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('list') }),
+  z.object({
+    action: z.literal('invite'),
+    email: z.string().trim().email('Enter a valid email address').max(255),
+    role: RoleSchema.optional(),
+    redirect_to: z.string().url().max(500).optional(),
+  }),
+  z.object({ action: z.literal('grant_role'), user_id: z.string().uuid(), role: RoleSchema }),
+  z.object({ action: z.literal('revoke_role'), user_id: z.string().uuid(), role: RoleSchema }),
+  z.object({ action: z.literal('disable'), user_id: z.string().uuid() }),
+  z.object({ action: z.literal('enable'), user_id: z.string().uuid() }),
+]);
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// A disabled account is banned for 100 years; enabling lifts the ban
+const DISABLED_BAN_DURATION = '876000h';
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const isDisabled = (user: User) =>
+  !!user.banned_until && new Date(user.banned_until).getTime() > Date.now();
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (!authHeader) {
+      return json({ error: 'Authentication required' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+    if (!supabaseUrl || !supabaseServiceKey || !supabaseAnonKey) {
+      throw new Error('Supabase configuration missing');
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    // Role changes are made as the calling admin so audit_log records who made them
+    const asCaller = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const jwt = authHeader.replace('Bearer ', '');
+    const { data: { user: caller }, error: userError } = await supabase.auth.getUser(jwt);
+
+    if (userError || !caller) {
+      console.warn('Invalid or expired token:', userError?.message);
+      return json({ error: 'Invalid or expired authentication token' }, 401);
+    }
+
+    const { data: adminRole, error: roleError } = await supabase
+      .from('user_roles')
+      .select('id')
+      .eq('user_id', caller.id)
+      .eq('role', 'admin')
+      .limit(1);
+
+    if (roleError || !adminRole || adminRole.length === 0) {
+      console.warn('User is not an admin:', caller.id);
+      return json({ error: 'Only admins can manage users' }, 403);
+    }
+
+    const parsed = RequestSchema.safeParse(await req.json().catch(() => null));
+    if (!parsed.success) {
+      return json({ error: parsed.error.errors[0]?.message ?? 'Invalid request' }, 400);
+    }
+    const request = parsed.data;
+
+    // Admins cannot lock themselves out
+    if ('user_id' in request && request.user_id === caller.id
+        && (request.action === 'disable' || (request.action === 'revoke_role' && request.role === 'admin'))) {
+      return json({ error: 'You cannot remove your own admin access' }, 400);
+    }
+
+    switch (request.action) {
+      case 'list': {
+        const users: User[] = [];
+        for (let page = 1; ; page++) {
+          const { data, error } = await supabase.auth.admin.listUsers({ page, perPage: 1000 });
+          if (error) throw error;
+          users.push(...data.users);
+          if (data.users.length < 1000) break;
+        }
+
+        const { data: roles, error } = await supabase.from('user_roles').select('user_id, role');
+        if (error) throw error;
+
+        return json({
+          users: users.map((u) => ({
+            id: u.id,
+            email: u.email ?? null,
+            created_at: u.created_at,
+            invited_at: u.invited_at ?? null,
+            confirmed_at: u.email_confirmed_at ?? null,
+            last_sign_in_at: u.last_sign_in_at ?? null,
+            disabled: isDisabled(u),
+            roles: (roles ?? []).filter((r) => r.user_id === u.id).map((r) => r.role),
+          })),
+        });
+      }
+
+      case 'invite': {
+        const { data, error } = await supabase.auth.admin.inviteUserByEmail(request.email, {
+          redirectTo: request.redirect_to,
+        });
+        if (error) {
+          return json({ error: error.message }, 400);
+        }
+
+        if (request.role) {
+          const { error: insertError } = await asCaller
+            .from('user_roles')
+            .insert({ user_id: data.user.id, role: request.role });
+          if (insertError) throw insertError;
+        }
+
+        console.log(`Admin ${caller.id} invited ${data.user.id}`);
+        return json({ user_id: data.user.id });
+      }
+
+      case 'grant_role': {
+        const { error } = await asCaller
+          .from('user_roles')
+          .upsert({ user_id: request.user_id, role: request.role }, { onConflict: 'user_id,role', ignoreDuplicates: true });
+        if (error) throw error;
+
+        console.log(`Admin ${caller.id} granted ${request.role} to ${request.user_id}`);
+        return json({ ok: true });
+      }
+
+      case 'revoke_role': {
+        const { error } = await asCaller
+          .from('user_roles')
+          .delete()
+          .eq('user_id', request.user_id)
+          .eq('role', request.role);
+        if (error) throw error;
+
+        console.log(`Admin ${caller.id} revoked ${request.role} from ${request.user_id}`);
+        return json({ ok: true });
+      }
+
+      case 'disable':
+      case 'enable': {
+        const { error } = await supabase.auth.admin.updateUserById(request.user_id, {
+          ban_duration: request.action === 'disable' ? DISABLED_BAN_DURATION : 'none',
+        });
+        if (error) {
+          return json({ error: error.message }, 400);
+        }
+
+        console.log(`Admin ${caller.id} ${request.action}d ${request.user_id}`);
+        return json({ ok: true });
+      }
+    }
+  } catch (error) {
+    console.error('Error in manage-users function:', error);
+    return json({ error: 'Failed to complete the request. Please try again.' }, 500);
+  }
+});
@@ -14,7 +14,7 @@ const ProductSchema = z.object({
   selling_price: z.number().min(0).max(100000000).optional().nullable(),
   mrp_price: z.number().min(0).max(100000000).optional().nullable(),
   without_tax_price: z.number().min(0).max(100000000).optional().nullable(),
-  stock_qty: z.number().int().min(0).max(100000000).optional().nullable(),
+  stock_qty: z.number().min(0).max(100000000).optional().nullable(),
   unit: z.string().max(50).optional().nullable(),
   barcode: z.string().max(100).optional().nullable(),
   item_code: z.string().max(100).optional().nullable(),
@@ -33,6 +33,9 @@ const validateAndSanitizeProducts = (rawProducts: unknown[]): z.infer<typeof Pro
     try {
       // Parse and validate each product
       const validated = ProductSchema.parse(product);
+      if (validated.stock_qty !== null && validated.stock_qty !== undefined) {
+        validated.stock_qty = roundQuantity(validated.stock_qty, validated.unit);
+      }
       validProducts.push(validated);
     } catch (e) {
       // Skip invalid products but log the issue
@@ -74,10 +77,23 @@ const toNumber = (v: unknown): number | null => {
   return Number.isFinite(n) && n >= 0 ? n : null;
 };
 
-const toInt = (v: unknown): number | null => {
+// Decimal places allowed per unit; mirrors src/lib/quantity.ts and public.unit_decimal_places()
+const UNIT_DECIMALS: Record<string, number> = {
+  m: 2, mtr: 2, mtrs: 2, meter: 2, meters: 2, metre: 2, metres: 2, ft: 2, feet: 2,
+  kg: 3, kgs: 3, kilogram: 3, kilograms: 3,
+  l: 3, ltr: 3, litre: 3, litres: 3, liter: 3, liters: 3,
+};
+
+const roundQuantity = (n: number, unit: string | null | undefined): number => {
+  const decimals = unit ? UNIT_DECIMALS[unit.trim().toLowerCase().replace(/\.$/, "")] ?? 0 : 0;
+  const factor = 10 ** decimals;
+  return Math.round(n * factor) / factor;
+};
+
+const toQuantity = (v: unknown, unit: string | null): number | null => {
   const n = toNumber(v);
   if (n === null) return null;
-  return Math.trunc(n);
+  return roundQuantity(n, unit);
 };
 
 const toText = (v: unknown): string | null => {
@@ -275,6 +291,8 @@ const tryExtractProductsFromCsv = (content: string) => {
         return null;
       }
 
+      const unit = hUnit ? toText(r[hUnit]) : null;
+
       const product: Record<string, unknown> = {
         name,
         product_id: hProductId ? toText(r[hProductId]) : null,
@@ -284,8 +302,8 @@ const tryExtractProductsFromCsv = (content: string) => {
         selling_price: hSelling ? toNumber(r[hSelling]) : null,
         mrp_price: hMrp ? toNumber(r[hMrp]) : null,
         without_tax_price: hWithoutTax ? toNumber(r[hWithoutTax]) : null,
-        stock_qty: hQty ? toInt(r[hQty]) : null,
-        unit: hUnit ? toText(r[hUnit]) : null,
+        stock_qty: hQty ? toQuantity(r[hQty], unit) : null,
+        unit,
         barcode: hBarcode ? toText(r[hBarcode]) : null,
         item_code: hItemCode ? toText(r[hItemCode]) : null,
         description: hDesc ? toText(r[hDesc]) : null,
@@ -342,23 +360,19 @@ serve(async (req) => {
       );
     }
 
-    // Check if user has write permissions (admin or staff role)
-    const { data: roleData, error: roleError } = await supabase
-      .from('user_roles')
-      .select('role')
-      .eq('user_id', user.id)
-      .in('role', ['admin', 'staff'])
-      .limit(1);
+    // Same check the database uses; the import.run permission comes from a role or custom role
+    const { data: canImport, error: permissionError } = await supabase
+      .rpc('has_permission', { _user_id: user.id, _permission: 'import.run' });
 
-    if (roleError || !roleData || roleData.length === 0) {
-      console.warn('User does not have write permissions:', user.id);
+    if (permissionError || !canImport) {
+      console.warn('User does not have import permission:', user.id);
       return new Response(
-        JSON.stringify({ error: 'You do not have permission to import files. Admin or staff role required.' }),
+        JSON.stringify({ error: 'You do not have permission to import files.' }),
         { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Authorized user ${user.id} with role ${roleData[0].role} is processing file`);
+    console.log(`Authorized user ${user.id} is processing file`);
 
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
@@ -0,0 +1,57 @@
+-- Field-level change history for products
+CREATE TABLE public.product_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  field_name TEXT NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_product_changes_product_id ON public.product_changes (product_id, changed_at DESC);
+
+ALTER TABLE public.product_changes ENABLE ROW LEVEL SECURITY;
+
+-- History is written only by the trigger below; users can read it but never edit it
+CREATE POLICY "Admin and staff can view product changes"
+ON public.product_changes FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Function to record one history row per changed product column
+CREATE OR REPLACE FUNCTION public.log_product_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  col TEXT;
+BEGIN
+  FOR col IN SELECT jsonb_object_keys(new_row) LOOP
+    -- stock_qty is tracked through stock_movements, not as master data
+    CONTINUE WHEN col IN ('id', 'created_at', 'stock_qty');
+
+    IF (old_row -> col) IS DISTINCT FROM (new_row -> col) THEN
+      INSERT INTO public.product_changes (product_id, field_name, old_value, new_value, changed_by, changed_by_email)
+      VALUES (NEW.id, col, old_row ->> col, new_row ->> col, auth.uid(), auth.jwt() ->> 'email');
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_changed
+  AFTER UPDATE ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_product_changes();
+
+COMMENT ON FUNCTION public.log_product_changes() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to write product_changes history rows.
+Only called via trigger on products table after an update.
+Bypasses RLS because users have no INSERT policy on product_changes - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.log_product_changes() FROM PUBLIC, anon, authenticated;
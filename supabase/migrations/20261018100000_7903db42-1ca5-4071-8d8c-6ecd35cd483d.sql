@@ -0,0 +1,54 @@
+-- Record when a requirement was received so it can be placed in the product ledger
+ALTER TABLE public.requirements
+ADD COLUMN IF NOT EXISTS received_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.requirements
+SET received_at = COALESCE(requested_date, created_at)
+WHERE status = 'Received' AND received_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_requirement_received_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'Received' AND OLD.status IS DISTINCT FROM 'Received' THEN
+    NEW.received_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_requirement_status_change
+  BEFORE UPDATE OF status ON public.requirements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_requirement_received_at();
+
+REVOKE EXECUTE ON FUNCTION public.set_requirement_received_at() FROM PUBLIC, anon, authenticated;
+
+-- Log direct stock_qty overwrites (e.g. Smart Import) in product_changes.
+-- Updates made from inside another trigger (stock movements, requirement receipts)
+-- run at trigger depth > 1 and are already recorded in their own tables.
+CREATE OR REPLACE FUNCTION public.log_product_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  col TEXT;
+BEGIN
+  FOR col IN SELECT jsonb_object_keys(new_row) LOOP
+    CONTINUE WHEN col IN ('id', 'created_at');
+    CONTINUE WHEN col = 'stock_qty' AND pg_trigger_depth() > 1;
+
+    IF (old_row -> col) IS DISTINCT FROM (new_row -> col) THEN
+      INSERT INTO public.product_changes (product_id, field_name, old_value, new_value, changed_by, changed_by_email)
+      VALUES (NEW.id, col, old_row ->> col, new_row ->> col, auth.uid(), auth.jwt() ->> 'email');
+    END IF;
+  END LOOP;
+  RETURN NEW;
+END;
+$$;
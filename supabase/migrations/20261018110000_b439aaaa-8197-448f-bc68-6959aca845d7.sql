@@ -0,0 +1,139 @@
+-- Stock reconciliation: recompute expected stock from the movement ledger
+
+-- Allow ADJUST movements (signed quantity) alongside IN and OUT
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_movement_type_check CHECK (movement_type IN ('IN', 'OUT', 'ADJUST'));
+
+-- Sign applied to a movement's quantity when summing the ledger
+CREATE OR REPLACE FUNCTION public.movement_sign(_movement_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _movement_type
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    WHEN 'ADJUST' THEN 1
+    ELSE 0
+  END
+$$;
+
+-- Quantity a product should hold according to its movement history
+CREATE OR REPLACE FUNCTION public.ledger_stock_qty(_product_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(public.movement_sign(movement_type) * quantity), 0)::INTEGER
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+$$;
+
+-- IN/OUT increment stock_qty. ADJUST rows correct the ledger itself: their quantity is
+-- the signed gap between the ledger and the true quantity, so stock_qty is re-derived
+-- from the full ledger instead of incremented.
+CREATE OR REPLACE FUNCTION public.handle_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.movement_type = 'ADJUST' THEN
+    UPDATE public.products
+    SET stock_qty = public.ledger_stock_qty(NEW.product_id)
+    WHERE id = NEW.product_id;
+  ELSE
+    UPDATE public.products
+    SET stock_qty = stock_qty + public.movement_sign(NEW.movement_type) * NEW.quantity
+    WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Only admins may post ADJUST movements
+DROP POLICY IF EXISTS "Admin and staff can insert stock movements" ON public.stock_movements;
+CREATE POLICY "Admin and staff can insert stock movements"
+ON public.stock_movements FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()) AND (movement_type <> 'ADJUST' OR is_admin(auth.uid())));
+
+-- Products whose stock_qty differs from their movement ledger
+CREATE OR REPLACE FUNCTION public.get_stock_reconciliation()
+RETURNS TABLE (
+  product_id UUID,
+  product_code TEXT,
+  name TEXT,
+  unit TEXT,
+  stock_qty INTEGER,
+  expected_qty INTEGER,
+  difference INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can run stock reconciliation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.product_id, p.name, p.unit, p.stock_qty, l.expected_qty, p.stock_qty - l.expected_qty
+  FROM public.products p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(public.movement_sign(m.movement_type) * m.quantity), 0)::INTEGER AS expected_qty
+    FROM public.stock_movements m
+    WHERE m.product_id = p.id
+  ) l
+  WHERE p.stock_qty <> l.expected_qty
+  ORDER BY p.name;
+END;
+$$;
+
+-- Post an ADJUST movement so that both the ledger and stock_qty equal _actual_qty
+CREATE OR REPLACE FUNCTION public.post_stock_adjustment(_product_id UUID, _actual_qty INTEGER, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement_id UUID;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _actual_qty IS NULL OR _actual_qty < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with concurrent movements for this product
+  PERFORM 1 FROM public.products WHERE id = _product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes)
+  VALUES (_product_id, 'ADJUST', _actual_qty - public.ledger_stock_qty(_product_id), 'RECONCILIATION', left(trim(_reason), 500))
+  RETURNING id INTO movement_id;
+
+  RETURN movement_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_stock_qty(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_stock_reconciliation() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_stock_reconciliation() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, integer, text) TO authenticated;
@@ -0,0 +1,111 @@
+-- Requirement receipts post real IN stock movements and support partial quantities
+
+ALTER TABLE public.requirements
+ADD COLUMN IF NOT EXISTS received_qty INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.stock_movements
+ADD COLUMN IF NOT EXISTS requirement_id UUID REFERENCES public.requirements(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_requirement_id ON public.stock_movements (requirement_id);
+
+-- Backfill: requirements already marked Received added needed_qty to stock without a movement.
+-- Record those receipts in the ledger without touching stock_qty again.
+ALTER TABLE public.stock_movements DISABLE TRIGGER on_stock_movement;
+
+INSERT INTO public.stock_movements (product_id, movement_date, movement_type, quantity, reference, notes, requirement_id)
+SELECT product_id, COALESCE(received_at, requested_date, created_at), 'IN', needed_qty, 'REQUIREMENT', 'Backfilled requirement receipt', id
+FROM public.requirements
+WHERE status = 'Received';
+
+ALTER TABLE public.stock_movements ENABLE TRIGGER on_stock_movement;
+
+UPDATE public.requirements SET received_qty = needed_qty WHERE status = 'Received';
+
+-- Replace the old AFTER trigger (which added needed_qty straight to stock_qty) and the
+-- received_at stamp with a single BEFORE trigger. Marking a requirement Received posts an
+-- IN movement for whatever is still outstanding, so flipping the status away from
+-- Received and back again never counts the same stock twice.
+DROP TRIGGER IF EXISTS on_requirement_received ON public.requirements;
+DROP TRIGGER IF EXISTS on_requirement_status_change ON public.requirements;
+DROP FUNCTION IF EXISTS public.set_requirement_received_at();
+
+CREATE OR REPLACE FUNCTION public.handle_requirement_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  outstanding INTEGER;
+BEGIN
+  IF NEW.status = 'Received' AND OLD.status IS DISTINCT FROM 'Received' THEN
+    outstanding := NEW.needed_qty - NEW.received_qty;
+    IF outstanding > 0 THEN
+      INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, requirement_id)
+      VALUES (NEW.product_id, 'IN', outstanding, 'REQUIREMENT', 'Requirement marked as received', NEW.id);
+      NEW.received_qty := NEW.needed_qty;
+    END IF;
+    NEW.received_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_requirement_received
+  BEFORE UPDATE OF status ON public.requirements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_requirement_received();
+
+COMMENT ON FUNCTION public.handle_requirement_received() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to post IN stock movements for outstanding requirement quantity.
+Only called via trigger on requirements table when status changes to Received.
+Bypasses RLS to allow automatic stock movements - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.handle_requirement_received() FROM PUBLIC, anon, authenticated;
+
+-- Receive part or all of a requirement as an IN movement
+CREATE OR REPLACE FUNCTION public.receive_requirement(_requirement_id UUID, _quantity INTEGER, _reference TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req public.requirements%ROWTYPE;
+  movement_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to receive requirements' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO req FROM public.requirements WHERE id = _requirement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requirement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF _quantity > req.needed_qty - req.received_qty THEN
+    RAISE EXCEPTION 'Cannot receive more than the outstanding quantity of %', req.needed_qty - req.received_qty
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, requirement_id)
+  VALUES (req.product_id, 'IN', _quantity, COALESCE(NULLIF(trim(_reference), ''), 'REQUIREMENT'), 'Received against requirement', req.id)
+  RETURNING id INTO movement_id;
+
+  -- Close the requirement only once everything has arrived; the status trigger then
+  -- finds nothing outstanding and posts no further movement.
+  UPDATE public.requirements
+  SET received_qty = received_qty + _quantity,
+      status = CASE WHEN received_qty + _quantity >= needed_qty THEN 'Received' ELSE status END
+  WHERE id = req.id;
+
+  RETURN movement_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.receive_requirement(uuid, integer, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receive_requirement(uuid, integer, text) TO authenticated;
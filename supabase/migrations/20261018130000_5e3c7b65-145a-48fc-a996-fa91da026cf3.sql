@@ -0,0 +1,215 @@
+-- Purchase orders raised from open requirements, one per supplier
+
+CREATE SEQUENCE IF NOT EXISTS public.purchase_order_number_seq;
+
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT UNIQUE NOT NULL DEFAULT 'PO-' || lpad(nextval('public.purchase_order_number_seq')::TEXT, 5, '0'),
+  supplier_id UUID REFERENCES public.suppliers(id) NOT NULL,
+  status TEXT NOT NULL DEFAULT 'Draft' CHECK (status IN ('Draft', 'Issued', 'Received', 'Cancelled')),
+  order_date TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  issued_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  requirement_id UUID REFERENCES public.requirements(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_purchase_order_lines_po ON public.purchase_order_lines (purchase_order_id);
+CREATE INDEX idx_purchase_order_lines_requirement ON public.purchase_order_lines (requirement_id);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- === PURCHASE_ORDERS TABLE ===
+CREATE POLICY "Admin and staff can view purchase orders"
+ON public.purchase_orders FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert purchase orders"
+ON public.purchase_orders FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update purchase orders"
+ON public.purchase_orders FOR UPDATE TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete purchase orders"
+ON public.purchase_orders FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+-- === PURCHASE_ORDER_LINES TABLE ===
+-- Lines can only be changed while their order is still a draft
+CREATE POLICY "Admin and staff can view purchase order lines"
+ON public.purchase_order_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert purchase order lines"
+ON public.purchase_order_lines FOR INSERT TO authenticated
+WITH CHECK (
+  can_write(auth.uid())
+  AND EXISTS (SELECT 1 FROM public.purchase_orders po WHERE po.id = purchase_order_id AND po.status = 'Draft')
+);
+
+CREATE POLICY "Admin and staff can update purchase order lines"
+ON public.purchase_order_lines FOR UPDATE TO authenticated
+USING (
+  can_write(auth.uid())
+  AND EXISTS (SELECT 1 FROM public.purchase_orders po WHERE po.id = purchase_order_id AND po.status = 'Draft')
+);
+
+CREATE POLICY "Admin and staff can delete draft purchase order lines"
+ON public.purchase_order_lines FOR DELETE TO authenticated
+USING (
+  can_write(auth.uid())
+  AND EXISTS (SELECT 1 FROM public.purchase_orders po WHERE po.id = purchase_order_id AND po.status = 'Draft')
+);
+
+-- Function to move linked requirements to Ordered when a purchase order is issued,
+-- and back to Open if an issued order is cancelled
+CREATE OR REPLACE FUNCTION public.handle_purchase_order_issued()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'Issued' AND OLD.status = 'Draft' THEN
+    NEW.issued_at := now();
+
+    UPDATE public.requirements
+    SET status = 'Ordered'
+    WHERE status = 'Open'
+    AND id IN (
+      SELECT requirement_id FROM public.purchase_order_lines
+      WHERE purchase_order_id = NEW.id AND requirement_id IS NOT NULL
+    );
+  ELSIF NEW.status = 'Cancelled' AND OLD.status = 'Issued' THEN
+    UPDATE public.requirements
+    SET status = 'Open'
+    WHERE status = 'Ordered'
+    AND id IN (
+      SELECT requirement_id FROM public.purchase_order_lines
+      WHERE purchase_order_id = NEW.id AND requirement_id IS NOT NULL
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_purchase_order_issued
+  BEFORE UPDATE OF status ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_purchase_order_issued();
+
+COMMENT ON FUNCTION public.handle_purchase_order_issued() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to update requirement status.
+Only called via trigger on purchase_orders table when status changes to Issued or Cancelled.
+Bypasses RLS to allow automatic status updates - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.handle_purchase_order_issued() FROM PUBLIC, anon, authenticated;
+
+-- Orders only move forward: a draft is issued or cancelled, and an issued order is received
+-- or cancelled. Received and Cancelled orders are final.
+CREATE OR REPLACE FUNCTION public.validate_purchase_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'Draft' AND NEW.status IN ('Issued', 'Cancelled')) OR
+    (OLD.status = 'Issued' AND NEW.status IN ('Received', 'Cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Purchase order % cannot move from % to %', OLD.po_number, OLD.status, NEW.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_purchase_order_status
+  BEFORE UPDATE OF status ON public.purchase_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_purchase_order_status();
+
+REVOKE EXECUTE ON FUNCTION public.validate_purchase_order_status() FROM PUBLIC, anon, authenticated;
+
+-- Create one draft purchase order per supplier from the given open requirements.
+-- Quantities default to the outstanding requirement quantity and prices to purchase_price.
+-- Requirements already on a draft or issued order are skipped, so none is ordered twice.
+CREATE OR REPLACE FUNCTION public.create_purchase_orders_from_requirements(_requirement_ids UUID[])
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  supplier RECORD;
+  po_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to create purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.requirements r
+    JOIN public.products p ON p.id = r.product_id
+    WHERE r.id = ANY(_requirement_ids) AND p.supplier_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Some selected products have no supplier' USING ERRCODE = '22023';
+  END IF;
+
+  -- Concurrent calls for the same requirements wait here, then see each other's lines
+  PERFORM 1 FROM public.requirements WHERE id = ANY(_requirement_ids) ORDER BY id FOR UPDATE;
+
+  FOR supplier IN
+    SELECT DISTINCT p.supplier_id
+    FROM public.requirements r
+    JOIN public.products p ON p.id = r.product_id
+    WHERE r.id = ANY(_requirement_ids) AND r.status = 'Open' AND r.needed_qty > r.received_qty
+    AND NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines pol
+      JOIN public.purchase_orders po ON po.id = pol.purchase_order_id
+      WHERE pol.requirement_id = r.id AND po.status IN ('Draft', 'Issued')
+    )
+  LOOP
+    INSERT INTO public.purchase_orders (supplier_id, created_by)
+    VALUES (supplier.supplier_id, auth.uid())
+    RETURNING id INTO po_id;
+
+    INSERT INTO public.purchase_order_lines (purchase_order_id, product_id, requirement_id, quantity, unit_price)
+    SELECT po_id, r.product_id, r.id, r.needed_qty - r.received_qty, p.purchase_price
+    FROM public.requirements r
+    JOIN public.products p ON p.id = r.product_id
+    WHERE r.id = ANY(_requirement_ids)
+    AND r.status = 'Open'
+    AND p.supplier_id = supplier.supplier_id
+    AND r.needed_qty > r.received_qty
+    AND NOT EXISTS (
+      SELECT 1 FROM public.purchase_order_lines pol
+      JOIN public.purchase_orders po ON po.id = pol.purchase_order_id
+      WHERE pol.requirement_id = r.id AND po.status IN ('Draft', 'Issued')
+    );
+
+    RETURN NEXT po_id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_purchase_orders_from_requirements(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_purchase_orders_from_requirements(uuid[]) TO authenticated;
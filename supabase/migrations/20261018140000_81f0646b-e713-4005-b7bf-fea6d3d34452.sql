@@ -0,0 +1,177 @@
+-- Goods receipt notes (GRN) posted against a supplier's Ordered requirements
+
+CREATE SEQUENCE IF NOT EXISTS public.goods_receipt_number_seq;
+
+CREATE TABLE public.goods_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grn_number TEXT UNIQUE NOT NULL DEFAULT 'GRN-' || lpad(nextval('public.goods_receipt_number_seq')::TEXT, 5, '0'),
+  supplier_id UUID REFERENCES public.suppliers(id) NOT NULL,
+  supplier_invoice_no TEXT,
+  invoice_date DATE,
+  landed_cost DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (landed_cost >= 0),
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.goods_receipt_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_receipt_id UUID REFERENCES public.goods_receipts(id) ON DELETE CASCADE NOT NULL,
+  requirement_id UUID REFERENCES public.requirements(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  stock_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  received_qty INTEGER NOT NULL DEFAULT 0 CHECK (received_qty >= 0),
+  rejected_qty INTEGER NOT NULL DEFAULT 0 CHECK (rejected_qty >= 0),
+  short_qty INTEGER NOT NULL DEFAULT 0 CHECK (short_qty >= 0),
+  unit_price DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  landed_unit_cost DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (rejected_qty <= received_qty)
+);
+
+CREATE INDEX idx_goods_receipt_lines_grn ON public.goods_receipt_lines (goods_receipt_id);
+
+ALTER TABLE public.goods_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+-- GRNs are written only through post_goods_receipt so stock, prices and requirements stay in step
+CREATE POLICY "Admin and staff can view goods receipts"
+ON public.goods_receipts FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete goods receipts"
+ON public.goods_receipts FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admin and staff can view goods receipt lines"
+ON public.goods_receipt_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Post a GRN: each line is {requirement_id, received_qty, rejected_qty, unit_price}.
+-- Accepted quantity (received - rejected) is booked as an IN movement against the
+-- requirement, landed cost is apportioned by line value, purchase_price is updated where
+-- the invoiced price differs, and fulfilled requirements / purchase orders are closed.
+CREATE OR REPLACE FUNCTION public.post_goods_receipt(
+  _supplier_id UUID,
+  _supplier_invoice_no TEXT,
+  _invoice_date DATE,
+  _landed_cost NUMERIC,
+  _notes TEXT,
+  _lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  grn_id UUID;
+  grn_no TEXT;
+  line JSONB;
+  req public.requirements%ROWTYPE;
+  received INTEGER;
+  rejected INTEGER;
+  accepted INTEGER;
+  price NUMERIC;
+  total_value NUMERIC := 0;
+  total_accepted INTEGER := 0;
+  landed_share NUMERIC;
+  movement_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to post goods receipts' USING ERRCODE = '42501';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'A goods receipt needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(_landed_cost, 0) < 0 THEN
+    RAISE EXCEPTION 'Landed cost cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  -- Totals used to apportion landed cost
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    accepted := (line ->> 'received_qty')::INTEGER - COALESCE((line ->> 'rejected_qty')::INTEGER, 0);
+    total_value := total_value + GREATEST(accepted, 0) * COALESCE((line ->> 'unit_price')::NUMERIC, 0);
+    total_accepted := total_accepted + GREATEST(accepted, 0);
+  END LOOP;
+
+  INSERT INTO public.goods_receipts (supplier_id, supplier_invoice_no, invoice_date, landed_cost, notes, created_by)
+  VALUES (_supplier_id, NULLIF(trim(_supplier_invoice_no), ''), _invoice_date, COALESCE(_landed_cost, 0), NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING id, grn_number INTO grn_id, grn_no;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO req FROM public.requirements WHERE id = (line ->> 'requirement_id')::UUID FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Requirement not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = req.product_id AND supplier_id = _supplier_id) THEN
+      RAISE EXCEPTION 'Requirement does not belong to this supplier' USING ERRCODE = '22023';
+    END IF;
+
+    IF req.status <> 'Ordered' THEN
+      RAISE EXCEPTION 'Requirement is % and cannot be received against', req.status USING ERRCODE = '22023';
+    END IF;
+
+    received := COALESCE((line ->> 'received_qty')::INTEGER, 0);
+    rejected := COALESCE((line ->> 'rejected_qty')::INTEGER, 0);
+    price := COALESCE((line ->> 'unit_price')::NUMERIC, 0);
+    accepted := received - rejected;
+
+    IF received < 0 OR rejected < 0 OR accepted < 0 THEN
+      RAISE EXCEPTION 'Rejected quantity cannot exceed received quantity' USING ERRCODE = '22023';
+    END IF;
+
+    movement_id := NULL;
+    IF accepted > 0 THEN
+      movement_id := public.receive_requirement(
+        req.id,
+        accepted,
+        grn_no || COALESCE(' / ' || NULLIF(trim(_supplier_invoice_no), ''), '')
+      );
+
+      UPDATE public.products
+      SET purchase_price = price
+      WHERE id = req.product_id AND purchase_price IS DISTINCT FROM price;
+    END IF;
+
+    landed_share := CASE
+      WHEN accepted <= 0 THEN 0
+      WHEN total_value > 0 THEN COALESCE(_landed_cost, 0) * (accepted * price / total_value) / accepted
+      ELSE COALESCE(_landed_cost, 0) / total_accepted
+    END;
+
+    INSERT INTO public.goods_receipt_lines (
+      goods_receipt_id, requirement_id, product_id, stock_movement_id,
+      received_qty, rejected_qty, short_qty, unit_price, landed_unit_cost
+    )
+    VALUES (
+      grn_id, req.id, req.product_id, movement_id,
+      received, rejected, GREATEST(req.needed_qty - req.received_qty - accepted, 0), price, round(price + landed_share, 2)
+    );
+  END LOOP;
+
+  -- Close purchase orders whose requirements have all been received
+  UPDATE public.purchase_orders po
+  SET status = 'Received'
+  WHERE po.status = 'Issued'
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_order_lines pol
+    JOIN public.goods_receipt_lines grl ON grl.requirement_id = pol.requirement_id
+    WHERE pol.purchase_order_id = po.id AND grl.goods_receipt_id = grn_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.purchase_order_lines pol
+    JOIN public.requirements r ON r.id = pol.requirement_id
+    WHERE pol.purchase_order_id = po.id AND r.status NOT IN ('Received', 'Closed')
+  );
+
+  RETURN grn_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_goods_receipt(uuid, text, date, numeric, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_goods_receipt(uuid, text, date, numeric, text, jsonb) TO authenticated;
@@ -0,0 +1,404 @@
+-- Decimal quantities for products sold by length or weight (wire by metre, copper by kg)
+
+-- A column named in a trigger's UPDATE OF list cannot change type, so the low stock
+-- trigger is dropped around the change
+DROP TRIGGER IF EXISTS on_product_stock_update ON public.products;
+
+ALTER TABLE public.products
+  ALTER COLUMN stock_qty TYPE NUMERIC(12, 3),
+  ALTER COLUMN min_stock_level TYPE NUMERIC(12, 3);
+
+CREATE TRIGGER on_product_stock_update
+  AFTER UPDATE OF stock_qty ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_low_stock();
+
+ALTER TABLE public.stock_movements
+  ALTER COLUMN quantity TYPE NUMERIC(12, 3);
+
+ALTER TABLE public.requirements
+  ALTER COLUMN needed_qty TYPE NUMERIC(12, 3),
+  ALTER COLUMN received_qty TYPE NUMERIC(12, 3);
+
+ALTER TABLE public.purchase_order_lines
+  ALTER COLUMN quantity TYPE NUMERIC(12, 3);
+
+ALTER TABLE public.goods_receipt_lines
+  ALTER COLUMN received_qty TYPE NUMERIC(12, 3),
+  ALTER COLUMN rejected_qty TYPE NUMERIC(12, 3),
+  ALTER COLUMN short_qty TYPE NUMERIC(12, 3);
+
+-- Decimal places allowed for a quantity in the given unit. Counted units (pcs, box, set,
+-- or no unit at all) stay whole numbers. Keep in sync with src/lib/quantity.ts.
+CREATE OR REPLACE FUNCTION public.unit_decimal_places(_unit TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE rtrim(lower(trim(COALESCE(_unit, ''))), '.')
+    WHEN 'm' THEN 2
+    WHEN 'mtr' THEN 2
+    WHEN 'mtrs' THEN 2
+    WHEN 'meter' THEN 2
+    WHEN 'meters' THEN 2
+    WHEN 'metre' THEN 2
+    WHEN 'metres' THEN 2
+    WHEN 'ft' THEN 2
+    WHEN 'feet' THEN 2
+    WHEN 'kg' THEN 3
+    WHEN 'kgs' THEN 3
+    WHEN 'kilogram' THEN 3
+    WHEN 'kilograms' THEN 3
+    WHEN 'l' THEN 3
+    WHEN 'ltr' THEN 3
+    WHEN 'litre' THEN 3
+    WHEN 'litres' THEN 3
+    WHEN 'liter' THEN 3
+    WHEN 'liters' THEN 3
+    ELSE 0
+  END
+$$;
+
+-- Reject quantities with more decimals than the product's unit allows. The trigger
+-- arguments name the quantity columns to check on the row.
+CREATE OR REPLACE FUNCTION public.validate_quantity_precision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  product_unit TEXT;
+  places INTEGER;
+  column_name TEXT;
+  qty NUMERIC;
+BEGIN
+  SELECT unit INTO product_unit FROM public.products WHERE id = NEW.product_id;
+  places := public.unit_decimal_places(product_unit);
+
+  FOREACH column_name IN ARRAY TG_ARGV LOOP
+    qty := (to_jsonb(NEW) ->> column_name)::NUMERIC;
+    IF qty IS NOT NULL AND qty <> round(qty, places) THEN
+      RAISE EXCEPTION 'Quantity % allows at most % decimal places for unit %', qty, places, COALESCE(product_unit, '(none)')
+        USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ADJUST quantities are ledger gaps rather than entered amounts, so they are not checked
+CREATE TRIGGER check_stock_movement_quantity
+  BEFORE INSERT OR UPDATE OF quantity ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.movement_type <> 'ADJUST')
+  EXECUTE FUNCTION public.validate_quantity_precision('quantity');
+
+CREATE TRIGGER check_requirement_quantity
+  BEFORE INSERT OR UPDATE OF needed_qty ON public.requirements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_quantity_precision('needed_qty');
+
+CREATE TRIGGER check_purchase_order_line_quantity
+  BEFORE INSERT OR UPDATE OF quantity ON public.purchase_order_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_quantity_precision('quantity');
+
+CREATE TRIGGER check_goods_receipt_line_quantity
+  BEFORE INSERT ON public.goods_receipt_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_quantity_precision('received_qty', 'rejected_qty');
+
+COMMENT ON FUNCTION public.validate_quantity_precision() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read the product unit for the row being written.
+Only called via triggers on stock_movements, requirements, purchase_order_lines and goods_receipt_lines.
+Never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.validate_quantity_precision() FROM PUBLIC, anon, authenticated;
+
+-- Functions with INTEGER quantities in their signatures must be dropped before they can
+-- be recreated with NUMERIC ones.
+DROP FUNCTION IF EXISTS public.ledger_stock_qty(uuid);
+DROP FUNCTION IF EXISTS public.get_stock_reconciliation();
+DROP FUNCTION IF EXISTS public.post_stock_adjustment(uuid, integer, text);
+DROP FUNCTION IF EXISTS public.receive_requirement(uuid, integer, text);
+
+CREATE OR REPLACE FUNCTION public.ledger_stock_qty(_product_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(public.movement_sign(movement_type) * quantity), 0)
+  FROM public.stock_movements
+  WHERE product_id = _product_id
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_stock_reconciliation()
+RETURNS TABLE (
+  product_id UUID,
+  product_code TEXT,
+  name TEXT,
+  unit TEXT,
+  stock_qty NUMERIC,
+  expected_qty NUMERIC,
+  difference NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can run stock reconciliation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.product_id, p.name, p.unit, p.stock_qty, l.expected_qty, p.stock_qty - l.expected_qty
+  FROM public.products p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(public.movement_sign(m.movement_type) * m.quantity), 0) AS expected_qty
+    FROM public.stock_movements m
+    WHERE m.product_id = p.id
+  ) l
+  WHERE p.stock_qty <> l.expected_qty
+  ORDER BY p.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_stock_adjustment(_product_id UUID, _actual_qty NUMERIC, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement_id UUID;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _actual_qty IS NULL OR _actual_qty < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with concurrent movements for this product
+  PERFORM 1 FROM public.products WHERE id = _product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _actual_qty <> round(_actual_qty, public.unit_decimal_places((SELECT unit FROM public.products WHERE id = _product_id))) THEN
+    RAISE EXCEPTION 'Quantity has more decimal places than the product unit allows' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes)
+  VALUES (_product_id, 'ADJUST', _actual_qty - public.ledger_stock_qty(_product_id), 'RECONCILIATION', left(trim(_reason), 500))
+  RETURNING id INTO movement_id;
+
+  RETURN movement_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_requirement_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  outstanding NUMERIC;
+BEGIN
+  IF NEW.status = 'Received' AND OLD.status IS DISTINCT FROM 'Received' THEN
+    outstanding := NEW.needed_qty - NEW.received_qty;
+    IF outstanding > 0 THEN
+      INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, requirement_id)
+      VALUES (NEW.product_id, 'IN', outstanding, 'REQUIREMENT', 'Requirement marked as received', NEW.id);
+      NEW.received_qty := NEW.needed_qty;
+    END IF;
+    NEW.received_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_requirement(_requirement_id UUID, _quantity NUMERIC, _reference TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  req public.requirements%ROWTYPE;
+  movement_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to receive requirements' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO req FROM public.requirements WHERE id = _requirement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Requirement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  IF _quantity > req.needed_qty - req.received_qty THEN
+    RAISE EXCEPTION 'Cannot receive more than the outstanding quantity of %', req.needed_qty - req.received_qty
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, requirement_id)
+  VALUES (req.product_id, 'IN', _quantity, COALESCE(NULLIF(trim(_reference), ''), 'REQUIREMENT'), 'Received against requirement', req.id)
+  RETURNING id INTO movement_id;
+
+  -- Close the requirement only once everything has arrived; the status trigger then
+  -- finds nothing outstanding and posts no further movement.
+  UPDATE public.requirements
+  SET received_qty = received_qty + _quantity,
+      status = CASE WHEN received_qty + _quantity >= needed_qty THEN 'Received' ELSE status END
+  WHERE id = req.id;
+
+  RETURN movement_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_goods_receipt(
+  _supplier_id UUID,
+  _supplier_invoice_no TEXT,
+  _invoice_date DATE,
+  _landed_cost NUMERIC,
+  _notes TEXT,
+  _lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  grn_id UUID;
+  grn_no TEXT;
+  line JSONB;
+  req public.requirements%ROWTYPE;
+  received NUMERIC;
+  rejected NUMERIC;
+  accepted NUMERIC;
+  price NUMERIC;
+  total_value NUMERIC := 0;
+  total_accepted NUMERIC := 0;
+  landed_share NUMERIC;
+  movement_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to post goods receipts' USING ERRCODE = '42501';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'A goods receipt needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(_landed_cost, 0) < 0 THEN
+    RAISE EXCEPTION 'Landed cost cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  -- Totals used to apportion landed cost
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    accepted := (line ->> 'received_qty')::NUMERIC - COALESCE((line ->> 'rejected_qty')::NUMERIC, 0);
+    total_value := total_value + GREATEST(accepted, 0) * COALESCE((line ->> 'unit_price')::NUMERIC, 0);
+    total_accepted := total_accepted + GREATEST(accepted, 0);
+  END LOOP;
+
+  INSERT INTO public.goods_receipts (supplier_id, supplier_invoice_no, invoice_date, landed_cost, notes, created_by)
+  VALUES (_supplier_id, NULLIF(trim(_supplier_invoice_no), ''), _invoice_date, COALESCE(_landed_cost, 0), NULLIF(trim(_notes), ''), auth.uid())
+  RETURNING id, grn_number INTO grn_id, grn_no;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO req FROM public.requirements WHERE id = (line ->> 'requirement_id')::UUID FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Requirement not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = req.product_id AND supplier_id = _supplier_id) THEN
+      RAISE EXCEPTION 'Requirement does not belong to this supplier' USING ERRCODE = '22023';
+    END IF;
+
+    IF req.status <> 'Ordered' THEN
+      RAISE EXCEPTION 'Requirement is % and cannot be received against', req.status USING ERRCODE = '22023';
+    END IF;
+
+    received := COALESCE((line ->> 'received_qty')::NUMERIC, 0);
+    rejected := COALESCE((line ->> 'rejected_qty')::NUMERIC, 0);
+    price := COALESCE((line ->> 'unit_price')::NUMERIC, 0);
+    accepted := received - rejected;
+
+    IF received < 0 OR rejected < 0 OR accepted < 0 THEN
+      RAISE EXCEPTION 'Rejected quantity cannot exceed received quantity' USING ERRCODE = '22023';
+    END IF;
+
+    movement_id := NULL;
+    IF accepted > 0 THEN
+      movement_id := public.receive_requirement(
+        req.id,
+        accepted,
+        grn_no || COALESCE(' / ' || NULLIF(trim(_supplier_invoice_no), ''), '')
+      );
+
+      UPDATE public.products
+      SET purchase_price = price
+      WHERE id = req.product_id AND purchase_price IS DISTINCT FROM price;
+    END IF;
+
+    landed_share := CASE
+      WHEN accepted <= 0 THEN 0
+      WHEN total_value > 0 THEN COALESCE(_landed_cost, 0) * (accepted * price / total_value) / accepted
+      ELSE COALESCE(_landed_cost, 0) / total_accepted
+    END;
+
+    INSERT INTO public.goods_receipt_lines (
+      goods_receipt_id, requirement_id, product_id, stock_movement_id,
+      received_qty, rejected_qty, short_qty, unit_price, landed_unit_cost
+    )
+    VALUES (
+      grn_id, req.id, req.product_id, movement_id,
+      received, rejected, GREATEST(req.needed_qty - req.received_qty - accepted, 0), price, round(price + landed_share, 2)
+    );
+  END LOOP;
+
+  -- Close purchase orders whose requirements have all been received
+  UPDATE public.purchase_orders po
+  SET status = 'Received'
+  WHERE po.status = 'Issued'
+  AND EXISTS (
+    SELECT 1 FROM public.purchase_order_lines pol
+    JOIN public.goods_receipt_lines grl ON grl.requirement_id = pol.requirement_id
+    WHERE pol.purchase_order_id = po.id AND grl.goods_receipt_id = grn_id
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM public.purchase_order_lines pol
+    JOIN public.requirements r ON r.id = pol.requirement_id
+    WHERE pol.purchase_order_id = po.id AND r.status NOT IN ('Received', 'Closed')
+  );
+
+  RETURN grn_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_stock_qty(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_stock_reconciliation() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, numeric, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.receive_requirement(uuid, numeric, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_stock_reconciliation() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_requirement(uuid, numeric, text) TO authenticated;
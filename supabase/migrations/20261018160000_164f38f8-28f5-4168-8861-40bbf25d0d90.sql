@@ -0,0 +1,208 @@
+-- Units of measure master with per-product conversions (box = 10 pieces, coil = 90 m).
+-- Stock is always held in the product's base unit (products.unit); movements,
+-- requirements and purchase order lines may be entered in any defined unit and are
+-- converted to the base unit on write.
+
+CREATE TABLE public.units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT UNIQUE NOT NULL CHECK (code = trim(code) AND code <> ''),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE public.units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view units"
+ON public.units FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admin and staff can insert units"
+ON public.units FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update units"
+ON public.units FOR UPDATE TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete units"
+ON public.units FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+INSERT INTO public.units (code, name) VALUES
+  ('pieces', 'Pieces'),
+  ('m', 'Metre'),
+  ('ft', 'Feet'),
+  ('kg', 'Kilogram'),
+  ('l', 'Litre'),
+  ('box', 'Box'),
+  ('pack', 'Inner Pack'),
+  ('coil', 'Coil'),
+  ('roll', 'Roll'),
+  ('set', 'Set'),
+  ('dozen', 'Dozen')
+ON CONFLICT (code) DO NOTHING;
+
+-- Every unit already used by a product becomes a unit in the master
+UPDATE public.products SET unit = NULLIF(trim(unit), '');
+UPDATE public.products SET unit = 'pieces' WHERE unit IS NULL;
+
+INSERT INTO public.units (code, name)
+SELECT DISTINCT unit, unit FROM public.products
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.products
+  ALTER COLUMN unit SET NOT NULL,
+  ADD CONSTRAINT products_unit_fkey FOREIGN KEY (unit) REFERENCES public.units(code) ON UPDATE CASCADE;
+
+-- Imports still send free-text units; register unknown ones instead of failing the row
+CREATE OR REPLACE FUNCTION public.register_product_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.unit := COALESCE(NULLIF(trim(NEW.unit), ''), 'pieces');
+  INSERT INTO public.units (code, name) VALUES (NEW.unit, NEW.unit)
+  ON CONFLICT (code) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_unit_change
+  BEFORE INSERT OR UPDATE OF unit ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.register_product_unit();
+
+COMMENT ON FUNCTION public.register_product_unit() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to add missing units to the units master.
+Only called via trigger on products table when unit is set.
+Bypasses RLS so imports by staff can introduce new units - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.register_product_unit() FROM PUBLIC, anon, authenticated;
+
+-- Alternate units per product: one <unit> equals <factor> of the product's base unit
+CREATE TABLE public.product_units (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE NOT NULL,
+  factor NUMERIC(12, 3) NOT NULL CHECK (factor > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (product_id, unit)
+);
+
+ALTER TABLE public.product_units ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view product units"
+ON public.product_units FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admin and staff can insert product units"
+ON public.product_units FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update product units"
+ON public.product_units FOR UPDATE TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete product units"
+ON public.product_units FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+-- packing_inner values such as "10 pcs" become an Inner Pack conversion
+INSERT INTO public.product_units (product_id, unit, factor)
+SELECT id, 'pack', substring(packing_inner FROM '^\s*(\d+(?:\.\d+)?)')::NUMERIC
+FROM public.products
+WHERE unit <> 'pack'
+AND substring(packing_inner FROM '^\s*(\d+(?:\.\d+)?)')::NUMERIC > 1
+ON CONFLICT (product_id, unit) DO NOTHING;
+
+-- Quantity as entered, in the unit it was entered in
+ALTER TABLE public.stock_movements
+  ADD COLUMN entered_unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE,
+  ADD COLUMN entered_qty NUMERIC(12, 3);
+
+ALTER TABLE public.requirements
+  ADD COLUMN entered_unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE,
+  ADD COLUMN entered_qty NUMERIC(12, 3);
+
+ALTER TABLE public.purchase_order_lines
+  ADD COLUMN entered_unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE,
+  ADD COLUMN entered_qty NUMERIC(12, 3);
+
+-- Base units per one _unit of the product; NULL when the unit is not defined for it
+CREATE OR REPLACE FUNCTION public.unit_factor(_product_id UUID, _unit TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p.unit = _unit THEN 1
+    ELSE (SELECT pu.factor FROM public.product_units pu WHERE pu.product_id = p.id AND pu.unit = _unit)
+  END
+  FROM public.products p
+  WHERE p.id = _product_id
+$$;
+
+-- Convert entered_qty/entered_unit into the base-unit column named by the trigger argument.
+-- Named apply_* so it fires before the check_* precision triggers on the same tables.
+CREATE OR REPLACE FUNCTION public.apply_entered_unit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  factor NUMERIC;
+  base_unit TEXT;
+  base_qty NUMERIC;
+BEGIN
+  factor := public.unit_factor(NEW.product_id, NEW.entered_unit);
+  IF factor IS NULL THEN
+    RAISE EXCEPTION 'Unit % is not defined for this product', NEW.entered_unit USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.entered_qty IS NULL OR NEW.entered_qty <> round(NEW.entered_qty, public.unit_decimal_places(NEW.entered_unit)) THEN
+    RAISE EXCEPTION 'Quantity % is not valid for unit %', NEW.entered_qty, NEW.entered_unit USING ERRCODE = '22023';
+  END IF;
+
+  SELECT unit INTO base_unit FROM public.products WHERE id = NEW.product_id;
+  base_qty := NEW.entered_qty * factor;
+  IF base_qty <> round(base_qty, public.unit_decimal_places(base_unit)) THEN
+    RAISE EXCEPTION '% % converts to % %, which is not a valid quantity', NEW.entered_qty, NEW.entered_unit, base_qty, base_unit
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW := jsonb_populate_record(NEW, jsonb_build_object(TG_ARGV[0], base_qty));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement_unit
+  BEFORE INSERT OR UPDATE OF entered_qty, entered_unit ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.entered_unit IS NOT NULL)
+  EXECUTE FUNCTION public.apply_entered_unit('quantity');
+
+CREATE TRIGGER apply_requirement_unit
+  BEFORE INSERT OR UPDATE OF entered_qty, entered_unit ON public.requirements
+  FOR EACH ROW
+  WHEN (NEW.entered_unit IS NOT NULL)
+  EXECUTE FUNCTION public.apply_entered_unit('needed_qty');
+
+CREATE TRIGGER apply_purchase_order_line_unit
+  BEFORE INSERT OR UPDATE OF entered_qty, entered_unit ON public.purchase_order_lines
+  FOR EACH ROW
+  WHEN (NEW.entered_unit IS NOT NULL)
+  EXECUTE FUNCTION public.apply_entered_unit('quantity');
+
+COMMENT ON FUNCTION public.apply_entered_unit() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read product unit conversions.
+Only called via triggers on stock_movements, requirements and purchase_order_lines when an entered unit is given.
+Never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.apply_entered_unit() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.unit_factor(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unit_factor(uuid, text) TO authenticated;
@@ -0,0 +1,96 @@
+-- GST tax model: HSN/SAC code and GST slab per product, with a category default.
+-- mrp_price is the tax-inclusive price and without_tax_price the tax-exclusive one;
+-- whichever is edited, the other is derived from it using the effective GST rate.
+
+ALTER TABLE public.categories
+  ADD COLUMN hsn_code TEXT,
+  ADD COLUMN gst_rate NUMERIC(4, 2) CHECK (gst_rate IN (0, 5, 12, 18, 28));
+
+ALTER TABLE public.products
+  ADD COLUMN hsn_code TEXT,
+  ADD COLUMN gst_rate NUMERIC(4, 2) CHECK (gst_rate IN (0, 5, 12, 18, 28));
+
+-- Product rate if set, otherwise the category default; NULL when neither is known
+CREATE OR REPLACE FUNCTION public.effective_gst_rate(_gst_rate NUMERIC, _category_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(_gst_rate, (SELECT gst_rate FROM public.categories WHERE id = _category_id))
+$$;
+
+CREATE OR REPLACE FUNCTION public.derive_product_tax_prices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  rate NUMERIC;
+BEGIN
+  rate := public.effective_gst_rate(NEW.gst_rate, NEW.category_id);
+  IF rate IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.mrp_price, 0) > 0 THEN
+      NEW.without_tax_price := round(NEW.mrp_price / (1 + rate / 100), 2);
+    ELSIF COALESCE(NEW.without_tax_price, 0) > 0 THEN
+      NEW.mrp_price := round(NEW.without_tax_price * (1 + rate / 100), 2);
+    END IF;
+  ELSIF NEW.without_tax_price IS DISTINCT FROM OLD.without_tax_price
+    AND NEW.mrp_price IS NOT DISTINCT FROM OLD.mrp_price THEN
+    NEW.mrp_price := round(NEW.without_tax_price * (1 + rate / 100), 2);
+  ELSIF COALESCE(NEW.mrp_price, 0) > 0 THEN
+    -- MRP edited, or the rate changed: keep the printed MRP and re-derive the taxable price
+    NEW.without_tax_price := round(NEW.mrp_price / (1 + rate / 100), 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_tax_change
+  BEFORE INSERT OR UPDATE OF mrp_price, without_tax_price, gst_rate, category_id ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.derive_product_tax_prices();
+
+COMMENT ON FUNCTION public.derive_product_tax_prices() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read the category default GST rate.
+Only called via trigger on products table when prices, GST rate or category change.
+Never expose as RPC endpoint.';
+
+-- Products that inherit the category rate follow a change of the category default
+CREATE OR REPLACE FUNCTION public.handle_category_gst_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.gst_rate IS DISTINCT FROM OLD.gst_rate THEN
+    UPDATE public.products
+    SET mrp_price = mrp_price
+    WHERE category_id = NEW.id AND gst_rate IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_category_gst_change
+  AFTER UPDATE OF gst_rate ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_category_gst_change();
+
+COMMENT ON FUNCTION public.handle_category_gst_change() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to re-derive tax-exclusive prices of products in the category.
+Only called via trigger on categories table when the default GST rate changes.
+Bypasses RLS to allow automatic price updates - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.handle_category_gst_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.derive_product_tax_prices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.effective_gst_rate(numeric, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.effective_gst_rate(numeric, uuid) TO authenticated;
@@ -0,0 +1,214 @@
+-- Sales invoices. Posting an invoice books an OUT stock movement per line with the
+-- invoice number as reference, so every sale leaves stock with a document behind it.
+
+CREATE SEQUENCE IF NOT EXISTS public.sales_invoice_number_seq;
+
+CREATE TABLE public.sales_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number TEXT UNIQUE NOT NULL DEFAULT 'INV-' || lpad(nextval('public.sales_invoice_number_seq')::TEXT, 5, '0'),
+  invoice_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT,
+  customer_gstin TEXT CHECK (customer_gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  customer_address TEXT,
+  inter_state BOOLEAN NOT NULL DEFAULT false,
+  subtotal DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  discount_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  taxable_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  cgst_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  sgst_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  igst_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  round_off DECIMAL(4, 2) NOT NULL DEFAULT 0,
+  grand_total DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- quantity and unit_price are as printed on the invoice, in the unit the item was sold in
+CREATE TABLE public.sales_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sales_invoice_id UUID REFERENCES public.sales_invoices(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  stock_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  hsn_code TEXT,
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+  unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  gst_rate NUMERIC(4, 2) NOT NULL,
+  taxable_value DECIMAL(12, 2) NOT NULL,
+  cgst DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  sgst DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  igst DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  line_total DECIMAL(12, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_sales_invoices_date ON public.sales_invoices (invoice_date DESC);
+CREATE INDEX idx_sales_invoice_lines_invoice ON public.sales_invoice_lines (sales_invoice_id);
+
+ALTER TABLE public.sales_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+-- Invoices are written only through post_sales_invoice so stock and totals stay in step
+CREATE POLICY "Admin and staff can view sales invoices"
+ON public.sales_invoices FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can view sales invoice lines"
+ON public.sales_invoice_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Post a sales invoice: each line is {product_id, quantity, unit, unit_price, discount_percent}.
+-- unit defaults to the product's base unit and unit_price to its selling_price for that unit.
+-- Prices are tax-exclusive; GST at the product's effective rate is added on the discounted
+-- value and split CGST/SGST, or IGST for inter-state supplies. The grand total is rounded
+-- to the rupee.
+CREATE OR REPLACE FUNCTION public.post_sales_invoice(
+  _invoice_date DATE,
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _customer_gstin TEXT,
+  _customer_address TEXT,
+  _inter_state BOOLEAN,
+  _notes TEXT,
+  _lines JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_id UUID;
+  invoice_no TEXT;
+  line JSONB;
+  prod public.products%ROWTYPE;
+  sold_unit TEXT;
+  factor NUMERIC;
+  qty NUMERIC;
+  price NUMERIC;
+  discount NUMERIC;
+  rate NUMERIC;
+  gross NUMERIC;
+  taxable NUMERIC;
+  tax NUMERIC;
+  line_cgst NUMERIC;
+  line_sgst NUMERIC;
+  line_igst NUMERIC;
+  movement_id UUID;
+  total_gross NUMERIC := 0;
+  total_taxable NUMERIC := 0;
+  total_cgst NUMERIC := 0;
+  total_sgst NUMERIC := 0;
+  total_igst NUMERIC := 0;
+  unrounded NUMERIC;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to post sales invoices' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(_customer_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales_invoices (
+    invoice_date, customer_name, customer_phone, customer_gstin, customer_address, inter_state, notes, created_by
+  )
+  VALUES (
+    COALESCE(_invoice_date, CURRENT_DATE), trim(_customer_name), NULLIF(trim(_customer_phone), ''),
+    NULLIF(upper(trim(_customer_gstin)), ''), NULLIF(trim(_customer_address), ''),
+    COALESCE(_inter_state, false), NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING id, invoice_number INTO invoice_id, invoice_no;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO prod FROM public.products WHERE id = (line ->> 'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    sold_unit := COALESCE(NULLIF(line ->> 'unit', ''), prod.unit);
+    factor := public.unit_factor(prod.id, sold_unit);
+    IF factor IS NULL THEN
+      RAISE EXCEPTION 'Unit % is not defined for %', sold_unit, prod.name USING ERRCODE = '22023';
+    END IF;
+
+    qty := (line ->> 'quantity')::NUMERIC;
+    IF qty IS NULL OR qty <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than zero', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    price := round(COALESCE((line ->> 'unit_price')::NUMERIC, prod.selling_price * factor), 2);
+    discount := COALESCE((line ->> 'discount_percent')::NUMERIC, 0);
+    IF price < 0 OR discount < 0 OR discount > 100 THEN
+      RAISE EXCEPTION 'Invalid price or discount for %', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+    IF rate IS NULL THEN
+      RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    gross := round(qty * price, 2);
+    taxable := gross - round(gross * discount / 100, 2);
+    tax := round(taxable * rate / 100, 2);
+    IF COALESCE(_inter_state, false) THEN
+      line_cgst := 0;
+      line_sgst := 0;
+      line_igst := tax;
+    ELSE
+      line_cgst := round(tax / 2, 2);
+      line_sgst := tax - line_cgst;
+      line_igst := 0;
+    END IF;
+
+    -- apply_stock_movement_unit converts the sold quantity to the base unit
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes)
+    VALUES (prod.id, 'OUT', qty * factor, qty, sold_unit, invoice_no, 'Sold to ' || trim(_customer_name))
+    RETURNING id INTO movement_id;
+
+    INSERT INTO public.sales_invoice_lines (
+      sales_invoice_id, product_id, stock_movement_id, description, hsn_code,
+      quantity, unit, unit_price, discount_percent, gst_rate,
+      taxable_value, cgst, sgst, igst, line_total
+    )
+    VALUES (
+      invoice_id, prod.id, movement_id, prod.name,
+      COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+      qty, sold_unit, price, discount, rate,
+      taxable, line_cgst, line_sgst, line_igst, taxable + tax
+    );
+
+    total_gross := total_gross + gross;
+    total_taxable := total_taxable + taxable;
+    total_cgst := total_cgst + line_cgst;
+    total_sgst := total_sgst + line_sgst;
+    total_igst := total_igst + line_igst;
+  END LOOP;
+
+  unrounded := total_taxable + total_cgst + total_sgst + total_igst;
+
+  UPDATE public.sales_invoices
+  SET subtotal = total_gross,
+      discount_total = total_gross - total_taxable,
+      taxable_total = total_taxable,
+      cgst_total = total_cgst,
+      sgst_total = total_sgst,
+      igst_total = total_igst,
+      round_off = round(unrounded) - unrounded,
+      grand_total = round(unrounded)
+  WHERE id = invoice_id;
+
+  RETURN invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_sales_invoice(date, text, text, text, text, boolean, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_sales_invoice(date, text, text, text, text, boolean, text, jsonb) TO authenticated;
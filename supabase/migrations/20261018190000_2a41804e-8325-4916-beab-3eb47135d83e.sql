@@ -0,0 +1,334 @@
+-- Customer master with a credit (udhaar) ledger. Credit sales are sales invoices with
+-- payment_type 'Credit'; the customer's balance is their opening balance plus credit
+-- invoices less payments received.
+
+CREATE TABLE public.customers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  phone TEXT,
+  gstin TEXT CHECK (gstin ~ '^[0-9]{2}[A-Z0-9]{13}$'),
+  address TEXT,
+  city TEXT,
+  credit_limit DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (credit_limit >= 0),
+  opening_balance DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.customer_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  mode TEXT NOT NULL DEFAULT 'Cash' CHECK (mode IN ('Cash', 'UPI', 'Bank Transfer', 'Cheque')),
+  reference TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_customer_payments_customer ON public.customer_payments (customer_id, payment_date);
+
+ALTER TABLE public.sales_invoices
+  ADD COLUMN customer_id UUID REFERENCES public.customers(id),
+  ADD COLUMN payment_type TEXT NOT NULL DEFAULT 'Cash' CHECK (payment_type IN ('Cash', 'Credit')),
+  ADD CONSTRAINT sales_invoices_credit_customer CHECK (payment_type = 'Cash' OR customer_id IS NOT NULL);
+
+CREATE INDEX idx_sales_invoices_customer ON public.sales_invoices (customer_id, invoice_date);
+
+-- OUT movements of a sale point at the customer they went to
+ALTER TABLE public.stock_movements
+  ADD COLUMN customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.customers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and staff can view customers"
+ON public.customers FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert customers"
+ON public.customers FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update customers"
+ON public.customers FOR UPDATE TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete customers"
+ON public.customers FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admin and staff can view customer payments"
+ON public.customer_payments FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert customer payments"
+ON public.customer_payments FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete customer payments"
+ON public.customer_payments FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+-- Amount the customer owes; negative when they have paid in advance
+CREATE OR REPLACE FUNCTION public.customer_outstanding(_customer_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.opening_balance
+    + COALESCE((SELECT SUM(grand_total) FROM public.sales_invoices WHERE customer_id = c.id AND payment_type = 'Credit'), 0)
+    - COALESCE((SELECT SUM(amount) FROM public.customer_payments WHERE customer_id = c.id), 0)
+  FROM public.customers c
+  WHERE c.id = _customer_id
+$$;
+
+-- Outstanding per customer split by age. Payments (and any advance opening balance) settle
+-- the oldest dues first, so what remains unpaid is the tail of each customer's debits.
+CREATE OR REPLACE FUNCTION public.get_customer_ageing()
+RETURNS TABLE (
+  customer_id UUID,
+  outstanding NUMERIC,
+  due_0_30 NUMERIC,
+  due_31_60 NUMERIC,
+  due_61_90 NUMERIC,
+  due_over_90 NUMERIC,
+  oldest_due_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to view customer balances' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH debits AS (
+    SELECT c.id AS cust_id, c.created_at::DATE AS due_date, c.created_at AS posted_at, c.opening_balance AS amount
+    FROM public.customers c
+    WHERE c.opening_balance > 0
+    UNION ALL
+    SELECT si.customer_id, si.invoice_date, si.created_at, si.grand_total
+    FROM public.sales_invoices si
+    WHERE si.payment_type = 'Credit'
+  ),
+  settled AS (
+    SELECT c.id AS cust_id,
+      GREATEST(-c.opening_balance, 0)
+        + COALESCE((SELECT SUM(cp.amount) FROM public.customer_payments cp WHERE cp.customer_id = c.id), 0) AS amount
+    FROM public.customers c
+  ),
+  open_debits AS (
+    SELECT d.cust_id, d.due_date,
+      LEAST(d.amount, GREATEST(
+        SUM(d.amount) OVER (PARTITION BY d.cust_id ORDER BY d.due_date, d.posted_at ROWS UNBOUNDED PRECEDING) - s.amount,
+        0
+      )) AS due
+    FROM debits d
+    JOIN settled s ON s.cust_id = d.cust_id
+  )
+  SELECT c.id,
+    public.customer_outstanding(c.id),
+    COALESCE(SUM(od.due) FILTER (WHERE CURRENT_DATE - od.due_date <= 30), 0),
+    COALESCE(SUM(od.due) FILTER (WHERE CURRENT_DATE - od.due_date BETWEEN 31 AND 60), 0),
+    COALESCE(SUM(od.due) FILTER (WHERE CURRENT_DATE - od.due_date BETWEEN 61 AND 90), 0),
+    COALESCE(SUM(od.due) FILTER (WHERE CURRENT_DATE - od.due_date > 90), 0),
+    MIN(od.due_date)
+  FROM public.customers c
+  LEFT JOIN open_debits od ON od.cust_id = c.id AND od.due > 0
+  GROUP BY c.id;
+END;
+$$;
+
+-- Sales invoices now carry the customer and whether the sale was on credit
+DROP FUNCTION public.post_sales_invoice(date, text, text, text, text, boolean, text, jsonb);
+
+-- Post a sales invoice: each line is {product_id, quantity, unit, unit_price, discount_percent}.
+-- unit defaults to the product's base unit and unit_price to its selling_price for that unit.
+-- Prices are tax-exclusive; GST at the product's effective rate is added on the discounted
+-- value and split CGST/SGST, or IGST for inter-state supplies. The grand total is rounded
+-- to the rupee. Credit sales need a customer and must stay within their credit limit
+-- (a limit of 0 means no limit); billing details default to the customer's.
+CREATE OR REPLACE FUNCTION public.post_sales_invoice(
+  _invoice_date DATE,
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _customer_gstin TEXT,
+  _customer_address TEXT,
+  _inter_state BOOLEAN,
+  _notes TEXT,
+  _lines JSONB,
+  _payment_type TEXT DEFAULT 'Cash',
+  _customer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_id UUID;
+  invoice_no TEXT;
+  cust public.customers%ROWTYPE;
+  bill_to TEXT;
+  line JSONB;
+  prod public.products%ROWTYPE;
+  sold_unit TEXT;
+  factor NUMERIC;
+  qty NUMERIC;
+  price NUMERIC;
+  discount NUMERIC;
+  rate NUMERIC;
+  gross NUMERIC;
+  taxable NUMERIC;
+  tax NUMERIC;
+  line_cgst NUMERIC;
+  line_sgst NUMERIC;
+  line_igst NUMERIC;
+  movement_id UUID;
+  total_gross NUMERIC := 0;
+  total_taxable NUMERIC := 0;
+  total_cgst NUMERIC := 0;
+  total_sgst NUMERIC := 0;
+  total_igst NUMERIC := 0;
+  unrounded NUMERIC;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to post sales invoices' USING ERRCODE = '42501';
+  END IF;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT * INTO cust FROM public.customers WHERE id = _customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF COALESCE(_payment_type, 'Cash') NOT IN ('Cash', 'Credit') THEN
+    RAISE EXCEPTION 'Payment type must be Cash or Credit' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payment_type = 'Credit' AND _customer_id IS NULL THEN
+    RAISE EXCEPTION 'Credit sales need a customer' USING ERRCODE = '22023';
+  END IF;
+
+  bill_to := COALESCE(NULLIF(trim(_customer_name), ''), cust.name);
+  IF bill_to IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales_invoices (
+    customer_id, payment_type, invoice_date, customer_name, customer_phone, customer_gstin, customer_address,
+    inter_state, notes, created_by
+  )
+  VALUES (
+    _customer_id, COALESCE(_payment_type, 'Cash'), COALESCE(_invoice_date, CURRENT_DATE), bill_to,
+    COALESCE(NULLIF(trim(_customer_phone), ''), cust.phone),
+    COALESCE(NULLIF(upper(trim(_customer_gstin)), ''), cust.gstin),
+    COALESCE(NULLIF(trim(_customer_address), ''), cust.address),
+    COALESCE(_inter_state, false), NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING id, invoice_number INTO invoice_id, invoice_no;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO prod FROM public.products WHERE id = (line ->> 'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    sold_unit := COALESCE(NULLIF(line ->> 'unit', ''), prod.unit);
+    factor := public.unit_factor(prod.id, sold_unit);
+    IF factor IS NULL THEN
+      RAISE EXCEPTION 'Unit % is not defined for %', sold_unit, prod.name USING ERRCODE = '22023';
+    END IF;
+
+    qty := (line ->> 'quantity')::NUMERIC;
+    IF qty IS NULL OR qty <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than zero', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    price := round(COALESCE((line ->> 'unit_price')::NUMERIC, prod.selling_price * factor), 2);
+    discount := COALESCE((line ->> 'discount_percent')::NUMERIC, 0);
+    IF price < 0 OR discount < 0 OR discount > 100 THEN
+      RAISE EXCEPTION 'Invalid price or discount for %', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+    IF rate IS NULL THEN
+      RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    gross := round(qty * price, 2);
+    taxable := gross - round(gross * discount / 100, 2);
+    tax := round(taxable * rate / 100, 2);
+    IF COALESCE(_inter_state, false) THEN
+      line_cgst := 0;
+      line_sgst := 0;
+      line_igst := tax;
+    ELSE
+      line_cgst := round(tax / 2, 2);
+      line_sgst := tax - line_cgst;
+      line_igst := 0;
+    END IF;
+
+    -- apply_stock_movement_unit converts the sold quantity to the base unit
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes, customer_id)
+    VALUES (prod.id, 'OUT', qty * factor, qty, sold_unit, invoice_no, 'Sold to ' || bill_to, _customer_id)
+    RETURNING id INTO movement_id;
+
+    INSERT INTO public.sales_invoice_lines (
+      sales_invoice_id, product_id, stock_movement_id, description, hsn_code,
+      quantity, unit, unit_price, discount_percent, gst_rate,
+      taxable_value, cgst, sgst, igst, line_total
+    )
+    VALUES (
+      invoice_id, prod.id, movement_id, prod.name,
+      COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+      qty, sold_unit, price, discount, rate,
+      taxable, line_cgst, line_sgst, line_igst, taxable + tax
+    );
+
+    total_gross := total_gross + gross;
+    total_taxable := total_taxable + taxable;
+    total_cgst := total_cgst + line_cgst;
+    total_sgst := total_sgst + line_sgst;
+    total_igst := total_igst + line_igst;
+  END LOOP;
+
+  unrounded := total_taxable + total_cgst + total_sgst + total_igst;
+
+  IF _payment_type = 'Credit' AND cust.credit_limit > 0
+    AND public.customer_outstanding(_customer_id) + round(unrounded) > cust.credit_limit THEN
+    RAISE EXCEPTION 'Credit limit of % exceeded for %', cust.credit_limit, cust.name USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales_invoices
+  SET subtotal = total_gross,
+      discount_total = total_gross - total_taxable,
+      taxable_total = total_taxable,
+      cgst_total = total_cgst,
+      sgst_total = total_sgst,
+      igst_total = total_igst,
+      round_off = round(unrounded) - unrounded,
+      grand_total = round(unrounded)
+  WHERE id = invoice_id;
+
+  RETURN invoice_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_sales_invoice(date, text, text, text, text, boolean, text, jsonb, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_sales_invoice(date, text, text, text, text, boolean, text, jsonb, text, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.customer_outstanding(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_customer_ageing() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_customer_ageing() TO authenticated;
@@ -0,0 +1,244 @@
+-- Quotations / estimates. An accepted quotation converts in one step into OUT movements
+-- for whatever is in stock and Open requirements for the shortfall.
+
+CREATE SEQUENCE IF NOT EXISTS public.quotation_number_seq;
+
+CREATE TABLE public.quotations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_number TEXT UNIQUE NOT NULL DEFAULT 'QT-' || lpad(nextval('public.quotation_number_seq')::TEXT, 5, '0'),
+  quotation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  valid_until DATE NOT NULL DEFAULT (CURRENT_DATE + 30),
+  customer_id UUID REFERENCES public.customers(id),
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT,
+  customer_gstin TEXT,
+  customer_address TEXT,
+  inter_state BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'Draft' CHECK (status IN ('Draft', 'Sent', 'Accepted', 'Rejected', 'Converted')),
+  terms TEXT,
+  notes TEXT,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (valid_until >= quotation_date)
+);
+
+-- quantity and unit_price are as quoted, in the unit the item was quoted in
+CREATE TABLE public.quotation_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quotation_id UUID REFERENCES public.quotations(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  description TEXT NOT NULL,
+  hsn_code TEXT,
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+  unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  discount_percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  gst_rate NUMERIC(4, 2) NOT NULL,
+  issued_qty NUMERIC(12, 3),
+  stock_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  requirement_id UUID REFERENCES public.requirements(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_quotation_lines_quotation ON public.quotation_lines (quotation_id);
+
+ALTER TABLE public.quotations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotation_lines ENABLE ROW LEVEL SECURITY;
+
+-- Quotations and their lines are created through create_quotation; only the status moves afterwards
+CREATE POLICY "Admin and staff can view quotations"
+ON public.quotations FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update quotations"
+ON public.quotations FOR UPDATE TO authenticated
+USING (can_write(auth.uid()) AND status <> 'Converted')
+WITH CHECK (status <> 'Converted');
+
+CREATE POLICY "Only admins can delete quotations"
+ON public.quotations FOR DELETE TO authenticated
+USING (is_admin(auth.uid()) AND status <> 'Converted');
+
+CREATE POLICY "Admin and staff can view quotation lines"
+ON public.quotation_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Create a quotation: each line is {product_id, quantity, unit, unit_price, discount_percent},
+-- with the same defaults as post_sales_invoice. The GST rate and HSN code are captured from
+-- the product so the quote prints the same later even if the product changes.
+CREATE OR REPLACE FUNCTION public.create_quotation(
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _customer_gstin TEXT,
+  _customer_address TEXT,
+  _inter_state BOOLEAN,
+  _quotation_date DATE,
+  _valid_until DATE,
+  _terms TEXT,
+  _notes TEXT,
+  _lines JSONB,
+  _customer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote_id UUID;
+  cust public.customers%ROWTYPE;
+  bill_to TEXT;
+  line JSONB;
+  prod public.products%ROWTYPE;
+  quoted_unit TEXT;
+  factor NUMERIC;
+  qty NUMERIC;
+  price NUMERIC;
+  discount NUMERIC;
+  rate NUMERIC;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to create quotations' USING ERRCODE = '42501';
+  END IF;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT * INTO cust FROM public.customers WHERE id = _customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  bill_to := COALESCE(NULLIF(trim(_customer_name), ''), cust.name);
+  IF bill_to IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'A quotation needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.quotations (
+    quotation_date, valid_until, customer_id, customer_name, customer_phone, customer_gstin, customer_address,
+    inter_state, terms, notes, created_by
+  )
+  VALUES (
+    COALESCE(_quotation_date, CURRENT_DATE), COALESCE(_valid_until, COALESCE(_quotation_date, CURRENT_DATE) + 30),
+    _customer_id, bill_to,
+    COALESCE(NULLIF(trim(_customer_phone), ''), cust.phone),
+    COALESCE(NULLIF(upper(trim(_customer_gstin)), ''), cust.gstin),
+    COALESCE(NULLIF(trim(_customer_address), ''), cust.address),
+    COALESCE(_inter_state, false), NULLIF(trim(_terms), ''), NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING id INTO quote_id;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO prod FROM public.products WHERE id = (line ->> 'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    quoted_unit := COALESCE(NULLIF(line ->> 'unit', ''), prod.unit);
+    factor := public.unit_factor(prod.id, quoted_unit);
+    IF factor IS NULL THEN
+      RAISE EXCEPTION 'Unit % is not defined for %', quoted_unit, prod.name USING ERRCODE = '22023';
+    END IF;
+
+    qty := (line ->> 'quantity')::NUMERIC;
+    IF qty IS NULL OR qty <= 0 OR qty <> round(qty, public.unit_decimal_places(quoted_unit)) THEN
+      RAISE EXCEPTION 'Quantity % is not valid for % (%)', qty, prod.name, quoted_unit USING ERRCODE = '22023';
+    END IF;
+
+    price := round(COALESCE((line ->> 'unit_price')::NUMERIC, prod.selling_price * factor), 2);
+    discount := COALESCE((line ->> 'discount_percent')::NUMERIC, 0);
+    IF price < 0 OR discount < 0 OR discount > 100 THEN
+      RAISE EXCEPTION 'Invalid price or discount for %', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+    IF rate IS NULL THEN
+      RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.quotation_lines (
+      quotation_id, product_id, description, hsn_code, quantity, unit, unit_price, discount_percent, gst_rate
+    )
+    VALUES (
+      quote_id, prod.id, prod.name,
+      COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+      qty, quoted_unit, price, discount, rate
+    );
+  END LOOP;
+
+  RETURN quote_id;
+END;
+$$;
+
+-- Convert an accepted quotation: each line issues what is in stock as an OUT movement
+-- referenced by the quotation number, and raises an Open requirement for the rest.
+CREATE OR REPLACE FUNCTION public.convert_quotation(_quotation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote public.quotations%ROWTYPE;
+  line public.quotation_lines%ROWTYPE;
+  needed NUMERIC;
+  available NUMERIC;
+  issued NUMERIC;
+  movement_id UUID;
+  req_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to convert quotations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO quote FROM public.quotations WHERE id = _quotation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF quote.status <> 'Accepted' THEN
+    RAISE EXCEPTION 'Only accepted quotations can be converted (this one is %)', quote.status USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN SELECT * FROM public.quotation_lines WHERE quotation_id = _quotation_id ORDER BY created_at LOOP
+    needed := line.quantity * public.unit_factor(line.product_id, line.unit);
+    IF needed IS NULL THEN
+      RAISE EXCEPTION 'Unit % is no longer defined for %', line.unit, line.description USING ERRCODE = '22023';
+    END IF;
+
+    SELECT GREATEST(stock_qty, 0) INTO available FROM public.products WHERE id = line.product_id FOR UPDATE;
+    issued := LEAST(needed, available);
+    movement_id := NULL;
+    req_id := NULL;
+
+    IF issued > 0 THEN
+      INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, customer_id)
+      VALUES (line.product_id, 'OUT', issued, quote.quotation_number, 'Issued against quotation for ' || quote.customer_name, quote.customer_id)
+      RETURNING id INTO movement_id;
+    END IF;
+
+    IF needed > issued THEN
+      INSERT INTO public.requirements (product_id, needed_qty, priority, notes)
+      VALUES (line.product_id, needed - issued, 'High', 'Shortfall for ' || quote.quotation_number || ' (' || quote.customer_name || ')')
+      RETURNING id INTO req_id;
+    END IF;
+
+    UPDATE public.quotation_lines
+    SET issued_qty = issued, stock_movement_id = movement_id, requirement_id = req_id
+    WHERE id = line.id;
+  END LOOP;
+
+  UPDATE public.quotations
+  SET status = 'Converted', converted_at = now()
+  WHERE id = _quotation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_quotation(text, text, text, text, boolean, date, date, text, text, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_quotation(text, text, text, text, boolean, date, date, text, text, jsonb, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.convert_quotation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.convert_quotation(uuid) TO authenticated;
@@ -0,0 +1,165 @@
+-- Projects / government works: material issued to and returned from a job site is booked
+-- as PROJECT_ISSUE / PROJECT_RETURN movements against the project, valued at cost.
+
+CREATE TABLE public.projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_order_no TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  department TEXT,
+  site TEXT,
+  budget DECIMAL(12, 2) NOT NULL DEFAULT 0 CHECK (budget >= 0),
+  status TEXT NOT NULL DEFAULT 'Active' CHECK (status IN ('Active', 'On Hold', 'Completed')),
+  start_date DATE,
+  end_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
+);
+
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admin and staff can view projects"
+ON public.projects FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert projects"
+ON public.projects FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update projects"
+ON public.projects FOR UPDATE TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete projects"
+ON public.projects FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+-- unit_cost is per base unit, captured when the movement is posted so later price
+-- changes do not rewrite what a project has already consumed
+ALTER TABLE public.stock_movements
+ADD COLUMN project_id UUID REFERENCES public.projects(id),
+ADD COLUMN unit_cost DECIMAL(10, 2);
+
+CREATE INDEX idx_stock_movements_project ON public.stock_movements (project_id) WHERE project_id IS NOT NULL;
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_movement_type_check
+CHECK (movement_type IN ('IN', 'OUT', 'ADJUST', 'PROJECT_ISSUE', 'PROJECT_RETURN'));
+
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_project_check
+CHECK ((movement_type IN ('PROJECT_ISSUE', 'PROJECT_RETURN')) = (project_id IS NOT NULL));
+
+CREATE OR REPLACE FUNCTION public.movement_sign(_movement_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _movement_type
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    WHEN 'ADJUST' THEN 1
+    WHEN 'PROJECT_ISSUE' THEN -1
+    WHEN 'PROJECT_RETURN' THEN 1
+    ELSE 0
+  END
+$$;
+
+-- Issues need an active project and are costed at the current purchase price. Returns
+-- cannot exceed what the project still holds and are credited at its average issue cost.
+CREATE OR REPLACE FUNCTION public.validate_project_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  proj public.projects%ROWTYPE;
+  held NUMERIC;
+  issued_value NUMERIC;
+  issued_qty NUMERIC;
+BEGIN
+  SELECT * INTO proj FROM public.projects WHERE id = NEW.project_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Project not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NEW.movement_type = 'PROJECT_ISSUE' THEN
+    IF proj.status <> 'Active' THEN
+      RAISE EXCEPTION 'Project % is %; only active projects can be issued stock', proj.work_order_no, proj.status
+        USING ERRCODE = '22023';
+    END IF;
+    SELECT purchase_price INTO NEW.unit_cost FROM public.products WHERE id = NEW.product_id;
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(-public.movement_sign(movement_type) * quantity), 0),
+    COALESCE(SUM(quantity * unit_cost) FILTER (WHERE movement_type = 'PROJECT_ISSUE'), 0),
+    COALESCE(SUM(quantity) FILTER (WHERE movement_type = 'PROJECT_ISSUE'), 0)
+  INTO held, issued_value, issued_qty
+  FROM public.stock_movements
+  WHERE project_id = NEW.project_id AND product_id = NEW.product_id;
+
+  IF NEW.quantity > held THEN
+    RAISE EXCEPTION 'Cannot return % to stock; project % only holds %', NEW.quantity, proj.work_order_no, held
+      USING ERRCODE = '22023';
+  END IF;
+
+  NEW.unit_cost := round(issued_value / NULLIF(issued_qty, 0), 2);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_project_movement
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.project_id IS NOT NULL)
+  EXECUTE FUNCTION public.validate_project_movement();
+
+COMMENT ON FUNCTION public.validate_project_movement() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read project and product cost data for the movement being written.
+Only called via trigger on stock_movements.
+Never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.validate_project_movement() FROM PUBLIC, anon, authenticated;
+
+-- Material consumed per project: value issued, value returned and the net cost against budget
+CREATE OR REPLACE FUNCTION public.get_project_costs()
+RETURNS TABLE (
+  project_id UUID,
+  issued_value NUMERIC,
+  returned_value NUMERIC,
+  net_cost NUMERIC,
+  movement_count BIGINT,
+  last_movement_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to view project costs' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.project_id,
+    round(COALESCE(SUM(m.quantity * m.unit_cost) FILTER (WHERE m.movement_type = 'PROJECT_ISSUE'), 0), 2),
+    round(COALESCE(SUM(m.quantity * m.unit_cost) FILTER (WHERE m.movement_type = 'PROJECT_RETURN'), 0), 2),
+    round(COALESCE(SUM(-public.movement_sign(m.movement_type) * m.quantity * m.unit_cost), 0), 2),
+    COUNT(*),
+    MAX(m.movement_date)
+  FROM public.stock_movements m
+  WHERE m.project_id IS NOT NULL
+  GROUP BY m.project_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_project_costs() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_project_costs() TO authenticated;
@@ -0,0 +1,233 @@
+-- Bills of quantities for tenders, priced from the catalog. Awarding a BOQ raises
+-- requirements for whatever current stock cannot cover.
+
+CREATE SEQUENCE IF NOT EXISTS public.boq_number_seq;
+
+CREATE TABLE public.boqs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  boq_number TEXT UNIQUE NOT NULL DEFAULT 'BOQ-' || lpad(nextval('public.boq_number_seq')::TEXT, 5, '0'),
+  boq_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  title TEXT NOT NULL,
+  tender_ref TEXT,
+  department TEXT,
+  inter_state BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'Draft' CHECK (status IN ('Draft', 'Submitted', 'Awarded', 'Lost')),
+  notes TEXT,
+  awarded_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- unit_price is the quoted rate before tax and cost_price the purchase cost, both per
+-- quoted unit; price_basis records which catalog price the rate started from
+CREATE TABLE public.boq_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  boq_id UUID REFERENCES public.boqs(id) ON DELETE CASCADE NOT NULL,
+  line_no INTEGER NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  description TEXT NOT NULL,
+  hsn_code TEXT,
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+  unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE NOT NULL,
+  price_basis TEXT NOT NULL DEFAULT 'Selling' CHECK (price_basis IN ('MRP', 'Selling', 'Purchase', 'Manual')),
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  cost_price DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  gst_rate NUMERIC(4, 2) NOT NULL,
+  requirement_id UUID REFERENCES public.requirements(id) ON DELETE SET NULL,
+  UNIQUE (boq_id, line_no)
+);
+
+ALTER TABLE public.boqs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.boq_lines ENABLE ROW LEVEL SECURITY;
+
+-- BOQs and their lines are written through save_boq and award_boq; direct updates only move
+-- the status between the non-awarded states
+CREATE POLICY "Admin and staff can view BOQs"
+ON public.boqs FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update BOQs"
+ON public.boqs FOR UPDATE TO authenticated
+USING (can_write(auth.uid()) AND status <> 'Awarded')
+WITH CHECK (status <> 'Awarded');
+
+CREATE POLICY "Only admins can delete BOQs"
+ON public.boqs FOR DELETE TO authenticated
+USING (is_admin(auth.uid()) AND status <> 'Awarded');
+
+CREATE POLICY "Admin and staff can view BOQ lines"
+ON public.boq_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Create a BOQ, or replace the header and lines of one that has not been awarded.
+-- Each line is {product_id, quantity, unit, price_basis, unit_price}; cost, GST rate and
+-- HSN code are taken from the product at save time.
+CREATE OR REPLACE FUNCTION public.save_boq(
+  _title TEXT,
+  _tender_ref TEXT,
+  _department TEXT,
+  _boq_date DATE,
+  _inter_state BOOLEAN,
+  _notes TEXT,
+  _lines JSONB,
+  _boq_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  saved_id UUID := _boq_id;
+  current_status TEXT;
+  line JSONB;
+  line_number INTEGER := 0;
+  prod public.products%ROWTYPE;
+  quoted_unit TEXT;
+  factor NUMERIC;
+  qty NUMERIC;
+  price NUMERIC;
+  rate NUMERIC;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to save BOQs' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(trim(_title), '') IS NULL THEN
+    RAISE EXCEPTION 'BOQ title is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'A BOQ needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  IF saved_id IS NULL THEN
+    INSERT INTO public.boqs (boq_date, title, tender_ref, department, inter_state, notes, created_by)
+    VALUES (
+      COALESCE(_boq_date, CURRENT_DATE), trim(_title), NULLIF(trim(_tender_ref), ''), NULLIF(trim(_department), ''),
+      COALESCE(_inter_state, false), NULLIF(trim(_notes), ''), auth.uid()
+    )
+    RETURNING id INTO saved_id;
+  ELSE
+    SELECT status INTO current_status FROM public.boqs WHERE id = saved_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'BOQ not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF current_status = 'Awarded' THEN
+      RAISE EXCEPTION 'An awarded BOQ can no longer be edited' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.boqs
+    SET boq_date = COALESCE(_boq_date, boq_date),
+        title = trim(_title),
+        tender_ref = NULLIF(trim(_tender_ref), ''),
+        department = NULLIF(trim(_department), ''),
+        inter_state = COALESCE(_inter_state, false),
+        notes = NULLIF(trim(_notes), '')
+    WHERE id = saved_id;
+
+    DELETE FROM public.boq_lines WHERE boq_id = saved_id;
+  END IF;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO prod FROM public.products WHERE id = (line ->> 'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    quoted_unit := COALESCE(NULLIF(line ->> 'unit', ''), prod.unit);
+    factor := public.unit_factor(prod.id, quoted_unit);
+    IF factor IS NULL THEN
+      RAISE EXCEPTION 'Unit % is not defined for %', quoted_unit, prod.name USING ERRCODE = '22023';
+    END IF;
+
+    qty := (line ->> 'quantity')::NUMERIC;
+    IF qty IS NULL OR qty <= 0 OR qty <> round(qty, public.unit_decimal_places(quoted_unit)) THEN
+      RAISE EXCEPTION 'Quantity % is not valid for % (%)', qty, prod.name, quoted_unit USING ERRCODE = '22023';
+    END IF;
+
+    price := round(COALESCE((line ->> 'unit_price')::NUMERIC, prod.selling_price * factor), 2);
+    IF price < 0 THEN
+      RAISE EXCEPTION 'Invalid rate for %', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+    IF rate IS NULL THEN
+      RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    line_number := line_number + 1;
+    INSERT INTO public.boq_lines (
+      boq_id, line_no, product_id, description, hsn_code, quantity, unit, price_basis, unit_price, cost_price, gst_rate
+    )
+    VALUES (
+      saved_id, line_number, prod.id, prod.name,
+      COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+      qty, quoted_unit, COALESCE(NULLIF(line ->> 'price_basis', ''), 'Manual'), price,
+      round(prod.purchase_price * factor, 2), rate
+    );
+  END LOOP;
+
+  RETURN saved_id;
+END;
+$$;
+
+-- Award a BOQ: for each product, the quantity across all its lines that current stock
+-- cannot cover is raised as one High-priority requirement, linked back to those lines.
+CREATE OR REPLACE FUNCTION public.award_boq(_boq_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  boq public.boqs%ROWTYPE;
+  need RECORD;
+  req_id UUID;
+  raised INTEGER := 0;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to award BOQs' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO boq FROM public.boqs WHERE id = _boq_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'BOQ not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF boq.status NOT IN ('Draft', 'Submitted') THEN
+    RAISE EXCEPTION 'This BOQ is already %', boq.status USING ERRCODE = '22023';
+  END IF;
+
+  FOR need IN
+    SELECT l.product_id, SUM(l.quantity * public.unit_factor(l.product_id, l.unit)) - GREATEST(p.stock_qty, 0) AS shortfall
+    FROM public.boq_lines l
+    JOIN public.products p ON p.id = l.product_id
+    WHERE l.boq_id = _boq_id
+    GROUP BY l.product_id, p.stock_qty
+  LOOP
+    IF need.shortfall > 0 THEN
+      INSERT INTO public.requirements (product_id, needed_qty, priority, notes)
+      VALUES (need.product_id, need.shortfall, 'High', 'Awarded ' || boq.boq_number || ': ' || boq.title)
+      RETURNING id INTO req_id;
+
+      UPDATE public.boq_lines
+      SET requirement_id = req_id
+      WHERE boq_id = _boq_id AND product_id = need.product_id;
+
+      raised := raised + 1;
+    END IF;
+  END LOOP;
+
+  UPDATE public.boqs
+  SET status = 'Awarded', awarded_at = now()
+  WHERE id = _boq_id;
+
+  RETURN raised;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_boq(text, text, text, date, boolean, text, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_boq(text, text, text, date, boolean, text, jsonb, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.award_boq(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.award_boq(uuid) TO authenticated;
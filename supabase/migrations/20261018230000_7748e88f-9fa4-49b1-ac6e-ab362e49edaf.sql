@@ -0,0 +1,243 @@
+-- Repair job cards for armature, fan winding, mixer grinder and motor work. Parts fitted
+-- during a repair leave stock as OUT movements referenced by the job number; the bill is
+-- the parts at selling price plus the labour charge.
+
+CREATE SEQUENCE IF NOT EXISTS public.job_card_number_seq;
+
+CREATE TABLE public.job_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_number TEXT UNIQUE NOT NULL DEFAULT 'JOB-' || lpad(nextval('public.job_card_number_seq')::TEXT, 5, '0'),
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  customer_id UUID REFERENCES public.customers(id),
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT,
+  appliance_type TEXT NOT NULL CHECK (appliance_type IN ('Armature', 'Fan', 'Mixer Grinder', 'Motor', 'Other')),
+  appliance_details TEXT,
+  serial_no TEXT,
+  fault TEXT NOT NULL,
+  diagnosis TEXT,
+  status TEXT NOT NULL DEFAULT 'Received' CHECK (status IN ('Received', 'In Repair', 'Ready', 'Delivered')),
+  promised_date DATE,
+  estimate DECIMAL(10, 2) CHECK (estimate >= 0),
+  advance_paid DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (advance_paid >= 0),
+  labour_charge DECIMAL(10, 2) NOT NULL DEFAULT 0 CHECK (labour_charge >= 0),
+  labour_gst_rate NUMERIC(4, 2) NOT NULL DEFAULT 18 CHECK (labour_gst_rate IN (0, 5, 12, 18, 28)),
+  ready_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (promised_date IS NULL OR promised_date >= received_date)
+);
+
+-- quantity and unit_price are as billed, in the unit the part was fitted in
+CREATE TABLE public.job_card_parts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_card_id UUID REFERENCES public.job_cards(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  stock_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  description TEXT NOT NULL,
+  hsn_code TEXT,
+  quantity NUMERIC(12, 3) NOT NULL CHECK (quantity > 0),
+  unit TEXT REFERENCES public.units(code) ON UPDATE CASCADE NOT NULL,
+  unit_price DECIMAL(10, 2) NOT NULL CHECK (unit_price >= 0),
+  gst_rate NUMERIC(4, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_job_cards_status ON public.job_cards (status);
+CREATE INDEX idx_job_card_parts_job_card ON public.job_card_parts (job_card_id);
+
+ALTER TABLE public.job_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.job_card_parts ENABLE ROW LEVEL SECURITY;
+
+-- A delivered job is closed: its bill no longer changes
+CREATE POLICY "Admin and staff can view job cards"
+ON public.job_cards FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can insert job cards"
+ON public.job_cards FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()) AND status = 'Received');
+
+CREATE POLICY "Admin and staff can update job cards"
+ON public.job_cards FOR UPDATE TO authenticated
+USING (can_write(auth.uid()) AND status <> 'Delivered')
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete job cards"
+ON public.job_cards FOR DELETE TO authenticated
+USING (is_admin(auth.uid()) AND status = 'Received');
+
+-- Parts are written only through add_job_card_part / remove_job_card_part so stock follows them
+CREATE POLICY "Admin and staff can view job card parts"
+ON public.job_card_parts FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+-- Jobs move one step at a time: Received -> In Repair -> Ready -> Delivered. A job that
+-- fails testing can go back from Ready to In Repair.
+CREATE OR REPLACE FUNCTION public.validate_job_card_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'Received' AND NEW.status = 'In Repair') OR
+    (OLD.status = 'In Repair' AND NEW.status = 'Ready') OR
+    (OLD.status = 'Ready' AND NEW.status IN ('In Repair', 'Delivered'))
+  ) THEN
+    RAISE EXCEPTION 'Job % cannot move from % to %', OLD.job_number, OLD.status, NEW.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.status = 'Ready' THEN
+    NEW.ready_at := now();
+  ELSIF NEW.status = 'In Repair' THEN
+    NEW.ready_at := NULL;
+  ELSIF NEW.status = 'Delivered' THEN
+    NEW.delivered_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_job_card_status
+  BEFORE UPDATE OF status ON public.job_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_job_card_status();
+
+COMMENT ON FUNCTION public.validate_job_card_status() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to stamp job card status timestamps.
+Only called via trigger on job_cards.
+Never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.validate_job_card_status() FROM PUBLIC, anon, authenticated;
+
+-- Fit a part on a job that is in repair: books an OUT movement against the job number and
+-- bills the part at its selling price for the fitted unit unless a price is given.
+CREATE OR REPLACE FUNCTION public.add_job_card_part(
+  _job_card_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _unit TEXT,
+  _unit_price NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.job_cards%ROWTYPE;
+  prod public.products%ROWTYPE;
+  fitted_unit TEXT;
+  factor NUMERIC;
+  price NUMERIC;
+  rate NUMERIC;
+  movement_id UUID;
+  part_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to update job cards' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM public.job_cards WHERE id = _job_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job card not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF job.status <> 'In Repair' THEN
+    RAISE EXCEPTION 'Parts can only be fitted while the job is In Repair (% is %)', job.job_number, job.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO prod FROM public.products WHERE id = _product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  fitted_unit := COALESCE(NULLIF(_unit, ''), prod.unit);
+  factor := public.unit_factor(prod.id, fitted_unit);
+  IF factor IS NULL THEN
+    RAISE EXCEPTION 'Unit % is not defined for %', fitted_unit, prod.name USING ERRCODE = '22023';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 OR _quantity <> round(_quantity, public.unit_decimal_places(fitted_unit)) THEN
+    RAISE EXCEPTION 'Quantity % is not valid for % (%)', _quantity, prod.name, fitted_unit USING ERRCODE = '22023';
+  END IF;
+
+  price := round(COALESCE(_unit_price, prod.selling_price * factor), 2);
+  IF price < 0 THEN
+    RAISE EXCEPTION 'Invalid price for %', prod.name USING ERRCODE = '22023';
+  END IF;
+
+  rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+  IF rate IS NULL THEN
+    RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+  END IF;
+
+  -- apply_stock_movement_unit converts the fitted quantity to the base unit
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes, customer_id)
+  VALUES (prod.id, 'OUT', _quantity * factor, _quantity, fitted_unit, job.job_number,
+          'Fitted in repair for ' || job.customer_name, job.customer_id)
+  RETURNING id INTO movement_id;
+
+  INSERT INTO public.job_card_parts (
+    job_card_id, product_id, stock_movement_id, description, hsn_code, quantity, unit, unit_price, gst_rate
+  )
+  VALUES (
+    job.id, prod.id, movement_id, prod.name,
+    COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+    _quantity, fitted_unit, price, rate
+  )
+  RETURNING id INTO part_id;
+
+  RETURN part_id;
+END;
+$$;
+
+-- Take a part back off a job that is still in repair: the part goes back into stock with
+-- an IN movement against the job number and drops off the bill.
+CREATE OR REPLACE FUNCTION public.remove_job_card_part(_part_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  part public.job_card_parts%ROWTYPE;
+  job public.job_cards%ROWTYPE;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to update job cards' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO part FROM public.job_card_parts WHERE id = _part_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Part not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO job FROM public.job_cards WHERE id = part.job_card_id FOR UPDATE;
+  IF job.status <> 'In Repair' THEN
+    RAISE EXCEPTION 'Parts can only be removed while the job is In Repair (% is %)', job.job_number, job.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes, customer_id)
+  VALUES (part.product_id, 'IN', part.quantity * public.unit_factor(part.product_id, part.unit), part.quantity, part.unit,
+          job.job_number, 'Removed from repair for ' || job.customer_name, job.customer_id);
+
+  DELETE FROM public.job_card_parts WHERE id = _part_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_job_card_part(uuid, uuid, numeric, text, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_job_card_part(uuid, uuid, numeric, text, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.remove_job_card_part(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.remove_job_card_part(uuid) TO authenticated;
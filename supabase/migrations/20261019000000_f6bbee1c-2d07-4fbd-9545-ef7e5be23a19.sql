@@ -0,0 +1,484 @@
+-- Stock held in more than one place (shop counter and godown). products.stock_qty stays
+-- the total across locations; product_locations holds the balance at each location. A
+-- TRANSFER movement moves quantity from location_id to to_location_id and leaves the
+-- total unchanged.
+--
+-- Every balance now comes from a movement. A product's opening stock is recorded as an
+-- OPENING movement, and an ADJUST quantity is the signed change a count made, applied like
+-- any other movement, so the ledger adds up to stock_qty at each location and in total.
+
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+INSERT INTO public.locations (code, name, is_default) VALUES
+  ('SHOP', 'Shop Counter', true),
+  ('GODOWN', 'Godown', false);
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view locations"
+ON public.locations FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admin and staff can insert locations"
+ON public.locations FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()) AND NOT is_default);
+
+-- The default location only changes through set_default_location (see guard_default_location)
+CREATE POLICY "Admin and staff can update locations"
+ON public.locations FOR UPDATE TO authenticated
+USING (can_write(auth.uid()))
+WITH CHECK (can_write(auth.uid()));
+
+CREATE POLICY "Only admins can delete locations"
+ON public.locations FOR DELETE TO authenticated
+USING (is_admin(auth.uid()) AND NOT is_default);
+
+-- min_stock_level is optional: NULL means the location has no minimum of its own
+CREATE TABLE public.product_locations (
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE NOT NULL,
+  stock_qty NUMERIC(12, 3) NOT NULL DEFAULT 0,
+  min_stock_level NUMERIC(12, 3) CHECK (min_stock_level >= 0),
+  PRIMARY KEY (product_id, location_id)
+);
+
+CREATE INDEX idx_product_locations_location ON public.product_locations (location_id);
+
+ALTER TABLE public.product_locations ENABLE ROW LEVEL SECURITY;
+
+-- Balances are written only by handle_stock_movement; minimums through set_location_min_stock
+CREATE POLICY "Anyone authenticated can view product locations"
+ON public.product_locations FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+-- Existing stock is all at the shop
+INSERT INTO public.product_locations (product_id, location_id, stock_qty)
+SELECT p.id, l.id, p.stock_qty
+FROM public.products p
+CROSS JOIN public.locations l
+WHERE l.code = 'SHOP';
+
+ALTER TABLE public.stock_movements
+ADD COLUMN location_id UUID REFERENCES public.locations(id),
+ADD COLUMN to_location_id UUID REFERENCES public.locations(id);
+
+UPDATE public.stock_movements
+SET location_id = (SELECT id FROM public.locations WHERE code = 'SHOP');
+
+ALTER TABLE public.stock_movements ALTER COLUMN location_id SET NOT NULL;
+
+CREATE INDEX idx_stock_movements_location ON public.stock_movements (location_id);
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_movement_type_check
+CHECK (movement_type IN ('IN', 'OUT', 'ADJUST', 'PROJECT_ISSUE', 'PROJECT_RETURN', 'TRANSFER', 'OPENING'));
+
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_transfer_check
+CHECK ((movement_type = 'TRANSFER') = (to_location_id IS NOT NULL) AND to_location_id IS DISTINCT FROM location_id);
+
+-- A transfer moves stock between locations; the product total does not change
+CREATE OR REPLACE FUNCTION public.movement_sign(_movement_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _movement_type
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    WHEN 'ADJUST' THEN 1
+    WHEN 'PROJECT_ISSUE' THEN -1
+    WHEN 'PROJECT_RETURN' THEN 1
+    WHEN 'TRANSFER' THEN 0
+    WHEN 'OPENING' THEN 1
+    ELSE 0
+  END
+$$;
+
+-- Opening balances are only written with the product (see open_product_location)
+DROP POLICY IF EXISTS "Admin and staff can insert stock movements" ON public.stock_movements;
+CREATE POLICY "Admin and staff can insert stock movements"
+ON public.stock_movements FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()) AND movement_type <> 'OPENING' AND (movement_type <> 'ADJUST' OR is_admin(auth.uid())));
+
+CREATE OR REPLACE FUNCTION public.default_location_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT id FROM public.locations WHERE is_default ORDER BY created_at LIMIT 1
+$$;
+
+-- Movements posted without a location (sales invoices, goods receipts, project issues and
+-- so on) happen at the default location.
+CREATE OR REPLACE FUNCTION public.apply_default_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.location_id := public.default_location_id();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_default_location
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.location_id IS NULL)
+  EXECUTE FUNCTION public.apply_default_location();
+
+COMMENT ON FUNCTION public.apply_default_location() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read the default location for the movement being written.
+Only called via trigger on stock_movements.
+Never expose as RPC endpoint.';
+
+-- A transfer cannot move more than the source location holds. The balance row is locked
+-- so two transfers out of the same location cannot both pass the check.
+CREATE OR REPLACE FUNCTION public.validate_transfer_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  available NUMERIC;
+BEGIN
+  IF NEW.quantity <= 0 THEN
+    RAISE EXCEPTION 'Transfer quantity must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT stock_qty INTO available
+  FROM public.product_locations
+  WHERE product_id = NEW.product_id AND location_id = NEW.location_id
+  FOR UPDATE;
+
+  IF NEW.quantity > COALESCE(available, 0) THEN
+    RAISE EXCEPTION 'Cannot transfer %; only % held at %', NEW.quantity, COALESCE(available, 0),
+      (SELECT name FROM public.locations WHERE id = NEW.location_id)
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_transfer_movement
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.movement_type = 'TRANSFER')
+  EXECUTE FUNCTION public.validate_transfer_movement();
+
+COMMENT ON FUNCTION public.validate_transfer_movement() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read and lock the location balance for the movement being written.
+Only called via trigger on stock_movements.
+Never expose as RPC endpoint.';
+
+-- IN/OUT/ADJUST/project movements change the location balance and the product total by
+-- the same amount. TRANSFER changes two location balances and not the total. OPENING
+-- records a balance open_product_location has already written, so it changes nothing.
+CREATE OR REPLACE FUNCTION public.handle_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change NUMERIC;
+BEGIN
+  IF NEW.movement_type = 'OPENING' THEN
+    RETURN NEW;
+  ELSIF NEW.movement_type = 'TRANSFER' THEN
+    UPDATE public.product_locations
+    SET stock_qty = stock_qty - NEW.quantity
+    WHERE product_id = NEW.product_id AND location_id = NEW.location_id;
+
+    INSERT INTO public.product_locations AS pl (product_id, location_id, stock_qty)
+    VALUES (NEW.product_id, NEW.to_location_id, NEW.quantity)
+    ON CONFLICT (product_id, location_id) DO UPDATE SET stock_qty = pl.stock_qty + EXCLUDED.stock_qty;
+  ELSE
+    change := public.movement_sign(NEW.movement_type) * NEW.quantity;
+
+    INSERT INTO public.product_locations AS pl (product_id, location_id, stock_qty)
+    VALUES (NEW.product_id, NEW.location_id, change)
+    ON CONFLICT (product_id, location_id) DO UPDATE SET stock_qty = pl.stock_qty + EXCLUDED.stock_qty;
+
+    UPDATE public.products
+    SET stock_qty = stock_qty + change
+    WHERE id = NEW.product_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Opening stock entered with a new product is held at the default location, and recorded
+-- in the ledger as its OPENING movement
+CREATE OR REPLACE FUNCTION public.open_product_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.product_locations (product_id, location_id, stock_qty)
+  VALUES (NEW.id, public.default_location_id(), NEW.stock_qty);
+
+  IF NEW.stock_qty <> 0 THEN
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id)
+    VALUES (NEW.id, 'OPENING', NEW.stock_qty, 'OPENING', 'Opening balance', public.default_location_id());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_created
+  AFTER INSERT ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.open_product_location();
+
+COMMENT ON FUNCTION public.open_product_location() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to write the opening location balance and movement for a new product.
+Only called via trigger on products.
+Never expose as RPC endpoint.';
+
+-- Stock that is not in the ledger yet (opening stock entered with a product, and imports
+-- that overwrote stock_qty) becomes each product's opening balance at the shop, where the
+-- backfill above put it
+INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id, movement_date)
+SELECT p.id, 'OPENING', p.stock_qty - l.ledger_qty, 'OPENING', 'Opening balance', s.id, COALESCE(p.created_at, now())
+FROM public.products p
+CROSS JOIN LATERAL (SELECT public.ledger_stock_qty(p.id) AS ledger_qty) l
+CROSS JOIN public.locations s
+WHERE s.code = 'SHOP' AND p.stock_qty <> l.ledger_qty;
+
+-- stock_qty follows movements from here on. Postings are SECURITY DEFINER, so current_user
+-- is the API role only for a direct edit from the app.
+CREATE OR REPLACE FUNCTION public.guard_product_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    RAISE EXCEPTION 'Stock can only be changed through stock movements' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_product_stock
+  BEFORE UPDATE OF stock_qty ON public.products
+  FOR EACH ROW
+  WHEN (OLD.stock_qty IS DISTINCT FROM NEW.stock_qty)
+  EXECUTE FUNCTION public.guard_product_stock();
+
+-- Low stock is checked on the product total against products.min_stock_level, and on each
+-- location against its own minimum where one is set. A location shortfall that stock
+-- spare at other locations can cover calls for a transfer, not a purchase, so only the
+-- remainder becomes a requirement.
+CREATE OR REPLACE FUNCTION public.check_low_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_product UUID;
+  shortfall NUMERIC;
+  reason TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'product_locations' THEN
+    IF NEW.min_stock_level IS NULL OR NEW.stock_qty >= NEW.min_stock_level THEN
+      RETURN NEW;
+    END IF;
+
+    SELECT NEW.min_stock_level - NEW.stock_qty
+           - COALESCE(SUM(GREATEST(stock_qty - COALESCE(min_stock_level, 0), 0)), 0)
+    INTO shortfall
+    FROM public.product_locations
+    WHERE product_id = NEW.product_id AND location_id <> NEW.location_id;
+
+    target_product := NEW.product_id;
+    reason := 'Auto-generated: Stock at ' || (SELECT name FROM public.locations WHERE id = NEW.location_id)
+      || ' below minimum level';
+  ELSE
+    shortfall := NEW.min_stock_level - NEW.stock_qty;
+    target_product := NEW.id;
+    reason := 'Auto-generated: Stock below minimum level';
+  END IF;
+
+  IF shortfall > 0 AND NOT EXISTS (
+    SELECT 1 FROM public.requirements
+    WHERE product_id = target_product
+    AND status IN ('Open', 'Ordered')
+  ) THEN
+    INSERT INTO public.requirements (product_id, needed_qty, priority, notes)
+    VALUES (target_product, shortfall, 'High', reason);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_product_location_stock_update
+  AFTER UPDATE OF stock_qty ON public.product_locations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_low_stock();
+
+COMMENT ON FUNCTION public.check_low_stock() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to create requirement records.
+Only called via triggers on products and product_locations when stock falls below minimum.
+Bypasses RLS to allow automatic requirement generation - never expose as RPC endpoint.';
+
+-- Set or clear (NULL) a product's minimum at one location
+CREATE OR REPLACE FUNCTION public.set_location_min_stock(_product_id UUID, _location_id UUID, _min_stock_level NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to change stock levels' USING ERRCODE = '42501';
+  END IF;
+
+  IF _min_stock_level < 0 THEN
+    RAISE EXCEPTION 'Minimum stock cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.products WHERE id = _product_id)
+     OR NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Product or location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.product_locations (product_id, location_id, min_stock_level)
+  VALUES (_product_id, _location_id, _min_stock_level)
+  ON CONFLICT (product_id, location_id) DO UPDATE SET min_stock_level = EXCLUDED.min_stock_level;
+END;
+$$;
+
+-- set_default_location is SECURITY DEFINER, so current_user is the API role only for a
+-- direct edit from the app
+CREATE OR REPLACE FUNCTION public.guard_default_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated' THEN
+    RAISE EXCEPTION 'The default location can only be changed through set_default_location' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_default_location
+  BEFORE UPDATE OF is_default ON public.locations
+  FOR EACH ROW
+  WHEN (OLD.is_default IS DISTINCT FROM NEW.is_default)
+  EXECUTE FUNCTION public.guard_default_location();
+
+CREATE OR REPLACE FUNCTION public.set_default_location(_location_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change the default location' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.locations
+  SET is_default = (id = _location_id)
+  WHERE is_default OR id = _location_id;
+END;
+$$;
+
+-- With _location_id the count is for that location alone; without it, for the product
+-- total, with the difference taken up at the default location where the movement lands.
+-- The movement's quantity is the change the count makes to the balance held now.
+DROP FUNCTION IF EXISTS public.post_stock_adjustment(uuid, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.post_stock_adjustment(
+  _product_id UUID,
+  _actual_qty NUMERIC,
+  _reason TEXT,
+  _location_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement_id UUID;
+  change NUMERIC;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _actual_qty IS NULL OR _actual_qty < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with concurrent movements for this product
+  PERFORM 1 FROM public.products WHERE id = _product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _location_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _actual_qty <> round(_actual_qty, public.unit_decimal_places((SELECT unit FROM public.products WHERE id = _product_id))) THEN
+    RAISE EXCEPTION 'Quantity has more decimal places than the product unit allows' USING ERRCODE = '22023';
+  END IF;
+
+  change := _actual_qty - CASE
+    WHEN _location_id IS NULL THEN (SELECT stock_qty FROM public.products WHERE id = _product_id)
+    ELSE COALESCE((SELECT stock_qty FROM public.product_locations
+                   WHERE product_id = _product_id AND location_id = _location_id), 0)
+  END;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id)
+  VALUES (_product_id, 'ADJUST', change, 'RECONCILIATION', left(trim(_reason), 500), _location_id)
+  RETURNING id INTO movement_id;
+
+  RETURN movement_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.default_location_id() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.default_location_id() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_default_location() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.validate_transfer_movement() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_product_location() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_default_location() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_product_stock() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_location_min_stock(uuid, uuid, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_location_min_stock(uuid, uuid, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_default_location(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_default_location(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, numeric, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.post_stock_adjustment(uuid, numeric, text, uuid) TO authenticated;
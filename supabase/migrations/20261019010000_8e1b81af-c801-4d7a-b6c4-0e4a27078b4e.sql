@@ -0,0 +1,220 @@
+-- Physical stock takes. Starting a session snapshots the stock held at one location for the
+-- products in scope (optionally one category and/or supplier); counts are entered against
+-- that snapshot, and approval posts one ADJUST movement per variance, referenced by the
+-- session number.
+
+CREATE SEQUENCE IF NOT EXISTS public.stock_take_number_seq;
+
+CREATE TABLE public.stock_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_number TEXT UNIQUE NOT NULL DEFAULT 'ST-' || lpad(nextval('public.stock_take_number_seq')::TEXT, 5, '0'),
+  location_id UUID REFERENCES public.locations(id) NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'Counting' CHECK (status IN ('Counting', 'Approved', 'Cancelled')),
+  notes TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- expected_qty is the location balance when the session started; counted_qty stays NULL
+-- until the product has been counted
+CREATE TABLE public.stock_take_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id UUID REFERENCES public.stock_takes(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  expected_qty NUMERIC(12, 3) NOT NULL,
+  counted_qty NUMERIC(12, 3) CHECK (counted_qty >= 0),
+  counted_at TIMESTAMP WITH TIME ZONE,
+  counted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  stock_movement_id UUID REFERENCES public.stock_movements(id) ON DELETE SET NULL,
+  UNIQUE (stock_take_id, product_id)
+);
+
+CREATE INDEX idx_stock_take_lines_product ON public.stock_take_lines (product_id);
+
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_lines ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are started, counted and approved through the functions below; direct updates
+-- can only edit notes or cancel a session that is still counting
+CREATE POLICY "Admin and staff can view stock takes"
+ON public.stock_takes FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE POLICY "Admin and staff can update stock takes"
+ON public.stock_takes FOR UPDATE TO authenticated
+USING (can_write(auth.uid()) AND status = 'Counting')
+WITH CHECK (can_write(auth.uid()) AND status IN ('Counting', 'Cancelled'));
+
+CREATE POLICY "Only admins can delete stock takes"
+ON public.stock_takes FOR DELETE TO authenticated
+USING (is_admin(auth.uid()) AND status <> 'Approved');
+
+CREATE POLICY "Admin and staff can view stock take lines"
+ON public.stock_take_lines FOR SELECT TO authenticated
+USING (can_write(auth.uid()));
+
+CREATE TRIGGER check_stock_take_line_quantity
+  BEFORE INSERT OR UPDATE OF counted_qty ON public.stock_take_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_quantity_precision('counted_qty');
+
+-- A product can only be on one open session per location, otherwise approving both would
+-- correct the same variance twice
+CREATE OR REPLACE FUNCTION public.start_stock_take(
+  _location_id UUID,
+  _category_id UUID DEFAULT NULL,
+  _supplier_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  take_id UUID;
+  clash TEXT;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to start stock takes' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT t.stock_take_number INTO clash
+  FROM public.stock_takes t
+  JOIN public.stock_take_lines l ON l.stock_take_id = t.id
+  JOIN public.products p ON p.id = l.product_id
+  WHERE t.location_id = _location_id
+    AND t.status = 'Counting'
+    AND (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_supplier_id IS NULL OR p.supplier_id = _supplier_id)
+  LIMIT 1;
+
+  IF clash IS NOT NULL THEN
+    RAISE EXCEPTION 'Stock take % is still counting some of these products; approve or cancel it first', clash
+      USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_takes (location_id, category_id, supplier_id, notes)
+  VALUES (_location_id, _category_id, _supplier_id, NULLIF(trim(_notes), ''))
+  RETURNING id INTO take_id;
+
+  INSERT INTO public.stock_take_lines (stock_take_id, product_id, expected_qty)
+  SELECT take_id, p.id, COALESCE(pl.stock_qty, 0)
+  FROM public.products p
+  LEFT JOIN public.product_locations pl ON pl.product_id = p.id AND pl.location_id = _location_id
+  WHERE (_category_id IS NULL OR p.category_id = _category_id)
+    AND (_supplier_id IS NULL OR p.supplier_id = _supplier_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No products match this stock take' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN take_id;
+END;
+$$;
+
+-- Record (or clear, with NULL) the counted quantity for one line
+CREATE OR REPLACE FUNCTION public.record_stock_count(_line_id UUID, _counted_qty NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to record stock counts' USING ERRCODE = '42501';
+  END IF;
+
+  IF _counted_qty < 0 THEN
+    RAISE EXCEPTION 'Counted quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.stock_take_lines l
+    JOIN public.stock_takes t ON t.id = l.stock_take_id
+    WHERE l.id = _line_id AND t.status = 'Counting'
+  ) THEN
+    RAISE EXCEPTION 'Stock take line not found or no longer counting' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.stock_take_lines
+  SET counted_qty = _counted_qty,
+      counted_at = CASE WHEN _counted_qty IS NULL THEN NULL ELSE now() END,
+      counted_by = CASE WHEN _counted_qty IS NULL THEN NULL ELSE auth.uid() END
+  WHERE id = _line_id;
+END;
+$$;
+
+-- Post the variances as ADJUST movements at the session's location. Variance is counted
+-- minus expected and is applied to the balance held at approval, so movements recorded
+-- while counting was in progress are kept.
+-- Uncounted lines are left alone. Returns the number of movements posted.
+CREATE OR REPLACE FUNCTION public.approve_stock_take(_stock_take_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  take public.stock_takes%ROWTYPE;
+  line RECORD;
+  movement_id UUID;
+  posted INTEGER := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can approve stock takes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO take FROM public.stock_takes WHERE id = _stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF take.status <> 'Counting' THEN
+    RAISE EXCEPTION 'This stock take is already %', take.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_take_id = _stock_take_id AND counted_qty IS NOT NULL) THEN
+    RAISE EXCEPTION 'No products have been counted yet' USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN
+    SELECT id, product_id, counted_qty - expected_qty AS variance
+    FROM public.stock_take_lines
+    WHERE stock_take_id = _stock_take_id
+      AND counted_qty IS NOT NULL
+      AND counted_qty <> expected_qty
+    ORDER BY id
+  LOOP
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id)
+    VALUES (line.product_id, 'ADJUST', line.variance, take.stock_take_number, 'Stock take variance', take.location_id)
+    RETURNING id INTO movement_id;
+
+    UPDATE public.stock_take_lines SET stock_movement_id = movement_id WHERE id = line.id;
+    posted := posted + 1;
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET status = 'Approved', approved_at = now(), approved_by = auth.uid()
+  WHERE id = _stock_take_id;
+
+  RETURN posted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_stock_take(uuid, uuid, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_stock_take(uuid, uuid, uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_stock_count(uuid, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_stock_count(uuid, numeric) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.approve_stock_take(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.approve_stock_take(uuid) TO authenticated;
@@ -0,0 +1,252 @@
+-- Damages, customer returns and supplier returns get their own movement types, and every
+-- movement of a type that has reason codes must say which reason applies.
+
+CREATE TABLE public.movement_reasons (
+  code TEXT PRIMARY KEY,
+  movement_type TEXT NOT NULL,
+  label TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.movement_reasons (code, movement_type, label, sort_order) VALUES
+  ('COUNT_CORRECTION', 'ADJUST', 'Count correction', 1),
+  ('RECONCILIATION', 'ADJUST', 'Ledger reconciliation', 2),
+  ('STOCK_TAKE', 'ADJUST', 'Stock take variance', 3),
+  ('DAMAGED_IN_STORE', 'DAMAGE', 'Damaged in store', 1),
+  ('DAMAGED_IN_TRANSIT', 'DAMAGE', 'Damaged in transit', 2),
+  ('DETERIORATED', 'DAMAGE', 'Rusted / deteriorated', 3),
+  ('LOST', 'DAMAGE', 'Lost or stolen', 4),
+  ('UNUSED', 'RETURN_IN', 'Customer returned unused', 1),
+  ('WRONG_ITEM_SUPPLIED', 'RETURN_IN', 'Wrong item supplied to customer', 2),
+  ('WARRANTY', 'RETURN_IN', 'Faulty, returned under warranty', 3),
+  ('DEFECTIVE', 'RETURN_OUT', 'Defective, returned to supplier', 1),
+  ('EXCESS_SUPPLY', 'RETURN_OUT', 'Excess or wrong supply', 2),
+  ('WARRANTY_CLAIM', 'RETURN_OUT', 'Sent for warranty claim', 3);
+
+ALTER TABLE public.movement_reasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view movement reasons"
+ON public.movement_reasons FOR SELECT TO authenticated
+USING (auth.uid() IS NOT NULL);
+
+ALTER TABLE public.stock_movements
+ADD COLUMN reason_code TEXT REFERENCES public.movement_reasons(code) ON UPDATE CASCADE;
+
+UPDATE public.stock_movements
+SET reason_code = CASE
+  WHEN reference = 'RECONCILIATION' THEN 'RECONCILIATION'
+  WHEN reference LIKE 'ST-%' THEN 'STOCK_TAKE'
+  ELSE 'COUNT_CORRECTION'
+END
+WHERE movement_type = 'ADJUST';
+
+CREATE INDEX idx_stock_movements_type_date ON public.stock_movements (movement_type, movement_date);
+
+ALTER TABLE public.stock_movements DROP CONSTRAINT IF EXISTS stock_movements_movement_type_check;
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_movement_type_check
+CHECK (movement_type IN (
+  'IN', 'OUT', 'ADJUST', 'DAMAGE', 'RETURN_IN', 'RETURN_OUT', 'TRANSFER', 'PROJECT_ISSUE', 'PROJECT_RETURN', 'OPENING'
+));
+
+-- RETURN_IN is stock coming back from a customer, RETURN_OUT stock going back to a supplier
+CREATE OR REPLACE FUNCTION public.movement_sign(_movement_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _movement_type
+    WHEN 'IN' THEN 1
+    WHEN 'OUT' THEN -1
+    WHEN 'ADJUST' THEN 1
+    WHEN 'DAMAGE' THEN -1
+    WHEN 'RETURN_IN' THEN 1
+    WHEN 'RETURN_OUT' THEN -1
+    WHEN 'PROJECT_ISSUE' THEN -1
+    WHEN 'PROJECT_RETURN' THEN 1
+    WHEN 'TRANSFER' THEN 0
+    WHEN 'OPENING' THEN 1
+    ELSE 0
+  END
+$$;
+
+-- A reason is required for any movement type that has reason codes, and must be one of
+-- that type's codes
+CREATE OR REPLACE FUNCTION public.validate_movement_reason()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reason_code IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.movement_reasons WHERE movement_type = NEW.movement_type) THEN
+      RAISE EXCEPTION 'A reason is required for % movements', NEW.movement_type USING ERRCODE = '22023';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.movement_reasons WHERE code = NEW.reason_code AND movement_type = NEW.movement_type
+  ) THEN
+    RAISE EXCEPTION 'Reason % does not apply to % movements', NEW.reason_code, NEW.movement_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_movement_reason
+  BEFORE INSERT OR UPDATE OF movement_type, reason_code ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_movement_reason();
+
+COMMENT ON FUNCTION public.validate_movement_reason() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read movement reason codes for the movement being written.
+Only called via trigger on stock_movements.
+Never expose as RPC endpoint.';
+
+-- Same as before, tagging the movement with the RECONCILIATION reason
+CREATE OR REPLACE FUNCTION public.post_stock_adjustment(
+  _product_id UUID,
+  _actual_qty NUMERIC,
+  _reason TEXT,
+  _location_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement_id UUID;
+  change NUMERIC;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _actual_qty IS NULL OR _actual_qty < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with concurrent movements for this product
+  PERFORM 1 FROM public.products WHERE id = _product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _location_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _actual_qty <> round(_actual_qty, public.unit_decimal_places((SELECT unit FROM public.products WHERE id = _product_id))) THEN
+    RAISE EXCEPTION 'Quantity has more decimal places than the product unit allows' USING ERRCODE = '22023';
+  END IF;
+
+  change := _actual_qty - CASE
+    WHEN _location_id IS NULL THEN (SELECT stock_qty FROM public.products WHERE id = _product_id)
+    ELSE COALESCE((SELECT stock_qty FROM public.product_locations
+                   WHERE product_id = _product_id AND location_id = _location_id), 0)
+  END;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id, reason_code)
+  VALUES (_product_id, 'ADJUST', change, 'RECONCILIATION', left(trim(_reason), 500), _location_id, 'RECONCILIATION')
+  RETURNING id INTO movement_id;
+
+  RETURN movement_id;
+END;
+$$;
+
+-- Same as before, tagging each adjustment with the STOCK_TAKE reason
+CREATE OR REPLACE FUNCTION public.approve_stock_take(_stock_take_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  take public.stock_takes%ROWTYPE;
+  line RECORD;
+  movement_id UUID;
+  posted INTEGER := 0;
+BEGIN
+  IF NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can approve stock takes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO take FROM public.stock_takes WHERE id = _stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF take.status <> 'Counting' THEN
+    RAISE EXCEPTION 'This stock take is already %', take.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_take_id = _stock_take_id AND counted_qty IS NOT NULL) THEN
+    RAISE EXCEPTION 'No products have been counted yet' USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN
+    SELECT id, product_id, counted_qty - expected_qty AS variance
+    FROM public.stock_take_lines
+    WHERE stock_take_id = _stock_take_id
+      AND counted_qty IS NOT NULL
+      AND counted_qty <> expected_qty
+    ORDER BY id
+  LOOP
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id, reason_code)
+    VALUES (line.product_id, 'ADJUST', line.variance, take.stock_take_number, 'Stock take variance', take.location_id, 'STOCK_TAKE')
+    RETURNING id INTO movement_id;
+
+    UPDATE public.stock_take_lines SET stock_movement_id = movement_id WHERE id = line.id;
+    posted := posted + 1;
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET status = 'Approved', approved_at = now(), approved_by = auth.uid()
+  WHERE id = _stock_take_id;
+
+  RETURN posted;
+END;
+$$;
+
+-- Movements between two dates grouped by type and reason. quantity is in each product's
+-- base unit; an ADJUST quantity is the signed change its count made, so the ADJUST rows
+-- are the net gain or loss. value is at the movement's cost where it has one and the
+-- product's purchase price otherwise.
+CREATE OR REPLACE FUNCTION public.get_movement_summary(_from DATE, _to DATE)
+RETURNS TABLE (
+  movement_type TEXT,
+  reason_code TEXT,
+  movement_count BIGINT,
+  product_count BIGINT,
+  quantity NUMERIC,
+  value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    m.movement_type,
+    m.reason_code,
+    COUNT(*),
+    COUNT(DISTINCT m.product_id),
+    SUM(m.quantity),
+    round(SUM(m.quantity * COALESCE(m.unit_cost, p.purchase_price)), 2)
+  FROM public.stock_movements m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_date >= _from
+    AND m.movement_date < _to + 1
+  GROUP BY m.movement_type, m.reason_code
+  ORDER BY m.movement_type, m.reason_code
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_movement_reason() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_movement_summary(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_movement_summary(date, date) TO authenticated;
@@ -0,0 +1,168 @@
+-- Stock movements are immutable once posted. Stock only follows movements on insert, so
+-- editing or deleting one left products.stock_qty wrong. A mistake is now undone with
+-- reverse_stock_movement, which posts the same movement with the quantity negated and
+-- links it to the original; the corrected movement is then posted as a new one.
+
+DROP POLICY IF EXISTS "Admin and staff can update stock movements" ON public.stock_movements;
+DROP POLICY IF EXISTS "Only admins can delete stock movements" ON public.stock_movements;
+
+ALTER TABLE public.stock_movements
+ADD COLUMN reversal_of UUID UNIQUE REFERENCES public.stock_movements(id);
+
+-- Only ADJUST quantities and reversals are negative. Existing rows are not rechecked.
+ALTER TABLE public.stock_movements
+ADD CONSTRAINT stock_movements_quantity_check
+CHECK (quantity > 0 OR movement_type = 'ADJUST' OR reversal_of IS NOT NULL) NOT VALID;
+
+-- Reversals are posted only through reverse_stock_movement
+DROP POLICY IF EXISTS "Admin and staff can insert stock movements" ON public.stock_movements;
+CREATE POLICY "Admin and staff can insert stock movements"
+ON public.stock_movements FOR INSERT TO authenticated
+WITH CHECK (can_write(auth.uid()) AND movement_type <> 'OPENING' AND (movement_type <> 'ADJUST' OR is_admin(auth.uid())) AND reversal_of IS NULL);
+
+-- Guards the columns stock is derived from, including for SECURITY DEFINER functions.
+-- Links such as requirement_id can still be cleared when the linked row is deleted.
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements cannot be changed or deleted; reverse the movement instead'
+    USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER prevent_stock_movement_update
+  BEFORE UPDATE OF product_id, movement_type, quantity, location_id, to_location_id, entered_qty, entered_unit, reversal_of
+  ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_stock_movement_change();
+
+CREATE TRIGGER prevent_stock_movement_delete
+  BEFORE DELETE ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_stock_movement_change();
+
+-- A reversed transfer has a negative quantity and gives stock back from to_location_id, so
+-- the location that stock leaves depends on the sign
+CREATE OR REPLACE FUNCTION public.validate_transfer_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source_location UUID;
+  available NUMERIC;
+BEGIN
+  IF NEW.quantity = 0 OR (NEW.quantity < 0 AND NEW.reversal_of IS NULL) THEN
+    RAISE EXCEPTION 'Transfer quantity must be greater than 0' USING ERRCODE = '22023';
+  END IF;
+
+  source_location := CASE WHEN NEW.quantity > 0 THEN NEW.location_id ELSE NEW.to_location_id END;
+
+  SELECT stock_qty INTO available
+  FROM public.product_locations
+  WHERE product_id = NEW.product_id AND location_id = source_location
+  FOR UPDATE;
+
+  IF abs(NEW.quantity) > COALESCE(available, 0) THEN
+    RAISE EXCEPTION 'Cannot transfer %; only % held at %', abs(NEW.quantity), COALESCE(available, 0),
+      (SELECT name FROM public.locations WHERE id = source_location)
+      USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Movements posted by a document (goods receipt, sales invoice, quotation issue, job card,
+-- stock take, project or received requirement) are corrected from that document instead.
+-- An ADJUST quantity is the change its count made, so reversing one restores the balance
+-- from before the adjustment.
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.stock_movements%ROWTYPE;
+  held NUMERIC;
+  change NUMERIC;
+  reversal_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to reverse stock movements' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a movement' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO original FROM public.stock_movements WHERE id = _movement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock movement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF original.movement_type = 'ADJUST' AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can reverse stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF original.movement_type = 'OPENING' THEN
+    RAISE EXCEPTION 'An opening balance cannot be reversed; post a stock adjustment instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF original.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'This movement is itself a reversal; post the movement again instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversal_of = _movement_id) THEN
+    RAISE EXCEPTION 'This movement has already been reversed' USING ERRCODE = '22023';
+  END IF;
+
+  IF original.project_id IS NOT NULL
+     OR original.requirement_id IS NOT NULL
+     OR EXISTS (SELECT 1 FROM public.goods_receipt_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.sales_invoice_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.quotation_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.job_card_parts WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'This movement was posted by % and must be corrected there', COALESCE(original.reference, 'a document')
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reversing stock that came in must not take the location below zero
+  IF original.movement_type <> 'TRANSFER' THEN
+    change := -public.movement_sign(original.movement_type) * original.quantity;
+    SELECT stock_qty INTO held
+    FROM public.product_locations
+    WHERE product_id = original.product_id AND location_id = original.location_id
+    FOR UPDATE;
+
+    IF change < 0 AND COALESCE(held, 0) + change < 0 THEN
+      RAISE EXCEPTION 'Cannot reverse; only % left at %', COALESCE(held, 0),
+        (SELECT name FROM public.locations WHERE id = original.location_id)
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes,
+    location_id, to_location_id, customer_id, unit_cost, reason_code, reversal_of
+  )
+  VALUES (
+    original.product_id, original.movement_type, -original.quantity, -original.entered_qty, original.entered_unit,
+    original.reference, left('Reversal: ' || trim(_reason), 500),
+    original.location_id, original.to_location_id, original.customer_id, original.unit_cost, original.reason_code, original.id
+  )
+  RETURNING id INTO reversal_id;
+
+  RETURN reversal_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prevent_stock_movement_change() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_stock_movement(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reverse_stock_movement(uuid, text) TO authenticated;
@@ -0,0 +1,162 @@
+-- Stock can no longer be taken below zero at a location. The check used to run in the
+-- browser between reading stock_qty and inserting the movement, so two people issuing the
+-- same item at once could both pass it. It now runs in the insert itself with the product
+-- row locked. Products an admin marks allow_negative_stock can still be issued on backorder.
+
+ALTER TABLE public.products
+ADD COLUMN allow_negative_stock BOOLEAN NOT NULL DEFAULT false;
+
+-- Staff can edit products but only admins can allow negative stock
+CREATE OR REPLACE FUNCTION public.guard_allow_negative_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.allow_negative_stock IS DISTINCT FROM (CASE WHEN TG_OP = 'INSERT' THEN false ELSE OLD.allow_negative_stock END)
+     AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can change whether a product allows negative stock' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_allow_negative_stock
+  BEFORE INSERT OR UPDATE OF allow_negative_stock ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_allow_negative_stock();
+
+COMMENT ON FUNCTION public.guard_allow_negative_stock() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to check the role of the user writing the product.
+Only called via trigger on products table when allow_negative_stock is written.
+Never expose as RPC endpoint.';
+
+-- Any movement that takes stock out of a location (OUT, DAMAGE, RETURN_OUT, PROJECT_ISSUE
+-- and reversals of stock that came in) must find it there. Locking the product row first
+-- makes concurrent movements of the same product wait for each other, in the same order as
+-- post_stock_adjustment. Transfers are checked by validate_transfer_movement and ADJUST
+-- sets stock to a count, so neither is checked here. Fails with 23514 (check_violation),
+-- which the app shows as a stock shortage rather than a generic error.
+CREATE OR REPLACE FUNCTION public.validate_stock_available()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prod public.products%ROWTYPE;
+  change NUMERIC;
+  held NUMERIC;
+BEGIN
+  change := public.movement_sign(NEW.movement_type) * NEW.quantity;
+  IF change >= 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO prod FROM public.products WHERE id = NEW.product_id FOR UPDATE;
+  IF NOT FOUND OR prod.allow_negative_stock THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT stock_qty INTO held
+  FROM public.product_locations
+  WHERE product_id = NEW.product_id AND location_id = NEW.location_id
+  FOR UPDATE;
+
+  IF COALESCE(held, 0) + change < 0 THEN
+    RAISE EXCEPTION 'Not enough stock of %: % % needed, only % held at %',
+      prod.name, -change, prod.unit, COALESCE(held, 0),
+      (SELECT name FROM public.locations WHERE id = NEW.location_id)
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_stock_available
+  BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW
+  WHEN (NEW.movement_type NOT IN ('ADJUST', 'TRANSFER'))
+  EXECUTE FUNCTION public.validate_stock_available();
+
+COMMENT ON FUNCTION public.validate_stock_available() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to read and lock the product and location balance for the movement being written.
+Only called via trigger on stock_movements.
+Never expose as RPC endpoint.';
+
+-- Same as before, except what is in stock is read at the default location the OUT
+-- movements are posted from, so a quotation converts even when some of the stock is held
+-- elsewhere. Products that allow negative stock are issued in full.
+CREATE OR REPLACE FUNCTION public.convert_quotation(_quotation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote public.quotations%ROWTYPE;
+  line public.quotation_lines%ROWTYPE;
+  needed NUMERIC;
+  available NUMERIC;
+  issued NUMERIC;
+  movement_id UUID;
+  req_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to convert quotations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO quote FROM public.quotations WHERE id = _quotation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF quote.status <> 'Accepted' THEN
+    RAISE EXCEPTION 'Only accepted quotations can be converted (this one is %)', quote.status USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN SELECT * FROM public.quotation_lines WHERE quotation_id = _quotation_id ORDER BY created_at LOOP
+    needed := line.quantity * public.unit_factor(line.product_id, line.unit);
+    IF needed IS NULL THEN
+      RAISE EXCEPTION 'Unit % is no longer defined for %', line.unit, line.description USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT allow_negative_stock FROM public.products WHERE id = line.product_id FOR UPDATE) THEN
+      available := needed;
+    ELSE
+      SELECT GREATEST(COALESCE(MAX(stock_qty), 0), 0) INTO available
+      FROM public.product_locations
+      WHERE product_id = line.product_id AND location_id = public.default_location_id();
+    END IF;
+
+    issued := LEAST(needed, available);
+    movement_id := NULL;
+    req_id := NULL;
+
+    IF issued > 0 THEN
+      INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, customer_id)
+      VALUES (line.product_id, 'OUT', issued, quote.quotation_number, 'Issued against quotation for ' || quote.customer_name, quote.customer_id)
+      RETURNING id INTO movement_id;
+    END IF;
+
+    IF needed > issued THEN
+      INSERT INTO public.requirements (product_id, needed_qty, priority, notes)
+      VALUES (line.product_id, needed - issued, 'High', 'Shortfall for ' || quote.quotation_number || ' (' || quote.customer_name || ')')
+      RETURNING id INTO req_id;
+    END IF;
+
+    UPDATE public.quotation_lines
+    SET issued_qty = issued, stock_movement_id = movement_id, requirement_id = req_id
+    WHERE id = line.id;
+  END LOOP;
+
+  UPDATE public.quotations
+  SET status = 'Converted', converted_at = now()
+  WHERE id = _quotation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.guard_allow_negative_stock() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.validate_stock_available() FROM PUBLIC, anon, authenticated;
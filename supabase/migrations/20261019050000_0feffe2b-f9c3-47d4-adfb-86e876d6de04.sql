@@ -0,0 +1,112 @@
+-- Who changed what: every insert, update and delete on the inventory tables and on
+-- user_roles is written to audit_log with the row before and after the change.
+
+ALTER TABLE public.stock_movements
+ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+CREATE TABLE public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  -- Name of the row, its product, or the user and role, so deleted rows can still be found
+  record_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  old_data JSONB,
+  new_data JSONB,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_audit_log_changed_at ON public.audit_log (changed_at DESC);
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, changed_at DESC);
+CREATE INDEX idx_audit_log_changed_by ON public.audit_log (changed_by, changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Written only by log_audit; nobody can edit or delete entries
+CREATE POLICY "Only admins can view audit log"
+ON public.audit_log FOR SELECT TO authenticated
+USING (is_admin(auth.uid()));
+
+-- Trigger arguments name columns to ignore, e.g. products.stock_qty, which every stock
+-- movement updates and which is already audited through stock_movements. An update that
+-- only touches ignored columns is not logged.
+CREATE OR REPLACE FUNCTION public.log_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  row_data JSONB;
+  label TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (old_row - TG_ARGV) = (new_row - TG_ARGV) THEN
+    RETURN NULL;
+  END IF;
+
+  row_data := COALESCE(new_row, old_row);
+  label := CASE TG_TABLE_NAME
+    WHEN 'user_roles' THEN
+      COALESCE((SELECT email FROM auth.users WHERE id = (row_data ->> 'user_id')::UUID), row_data ->> 'user_id')
+      || ' (' || (row_data ->> 'role') || ')'
+    ELSE COALESCE(row_data ->> 'name', (SELECT name FROM public.products WHERE id = (row_data ->> 'product_id')::UUID))
+  END;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, record_label, action, old_data, new_data, changed_by, changed_by_email
+  )
+  VALUES (
+    TG_TABLE_NAME, (row_data ->> 'id')::UUID, label, TG_OP, old_row, new_row, auth.uid(), auth.jwt() ->> 'email'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_products
+  AFTER INSERT OR UPDATE OR DELETE ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit('stock_qty');
+
+CREATE TRIGGER audit_stock_movements
+  AFTER INSERT OR UPDATE OR DELETE ON public.stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_requirements
+  AFTER INSERT OR UPDATE OR DELETE ON public.requirements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_categories
+  AFTER INSERT OR UPDATE OR DELETE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_suppliers
+  AFTER INSERT OR UPDATE OR DELETE ON public.suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_user_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+COMMENT ON FUNCTION public.log_audit() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to write audit_log rows.
+Only called via triggers on products, stock_movements, requirements, categories, suppliers and user_roles.
+Bypasses RLS because users have no INSERT policy on audit_log - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.log_audit() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,53 @@
+-- Viewers cannot select products or suppliers (both are limited to can_write), so they had
+-- nothing to look at. get_catalog gives any user with a role the sellable side of the
+-- product list: no purchase price, supplier or anything derived from them. _search matches
+-- the name or product code; callers page and filter the result like a table (.range(), .eq()).
+CREATE OR REPLACE FUNCTION public.get_catalog(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  product_id TEXT,
+  name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  unit TEXT,
+  mrp_price NUMERIC,
+  selling_price NUMERIC,
+  stock_qty NUMERIC,
+  availability TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.product_id,
+    p.name,
+    p.category_id,
+    c.name,
+    p.unit,
+    p.mrp_price,
+    p.selling_price,
+    GREATEST(p.stock_qty, 0),
+    CASE
+      WHEN p.stock_qty <= 0 AND p.allow_negative_stock THEN 'On Order'
+      WHEN p.stock_qty <= 0 THEN 'Out of Stock'
+      WHEN p.stock_qty < p.min_stock_level THEN 'Low Stock'
+      ELSE 'In Stock'
+    END
+  FROM public.products p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  -- % and _ in the search match themselves, not any text
+  CROSS JOIN (SELECT '%' || regexp_replace(COALESCE(_search, ''), '([\\%_])', '\\\1', 'g') || '%' AS pattern) s
+  WHERE EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid())
+    AND (p.name ILIKE s.pattern OR p.product_id ILIKE s.pattern)
+  ORDER BY p.name, p.id
+$$;
+
+COMMENT ON FUNCTION public.get_catalog(text) IS
+'SECURITY NOTE: Uses SECURITY DEFINER so viewers can read products, which RLS limits to admin and staff.
+Returns only catalog columns - never add purchase_price, supplier or cost-derived columns.';
+
+REVOKE EXECUTE ON FUNCTION public.get_catalog(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_catalog(text) TO authenticated;
@@ -0,0 +1,939 @@
+-- Permission matrix. What a user may do used to follow from their role alone: can_write
+-- for admin and staff, is_admin for everything else that mattered. Each guarded action
+-- now has a permission code, the staff and viewer roles are granted permissions through
+-- role_permissions, and admins can bundle permissions into custom roles and assign those
+-- to users on top of (or instead of) a built-in role. Admins hold every permission.
+--
+-- has_permission is the single check: policies and functions call it, and the app reads
+-- the current user's permissions through my_permissions. can_write is kept as the
+-- records.edit permission so the existing policies follow the matrix unchanged.
+--
+-- reports.financial covers stock and movement value totals only. Purchase prices are part
+-- of the product record, which purchase orders, goods receipts and BOQs are priced from,
+-- so anyone who can read products (records.edit) can still read them.
+
+CREATE TABLE public.permissions (
+  code TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.permissions (code, label, description, sort_order) VALUES
+  ('records.edit', 'Edit records', 'Add and edit products, stock, documents and master data', 10),
+  ('products.edit_price', 'Edit prices', 'Change purchase, selling and MRP prices of existing products', 20),
+  ('stock.out', 'Issue stock', 'Post movements that take stock out: OUT, damage, returns to supplier and project issues', 30),
+  ('stock.adjust', 'Adjust stock', 'Post adjustments, reconcile stock and approve stock takes', 40),
+  ('import.run', 'Run imports', 'Import products from supplier price lists with Smart Import', 50),
+  ('reports.financial', 'Financial reports', 'See stock value and movement value on the dashboard and in reports', 60),
+  ('requirements.approve', 'Approve requirements', 'Mark requirements as ordered, directly or by issuing a purchase order', 70);
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view permissions"
+ON public.permissions FOR SELECT TO authenticated
+USING (true);
+
+CREATE TABLE public.custom_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE CHECK (length(trim(name)) BETWEEN 1 AND 50),
+  description TEXT CHECK (length(description) <= 200),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.custom_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view custom roles"
+ON public.custom_roles FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Only admins can insert custom roles"
+ON public.custom_roles FOR INSERT TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Only admins can update custom roles"
+ON public.custom_roles FOR UPDATE TO authenticated
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Only admins can delete custom roles"
+ON public.custom_roles FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+-- Each row grants one permission to either a built-in role or a custom role. The admin
+-- role is not listed; it always holds every permission.
+CREATE TABLE public.role_permissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  app_role public.app_role CHECK (app_role <> 'admin'),
+  custom_role_id UUID REFERENCES public.custom_roles(id) ON DELETE CASCADE,
+  permission_code TEXT NOT NULL REFERENCES public.permissions(code) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((app_role IS NULL) <> (custom_role_id IS NULL)),
+  UNIQUE (app_role, permission_code),
+  UNIQUE (custom_role_id, permission_code)
+);
+
+CREATE INDEX idx_role_permissions_permission ON public.role_permissions(permission_code);
+
+-- Staff keep everything they could do before; adjustments stay with admins
+INSERT INTO public.role_permissions (app_role, permission_code) VALUES
+  ('staff', 'records.edit'),
+  ('staff', 'products.edit_price'),
+  ('staff', 'stock.out'),
+  ('staff', 'import.run'),
+  ('staff', 'reports.financial'),
+  ('staff', 'requirements.approve');
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can view role permissions"
+ON public.role_permissions FOR SELECT TO authenticated
+USING (true);
+
+CREATE POLICY "Only admins can insert role permissions"
+ON public.role_permissions FOR INSERT TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Only admins can delete role permissions"
+ON public.role_permissions FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE TABLE public.user_custom_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  custom_role_id UUID NOT NULL REFERENCES public.custom_roles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, custom_role_id)
+);
+
+CREATE INDEX idx_user_custom_roles_role ON public.user_custom_roles(custom_role_id);
+
+ALTER TABLE public.user_custom_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own custom roles"
+ON public.user_custom_roles FOR SELECT TO authenticated
+USING (user_id = auth.uid() OR is_admin(auth.uid()));
+
+CREATE POLICY "Only admins can insert user custom roles"
+ON public.user_custom_roles FOR INSERT TO authenticated
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Only admins can delete user custom roles"
+ON public.user_custom_roles FOR DELETE TO authenticated
+USING (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin(_user_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_roles ur
+      JOIN public.role_permissions rp ON rp.app_role = ur.role
+      WHERE ur.user_id = _user_id AND rp.permission_code = _permission
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.user_custom_roles ucr
+      JOIN public.role_permissions rp ON rp.custom_role_id = ucr.custom_role_id
+      WHERE ucr.user_id = _user_id AND rp.permission_code = _permission
+    )
+$$;
+
+-- Permission codes held by the current user, for gating the app
+CREATE OR REPLACE FUNCTION public.my_permissions()
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT code
+  FROM public.permissions
+  WHERE public.has_permission(auth.uid(), code)
+  ORDER BY sort_order
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_write(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission(_user_id, 'records.edit')
+$$;
+
+-- products.edit_price. Only direct edits are checked: this function is not SECURITY
+-- DEFINER, so current_user is the API role for an edit from the app and the function
+-- owner inside postings such as post_goods_receipt, which may still update purchase_price.
+-- Sorts before on_product_tax_change, so it sees the prices as submitted.
+CREATE OR REPLACE FUNCTION public.guard_product_prices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user = 'authenticated'
+     AND (NEW.purchase_price IS DISTINCT FROM OLD.purchase_price
+       OR NEW.selling_price IS DISTINCT FROM OLD.selling_price
+       OR NEW.mrp_price IS DISTINCT FROM OLD.mrp_price
+       OR NEW.without_tax_price IS DISTINCT FROM OLD.without_tax_price)
+     AND NOT public.has_permission(auth.uid(), 'products.edit_price') THEN
+    RAISE EXCEPTION 'You do not have permission to change product prices' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_product_prices
+  BEFORE UPDATE OF purchase_price, selling_price, mrp_price, without_tax_price ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_product_prices();
+
+-- requirements.approve. Covers both a direct status change and issuing a purchase order,
+-- which moves its requirements to Ordered as the user who issued it.
+CREATE OR REPLACE FUNCTION public.guard_requirement_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_permission(auth.uid(), 'requirements.approve') THEN
+    RAISE EXCEPTION 'You do not have permission to approve requirements for ordering' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_requirement_approval
+  BEFORE UPDATE OF status ON public.requirements
+  FOR EACH ROW
+  WHEN (OLD.status = 'Open' AND NEW.status = 'Ordered')
+  EXECUTE FUNCTION public.guard_requirement_approval();
+
+-- stock.out and stock.adjust. Transfers move stock between locations rather than out.
+DROP POLICY IF EXISTS "Admin and staff can insert stock movements" ON public.stock_movements;
+CREATE POLICY "Admin and staff can insert stock movements"
+ON public.stock_movements FOR INSERT TO authenticated
+WITH CHECK (
+  can_write(auth.uid())
+  AND movement_type <> 'OPENING'
+  AND (movement_type <> 'ADJUST' OR has_permission(auth.uid(), 'stock.adjust'))
+  AND (movement_sign(movement_type) >= 0 OR has_permission(auth.uid(), 'stock.out'))
+  AND reversal_of IS NULL
+);
+
+-- Same as before, checking stock.adjust instead of the admin role
+CREATE OR REPLACE FUNCTION public.get_stock_reconciliation()
+RETURNS TABLE (
+  product_id UUID,
+  product_code TEXT,
+  name TEXT,
+  unit TEXT,
+  stock_qty NUMERIC,
+  expected_qty NUMERIC,
+  difference NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'stock.adjust') THEN
+    RAISE EXCEPTION 'You do not have permission to run stock reconciliation' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.product_id, p.name, p.unit, p.stock_qty, l.expected_qty, p.stock_qty - l.expected_qty
+  FROM public.products p
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(public.movement_sign(m.movement_type) * m.quantity), 0) AS expected_qty
+    FROM public.stock_movements m
+    WHERE m.product_id = p.id
+  ) l
+  WHERE p.stock_qty <> l.expected_qty
+  ORDER BY p.name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_stock_adjustment(
+  _product_id UUID,
+  _actual_qty NUMERIC,
+  _reason TEXT,
+  _location_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  movement_id UUID;
+  change NUMERIC;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'stock.adjust') THEN
+    RAISE EXCEPTION 'You do not have permission to post stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF _actual_qty IS NULL OR _actual_qty < 0 THEN
+    RAISE EXCEPTION 'Quantity cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialise with concurrent movements for this product
+  PERFORM 1 FROM public.products WHERE id = _product_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _location_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.locations WHERE id = _location_id) THEN
+    RAISE EXCEPTION 'Location not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _actual_qty <> round(_actual_qty, public.unit_decimal_places((SELECT unit FROM public.products WHERE id = _product_id))) THEN
+    RAISE EXCEPTION 'Quantity has more decimal places than the product unit allows' USING ERRCODE = '22023';
+  END IF;
+
+  change := _actual_qty - CASE
+    WHEN _location_id IS NULL THEN (SELECT stock_qty FROM public.products WHERE id = _product_id)
+    ELSE COALESCE((SELECT stock_qty FROM public.product_locations
+                   WHERE product_id = _product_id AND location_id = _location_id), 0)
+  END;
+
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id, reason_code)
+  VALUES (_product_id, 'ADJUST', change, 'RECONCILIATION', left(trim(_reason), 500), _location_id, 'RECONCILIATION')
+  RETURNING id INTO movement_id;
+
+  RETURN movement_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_stock_take(_stock_take_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  take public.stock_takes%ROWTYPE;
+  line RECORD;
+  movement_id UUID;
+  posted INTEGER := 0;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'stock.adjust') THEN
+    RAISE EXCEPTION 'You do not have permission to approve stock takes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO take FROM public.stock_takes WHERE id = _stock_take_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF take.status <> 'Counting' THEN
+    RAISE EXCEPTION 'This stock take is already %', take.status USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_take_id = _stock_take_id AND counted_qty IS NOT NULL) THEN
+    RAISE EXCEPTION 'No products have been counted yet' USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN
+    SELECT id, product_id, counted_qty - expected_qty AS variance
+    FROM public.stock_take_lines
+    WHERE stock_take_id = _stock_take_id
+      AND counted_qty IS NOT NULL
+      AND counted_qty <> expected_qty
+    ORDER BY id
+  LOOP
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, location_id, reason_code)
+    VALUES (line.product_id, 'ADJUST', line.variance, take.stock_take_number, 'Stock take variance', take.location_id, 'STOCK_TAKE')
+    RETURNING id INTO movement_id;
+
+    UPDATE public.stock_take_lines SET stock_movement_id = movement_id WHERE id = line.id;
+    posted := posted + 1;
+  END LOOP;
+
+  UPDATE public.stock_takes
+  SET status = 'Approved', approved_at = now(), approved_by = auth.uid()
+  WHERE id = _stock_take_id;
+
+  RETURN posted;
+END;
+$$;
+
+-- Same as before, checking stock.adjust to reverse an adjustment and stock.out to reverse
+-- stock that came in
+CREATE OR REPLACE FUNCTION public.reverse_stock_movement(_movement_id UUID, _reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original public.stock_movements%ROWTYPE;
+  held NUMERIC;
+  change NUMERIC;
+  reversal_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) THEN
+    RAISE EXCEPTION 'You do not have permission to reverse stock movements' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reverse a movement' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO original FROM public.stock_movements WHERE id = _movement_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock movement not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF original.movement_type = 'ADJUST' AND NOT public.has_permission(auth.uid(), 'stock.adjust') THEN
+    RAISE EXCEPTION 'You do not have permission to reverse stock adjustments' USING ERRCODE = '42501';
+  END IF;
+
+  IF original.movement_type <> 'ADJUST' AND public.movement_sign(original.movement_type) > 0
+     AND NOT public.has_permission(auth.uid(), 'stock.out') THEN
+    RAISE EXCEPTION 'You do not have permission to take stock out' USING ERRCODE = '42501';
+  END IF;
+
+  IF original.movement_type = 'OPENING' THEN
+    RAISE EXCEPTION 'An opening balance cannot be reversed; post a stock adjustment instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF original.reversal_of IS NOT NULL THEN
+    RAISE EXCEPTION 'This movement is itself a reversal; post the movement again instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stock_movements WHERE reversal_of = _movement_id) THEN
+    RAISE EXCEPTION 'This movement has already been reversed' USING ERRCODE = '22023';
+  END IF;
+
+  IF original.project_id IS NOT NULL
+     OR original.requirement_id IS NOT NULL
+     OR EXISTS (SELECT 1 FROM public.goods_receipt_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.sales_invoice_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.quotation_lines WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.job_card_parts WHERE stock_movement_id = _movement_id)
+     OR EXISTS (SELECT 1 FROM public.stock_take_lines WHERE stock_movement_id = _movement_id) THEN
+    RAISE EXCEPTION 'This movement was posted by % and must be corrected there', COALESCE(original.reference, 'a document')
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- Reversing stock that came in must not take the location below zero
+  IF original.movement_type <> 'TRANSFER' THEN
+    change := -public.movement_sign(original.movement_type) * original.quantity;
+    SELECT stock_qty INTO held
+    FROM public.product_locations
+    WHERE product_id = original.product_id AND location_id = original.location_id
+    FOR UPDATE;
+
+    IF change < 0 AND COALESCE(held, 0) + change < 0 THEN
+      RAISE EXCEPTION 'Cannot reverse; only % left at %', COALESCE(held, 0),
+        (SELECT name FROM public.locations WHERE id = original.location_id)
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes,
+    location_id, to_location_id, customer_id, unit_cost, reason_code, reversal_of
+  )
+  VALUES (
+    original.product_id, original.movement_type, -original.quantity, -original.entered_qty, original.entered_unit,
+    original.reference, left('Reversal: ' || trim(_reason), 500),
+    original.location_id, original.to_location_id, original.customer_id, original.unit_cost, original.reason_code, original.id
+  )
+  RETURNING id INTO reversal_id;
+
+  RETURN reversal_id;
+END;
+$$;
+
+-- reports.financial. Same as before, leaving value empty for users without it.
+CREATE OR REPLACE FUNCTION public.get_movement_summary(_from DATE, _to DATE)
+RETURNS TABLE (
+  movement_type TEXT,
+  reason_code TEXT,
+  movement_count BIGINT,
+  product_count BIGINT,
+  quantity NUMERIC,
+  value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    m.movement_type,
+    m.reason_code,
+    COUNT(*),
+    COUNT(DISTINCT m.product_id),
+    SUM(m.quantity),
+    CASE WHEN public.has_permission(auth.uid(), 'reports.financial')
+      THEN round(SUM(m.quantity * COALESCE(m.unit_cost, p.purchase_price)), 2)
+    END
+  FROM public.stock_movements m
+  JOIN public.products p ON p.id = m.product_id
+  WHERE m.movement_date >= _from
+    AND m.movement_date < _to + 1
+  GROUP BY m.movement_type, m.reason_code
+  ORDER BY m.movement_type, m.reason_code
+$$;
+
+-- Same as before, also open to users who hold only custom roles
+CREATE OR REPLACE FUNCTION public.get_catalog(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  product_id TEXT,
+  name TEXT,
+  category_id UUID,
+  category_name TEXT,
+  unit TEXT,
+  mrp_price NUMERIC,
+  selling_price NUMERIC,
+  stock_qty NUMERIC,
+  availability TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.product_id,
+    p.name,
+    p.category_id,
+    c.name,
+    p.unit,
+    p.mrp_price,
+    p.selling_price,
+    GREATEST(p.stock_qty, 0),
+    CASE
+      WHEN p.stock_qty <= 0 AND p.allow_negative_stock THEN 'On Order'
+      WHEN p.stock_qty <= 0 THEN 'Out of Stock'
+      WHEN p.stock_qty < p.min_stock_level THEN 'Low Stock'
+      ELSE 'In Stock'
+    END
+  FROM public.products p
+  LEFT JOIN public.categories c ON c.id = p.category_id
+  -- % and _ in the search match themselves, not any text
+  CROSS JOIN (SELECT '%' || regexp_replace(COALESCE(_search, ''), '([\\%_])', '\\\1', 'g') || '%' AS pattern) s
+  WHERE (EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM public.user_custom_roles WHERE user_id = auth.uid()))
+    AND (p.name ILIKE s.pattern OR p.product_id ILIKE s.pattern)
+  ORDER BY p.name, p.id
+$$;
+
+-- stock.out for the functions that issue stock themselves. They are SECURITY DEFINER, so
+-- the stock_movements insert policy does not see them. Same as before otherwise.
+CREATE OR REPLACE FUNCTION public.post_sales_invoice(
+  _invoice_date DATE,
+  _customer_name TEXT,
+  _customer_phone TEXT,
+  _customer_gstin TEXT,
+  _customer_address TEXT,
+  _inter_state BOOLEAN,
+  _notes TEXT,
+  _lines JSONB,
+  _payment_type TEXT DEFAULT 'Cash',
+  _customer_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invoice_id UUID;
+  invoice_no TEXT;
+  cust public.customers%ROWTYPE;
+  bill_to TEXT;
+  line JSONB;
+  prod public.products%ROWTYPE;
+  sold_unit TEXT;
+  factor NUMERIC;
+  qty NUMERIC;
+  price NUMERIC;
+  discount NUMERIC;
+  rate NUMERIC;
+  gross NUMERIC;
+  taxable NUMERIC;
+  tax NUMERIC;
+  line_cgst NUMERIC;
+  line_sgst NUMERIC;
+  line_igst NUMERIC;
+  movement_id UUID;
+  total_gross NUMERIC := 0;
+  total_taxable NUMERIC := 0;
+  total_cgst NUMERIC := 0;
+  total_sgst NUMERIC := 0;
+  total_igst NUMERIC := 0;
+  unrounded NUMERIC;
+BEGIN
+  IF NOT public.can_write(auth.uid()) OR NOT public.has_permission(auth.uid(), 'stock.out') THEN
+    RAISE EXCEPTION 'You do not have permission to post sales invoices' USING ERRCODE = '42501';
+  END IF;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT * INTO cust FROM public.customers WHERE id = _customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer not found' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF COALESCE(_payment_type, 'Cash') NOT IN ('Cash', 'Credit') THEN
+    RAISE EXCEPTION 'Payment type must be Cash or Credit' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payment_type = 'Credit' AND _customer_id IS NULL THEN
+    RAISE EXCEPTION 'Credit sales need a customer' USING ERRCODE = '22023';
+  END IF;
+
+  bill_to := COALESCE(NULLIF(trim(_customer_name), ''), cust.name);
+  IF bill_to IS NULL THEN
+    RAISE EXCEPTION 'Customer name is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF _lines IS NULL OR jsonb_array_length(_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales_invoices (
+    customer_id, payment_type, invoice_date, customer_name, customer_phone, customer_gstin, customer_address,
+    inter_state, notes, created_by
+  )
+  VALUES (
+    _customer_id, COALESCE(_payment_type, 'Cash'), COALESCE(_invoice_date, CURRENT_DATE), bill_to,
+    COALESCE(NULLIF(trim(_customer_phone), ''), cust.phone),
+    COALESCE(NULLIF(upper(trim(_customer_gstin)), ''), cust.gstin),
+    COALESCE(NULLIF(trim(_customer_address), ''), cust.address),
+    COALESCE(_inter_state, false), NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING id, invoice_number INTO invoice_id, invoice_no;
+
+  FOR line IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    SELECT * INTO prod FROM public.products WHERE id = (line ->> 'product_id')::UUID;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    sold_unit := COALESCE(NULLIF(line ->> 'unit', ''), prod.unit);
+    factor := public.unit_factor(prod.id, sold_unit);
+    IF factor IS NULL THEN
+      RAISE EXCEPTION 'Unit % is not defined for %', sold_unit, prod.name USING ERRCODE = '22023';
+    END IF;
+
+    qty := (line ->> 'quantity')::NUMERIC;
+    IF qty IS NULL OR qty <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than zero', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    price := round(COALESCE((line ->> 'unit_price')::NUMERIC, prod.selling_price * factor), 2);
+    discount := COALESCE((line ->> 'discount_percent')::NUMERIC, 0);
+    IF price < 0 OR discount < 0 OR discount > 100 THEN
+      RAISE EXCEPTION 'Invalid price or discount for %', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+    IF rate IS NULL THEN
+      RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+    END IF;
+
+    gross := round(qty * price, 2);
+    taxable := gross - round(gross * discount / 100, 2);
+    tax := round(taxable * rate / 100, 2);
+    IF COALESCE(_inter_state, false) THEN
+      line_cgst := 0;
+      line_sgst := 0;
+      line_igst := tax;
+    ELSE
+      line_cgst := round(tax / 2, 2);
+      line_sgst := tax - line_cgst;
+      line_igst := 0;
+    END IF;
+
+    -- apply_stock_movement_unit converts the sold quantity to the base unit
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes, customer_id)
+    VALUES (prod.id, 'OUT', qty * factor, qty, sold_unit, invoice_no, 'Sold to ' || bill_to, _customer_id)
+    RETURNING id INTO movement_id;
+
+    INSERT INTO public.sales_invoice_lines (
+      sales_invoice_id, product_id, stock_movement_id, description, hsn_code,
+      quantity, unit, unit_price, discount_percent, gst_rate,
+      taxable_value, cgst, sgst, igst, line_total
+    )
+    VALUES (
+      invoice_id, prod.id, movement_id, prod.name,
+      COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+      qty, sold_unit, price, discount, rate,
+      taxable, line_cgst, line_sgst, line_igst, taxable + tax
+    );
+
+    total_gross := total_gross + gross;
+    total_taxable := total_taxable + taxable;
+    total_cgst := total_cgst + line_cgst;
+    total_sgst := total_sgst + line_sgst;
+    total_igst := total_igst + line_igst;
+  END LOOP;
+
+  unrounded := total_taxable + total_cgst + total_sgst + total_igst;
+
+  IF _payment_type = 'Credit' AND cust.credit_limit > 0
+    AND public.customer_outstanding(_customer_id) + round(unrounded) > cust.credit_limit THEN
+    RAISE EXCEPTION 'Credit limit of % exceeded for %', cust.credit_limit, cust.name USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales_invoices
+  SET subtotal = total_gross,
+      discount_total = total_gross - total_taxable,
+      taxable_total = total_taxable,
+      cgst_total = total_cgst,
+      sgst_total = total_sgst,
+      igst_total = total_igst,
+      round_off = round(unrounded) - unrounded,
+      grand_total = round(unrounded)
+  WHERE id = invoice_id;
+
+  RETURN invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.convert_quotation(_quotation_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  quote public.quotations%ROWTYPE;
+  line public.quotation_lines%ROWTYPE;
+  needed NUMERIC;
+  available NUMERIC;
+  issued NUMERIC;
+  movement_id UUID;
+  req_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) OR NOT public.has_permission(auth.uid(), 'stock.out') THEN
+    RAISE EXCEPTION 'You do not have permission to convert quotations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO quote FROM public.quotations WHERE id = _quotation_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quotation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF quote.status <> 'Accepted' THEN
+    RAISE EXCEPTION 'Only accepted quotations can be converted (this one is %)', quote.status USING ERRCODE = '22023';
+  END IF;
+
+  FOR line IN SELECT * FROM public.quotation_lines WHERE quotation_id = _quotation_id ORDER BY created_at LOOP
+    needed := line.quantity * public.unit_factor(line.product_id, line.unit);
+    IF needed IS NULL THEN
+      RAISE EXCEPTION 'Unit % is no longer defined for %', line.unit, line.description USING ERRCODE = '22023';
+    END IF;
+
+    IF (SELECT allow_negative_stock FROM public.products WHERE id = line.product_id FOR UPDATE) THEN
+      available := needed;
+    ELSE
+      SELECT GREATEST(COALESCE(MAX(stock_qty), 0), 0) INTO available
+      FROM public.product_locations
+      WHERE product_id = line.product_id AND location_id = public.default_location_id();
+    END IF;
+
+    issued := LEAST(needed, available);
+    movement_id := NULL;
+    req_id := NULL;
+
+    IF issued > 0 THEN
+      INSERT INTO public.stock_movements (product_id, movement_type, quantity, reference, notes, customer_id)
+      VALUES (line.product_id, 'OUT', issued, quote.quotation_number, 'Issued against quotation for ' || quote.customer_name, quote.customer_id)
+      RETURNING id INTO movement_id;
+    END IF;
+
+    IF needed > issued THEN
+      INSERT INTO public.requirements (product_id, needed_qty, priority, notes)
+      VALUES (line.product_id, needed - issued, 'High', 'Shortfall for ' || quote.quotation_number || ' (' || quote.customer_name || ')')
+      RETURNING id INTO req_id;
+    END IF;
+
+    UPDATE public.quotation_lines
+    SET issued_qty = issued, stock_movement_id = movement_id, requirement_id = req_id
+    WHERE id = line.id;
+  END LOOP;
+
+  UPDATE public.quotations
+  SET status = 'Converted', converted_at = now()
+  WHERE id = _quotation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.add_job_card_part(
+  _job_card_id UUID,
+  _product_id UUID,
+  _quantity NUMERIC,
+  _unit TEXT,
+  _unit_price NUMERIC DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.job_cards%ROWTYPE;
+  prod public.products%ROWTYPE;
+  fitted_unit TEXT;
+  factor NUMERIC;
+  price NUMERIC;
+  rate NUMERIC;
+  movement_id UUID;
+  part_id UUID;
+BEGIN
+  IF NOT public.can_write(auth.uid()) OR NOT public.has_permission(auth.uid(), 'stock.out') THEN
+    RAISE EXCEPTION 'You do not have permission to fit parts' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO job FROM public.job_cards WHERE id = _job_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Job card not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF job.status <> 'In Repair' THEN
+    RAISE EXCEPTION 'Parts can only be fitted while the job is In Repair (% is %)', job.job_number, job.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO prod FROM public.products WHERE id = _product_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  fitted_unit := COALESCE(NULLIF(_unit, ''), prod.unit);
+  factor := public.unit_factor(prod.id, fitted_unit);
+  IF factor IS NULL THEN
+    RAISE EXCEPTION 'Unit % is not defined for %', fitted_unit, prod.name USING ERRCODE = '22023';
+  END IF;
+
+  IF _quantity IS NULL OR _quantity <= 0 OR _quantity <> round(_quantity, public.unit_decimal_places(fitted_unit)) THEN
+    RAISE EXCEPTION 'Quantity % is not valid for % (%)', _quantity, prod.name, fitted_unit USING ERRCODE = '22023';
+  END IF;
+
+  price := round(COALESCE(_unit_price, prod.selling_price * factor), 2);
+  IF price < 0 THEN
+    RAISE EXCEPTION 'Invalid price for %', prod.name USING ERRCODE = '22023';
+  END IF;
+
+  rate := public.effective_gst_rate(prod.gst_rate, prod.category_id);
+  IF rate IS NULL THEN
+    RAISE EXCEPTION 'No GST rate is set for % or its category', prod.name USING ERRCODE = '22023';
+  END IF;
+
+  -- apply_stock_movement_unit converts the fitted quantity to the base unit
+  INSERT INTO public.stock_movements (product_id, movement_type, quantity, entered_qty, entered_unit, reference, notes, customer_id)
+  VALUES (prod.id, 'OUT', _quantity * factor, _quantity, fitted_unit, job.job_number,
+          'Fitted in repair for ' || job.customer_name, job.customer_id)
+  RETURNING id INTO movement_id;
+
+  INSERT INTO public.job_card_parts (
+    job_card_id, product_id, stock_movement_id, description, hsn_code, quantity, unit, unit_price, gst_rate
+  )
+  VALUES (
+    job.id, prod.id, movement_id, prod.name,
+    COALESCE(NULLIF(prod.hsn_code, ''), (SELECT NULLIF(hsn_code, '') FROM public.categories WHERE id = prod.category_id)),
+    _quantity, fitted_unit, price, rate
+  )
+  RETURNING id INTO part_id;
+
+  RETURN part_id;
+END;
+$$;
+
+-- Changes to who holds which permission are audited like user_roles
+CREATE OR REPLACE FUNCTION public.log_audit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  row_data JSONB;
+  label TEXT;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    old_row := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    new_row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (old_row - TG_ARGV) = (new_row - TG_ARGV) THEN
+    RETURN NULL;
+  END IF;
+
+  row_data := COALESCE(new_row, old_row);
+  label := CASE TG_TABLE_NAME
+    WHEN 'user_roles' THEN
+      COALESCE((SELECT email FROM auth.users WHERE id = (row_data ->> 'user_id')::UUID), row_data ->> 'user_id')
+      || ' (' || (row_data ->> 'role') || ')'
+    WHEN 'user_custom_roles' THEN
+      COALESCE((SELECT email FROM auth.users WHERE id = (row_data ->> 'user_id')::UUID), row_data ->> 'user_id')
+      || ' (' || COALESCE((SELECT name FROM public.custom_roles WHERE id = (row_data ->> 'custom_role_id')::UUID), 'deleted role') || ')'
+    WHEN 'role_permissions' THEN
+      COALESCE(row_data ->> 'app_role', (SELECT name FROM public.custom_roles WHERE id = (row_data ->> 'custom_role_id')::UUID), 'deleted role')
+      || ': ' || (row_data ->> 'permission_code')
+    ELSE COALESCE(row_data ->> 'name', (SELECT name FROM public.products WHERE id = (row_data ->> 'product_id')::UUID))
+  END;
+
+  INSERT INTO public.audit_log (
+    table_name, record_id, record_label, action, old_data, new_data, changed_by, changed_by_email
+  )
+  VALUES (
+    TG_TABLE_NAME, (row_data ->> 'id')::UUID, label, TG_OP, old_row, new_row, auth.uid(), auth.jwt() ->> 'email'
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_custom_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.custom_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_role_permissions
+  AFTER INSERT OR UPDATE OR DELETE ON public.role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+CREATE TRIGGER audit_user_custom_roles
+  AFTER INSERT OR UPDATE OR DELETE ON public.user_custom_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit();
+
+COMMENT ON FUNCTION public.log_audit() IS
+'SECURITY NOTE: Uses SECURITY DEFINER to write audit_log rows.
+Only called via triggers on products, stock_movements, requirements, categories, suppliers, user_roles,
+custom_roles, role_permissions and user_custom_roles.
+Bypasses RLS because users have no INSERT policy on audit_log - never expose as RPC endpoint.';
+
+REVOKE EXECUTE ON FUNCTION public.log_audit() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_product_prices() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_requirement_approval() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.has_permission(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_permission(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.my_permissions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.my_permissions() TO authenticated;
@@ -0,0 +1,20 @@
+-- Products, stock movements and requirements are paged, sorted and searched by the
+-- database instead of loading every row; PostgREST returns at most 1,000 rows per request,
+-- so large catalogs were silently cut off. The low stock filter needs a column to filter
+-- on, and the default sort orders get indexes.
+
+-- Same rule the products table highlights: below the product's minimum
+ALTER TABLE public.products
+ADD COLUMN is_low_stock BOOLEAN GENERATED ALWAYS AS (stock_qty < COALESCE(min_stock_level, 0)) STORED;
+
+CREATE INDEX idx_products_low_stock ON public.products (name) WHERE is_low_stock;
+CREATE INDEX idx_products_name ON public.products (name);
+CREATE INDEX idx_stock_movements_date ON public.stock_movements (movement_date);
+CREATE INDEX idx_requirements_requested_date ON public.requirements (requested_date);
+
+-- is_low_stock follows stock_qty, which is not audited on products
+DROP TRIGGER IF EXISTS audit_products ON public.products;
+CREATE TRIGGER audit_products
+  AFTER INSERT OR UPDATE OR DELETE ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_audit('stock_qty', 'is_low_stock');
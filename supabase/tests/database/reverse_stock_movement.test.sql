@@ -0,0 +1,51 @@
+-- Reversing a stock adjustment puts stock back to where it was before the count, opening
+-- balance included, and leaves the ledger agreeing with the balance.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES ('11111111-1111-1111-1111-111111111111', 'admin@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES ('11111111-1111-1111-1111-111111111111', 'admin');
+SELECT set_config('request.jwt.claim.sub', '11111111-1111-1111-1111-111111111111', true);
+
+INSERT INTO public.products (id, product_id, name, stock_qty, min_stock_level)
+VALUES ('44444444-4444-4444-4444-444444444444', 'REV-TEST-1', 'Reversal test product', 100, 0);
+
+SELECT public.post_stock_adjustment('44444444-4444-4444-4444-444444444444', 98, 'Counted 98') AS adjustment_id \gset
+
+SELECT is(
+  (SELECT quantity FROM public.stock_movements WHERE id = :'adjustment_id'),
+  -2.000::NUMERIC,
+  'the adjustment is the change the count made'
+);
+
+SELECT public.reverse_stock_movement(:'adjustment_id', 'Miscounted') AS reversal_id \gset
+
+SELECT is(
+  (SELECT quantity FROM public.stock_movements WHERE id = :'reversal_id'),
+  2.000::NUMERIC,
+  'the reversal negates the adjustment'
+);
+
+SELECT is(
+  (SELECT stock_qty FROM public.products WHERE id = '44444444-4444-4444-4444-444444444444'),
+  100.000::NUMERIC,
+  'product total is back to the opening balance'
+);
+
+SELECT is(
+  (SELECT stock_qty FROM public.product_locations
+   WHERE product_id = '44444444-4444-4444-4444-444444444444' AND location_id = public.default_location_id()),
+  100.000::NUMERIC,
+  'location balance is back to the opening balance'
+);
+
+SELECT is(
+  public.ledger_stock_qty('44444444-4444-4444-4444-444444444444'),
+  100.000::NUMERIC,
+  'the ledger agrees with the balance'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
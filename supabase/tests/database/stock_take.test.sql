@@ -0,0 +1,59 @@
+-- Approving a stock take posts each variance as an ADJUST movement for the change the count
+-- makes, so the counted location and the product total end up at the counted quantity.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email) VALUES ('11111111-1111-1111-1111-111111111111', 'admin@example.com');
+INSERT INTO public.user_roles (user_id, role) VALUES ('11111111-1111-1111-1111-111111111111', 'admin');
+SELECT set_config('request.jwt.claim.sub', '11111111-1111-1111-1111-111111111111', true);
+
+INSERT INTO public.suppliers (id, name) VALUES ('22222222-2222-2222-2222-222222222222', 'Stock Take Test Supplier');
+INSERT INTO public.products (id, product_id, name, supplier_id, stock_qty, min_stock_level)
+VALUES ('33333333-3333-3333-3333-333333333333', 'ST-TEST-1', 'Stock take test product', '22222222-2222-2222-2222-222222222222', 100, 0);
+
+SELECT public.start_stock_take(public.default_location_id(), NULL, '22222222-2222-2222-2222-222222222222') AS take_id \gset
+
+SELECT is(
+  (SELECT expected_qty FROM public.stock_take_lines WHERE stock_take_id = :'take_id'),
+  100.000::NUMERIC,
+  'expected quantity is the opening balance'
+);
+
+SELECT public.record_stock_count(
+  (SELECT id FROM public.stock_take_lines WHERE stock_take_id = :'take_id'),
+  98
+);
+
+SELECT is(public.approve_stock_take(:'take_id'), 1, 'one variance is posted');
+
+SELECT is(
+  (SELECT m.quantity FROM public.stock_movements m
+   JOIN public.stock_take_lines l ON l.stock_movement_id = m.id
+   WHERE l.stock_take_id = :'take_id' AND m.movement_type = 'ADJUST'),
+  -2.000::NUMERIC,
+  'the adjustment is the variance'
+);
+
+SELECT is(
+  (SELECT stock_qty FROM public.products WHERE id = '33333333-3333-3333-3333-333333333333'),
+  98.000::NUMERIC,
+  'product total is the counted quantity'
+);
+
+SELECT is(
+  (SELECT stock_qty FROM public.product_locations
+   WHERE product_id = '33333333-3333-3333-3333-333333333333' AND location_id = public.default_location_id()),
+  98.000::NUMERIC,
+  'location balance is the counted quantity'
+);
+
+SELECT is(
+  (SELECT status FROM public.stock_takes WHERE id = :'take_id'),
+  'Approved',
+  'stock take is approved'
+);
+
+SELECT * FROM finish();
+ROLLBACK;